@@ -15,7 +15,14 @@ import Dashboard from "./pages/admin/Dashboard";
 import Products from "./pages/admin/Products";
 import Customers from "./pages/admin/Customers";
 import Orders from "./pages/admin/Orders";
+import NewOrder from "./pages/admin/NewOrder";
+import Deliveries from "./pages/admin/Deliveries";
+import DeliveryZones from "./pages/admin/DeliveryZones";
+import Payments from "./pages/admin/Payments";
+import CashUp from "./pages/admin/CashUp";
 import Inventory from "./pages/admin/Inventory";
+import Suppliers from "./pages/admin/Suppliers";
+import PurchaseOrders from "./pages/admin/PurchaseOrders";
 import Newsletter from "./pages/admin/Newsletter";
 import Blog from "./pages/admin/Blog";
 import ContactSubscribers from "./pages/admin/ContactSubscribers";
@@ -43,7 +50,14 @@ const App = () => (
             <Route path="/admin/products" element={<ProtectedRoute><Products /></ProtectedRoute>} />
             <Route path="/admin/customers" element={<ProtectedRoute><Customers /></ProtectedRoute>} />
             <Route path="/admin/orders" element={<ProtectedRoute><Orders /></ProtectedRoute>} />
+            <Route path="/admin/orders/new" element={<ProtectedRoute><NewOrder /></ProtectedRoute>} />
+            <Route path="/admin/deliveries" element={<ProtectedRoute><Deliveries /></ProtectedRoute>} />
+            <Route path="/admin/delivery-zones" element={<ProtectedRoute><DeliveryZones /></ProtectedRoute>} />
+            <Route path="/admin/payments" element={<ProtectedRoute><Payments /></ProtectedRoute>} />
+            <Route path="/admin/cash-up" element={<ProtectedRoute><CashUp /></ProtectedRoute>} />
             <Route path="/admin/inventory" element={<ProtectedRoute><Inventory /></ProtectedRoute>} />
+            <Route path="/admin/suppliers" element={<ProtectedRoute><Suppliers /></ProtectedRoute>} />
+            <Route path="/admin/purchase-orders" element={<ProtectedRoute><PurchaseOrders /></ProtectedRoute>} />
             <Route path="/admin/analytics" element={<ProtectedRoute><ProductAnalytics /></ProtectedRoute>} />
             <Route path="/admin/newsletter" element={<ProtectedRoute><Newsletter /></ProtectedRoute>} />
             <Route path="/admin/blog" element={<ProtectedRoute><Blog /></ProtectedRoute>} />
@@ -0,0 +1,103 @@
+import React from 'react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card';
+import { ExpiringStockBatch } from '@/types';
+import { CalendarClock } from 'lucide-react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { getCategoryBadgeClasses } from '@/utils/categoryColors';
+import { formatExpiry, getDaysUntilExpiry } from '@/utils/stockMovements';
+import { format, parseISO } from 'date-fns';
+
+interface ExpiringStockAlertProps {
+  batches: ExpiringStockBatch[];
+  days: number;
+  showInventoryLink?: boolean;
+}
+
+const ExpiringStockAlert: React.FC<ExpiringStockAlertProps> = ({ batches, days, showInventoryLink }) => {
+  const getExpiryBadge = (daysLeft: number) => {
+    if (daysLeft <= 0) {
+      return <Badge variant="destructive">{formatExpiry(daysLeft)}</Badge>;
+    }
+    return (
+      <Badge variant="outline" className="bg-orange-100 text-orange-800 border-orange-200">
+        {formatExpiry(daysLeft)}
+      </Badge>
+    );
+  };
+
+  return (
+    <Card className="border-orange-200 bg-orange-50">
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg font-semibold flex items-center">
+            <CalendarClock className="h-5 w-5 text-orange-600 mr-2" />
+            Expiring Stock
+          </CardTitle>
+          {showInventoryLink && (
+            <Button asChild variant="outline" size="sm" className="bg-white">
+              <Link to="/admin/inventory">
+                View Inventory
+              </Link>
+            </Button>
+          )}
+        </div>
+        <CardDescription className="text-orange-800">
+          {batches.length} batches expired or expiring in the next {days} days
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Product</TableHead>
+              <TableHead>Category</TableHead>
+              <TableHead>Received</TableHead>
+              <TableHead>Units Left</TableHead>
+              <TableHead>Expiry</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {batches.map((batch) => (
+              <TableRow key={batch.id} className="border-orange-200">
+                <TableCell className="font-medium">{batch.product_name}</TableCell>
+                <TableCell>
+                  {batch.product_category && (
+                    <Badge variant="outline" className={getCategoryBadgeClasses(batch.product_category)}>
+                      {batch.product_category}
+                    </Badge>
+                  )}
+                </TableCell>
+                <TableCell>
+                  {format(parseISO(batch.received_at), 'MMM d')}
+                  {batch.supplier && (
+                    <div className="text-xs text-muted-foreground">{batch.supplier}</div>
+                  )}
+                </TableCell>
+                <TableCell>{batch.quantity_remaining}</TableCell>
+                <TableCell>{getExpiryBadge(getDaysUntilExpiry(batch) ?? 0)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ExpiringStockAlert;
@@ -7,7 +7,7 @@ import {
   CardHeader, 
   CardTitle 
 } from '@/components/ui/card';
-import { Product } from '@/types';
+import { ReorderLevel } from '@/types';
 import { AlertTriangle } from 'lucide-react';
 import { 
   Table, 
@@ -21,16 +21,18 @@ import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
+import { getCategoryBadgeClasses } from '@/utils/categoryColors';
 
 interface LowStockAlertProps {
-  products: Product[];
+  products: ReorderLevel[];
 }
 
 const LowStockAlert: React.FC<LowStockAlertProps> = ({ products }) => {
-  const criticalStockThreshold = 10;
+  // Half way to the reorder point or below is critical
+  const isCritical = (product: ReorderLevel) => product.stock <= product.reorder_point / 2;
 
-  const getStockStatus = (stock: number) => {
-    if (stock <= criticalStockThreshold) {
+  const getStockStatus = (product: ReorderLevel) => {
+    if (isCritical(product)) {
       return <Badge variant="destructive">Critical</Badge>;
     } else {
       return <Badge variant="outline" className="bg-yellow-100 text-yellow-800 border-yellow-200">
@@ -39,8 +41,9 @@ const LowStockAlert: React.FC<LowStockAlertProps> = ({ products }) => {
     }
   };
 
-  const getStockPercentage = (stock: number) => {
-    return Math.min(Math.max((stock / 20) * 100, 0), 100);
+  const getStockPercentage = (product: ReorderLevel) => {
+    if (product.reorder_point <= 0) return 0;
+    return Math.min(Math.max((product.stock / product.reorder_point) * 100, 0), 100);
   };
 
   return (
@@ -58,7 +61,7 @@ const LowStockAlert: React.FC<LowStockAlertProps> = ({ products }) => {
           </Button>
         </div>
         <CardDescription className="text-yellow-800">
-          {products.length} products with stock level below 20 units
+          {products.length} products at or below their reorder point
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -69,20 +72,18 @@ const LowStockAlert: React.FC<LowStockAlertProps> = ({ products }) => {
               <TableHead>Category</TableHead>
               <TableHead>Price</TableHead>
               <TableHead>Current Stock</TableHead>
+              <TableHead>Reorder Point</TableHead>
+              <TableHead>Reorder Qty</TableHead>
               <TableHead>Status</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
             {products.map((product) => (
-              <TableRow key={product.id} className="border-yellow-200">
+              <TableRow key={product.product_id} className="border-yellow-200">
                 <TableCell className="font-medium">{product.name}</TableCell>
                 <TableCell>
                   {product.category && (
-                    <Badge variant="outline" className={
-                      product.category === 'fish'
-                        ? 'bg-ocean-100 text-ocean-800 border-ocean-200'
-                        : 'bg-coral-100 text-coral-800 border-coral-200'
-                    }>
+                    <Badge variant="outline" className={getCategoryBadgeClasses(product.category)}>
                       {product.category}
                     </Badge>
                   )}
@@ -91,27 +92,36 @@ const LowStockAlert: React.FC<LowStockAlertProps> = ({ products }) => {
                 <TableCell>
                   <div className="space-y-1">
                     <div className="flex items-center justify-between text-sm">
-                      <span className={product.stock <= criticalStockThreshold ? "text-red-600 font-medium" : "text-yellow-700"}>
+                      <span className={isCritical(product) ? "text-red-600 font-medium" : "text-yellow-700"}>
                         {product.stock} units
                       </span>
                       <span className="text-xs text-muted-foreground">
-                        {getStockPercentage(product.stock).toFixed(0)}%
+                        {getStockPercentage(product).toFixed(0)}%
                       </span>
                     </div>
                     <Progress 
-                      value={getStockPercentage(product.stock)} 
-                      className={product.stock <= criticalStockThreshold 
+                      value={getStockPercentage(product)} 
+                      className={isCritical(product) 
                         ? "h-2 bg-red-100" 
                         : "h-2 bg-yellow-100"
                       } 
-                      indicatorClassName={product.stock <= criticalStockThreshold 
+                      indicatorClassName={isCritical(product) 
                         ? "bg-red-500" 
                         : "bg-yellow-500"
                       }
                     />
                   </div>
                 </TableCell>
-                <TableCell>{getStockStatus(product.stock)}</TableCell>
+                <TableCell>
+                  {product.reorder_point}
+                  {product.reorder_point_source !== 'product' && (
+                    <div className="text-xs text-muted-foreground">
+                      {product.reorder_point_source === 'category' ? 'Category default' : 'Default'}
+                    </div>
+                  )}
+                </TableCell>
+                <TableCell>{product.reorder_quantity}</TableCell>
+                <TableCell>{getStockStatus(product)}</TableCell>
               </TableRow>
             ))}
           </TableBody>
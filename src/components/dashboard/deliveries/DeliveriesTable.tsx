@@ -0,0 +1,174 @@
+import React from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Order, Rider } from '@/types';
+import { getOrderStatusColor } from '@/utils/orderStatus';
+import { DELIVERY_STATUS_LABELS, getDeliveryStatusColor } from '@/utils/deliveryStatus';
+import { formatDistanceToNow } from 'date-fns';
+
+interface DeliveriesTableProps {
+  orders: Order[];
+  riders: Rider[];
+  isUpdating?: boolean;
+  onAssignRider: (order: Order, riderId: string) => void;
+  onDispatch: (order: Order) => void;
+  onReturnToQueue: (order: Order) => void;
+  onMarkFailed: (order: Order) => void;
+  onRecordDelivery: (order: Order) => void;
+  onViewProof: (order: Order) => void;
+}
+
+const DeliveriesTable: React.FC<DeliveriesTableProps> = ({
+  orders,
+  riders,
+  isUpdating,
+  onAssignRider,
+  onDispatch,
+  onReturnToQueue,
+  onMarkFailed,
+  onRecordDelivery,
+  onViewProof,
+}) => {
+  const activeRiders = riders.filter((rider) => rider.is_active);
+  const riderNames = new Map(riders.map((rider) => [rider.id, rider.full_name]));
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Order</TableHead>
+            <TableHead>Customer</TableHead>
+            <TableHead>Delivery address</TableHead>
+            <TableHead>Payment</TableHead>
+            <TableHead>Delivery</TableHead>
+            <TableHead>Rider</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {orders.length > 0 ? (
+            orders.map((order) => {
+              const status = order.delivery_status || 'awaiting_dispatch';
+              const canChangeRider = status !== 'delivered';
+
+              return (
+                <TableRow key={order.id}>
+                  <TableCell>
+                    <div className="font-medium">{order.id.substring(0, 8)}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(order.created_at), { addSuffix: true })}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div>{order.customer?.name || 'Unknown'}</div>
+                    {order.customer?.phone && (
+                      <div className="text-xs text-muted-foreground">{order.customer.phone}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="max-w-[240px]">
+                    <div className="truncate">{order.delivery_address || order.customer?.address || 'No address'}</div>
+                    {order.delivery_distance_km != null && (
+                      <div className="text-xs text-muted-foreground">
+                        {order.delivery_distance_km} km
+                        {order.estimated_delivery_time ? ` · ~${order.estimated_delivery_time} min` : ''}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={getOrderStatusColor(order.status)}>
+                      {order.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={getDeliveryStatusColor(status)}>
+                      {DELIVERY_STATUS_LABELS[status]}
+                    </Badge>
+                    {status === 'failed' && order.delivery_notes && (
+                      <div className="mt-1 text-xs text-muted-foreground max-w-[180px]">{order.delivery_notes}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {canChangeRider ? (
+                      <Select
+                        value={order.rider_id || undefined}
+                        onValueChange={(riderId) => onAssignRider(order, riderId)}
+                        disabled={isUpdating}
+                      >
+                        <SelectTrigger className="w-[160px]">
+                          <SelectValue placeholder="Assign rider" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {activeRiders.map((rider) => (
+                            <SelectItem key={rider.id} value={rider.id}>{rider.full_name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <span>{order.rider_id ? riderNames.get(order.rider_id) || 'Unknown rider' : '—'}</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      {(status === 'awaiting_dispatch' || status === 'failed') && (
+                        <Button
+                          size="sm"
+                          onClick={() => onDispatch(order)}
+                          disabled={isUpdating || !order.rider_id}
+                          title={order.rider_id ? undefined : 'Assign a rider first'}
+                        >
+                          Dispatch
+                        </Button>
+                      )}
+                      {status === 'out_for_delivery' && (
+                        <>
+                          <Button size="sm" onClick={() => onRecordDelivery(order)} disabled={isUpdating}>
+                            Delivered
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => onMarkFailed(order)} disabled={isUpdating}>
+                            Failed
+                          </Button>
+                        </>
+                      )}
+                      {(status === 'out_for_delivery' || status === 'failed') && (
+                        <Button size="sm" variant="ghost" onClick={() => onReturnToQueue(order)} disabled={isUpdating}>
+                          Back to queue
+                        </Button>
+                      )}
+                      {status === 'delivered' && (
+                        <Button size="sm" variant="outline" onClick={() => onViewProof(order)}>
+                          View proof
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })
+          ) : (
+            <TableRow>
+              <TableCell colSpan={7} className="text-center">No deliveries found</TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default DeliveriesTable;
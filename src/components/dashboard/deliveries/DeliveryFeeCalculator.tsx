@@ -0,0 +1,116 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { DeliveryZone } from '@/types';
+import { calculateDeliveryFee, DeliveryFeeQuote, getZoneDeliveryFee } from '@/lib/deliveryZones';
+import { toast } from '@/components/ui/use-toast';
+import { Calculator, Loader2 } from 'lucide-react';
+
+interface DeliveryFeeCalculatorProps {
+  zones: DeliveryZone[];
+}
+
+// Previews what calculate_delivery_fee charges for a distance, next to the
+// fee the matching zone's rates give, so pricing changes can be checked
+// before customers see them.
+const DeliveryFeeCalculator: React.FC<DeliveryFeeCalculatorProps> = ({ zones }) => {
+  const [distance, setDistance] = React.useState('');
+  const [quote, setQuote] = React.useState<DeliveryFeeQuote | null>(null);
+  const [quotedDistance, setQuotedDistance] = React.useState<number | null>(null);
+  const [isCalculating, setIsCalculating] = React.useState(false);
+
+  const distanceKm = Number(distance);
+  const isDistanceValid = distance.trim() !== '' && Number.isFinite(distanceKm) && distanceKm >= 0;
+
+  const matchingZone = quotedDistance === null
+    ? undefined
+    : zones.find(zone =>
+        zone.is_active &&
+        quotedDistance >= Number(zone.min_distance_km) &&
+        quotedDistance <= Number(zone.max_distance_km)
+      );
+
+  const handleCalculate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isDistanceValid) return;
+
+    setIsCalculating(true);
+    try {
+      setQuote(await calculateDeliveryFee(distanceKm));
+      setQuotedDistance(distanceKm);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to calculate delivery fee",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCalculating(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Calculator className="h-5 w-5" />
+          Fee calculator
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleCalculate} className="flex items-end gap-2">
+          <div className="grid gap-2 flex-1">
+            <Label htmlFor="calculator-distance">Distance (km)</Label>
+            <Input
+              id="calculator-distance"
+              type="number"
+              min="0"
+              step="0.1"
+              value={distance}
+              onChange={(e) => setDistance(e.target.value)}
+            />
+          </div>
+          <Button type="submit" disabled={!isDistanceValid || isCalculating}>
+            {isCalculating ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Calculate'}
+          </Button>
+        </form>
+
+        {quote && (
+          <div className="space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Fee charged</span>
+              <span className="font-bold">
+                {quote.fee !== null ? `Ksh ${quote.fee.toFixed(2)}` : 'Not available'}
+              </span>
+            </div>
+            {(quote.zoneName || matchingZone) && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Zone</span>
+                <span>{quote.zoneName || matchingZone?.name}</span>
+              </div>
+            )}
+            {(quote.estimatedTimeMins ?? matchingZone?.estimated_time_mins) != null && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Estimated time</span>
+                <span>~{quote.estimatedTimeMins ?? matchingZone?.estimated_time_mins} min</span>
+              </div>
+            )}
+            {quote.message && <p className="text-amber-700">{quote.message}</p>}
+            {matchingZone ? (
+              <div className="flex justify-between border-t pt-2">
+                <span className="text-muted-foreground">From zone rates</span>
+                <span>Ksh {getZoneDeliveryFee(matchingZone, quotedDistance).toFixed(2)}</span>
+              </div>
+            ) : (
+              <p className="border-t pt-2 text-amber-700">No active zone covers {quotedDistance} km.</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DeliveryFeeCalculator;
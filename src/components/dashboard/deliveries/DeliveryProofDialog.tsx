@@ -0,0 +1,67 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Order } from '@/types';
+import { getDeliveryProof } from '@/lib/deliveries';
+import { format } from 'date-fns';
+
+interface DeliveryProofDialogProps {
+  order: Order | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const DeliveryProofDialog: React.FC<DeliveryProofDialogProps> = ({ order, onOpenChange }) => {
+  const { data: proof, isLoading } = useQuery({
+    queryKey: ['deliveryProof', order?.id],
+    queryFn: () => getDeliveryProof(order!.id),
+    enabled: !!order,
+  });
+
+  return (
+    <Dialog open={!!order} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Proof of delivery</DialogTitle>
+          <DialogDescription>Order #{order?.id.substring(0, 8)}</DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : !proof ? (
+          <p className="text-sm text-muted-foreground">No proof of delivery was recorded for this order.</p>
+        ) : (
+          <div className="space-y-3 text-sm">
+            <div className="grid grid-cols-[120px_1fr] gap-1">
+              <div className="text-muted-foreground">Received by:</div>
+              <div className="font-medium">{proof.recipient_name}</div>
+            </div>
+            <div className="grid grid-cols-[120px_1fr] gap-1">
+              <div className="text-muted-foreground">Delivered:</div>
+              <div>{format(new Date(order?.delivered_at || proof.created_at), 'PPP p')}</div>
+            </div>
+            {proof.notes && (
+              <div className="grid grid-cols-[120px_1fr] gap-1">
+                <div className="text-muted-foreground">Notes:</div>
+                <div>{proof.notes}</div>
+              </div>
+            )}
+            {proof.photo_url && (
+              <img
+                src={proof.photo_url}
+                alt={`Delivery of order ${order?.id.substring(0, 8)}`}
+                className="w-full rounded-md border object-contain max-h-[360px]"
+              />
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DeliveryProofDialog;
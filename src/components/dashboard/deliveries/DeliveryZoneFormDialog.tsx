@@ -0,0 +1,182 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { DeliveryZone } from '@/types';
+import { DeliveryZoneInput } from '@/lib/deliveryZones';
+import { findZoneBandIssues } from '@/utils/deliveryZoneBands';
+import { AlertTriangle } from 'lucide-react';
+
+interface DeliveryZoneFormDialogProps {
+  open: boolean;
+  zone: DeliveryZone | null;
+  zones: DeliveryZone[];
+  isSaving?: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (zone: DeliveryZoneInput, id?: string) => void;
+}
+
+const emptyForm = {
+  name: '',
+  min_distance_km: '0',
+  max_distance_km: '',
+  base_fee: '0',
+  per_km_rate: '0',
+  estimated_time_mins: '30',
+  is_active: true,
+};
+
+const DeliveryZoneFormDialog: React.FC<DeliveryZoneFormDialogProps> = ({
+  open,
+  zone,
+  zones,
+  isSaving,
+  onOpenChange,
+  onSubmit,
+}) => {
+  const [form, setForm] = React.useState(emptyForm);
+
+  React.useEffect(() => {
+    if (!open) return;
+
+    if (zone) {
+      setForm({
+        name: zone.name,
+        min_distance_km: String(zone.min_distance_km),
+        max_distance_km: String(zone.max_distance_km),
+        base_fee: String(zone.base_fee),
+        per_km_rate: String(zone.per_km_rate),
+        estimated_time_mins: String(zone.estimated_time_mins),
+        is_active: zone.is_active,
+      });
+    } else {
+      // Start a new zone where the furthest one ends
+      const furthest = Math.max(0, ...zones.map(z => Number(z.max_distance_km)));
+      setForm({ ...emptyForm, min_distance_km: String(furthest) });
+    }
+  }, [open, zone, zones]);
+
+  const values: DeliveryZoneInput = {
+    name: form.name.trim(),
+    min_distance_km: Number(form.min_distance_km),
+    max_distance_km: Number(form.max_distance_km),
+    base_fee: Number(form.base_fee),
+    per_km_rate: Number(form.per_km_rate),
+    estimated_time_mins: Number(form.estimated_time_mins),
+    is_active: form.is_active,
+  };
+
+  const numbersValid = [
+    form.min_distance_km,
+    form.max_distance_km,
+    form.base_fee,
+    form.per_km_rate,
+    form.estimated_time_mins,
+  ].every(value => value.trim() !== '' && Number.isFinite(Number(value)) && Number(value) >= 0);
+  const bandValid = numbersValid && values.max_distance_km > values.min_distance_km;
+
+  // Check the bands as they would be after saving this zone
+  const candidateId = zone?.id || 'new';
+  const issues = bandValid
+    ? findZoneBandIssues([
+        ...zones.filter(z => z.id !== zone?.id),
+        { ...values, id: candidateId },
+      ]).filter(issue => issue.zoneIds.includes(candidateId))
+    : [];
+  const overlaps = issues.filter(issue => issue.type === 'overlap');
+  const gaps = issues.filter(issue => issue.type === 'gap');
+
+  const canSubmit = !!values.name && bandValid && overlaps.length === 0 && !isSaving;
+
+  const handleChange = (field: keyof typeof emptyForm) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    setForm(prev => ({ ...prev, [field]: e.target.value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    onSubmit(values, zone?.id);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{zone ? 'Edit delivery zone' : 'New delivery zone'}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="zone-name">Name</Label>
+              <Input id="zone-name" value={form.name} onChange={handleChange('name')} required />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="zone-min">From (km)</Label>
+                <Input id="zone-min" type="number" min="0" step="0.1" value={form.min_distance_km} onChange={handleChange('min_distance_km')} />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="zone-max">To (km)</Label>
+                <Input id="zone-max" type="number" min="0" step="0.1" value={form.max_distance_km} onChange={handleChange('max_distance_km')} />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="zone-base-fee">Base fee (Ksh)</Label>
+                <Input id="zone-base-fee" type="number" min="0" step="0.01" value={form.base_fee} onChange={handleChange('base_fee')} />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="zone-per-km">Per km (Ksh)</Label>
+                <Input id="zone-per-km" type="number" min="0" step="0.01" value={form.per_km_rate} onChange={handleChange('per_km_rate')} />
+              </div>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="zone-time">Estimated delivery time (minutes)</Label>
+              <Input id="zone-time" type="number" min="0" step="1" value={form.estimated_time_mins} onChange={handleChange('estimated_time_mins')} />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="zone-active">Active</Label>
+              <Switch
+                id="zone-active"
+                checked={form.is_active}
+                onCheckedChange={(checked) => setForm(prev => ({ ...prev, is_active: checked }))}
+              />
+            </div>
+
+            {numbersValid && !bandValid && (
+              <p className="text-sm text-red-600">"To" must be greater than "From".</p>
+            )}
+            {overlaps.map(issue => (
+              <p key={issue.message} className="text-sm text-red-600">{issue.message}</p>
+            ))}
+            {gaps.map(issue => (
+              <p key={issue.message} className="flex items-center gap-2 text-sm text-amber-700">
+                <AlertTriangle className="h-4 w-4" />
+                {issue.message}
+              </p>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!canSubmit}>
+              {isSaving ? 'Saving...' : 'Save zone'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DeliveryZoneFormDialog;
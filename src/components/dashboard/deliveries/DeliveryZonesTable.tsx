@@ -0,0 +1,92 @@
+import React from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { DeliveryZone } from '@/types';
+import { Pencil, Trash2 } from 'lucide-react';
+
+interface DeliveryZonesTableProps {
+  zones: DeliveryZone[];
+  flaggedZoneIds: Set<string>;
+  isUpdating?: boolean;
+  onEdit: (zone: DeliveryZone) => void;
+  onDelete: (zone: DeliveryZone) => void;
+  onToggleActive: (zone: DeliveryZone, isActive: boolean) => void;
+}
+
+const DeliveryZonesTable: React.FC<DeliveryZonesTableProps> = ({
+  zones,
+  flaggedZoneIds,
+  isUpdating,
+  onEdit,
+  onDelete,
+  onToggleActive,
+}) => {
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Zone</TableHead>
+            <TableHead>Distance</TableHead>
+            <TableHead>Base fee</TableHead>
+            <TableHead>Per km</TableHead>
+            <TableHead>Est. time</TableHead>
+            <TableHead>Active</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {zones.length > 0 ? (
+            zones.map((zone) => (
+              <TableRow key={zone.id} className={flaggedZoneIds.has(zone.id) ? 'bg-amber-50' : undefined}>
+                <TableCell className="font-medium">
+                  {zone.name}
+                  {!zone.is_active && (
+                    <Badge variant="outline" className="ml-2">Inactive</Badge>
+                  )}
+                </TableCell>
+                <TableCell>{zone.min_distance_km} – {zone.max_distance_km} km</TableCell>
+                <TableCell>Ksh {Number(zone.base_fee).toFixed(2)}</TableCell>
+                <TableCell>Ksh {Number(zone.per_km_rate).toFixed(2)}</TableCell>
+                <TableCell>{zone.estimated_time_mins} min</TableCell>
+                <TableCell>
+                  <Switch
+                    checked={zone.is_active}
+                    onCheckedChange={(checked) => onToggleActive(zone, checked)}
+                    disabled={isUpdating}
+                    aria-label={`${zone.name} active`}
+                  />
+                </TableCell>
+                <TableCell className="text-right">
+                  <div className="flex justify-end gap-2">
+                    <Button variant="ghost" size="icon" onClick={() => onEdit(zone)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => onDelete(zone)} disabled={isUpdating}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))
+          ) : (
+            <TableRow>
+              <TableCell colSpan={7} className="text-center">No delivery zones yet</TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default DeliveryZonesTable;
@@ -0,0 +1,76 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Order } from '@/types';
+
+interface FailedDeliveryDialogProps {
+  order: Order | null;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (order: Order, reason: string) => void;
+}
+
+const FailedDeliveryDialog: React.FC<FailedDeliveryDialogProps> = ({
+  order,
+  onOpenChange,
+  onConfirm,
+}) => {
+  const [reason, setReason] = React.useState('');
+
+  React.useEffect(() => {
+    if (order) {
+      setReason('');
+    }
+  }, [order]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!order || !reason.trim()) return;
+
+    onConfirm(order, reason);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={!!order} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Delivery failed</DialogTitle>
+          <DialogDescription>
+            Order #{order?.id.substring(0, 8)} can be dispatched again or returned to the queue later.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-2 py-4">
+            <Label htmlFor="failed-reason">What happened?</Label>
+            <Textarea
+              id="failed-reason"
+              placeholder="e.g. Customer not reachable on phone"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              required
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Back
+            </Button>
+            <Button type="submit" variant="destructive" disabled={!reason.trim()}>
+              Mark failed
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default FailedDeliveryDialog;
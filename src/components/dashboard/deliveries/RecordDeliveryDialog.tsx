@@ -0,0 +1,140 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Order } from '@/types';
+import { Loader2 } from 'lucide-react';
+
+export interface DeliveryProofInput {
+  recipientName: string;
+  photo: File | null;
+  notes: string;
+}
+
+interface RecordDeliveryDialogProps {
+  order: Order | null;
+  isSubmitting?: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (order: Order, proof: DeliveryProofInput) => void;
+}
+
+const MAX_PHOTO_SIZE = 5 * 1024 * 1024; // 5MB
+
+const RecordDeliveryDialog: React.FC<RecordDeliveryDialogProps> = ({
+  order,
+  isSubmitting,
+  onOpenChange,
+  onSubmit,
+}) => {
+  const [recipientName, setRecipientName] = React.useState('');
+  const [photo, setPhoto] = React.useState<File | null>(null);
+  const [notes, setNotes] = React.useState('');
+  const [photoError, setPhotoError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    if (order) {
+      setRecipientName(order.customer?.name && order.customer.name !== 'Unknown' ? order.customer.name : '');
+      setPhoto(null);
+      setNotes('');
+      setPhotoError(null);
+    }
+  }, [order]);
+
+  const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0] || null;
+
+    if (file && !file.type.startsWith('image/')) {
+      setPhotoError('Please select an image file');
+      setPhoto(null);
+      return;
+    }
+
+    if (file && file.size > MAX_PHOTO_SIZE) {
+      setPhotoError('Photo must be less than 5MB');
+      setPhoto(null);
+      return;
+    }
+
+    setPhotoError(null);
+    setPhoto(file);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!order || !recipientName.trim()) return;
+
+    onSubmit(order, { recipientName, photo, notes });
+  };
+
+  return (
+    <Dialog open={!!order} onOpenChange={(open) => !isSubmitting && onOpenChange(open)}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Proof of delivery</DialogTitle>
+          <DialogDescription>
+            Order #{order?.id.substring(0, 8)} will be marked as delivered.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="recipient-name">Received by</Label>
+              <Input
+                id="recipient-name"
+                value={recipientName}
+                onChange={(e) => setRecipientName(e.target.value)}
+                required
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="delivery-photo">Photo (optional)</Label>
+              <Input
+                id="delivery-photo"
+                type="file"
+                accept="image/*"
+                capture="environment"
+                onChange={handlePhotoChange}
+              />
+              {photoError && <p className="text-sm text-red-600">{photoError}</p>}
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="delivery-notes">Notes (optional)</Label>
+              <Textarea
+                id="delivery-notes"
+                placeholder="e.g. Left with security at the gate"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting || !recipientName.trim()}>
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                'Mark delivered'
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecordDeliveryDialog;
@@ -0,0 +1,94 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Rider } from '@/types';
+import { Plus } from 'lucide-react';
+
+interface RidersDialogProps {
+  open: boolean;
+  riders: Rider[];
+  isSaving?: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreateRider: (rider: { full_name: string; phone?: string }) => void;
+  onToggleRider: (rider: Rider, isActive: boolean) => void;
+}
+
+const RidersDialog: React.FC<RidersDialogProps> = ({
+  open,
+  riders,
+  isSaving,
+  onOpenChange,
+  onCreateRider,
+  onToggleRider,
+}) => {
+  const [fullName, setFullName] = React.useState('');
+  const [phone, setPhone] = React.useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!fullName.trim()) return;
+
+    onCreateRider({ full_name: fullName, phone });
+    setFullName('');
+    setPhone('');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Riders</DialogTitle>
+          <DialogDescription>Inactive riders can't be assigned to new deliveries.</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <Input
+            placeholder="Name"
+            value={fullName}
+            onChange={(e) => setFullName(e.target.value)}
+            required
+          />
+          <Input
+            placeholder="Phone"
+            value={phone}
+            onChange={(e) => setPhone(e.target.value)}
+          />
+          <Button type="submit" disabled={isSaving || !fullName.trim()}>
+            <Plus className="h-4 w-4" />
+          </Button>
+        </form>
+
+        <div className="rounded-md border divide-y max-h-[320px] overflow-y-auto">
+          {riders.length === 0 ? (
+            <p className="p-3 text-sm text-muted-foreground">No riders yet.</p>
+          ) : (
+            riders.map((rider) => (
+              <div key={rider.id} className="flex items-center justify-between p-3 text-sm">
+                <div>
+                  <div className="font-medium">{rider.full_name}</div>
+                  {rider.phone && <div className="text-muted-foreground">{rider.phone}</div>}
+                </div>
+                <Switch
+                  checked={rider.is_active}
+                  onCheckedChange={(checked) => onToggleRider(rider, checked)}
+                  disabled={isSaving}
+                  aria-label={`${rider.full_name} active`}
+                />
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RidersDialog;
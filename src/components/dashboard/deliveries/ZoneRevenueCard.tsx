@@ -0,0 +1,100 @@
+import React from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { DeliveryZoneRevenue } from '@/lib/deliveryZones';
+
+export type RevenuePeriod = '30' | '90' | '365' | 'all';
+
+interface ZoneRevenueCardProps {
+  revenue: DeliveryZoneRevenue[];
+  period: RevenuePeriod;
+  isLoading?: boolean;
+  onPeriodChange: (period: RevenuePeriod) => void;
+}
+
+const ZoneRevenueCard: React.FC<ZoneRevenueCardProps> = ({
+  revenue,
+  period,
+  isLoading,
+  onPeriodChange,
+}) => {
+  const totalRevenue = revenue.reduce((sum, row) => sum + row.deliveryRevenue, 0);
+  const totalOrders = revenue.reduce((sum, row) => sum + row.orderCount, 0);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Delivery revenue by zone</CardTitle>
+        <Select value={period} onValueChange={(value) => onPeriodChange(value as RevenuePeriod)}>
+          <SelectTrigger className="w-[150px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="30">Last 30 days</SelectItem>
+            <SelectItem value="90">Last 90 days</SelectItem>
+            <SelectItem value="365">Last 12 months</SelectItem>
+            <SelectItem value="all">All time</SelectItem>
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Zone</TableHead>
+                <TableHead className="text-right">Orders</TableHead>
+                <TableHead className="text-right">Delivery fees</TableHead>
+                <TableHead className="text-right">Share</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {revenue.length > 0 ? (
+                <>
+                  {revenue.map((row) => (
+                    <TableRow key={row.zoneId || 'none'}>
+                      <TableCell>{row.zoneId ? row.zoneName || 'Deleted zone' : 'No zone'}</TableCell>
+                      <TableCell className="text-right">{row.orderCount}</TableCell>
+                      <TableCell className="text-right">Ksh {row.deliveryRevenue.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">
+                        {totalRevenue > 0 ? `${((row.deliveryRevenue / totalRevenue) * 100).toFixed(1)}%` : '—'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow className="font-medium">
+                    <TableCell>Total</TableCell>
+                    <TableCell className="text-right">{totalOrders}</TableCell>
+                    <TableCell className="text-right">Ksh {totalRevenue.toFixed(2)}</TableCell>
+                    <TableCell />
+                  </TableRow>
+                </>
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center">No completed orders in this period</TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ZoneRevenueCard;
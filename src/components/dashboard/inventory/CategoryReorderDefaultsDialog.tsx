@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from '@/components/ui/use-toast';
+import { CategoryReorderDefault } from '@/types';
+import {
+  deleteCategoryReorderDefault,
+  getCategoryReorderDefaults,
+  saveCategoryReorderDefault,
+} from '@/lib/inventory';
+import { getCategoryBadgeClasses } from '@/utils/categoryColors';
+
+interface CategoryReorderDefaultsDialogProps {
+  categories: string[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface CategoryDefaultRowProps {
+  category: string;
+  current: CategoryReorderDefault | undefined;
+  isSaving: boolean;
+  onSave: (category: string, reorderPoint: number, reorderQuantity: number) => void;
+  onClear: (category: string) => void;
+}
+
+const CategoryDefaultRow: React.FC<CategoryDefaultRowProps> = ({ category, current, isSaving, onSave, onClear }) => {
+  const [reorderPoint, setReorderPoint] = useState(current ? String(current.reorder_point) : '');
+  const [reorderQuantity, setReorderQuantity] = useState(current ? String(current.reorder_quantity) : '');
+
+  const point = parseInt(reorderPoint);
+  const quantity = parseInt(reorderQuantity);
+  const isValid = !isNaN(point) && point >= 0 && !isNaN(quantity) && quantity > 0;
+  const isChanged = !current || point !== current.reorder_point || quantity !== current.reorder_quantity;
+
+  return (
+    <div className="grid grid-cols-[1fr_90px_90px_auto] items-center gap-2">
+      <div>
+        <Badge variant="outline" className={getCategoryBadgeClasses(category)}>
+          {category}
+        </Badge>
+      </div>
+      <Input
+        type="number"
+        min={0}
+        placeholder="10"
+        value={reorderPoint}
+        onChange={(e) => setReorderPoint(e.target.value)}
+        aria-label={`Reorder point for ${category}`}
+      />
+      <Input
+        type="number"
+        min={1}
+        placeholder="20"
+        value={reorderQuantity}
+        onChange={(e) => setReorderQuantity(e.target.value)}
+        aria-label={`Reorder quantity for ${category}`}
+      />
+      <div className="flex gap-1">
+        <Button
+          size="sm"
+          onClick={() => onSave(category, point, quantity)}
+          disabled={!isValid || !isChanged || isSaving}
+        >
+          Save
+        </Button>
+        {current && (
+          <Button size="sm" variant="outline" onClick={() => onClear(category)} disabled={isSaving}>
+            Clear
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const CategoryReorderDefaultsDialog: React.FC<CategoryReorderDefaultsDialogProps> = ({
+  categories,
+  open,
+  onOpenChange,
+}) => {
+  const queryClient = useQueryClient();
+
+  const { data: defaults = [], isLoading } = useQuery({
+    queryKey: ['categoryReorderDefaults'],
+    queryFn: getCategoryReorderDefaults,
+    enabled: open,
+  });
+
+  const onSettled = () => {
+    queryClient.invalidateQueries({ queryKey: ['categoryReorderDefaults'] });
+    queryClient.invalidateQueries({ queryKey: ['reorderLevels'] });
+    queryClient.invalidateQueries({ queryKey: ['dashboardStats'] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to save reorder defaults",
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: ({ category, reorderPoint, reorderQuantity }: { category: string; reorderPoint: number; reorderQuantity: number }) =>
+      saveCategoryReorderDefault(category, reorderPoint, reorderQuantity),
+    onSuccess: (_, { category }) => {
+      toast({ title: "Success", description: `Reorder defaults saved for ${category}` });
+    },
+    onError,
+    onSettled,
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: deleteCategoryReorderDefault,
+    onSuccess: (_, category) => {
+      toast({ title: "Success", description: `${category} now uses the standard reorder levels` });
+    },
+    onError,
+    onSettled,
+  });
+
+  // Categories with saved defaults stay listed even once their products are gone
+  const allCategories = [...new Set([...categories, ...defaults.map(entry => entry.category)])].sort();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Reorder defaults</DialogTitle>
+          <DialogDescription>
+            Products without their own reorder levels use their category's. Categories left blank reorder 20 units at 10 or fewer.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : (
+          <div className="space-y-2">
+            <div className="grid grid-cols-[1fr_90px_90px_auto] gap-2 text-xs font-medium text-muted-foreground">
+              <span>Category</span>
+              <span>Reorder at</span>
+              <span>Reorder qty</span>
+              <span />
+            </div>
+            {allCategories.map((category) => {
+              const current = defaults.find(entry => entry.category === category);
+              return (
+                <CategoryDefaultRow
+                  key={`${category}-${current?.updated_at ?? 'none'}`}
+                  category={category}
+                  current={current}
+                  isSaving={saveMutation.isPending || clearMutation.isPending}
+                  onSave={(name, reorderPoint, reorderQuantity) =>
+                    saveMutation.mutate({ category: name, reorderPoint, reorderQuantity })
+                  }
+                  onClear={(name) => clearMutation.mutate(name)}
+                />
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CategoryReorderDefaultsDialog;
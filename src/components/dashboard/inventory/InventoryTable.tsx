@@ -12,34 +12,34 @@ import {
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Product } from '@/types';
-import { Plus, Minus } from 'lucide-react';
+import { Plus, Minus, History } from 'lucide-react';
 import { getCategoryBadgeClasses } from '@/utils/categoryColors';
+import { getStockLevel, STOCK_LEVEL_LABELS } from '@/utils/stockMovements';
 
 interface InventoryTableProps {
   products: Product[];
+  // Effective reorder point per product id, see get_reorder_levels
+  reorderPoints: Record<string, number>;
   onAddStock: (product: Product) => void;
   onRemoveStock: (product: Product) => void;
+  onViewHistory: (product: Product) => void;
 }
 
 const InventoryTable: React.FC<InventoryTableProps> = ({
   products,
+  reorderPoints,
   onAddStock,
   onRemoveStock,
+  onViewHistory,
 }) => {
-  const getStockStatus = (stock: number) => {
-    if (stock <= 0) {
-      return <Badge variant="destructive">Out of Stock</Badge>;
-    } else if (stock <= 5) {
-      return <Badge variant="destructive">Low Stock</Badge>;
-    } else if (stock <= 20) {
-      return <Badge variant="outline" className="bg-yellow-100 text-yellow-800 border-yellow-200">
-        Limited Stock
-      </Badge>;
-    } else {
+  const getStockStatus = (product: Product) => {
+    const level = getStockLevel(product.stock, reorderPoints[product.id] ?? 0);
+    if (level === 'in_stock') {
       return <Badge variant="outline" className="bg-green-100 text-green-800 border-green-200">
-        In Stock
+        {STOCK_LEVEL_LABELS[level]}
       </Badge>;
     }
+    return <Badge variant="destructive">{STOCK_LEVEL_LABELS[level]}</Badge>;
   };
 
   return (
@@ -52,6 +52,7 @@ const InventoryTable: React.FC<InventoryTableProps> = ({
             <TableHead>Category</TableHead>
             <TableHead>Price</TableHead>
             <TableHead>Current Stock</TableHead>
+            <TableHead>Reorder At</TableHead>
             <TableHead>Status</TableHead>
             <TableHead className="text-right">Actions</TableHead>
           </TableRow>
@@ -81,8 +82,11 @@ const InventoryTable: React.FC<InventoryTableProps> = ({
                 <TableCell className="font-medium">
                   {product.stock}
                 </TableCell>
+                <TableCell className="text-muted-foreground">
+                  {reorderPoints[product.id] ?? '—'}
+                </TableCell>
                 <TableCell>
-                  {getStockStatus(product.stock)}
+                  {getStockStatus(product)}
                 </TableCell>
                 <TableCell className="text-right">
                   <div className="flex justify-end space-x-2">
@@ -103,13 +107,21 @@ const InventoryTable: React.FC<InventoryTableProps> = ({
                     >
                       <Minus className="h-4 w-4 text-red-500" />
                     </Button>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => onViewHistory(product)}
+                      title="Stock History"
+                    >
+                      <History className="h-4 w-4" />
+                    </Button>
                   </div>
                 </TableCell>
               </TableRow>
             ))
           ) : (
             <TableRow>
-              <TableCell colSpan={6} className="text-center">No products found</TableCell>
+              <TableCell colSpan={7} className="text-center">No products found</TableCell>
             </TableRow>
           )}
         </TableBody>
@@ -0,0 +1,126 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { Badge } from '@/components/ui/badge';
+import { Product } from '@/types';
+import { getProductBatches, getStockMovements } from '@/lib/inventory';
+import {
+  EXPIRY_ALERT_DAYS,
+  formatExpiry,
+  getDaysUntilExpiry,
+  getStockChange,
+  STOCK_REASON_LABELS,
+} from '@/utils/stockMovements';
+import { cn } from '@/lib/utils';
+import { format, parseISO } from 'date-fns';
+
+interface StockMovementsDrawerProps {
+  product: Product | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const StockMovementsDrawer: React.FC<StockMovementsDrawerProps> = ({ product, onOpenChange }) => {
+  const { data: movements = [], isLoading } = useQuery({
+    queryKey: ['stockMovements', product?.id],
+    queryFn: () => getStockMovements(product!.id),
+    enabled: !!product,
+  });
+
+  const { data: batches = [] } = useQuery({
+    queryKey: ['stockBatches', product?.id],
+    queryFn: () => getProductBatches(product!.id),
+    enabled: !!product,
+  });
+
+  const openBatches = batches.filter(batch => batch.quantity_remaining > 0);
+
+  return (
+    <Sheet open={!!product} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Stock history</SheetTitle>
+          <SheetDescription>
+            {product && `${product.name} · ${product.stock} in stock`}
+          </SheetDescription>
+        </SheetHeader>
+
+        {openBatches.length > 0 && (
+          <div className="mt-6 space-y-2">
+            <h3 className="font-semibold">Batches in stock</h3>
+            {openBatches.map((batch) => {
+              const daysLeft = getDaysUntilExpiry(batch);
+              return (
+                <div key={batch.id} className="rounded-md border p-3 text-sm">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium">
+                      {batch.quantity_remaining} of {batch.quantity_received} left
+                    </span>
+                    {daysLeft !== null && (
+                      <span
+                        className={cn(
+                          'text-xs',
+                          daysLeft <= 0 ? 'font-semibold text-red-600'
+                            : daysLeft <= EXPIRY_ALERT_DAYS ? 'font-semibold text-orange-600'
+                            : 'text-muted-foreground'
+                        )}
+                      >
+                        {formatExpiry(daysLeft)}
+                      </span>
+                    )}
+                  </div>
+                  <div className="mt-1 text-xs text-muted-foreground">
+                    Received {format(parseISO(batch.received_at), 'MMM d, yyyy')}
+                    {batch.supplier && ` from ${batch.supplier}`}
+                    {batch.unit_cost !== null && ` · Ksh ${batch.unit_cost.toFixed(2)} each`}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="mt-6 space-y-2">
+          <h3 className="font-semibold">Movements</h3>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : movements.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No stock movements recorded for this product.</p>
+          ) : (
+            movements.map((movement) => {
+              const change = getStockChange(movement);
+              return (
+                <div key={movement.id} className="rounded-md border p-3 text-sm">
+                  <div className="flex items-center justify-between gap-2">
+                    <Badge variant="outline">{STOCK_REASON_LABELS[movement.reason_code]}</Badge>
+                    <span className={cn('font-semibold', change > 0 ? 'text-green-600' : 'text-red-600')}>
+                      {change > 0 ? '+' : ''}{change}
+                    </span>
+                  </div>
+                  <div className="mt-2 flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                    <span>{movement.previous_stock} → {movement.new_stock}</span>
+                    <span>{format(new Date(movement.created_at), 'MMM d, yyyy HH:mm')}</span>
+                  </div>
+                  <div className="mt-1 text-xs text-muted-foreground">
+                    {movement.actor_name || 'System'}
+                    {movement.order_id && (
+                      <> · Order <span className="font-mono">{movement.order_id.slice(0, 8)}</span></>
+                    )}
+                  </div>
+                  {movement.reason && <p className="mt-2 text-xs">{movement.reason}</p>}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default StockMovementsDrawer;
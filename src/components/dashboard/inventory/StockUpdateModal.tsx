@@ -11,12 +11,24 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Product } from '@/types';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Product, StockReasonCode } from '@/types';
+import { StockBatchDetails } from '@/lib/inventory';
+import { MANUAL_STOCK_REASONS, STOCK_REASON_LABELS } from '@/utils/stockMovements';
+import { format } from 'date-fns';
 
 interface StockUpdateModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onConfirm: (quantity: number) => void;
+  // batch is set for deliveries, which are received as a new stock batch
+  onConfirm: (quantity: number, reasonCode: StockReasonCode, reason: string, batch?: StockBatchDetails) => void;
   product: Product | null;
   updateType: 'add' | 'remove';
   isSubmitting: boolean;
@@ -32,6 +44,17 @@ const StockUpdateModal: React.FC<StockUpdateModalProps> = ({
 }) => {
   const [quantity, setQuantity] = useState<number>(1);
   const [error, setError] = useState<string | null>(null);
+  const [reasonCode, setReasonCode] = useState<StockReasonCode | ''>('');
+  const [reason, setReason] = useState('');
+  const [receivedAt, setReceivedAt] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [expiresAt, setExpiresAt] = useState('');
+  const [supplier, setSupplier] = useState('');
+  const [unitCost, setUnitCost] = useState('');
+
+  const isDelivery = updateType === 'add' && reasonCode === 'delivery_received';
+  const batchError = isDelivery && expiresAt && receivedAt && expiresAt < receivedAt
+    ? 'Expiry date cannot be before the received date'
+    : null;
 
   const handleQuantityChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = parseInt(e.target.value);
@@ -49,14 +72,32 @@ const StockUpdateModal: React.FC<StockUpdateModalProps> = ({
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!error && quantity > 0) {
-      onConfirm(quantity);
+    if (!error && !batchError && quantity > 0 && reasonCode) {
+      onConfirm(
+        quantity,
+        reasonCode,
+        reason,
+        isDelivery
+          ? {
+              receivedAt,
+              expiresAt,
+              supplier,
+              unitCost: unitCost ? parseFloat(unitCost) : undefined,
+            }
+          : undefined
+      );
     }
   };
 
   const resetForm = () => {
     setQuantity(1);
     setError(null);
+    setReasonCode('');
+    setReason('');
+    setReceivedAt(format(new Date(), 'yyyy-MM-dd'));
+    setExpiresAt('');
+    setSupplier('');
+    setUnitCost('');
   };
 
   const handleOpenChange = (open: boolean) => {
@@ -102,6 +143,72 @@ const StockUpdateModal: React.FC<StockUpdateModalProps> = ({
               />
               {error && <p className="text-sm text-red-500">{error}</p>}
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="reason-code">Reason</Label>
+              <Select value={reasonCode} onValueChange={(value) => setReasonCode(value as StockReasonCode)}>
+                <SelectTrigger id="reason-code">
+                  <SelectValue placeholder="Select a reason" />
+                </SelectTrigger>
+                <SelectContent>
+                  {MANUAL_STOCK_REASONS[updateType].map((option) => (
+                    <SelectItem key={option} value={option}>{STOCK_REASON_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {isDelivery && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="received-at">Received</Label>
+                  <Input
+                    id="received-at"
+                    type="date"
+                    value={receivedAt}
+                    onChange={(e) => setReceivedAt(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="expires-at">Expires (optional)</Label>
+                  <Input
+                    id="expires-at"
+                    type="date"
+                    value={expiresAt}
+                    min={receivedAt || undefined}
+                    onChange={(e) => setExpiresAt(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="supplier">Supplier (optional)</Label>
+                  <Input
+                    id="supplier"
+                    value={supplier}
+                    onChange={(e) => setSupplier(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="unit-cost">Unit cost (Ksh, optional)</Label>
+                  <Input
+                    id="unit-cost"
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={unitCost}
+                    onChange={(e) => setUnitCost(e.target.value)}
+                  />
+                </div>
+                {batchError && <p className="col-span-2 text-sm text-red-500">{batchError}</p>}
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="reason-notes">Notes (optional)</Label>
+              <Textarea
+                id="reason-notes"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder={updateType === 'add' ? 'e.g. Supplier invoice number' : 'e.g. What happened to the stock'}
+                rows={2}
+              />
+            </div>
           </div>
           <DialogFooter className="mt-4">
             <Button
@@ -114,7 +221,7 @@ const StockUpdateModal: React.FC<StockUpdateModalProps> = ({
             </Button>
             <Button 
               type="submit"
-              disabled={!!error || isSubmitting || quantity <= 0}
+              disabled={!!error || !!batchError || isSubmitting || quantity <= 0 || !reasonCode}
               className={updateType === 'add' ? 'bg-green-600 hover:bg-green-700' : 'bg-red-600 hover:bg-red-700'}
             >
               {isSubmitting ? 'Processing...' : updateType === 'add' ? 'Add Stock' : 'Remove Stock'}
@@ -2,7 +2,7 @@
 import React from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { cn } from '@/lib/utils';
-import { Package, ShoppingCart, Users, Home, Box, Mail, FileText, MessageSquare, BarChart3, Megaphone, FileEdit, ShieldCheck } from 'lucide-react';
+import { Package, ShoppingCart, Users, Home, Box, Mail, FileText, MessageSquare, BarChart3, Megaphone, FileEdit, ShieldCheck, Truck, MapPin, CreditCard, Wallet, Factory, ClipboardList } from 'lucide-react';
 
 interface SidebarProps {
   isOpen: boolean;
@@ -26,6 +26,26 @@ const navItems: NavItem[] = [
     href: '/admin/orders',
     icon: ShoppingCart,
   },
+  {
+    title: 'Deliveries',
+    href: '/admin/deliveries',
+    icon: Truck,
+  },
+  {
+    title: 'Delivery Zones',
+    href: '/admin/delivery-zones',
+    icon: MapPin,
+  },
+  {
+    title: 'Payments',
+    href: '/admin/payments',
+    icon: CreditCard,
+  },
+  {
+    title: 'Cash-up',
+    href: '/admin/cash-up',
+    icon: Wallet,
+  },
   {
     title: 'Products',
     href: '/admin/products',
@@ -36,6 +56,16 @@ const navItems: NavItem[] = [
     href: '/admin/inventory',
     icon: Box,
   },
+  {
+    title: 'Suppliers',
+    href: '/admin/suppliers',
+    icon: Factory,
+  },
+  {
+    title: 'Purchase Orders',
+    href: '/admin/purchase-orders',
+    icon: ClipboardList,
+  },
   {
     title: 'Product Analytics',
     href: '/admin/analytics',
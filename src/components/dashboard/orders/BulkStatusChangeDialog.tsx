@@ -0,0 +1,226 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Order } from '@/types';
+import { canTransitionOrderStatus, getOrderStatusColor, ORDER_STATUS_LABELS } from '@/utils/orderStatus';
+import { CheckCircle2, Loader2, MinusCircle, XCircle } from 'lucide-react';
+
+type RowState = 'queued' | 'running' | 'success' | 'error' | 'skipped';
+
+interface RowResult {
+  order: Order;
+  state: RowState;
+  message?: string;
+}
+
+interface BulkStatusChangeDialogProps {
+  orders: Order[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onApply: (order: Order, status: Order['status'], reason?: string) => Promise<string>;
+  onFinished: () => void;
+}
+
+const BULK_STATUSES: Order['status'][] = ['processing', 'completed', 'cancelled'];
+
+const RowStateIcon: React.FC<{ state: RowState }> = ({ state }) => {
+  switch (state) {
+    case 'running':
+      return <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />;
+    case 'success':
+      return <CheckCircle2 className="h-4 w-4 text-green-600" />;
+    case 'error':
+      return <XCircle className="h-4 w-4 text-red-600" />;
+    case 'skipped':
+      return <MinusCircle className="h-4 w-4 text-muted-foreground" />;
+    default:
+      return <div className="h-4 w-4" />;
+  }
+};
+
+const BulkStatusChangeDialog: React.FC<BulkStatusChangeDialogProps> = ({
+  orders,
+  open,
+  onOpenChange,
+  onApply,
+  onFinished,
+}) => {
+  const [status, setStatus] = React.useState<Order['status'] | ''>('');
+  const [reason, setReason] = React.useState('');
+  const [results, setResults] = React.useState<RowResult[]>([]);
+  const [isRunning, setIsRunning] = React.useState(false);
+
+  React.useEffect(() => {
+    if (open) {
+      setStatus('');
+      setReason('');
+      setResults([]);
+    }
+  }, [open]);
+
+  const hasRun = results.length > 0;
+  const applicableCount = status
+    ? orders.filter((order) => order.status !== status && canTransitionOrderStatus(order.status, status)).length
+    : 0;
+  const needsReason = status === 'cancelled';
+
+  const updateRow = (index: number, update: Partial<RowResult>) => {
+    setResults((current) => current.map((row, i) => (i === index ? { ...row, ...update } : row)));
+  };
+
+  // Orders are processed one at a time through the same calls as a single
+  // change, so each row succeeds or fails on its own.
+  const handleApply = async () => {
+    if (!status || (needsReason && !reason.trim())) return;
+
+    const rows: RowResult[] = orders.map((order) => {
+      if (order.status === status) {
+        return { order, state: 'skipped', message: `Already ${status}` };
+      }
+      if (!canTransitionOrderStatus(order.status, status)) {
+        return { order, state: 'skipped', message: `Cannot move from ${order.status} to ${status}` };
+      }
+      return { order, state: 'queued' };
+    });
+
+    setResults(rows);
+    setIsRunning(true);
+
+    for (let index = 0; index < rows.length; index++) {
+      if (rows[index].state !== 'queued') continue;
+
+      updateRow(index, { state: 'running' });
+      try {
+        const message = await onApply(rows[index].order, status, reason || undefined);
+        updateRow(index, { state: 'success', message });
+      } catch (error) {
+        updateRow(index, {
+          state: 'error',
+          message: error instanceof Error ? error.message : 'Failed to update order status',
+        });
+      }
+    }
+
+    setIsRunning(false);
+    onFinished();
+  };
+
+  const succeeded = results.filter((row) => row.state === 'success').length;
+  const failed = results.filter((row) => row.state === 'error').length;
+  const skipped = results.filter((row) => row.state === 'skipped').length;
+
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => !isRunning && onOpenChange(nextOpen)}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Change status of {orders.length} orders</DialogTitle>
+          <DialogDescription>
+            {hasRun
+              ? `${succeeded} updated, ${failed} failed, ${skipped} skipped`
+              : 'Orders that cannot make this change are skipped. Completing takes stock for each order.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!hasRun ? (
+          <div className="grid gap-4 py-2">
+            <div className="grid gap-2">
+              <Label>New status</Label>
+              <Select value={status} onValueChange={(value) => setStatus(value as Order['status'])}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a status" />
+                </SelectTrigger>
+                <SelectContent>
+                  {BULK_STATUSES.map((option) => (
+                    <SelectItem key={option} value={option}>{ORDER_STATUS_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {status && (
+                <p className="text-xs text-muted-foreground">
+                  {applicableCount} of {orders.length} selected orders can move to {status}.
+                </p>
+              )}
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="bulk-status-reason">{needsReason ? 'Reason' : 'Reason (optional)'}</Label>
+              <Textarea
+                id="bulk-status-reason"
+                placeholder="e.g. Morning pickup"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+          </div>
+        ) : (
+          <div className="max-h-[360px] overflow-y-auto rounded-md border divide-y">
+            {results.map((row) => (
+              <div key={row.order.id} className="flex items-start gap-3 p-3 text-sm">
+                <div className="mt-0.5"><RowStateIcon state={row.state} /></div>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">#{row.order.id.substring(0, 8)}</span>
+                    <span className="truncate text-muted-foreground">{row.order.customer?.name || 'Unknown'}</span>
+                    <Badge variant="outline" className={getOrderStatusColor(row.order.status)}>
+                      {row.order.status}
+                    </Badge>
+                  </div>
+                  {row.message && (
+                    <p className={row.state === 'error' ? 'text-red-600' : 'text-muted-foreground'}>
+                      {row.message}
+                    </p>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          {hasRun ? (
+            <Button onClick={() => onOpenChange(false)} disabled={isRunning}>
+              {isRunning ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Updating...
+                </>
+              ) : (
+                'Done'
+              )}
+            </Button>
+          ) : (
+            <>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleApply}
+                disabled={!status || applicableCount === 0 || (needsReason && !reason.trim())}
+              >
+                Update {applicableCount} orders
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BulkStatusChangeDialog;
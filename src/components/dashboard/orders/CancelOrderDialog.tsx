@@ -0,0 +1,134 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Order } from '@/types';
+import { CancelOrderOptions } from '@/lib/orders';
+import { getRefundableAmount } from '@/lib/refunds';
+
+interface CancelOrderDialogProps {
+  order: Order;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (options: CancelOrderOptions) => void;
+}
+
+const CancelOrderDialog: React.FC<CancelOrderDialogProps> = ({
+  order,
+  open,
+  onOpenChange,
+  onConfirm,
+}) => {
+  const [reason, setReason] = React.useState('');
+  const [refundAmount, setRefundAmount] = React.useState('');
+  const [refundReason, setRefundReason] = React.useState('');
+
+  const orderTotal = Number(order.total_amount) + Number(order.delivery_fee || 0);
+
+  // Only what's been paid, less refunds already made, can be refunded
+  const { data: refundable = 0 } = useQuery({
+    queryKey: ['refundable', order.id],
+    queryFn: () => getRefundableAmount(order.id),
+    enabled: open,
+  });
+
+  const parsedRefund = refundAmount.trim() === '' ? 0 : Number(refundAmount);
+  const isRefundValid = Number.isFinite(parsedRefund) && parsedRefund >= 0 && parsedRefund <= refundable;
+
+  React.useEffect(() => {
+    if (open) {
+      setReason('');
+      setRefundAmount('');
+      setRefundReason('');
+    }
+  }, [open]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason.trim() || !isRefundValid) return;
+
+    onConfirm({
+      reason,
+      refundAmount: parsedRefund,
+      refundReason: parsedRefund > 0 ? refundReason : undefined,
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Cancel order #{order.id.substring(0, 8)}?</DialogTitle>
+          <DialogDescription>
+            {order.status === 'completed'
+              ? 'This order is completed, so every item will be returned to stock.'
+              : 'No stock has been taken for this order yet, so inventory is unchanged.'}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="cancel-reason">Reason</Label>
+              <Textarea
+                id="cancel-reason"
+                placeholder="e.g. Customer requested cancellation"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                required
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="refund-amount">Refund amount (Ksh)</Label>
+              <Input
+                id="refund-amount"
+                type="number"
+                min={0}
+                max={refundable}
+                step="0.01"
+                placeholder="0.00"
+                value={refundAmount}
+                onChange={(e) => setRefundAmount(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Up to Ksh {refundable.toFixed(2)} of the Ksh {orderTotal.toFixed(2)} order, from what's
+                been paid. Leave empty if nothing was paid.
+              </p>
+            </div>
+            {parsedRefund > 0 && (
+              <div className="grid gap-2">
+                <Label htmlFor="refund-reason">Refund note (optional)</Label>
+                <Input
+                  id="refund-reason"
+                  placeholder="e.g. Refunded via M-Pesa"
+                  value={refundReason}
+                  onChange={(e) => setRefundReason(e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Keep order
+            </Button>
+            <Button type="submit" variant="destructive" disabled={!reason.trim() || !isRefundValid}>
+              Cancel order
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CancelOrderDialog;
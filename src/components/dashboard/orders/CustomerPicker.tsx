@@ -0,0 +1,181 @@
+import React from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/components/ui/use-toast';
+import { Customer } from '@/types';
+import { searchCustomers, createCustomer, NewCustomerDetails } from '@/lib/customers';
+import { Loader2, Search, UserPlus, X } from 'lucide-react';
+
+interface CustomerPickerProps {
+  customer: Customer | null;
+  onChange: (customer: Customer | null) => void;
+}
+
+const emptyCustomer: NewCustomerDetails = { fullName: '', phone: '', email: '', address: '' };
+
+const CustomerPicker: React.FC<CustomerPickerProps> = ({ customer, onChange }) => {
+  const [searchValue, setSearchValue] = React.useState('');
+  const [searchQuery, setSearchQuery] = React.useState('');
+  const [isCreating, setIsCreating] = React.useState(false);
+  const [newCustomer, setNewCustomer] = React.useState<NewCustomerDetails>(emptyCustomer);
+
+  React.useEffect(() => {
+    const timeout = setTimeout(() => setSearchQuery(searchValue), 300);
+    return () => clearTimeout(timeout);
+  }, [searchValue]);
+
+  const { data: matches = [], isFetching } = useQuery({
+    queryKey: ['customerSearch', searchQuery],
+    queryFn: () => searchCustomers(searchQuery),
+    enabled: searchQuery.trim().length >= 2,
+  });
+
+  const createCustomerMutation = useMutation({
+    mutationFn: createCustomer,
+    onSuccess: (created) => {
+      toast({ title: 'Customer created', description: created.full_name || created.phone || created.email || '' });
+      setIsCreating(false);
+      setNewCustomer(emptyCustomer);
+      onChange(created);
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to create customer',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    createCustomerMutation.mutate(newCustomer);
+  };
+
+  if (customer) {
+    return (
+      <div className="flex items-start justify-between rounded-md border p-4">
+        <div className="space-y-1 text-sm">
+          <div className="font-medium text-base">{customer.full_name || 'Unnamed customer'}</div>
+          {customer.phone && <div>{customer.phone}</div>}
+          {customer.email && <div className="text-muted-foreground">{customer.email}</div>}
+          {customer.address && <div className="text-muted-foreground">{customer.address}</div>}
+        </div>
+        <Button variant="ghost" size="sm" onClick={() => onChange(null)}>
+          <X className="h-4 w-4 mr-2" />
+          Change
+        </Button>
+      </div>
+    );
+  }
+
+  if (isCreating) {
+    return (
+      <form onSubmit={handleCreate} className="grid gap-4">
+        <div className="grid gap-2">
+          <Label htmlFor="customer-name">Full name</Label>
+          <Input
+            id="customer-name"
+            value={newCustomer.fullName}
+            onChange={(e) => setNewCustomer({ ...newCustomer, fullName: e.target.value })}
+            required
+          />
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="grid gap-2">
+            <Label htmlFor="customer-phone">Phone</Label>
+            <Input
+              id="customer-phone"
+              placeholder="+2547..."
+              value={newCustomer.phone}
+              onChange={(e) => setNewCustomer({ ...newCustomer, phone: e.target.value })}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="customer-email">Email (optional)</Label>
+            <Input
+              id="customer-email"
+              type="email"
+              value={newCustomer.email}
+              onChange={(e) => setNewCustomer({ ...newCustomer, email: e.target.value })}
+            />
+          </div>
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="customer-address">Address (optional)</Label>
+          <Input
+            id="customer-address"
+            value={newCustomer.address}
+            onChange={(e) => setNewCustomer({ ...newCustomer, address: e.target.value })}
+          />
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={() => setIsCreating(false)}>
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            disabled={createCustomerMutation.isPending || !newCustomer.fullName.trim() || (!newCustomer.phone?.trim() && !newCustomer.email?.trim())}
+          >
+            {createCustomerMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Creating...
+              </>
+            ) : (
+              'Create customer'
+            )}
+          </Button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <div className="flex items-center border rounded-md px-3 py-2 flex-1">
+          <Search className="h-4 w-4 text-muted-foreground mr-2" />
+          <Input
+            placeholder="Search by name, phone or email..."
+            className="border-0 p-0 focus-visible:ring-0 focus-visible:outline-none"
+            value={searchValue}
+            onChange={(e) => setSearchValue(e.target.value)}
+          />
+        </div>
+        <Button variant="outline" onClick={() => setIsCreating(true)}>
+          <UserPlus className="h-4 w-4 mr-2" />
+          New customer
+        </Button>
+      </div>
+
+      {searchQuery.trim().length >= 2 && (
+        <div className="rounded-md border divide-y">
+          {isFetching ? (
+            <p className="p-3 text-sm text-muted-foreground">Searching...</p>
+          ) : matches.length === 0 ? (
+            <p className="p-3 text-sm text-muted-foreground">No customers found.</p>
+          ) : (
+            matches.map((match) => (
+              <button
+                key={match.id}
+                type="button"
+                className="w-full p-3 text-left text-sm hover:bg-muted"
+                onClick={() => onChange(match)}
+              >
+                <div className="font-medium">{match.full_name || 'Unnamed customer'}</div>
+                <div className="text-muted-foreground">
+                  {[match.phone, match.email].filter(Boolean).join(' · ')}
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CustomerPicker;
@@ -1,5 +1,6 @@
 
 import React from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { 
   Card, 
   CardContent, 
@@ -17,7 +18,8 @@ import {
   TableHeader, 
   TableRow 
 } from "@/components/ui/table";
-import { Order } from '@/types';
+import { Order, OrderStatusHistoryEntry } from '@/types';
+import { getOrderStatusColor, getAllowedOrderStatuses, ORDER_STATUS_LABELS } from '@/utils/orderStatus';
 import { 
   Select,
   SelectContent,
@@ -25,44 +27,89 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import { format } from 'date-fns';
-import { Mail, Phone, MapPin } from 'lucide-react';
+import { Mail, Phone, MapPin, XCircle, FileText, Truck, Link2, Undo2 } from 'lucide-react';
+import OrderStatusTimeline from './OrderStatusTimeline';
+import CancelOrderDialog from './CancelOrderDialog';
+import PaymentLinkDialog from './PaymentLinkDialog';
+import RefundDialog from './RefundDialog';
+import OrderPaymentsCard from './OrderPaymentsCard';
+import { CancelOrderOptions } from '@/lib/orders';
+import { getOrderPayments, getOutstandingBalance } from '@/lib/payments';
+import { PAYMENT_METHOD_LABELS } from '@/utils/paymentStatus';
 
 interface OrderDetailsProps {
   order: Order;
-  onStatusChange: (status: Order['status']) => void;
+  statusHistory: OrderStatusHistoryEntry[];
+  isHistoryLoading?: boolean;
+  isUpdatingStatus?: boolean;
+  onStatusChange: (status: Order['status'], reason?: string) => void;
+  onCancelOrder: (options: CancelOrderOptions) => void;
+  onPrintInvoice: () => void;
+  onPrintDeliveryNote: () => void;
 }
 
-const OrderDetails: React.FC<OrderDetailsProps> = ({ order, onStatusChange }) => {
-  const [updatingStatus, setUpdatingStatus] = React.useState(false);
+const OrderDetails: React.FC<OrderDetailsProps> = ({
+  order,
+  statusHistory,
+  isHistoryLoading,
+  isUpdatingStatus,
+  onStatusChange,
+  onCancelOrder,
+  onPrintInvoice,
+  onPrintDeliveryNote,
+}) => {
+  const [pendingStatus, setPendingStatus] = React.useState<Order['status'] | null>(null);
+  const [statusReason, setStatusReason] = React.useState('');
+  const [isCancelDialogOpen, setIsCancelDialogOpen] = React.useState(false);
+  const [isPaymentLinkOpen, setIsPaymentLinkOpen] = React.useState(false);
+  const [isRefundOpen, setIsRefundOpen] = React.useState(false);
+
+  const canRequestPayment = (order.payment_method || 'pesapal') === 'pesapal' &&
+    (order.status === 'pending' || order.status === 'processing');
+  const canRefund = order.status === 'completed' || order.status === 'payment_review';
+
+  const { data: payments = [], isLoading: isPaymentsLoading } = useQuery({
+    queryKey: ['orderPayments', order.id],
+    queryFn: () => getOrderPayments(order.id),
+  });
+  const balance = getOutstandingBalance(order, payments);
+  const isAwaitingPayment = !isPaymentsLoading && balance > 0 &&
+    getAllowedOrderStatuses(order.status).includes('completed');
+
+  // Only offer the transitions the order can actually make from its current
+  // state. Cancelling has its own dialog because it may restock and refund,
+  // and an order can't be completed until it has been paid for.
+  const allowedStatuses = getAllowedOrderStatuses(order.status).filter(status =>
+    status !== 'cancelled' && !(status === 'completed' && (isPaymentsLoading || balance > 0))
+  );
+  const canCancel = getAllowedOrderStatuses(order.status).includes('cancelled');
   
-  const handleStatusChange = async (status: Order['status']) => {
+  const handleStatusChange = (status: Order['status']) => {
     if (status === order.status) return;
     
-    setUpdatingStatus(true);
-    
-    try {
-      onStatusChange(status);
-    } catch (error) {
-      console.error(error);
-    } finally {
-      setUpdatingStatus(false);
-    }
+    setStatusReason('');
+    setPendingStatus(status);
   };
 
-  const getStatusColor = (status: Order['status']) => {
-    switch (status) {
-      case 'pending':
-        return 'bg-yellow-100 text-yellow-800 border-yellow-200';
-      case 'processing':
-        return 'bg-blue-100 text-blue-800 border-blue-200';
-      case 'completed':
-        return 'bg-green-100 text-green-800 border-green-200';
-      case 'cancelled':
-        return 'bg-red-100 text-red-800 border-red-200';
-      default:
-        return 'bg-gray-100 text-gray-800 border-gray-200';
-    }
+  const handleConfirmStatusChange = () => {
+    if (!pendingStatus) return;
+
+    onStatusChange(pendingStatus, statusReason);
+    setPendingStatus(null);
   };
 
   return (
@@ -73,6 +120,28 @@ const OrderDetails: React.FC<OrderDetailsProps> = ({ order, onStatusChange }) =>
           <p className="text-muted-foreground">
             Placed on {format(new Date(order.created_at), 'PPP')}
           </p>
+          <div className="flex gap-2 mt-2">
+            <Button variant="outline" size="sm" onClick={onPrintInvoice}>
+              <FileText className="mr-2 h-4 w-4" />
+              Invoice
+            </Button>
+            <Button variant="outline" size="sm" onClick={onPrintDeliveryNote}>
+              <Truck className="mr-2 h-4 w-4" />
+              Delivery note
+            </Button>
+            {canRequestPayment && (
+              <Button variant="outline" size="sm" onClick={() => setIsPaymentLinkOpen(true)}>
+                <Link2 className="mr-2 h-4 w-4" />
+                Payment link
+              </Button>
+            )}
+            {canRefund && (
+              <Button variant="outline" size="sm" onClick={() => setIsRefundOpen(true)}>
+                <Undo2 className="mr-2 h-4 w-4" />
+                Refund
+              </Button>
+            )}
+          </div>
         </div>
         
         <div className="flex items-center gap-2">
@@ -80,25 +149,42 @@ const OrderDetails: React.FC<OrderDetailsProps> = ({ order, onStatusChange }) =>
           <Select
             value={order.status}
             onValueChange={handleStatusChange}
-            disabled={updatingStatus}
+            disabled={isUpdatingStatus || allowedStatuses.length === 0}
           >
             <SelectTrigger className="w-[140px]">
               <SelectValue>
-                <Badge variant="outline" className={getStatusColor(order.status)}>
+                <Badge variant="outline" className={getOrderStatusColor(order.status)}>
                   {order.status}
                 </Badge>
               </SelectValue>
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="pending">Pending</SelectItem>
-              <SelectItem value="processing">Processing</SelectItem>
-              <SelectItem value="completed">Completed</SelectItem>
-              <SelectItem value="cancelled">Cancelled</SelectItem>
+              <SelectItem value={order.status}>{ORDER_STATUS_LABELS[order.status]}</SelectItem>
+              {allowedStatuses.map((status) => (
+                <SelectItem key={status} value={status}>{ORDER_STATUS_LABELS[status]}</SelectItem>
+              ))}
             </SelectContent>
           </Select>
+          {canCancel && (
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={() => setIsCancelDialogOpen(true)}
+              disabled={isUpdatingStatus}
+            >
+              <XCircle className="mr-2 h-4 w-4" />
+              Cancel order
+            </Button>
+          )}
         </div>
       </div>
 
+      {isAwaitingPayment && (
+        <p className="text-sm text-amber-600">
+          Ksh {balance.toFixed(2)} is still owed. Record the payment before completing this order.
+        </p>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <Card>
           <CardHeader>
@@ -154,15 +240,67 @@ const OrderDetails: React.FC<OrderDetailsProps> = ({ order, onStatusChange }) =>
                 <div className="text-muted-foreground">Items:</div>
                 <div className="font-medium">{order.items.length}</div>
               </div>
+              {order.payment_method && (
+                <div className="grid grid-cols-[100px_1fr] gap-1">
+                  <div className="text-muted-foreground">Payment:</div>
+                  <div className="font-medium">
+                    {PAYMENT_METHOD_LABELS[order.payment_method]}
+                    {order.payment_reference && (
+                      <span className="ml-2 font-mono text-sm text-muted-foreground">{order.payment_reference}</span>
+                    )}
+                  </div>
+                </div>
+              )}
+              {Number(order.delivery_fee) > 0 && (
+                <div className="grid grid-cols-[100px_1fr] gap-1">
+                  <div className="text-muted-foreground">Delivery:</div>
+                  <div className="font-medium">Ksh {Number(order.delivery_fee).toFixed(2)}</div>
+                </div>
+              )}
               <div className="grid grid-cols-[100px_1fr] gap-1">
                 <div className="text-muted-foreground">Total:</div>
                 <div className="font-bold text-xl">Ksh {Number(order.total_amount).toFixed(2)}</div>
               </div>
+              {order.status === 'cancelled' && (
+                <>
+                  {order.cancellation_reason && (
+                    <div className="grid grid-cols-[100px_1fr] gap-1">
+                      <div className="text-muted-foreground">Cancelled:</div>
+                      <div>
+                        {order.cancellation_reason}
+                        {order.cancelled_at && (
+                          <span className="block text-sm text-muted-foreground">
+                            {format(new Date(order.cancelled_at), 'PPP p')}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                  {Number(order.refund_amount) > 0 && (
+                    <div className="grid grid-cols-[100px_1fr] gap-1">
+                      <div className="text-muted-foreground">Refunded:</div>
+                      <div>
+                        <span className="font-medium">Ksh {Number(order.refund_amount).toFixed(2)}</span>
+                        {order.refund_reason && (
+                          <span className="block text-sm text-muted-foreground">{order.refund_reason}</span>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </>
+              )}
             </div>
           </CardContent>
         </Card>
       </div>
 
+      <OrderPaymentsCard
+        order={order}
+        payments={payments}
+        balance={balance}
+        isLoading={isPaymentsLoading}
+      />
+
       <Card>
         <CardHeader>
           <CardTitle>Order Items</CardTitle>
@@ -217,6 +355,58 @@ const OrderDetails: React.FC<OrderDetailsProps> = ({ order, onStatusChange }) =>
           </Table>
         </CardContent>
       </Card>
+
+      <OrderStatusTimeline history={statusHistory} isLoading={isHistoryLoading} />
+
+      <AlertDialog open={!!pendingStatus} onOpenChange={(open) => !open && setPendingStatus(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Change status to {pendingStatus ? ORDER_STATUS_LABELS[pendingStatus] : ''}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingStatus === 'completed'
+                ? 'Completing the order reduces stock for every item.'
+                : `Order #${order.id.substring(0, 8)} will move from ${order.status} to ${pendingStatus}.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="status-reason">Reason (optional)</Label>
+            <Textarea
+              id="status-reason"
+              placeholder="e.g. Picked up by rider"
+              value={statusReason}
+              onChange={(e) => setStatusReason(e.target.value)}
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmStatusChange}>
+              Confirm
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <CancelOrderDialog
+        order={order}
+        open={isCancelDialogOpen}
+        onOpenChange={setIsCancelDialogOpen}
+        onConfirm={onCancelOrder}
+      />
+
+      <PaymentLinkDialog
+        orderId={isPaymentLinkOpen ? order.id : null}
+        customerEmail={order.customer?.email}
+        customerPhone={order.customer?.phone}
+        onOpenChange={setIsPaymentLinkOpen}
+      />
+
+      <RefundDialog
+        order={order}
+        open={isRefundOpen}
+        onOpenChange={setIsRefundOpen}
+      />
     </div>
   );
 };
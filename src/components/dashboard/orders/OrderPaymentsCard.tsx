@@ -0,0 +1,220 @@
+import React from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from '@/components/ui/use-toast';
+import { Order, Payment } from '@/types';
+import { voidPayment } from '@/lib/payments';
+import { PAYMENT_METHOD_LABELS } from '@/utils/paymentStatus';
+import { Plus } from 'lucide-react';
+import { format } from 'date-fns';
+import RecordPaymentDialog from './RecordPaymentDialog';
+
+interface OrderPaymentsCardProps {
+  order: Order;
+  payments: Payment[];
+  balance: number;
+  isLoading?: boolean;
+}
+
+const OrderPaymentsCard: React.FC<OrderPaymentsCardProps> = ({
+  order,
+  payments,
+  balance,
+  isLoading,
+}) => {
+  const queryClient = useQueryClient();
+  const [isRecordOpen, setIsRecordOpen] = React.useState(false);
+  const [voidingPayment, setVoidingPayment] = React.useState<Payment | null>(null);
+  const [voidReason, setVoidReason] = React.useState('');
+
+  const paid = payments
+    .filter(payment => payment.status === 'confirmed')
+    .reduce((sum, payment) => sum + Number(payment.amount), 0);
+
+  // Payments behind a completed order stay; mistakes there are refunded
+  const canVoid = (payment: Payment) =>
+    payment.status === 'confirmed' && payment.method !== 'pesapal' && order.status !== 'completed';
+
+  const voidMutation = useMutation({
+    mutationFn: ({ paymentId, reason }: { paymentId: string; reason: string }) =>
+      voidPayment(paymentId, reason),
+    onSuccess: () => {
+      toast({
+        title: "Payment voided",
+        description: "The payment no longer counts towards the order.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to void payment",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['orderPayments', order.id] });
+    },
+  });
+
+  const handleVoid = (payment: Payment) => {
+    setVoidReason('');
+    setVoidingPayment(payment);
+  };
+
+  const handleConfirmVoid = () => {
+    if (!voidingPayment || !voidReason.trim()) return;
+
+    voidMutation.mutate({ paymentId: voidingPayment.id, reason: voidReason.trim() });
+    setVoidingPayment(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Payments</CardTitle>
+          <CardDescription>
+            Ksh {paid.toFixed(2)} received
+            {balance > 0 ? `, Ksh ${balance.toFixed(2)} outstanding` : ', paid in full'}
+          </CardDescription>
+        </div>
+        {order.status !== 'cancelled' && (
+          <Button variant="outline" size="sm" onClick={() => setIsRecordOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Record payment
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : payments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No payments received yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Received</TableHead>
+                <TableHead>Method</TableHead>
+                <TableHead>Reference</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {payments.map((payment) => (
+                <TableRow key={payment.id} className={payment.status === 'voided' ? 'text-muted-foreground' : undefined}>
+                  <TableCell className="whitespace-nowrap">
+                    {format(new Date(payment.received_at), 'MMM d, yyyy HH:mm')}
+                  </TableCell>
+                  <TableCell>
+                    {PAYMENT_METHOD_LABELS[payment.method]}
+                    {payment.notes && (
+                      <div className="text-xs text-muted-foreground">{payment.notes}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{payment.reference}</TableCell>
+                  <TableCell className="text-right">
+                    <span className={payment.status === 'voided' ? 'line-through' : undefined}>
+                      Ksh {Number(payment.amount).toFixed(2)}
+                    </span>
+                    {payment.status === 'voided' && (
+                      <div>
+                        <Badge variant="outline" className="bg-gray-100 text-gray-800 border-gray-200">
+                          Voided
+                        </Badge>
+                        {payment.void_reason && (
+                          <div className="text-xs">{payment.void_reason}</div>
+                        )}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {canVoid(payment) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleVoid(payment)}
+                        disabled={voidMutation.isPending}
+                      >
+                        Void
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      {isRecordOpen && (
+        <RecordPaymentDialog
+          order={order}
+          payments={payments}
+          balance={balance}
+          open={isRecordOpen}
+          onOpenChange={setIsRecordOpen}
+        />
+      )}
+
+      <AlertDialog open={!!voidingPayment} onOpenChange={(open) => !open && setVoidingPayment(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Void this payment?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {voidingPayment && (
+                `Ksh ${Number(voidingPayment.amount).toFixed(2)} by ${PAYMENT_METHOD_LABELS[voidingPayment.method]} will no longer count towards the order.`
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="void-reason">Reason</Label>
+            <Textarea
+              id="void-reason"
+              placeholder="e.g. Recorded against the wrong order"
+              value={voidReason}
+              onChange={(e) => setVoidReason(e.target.value)}
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmVoid} disabled={!voidReason.trim()}>
+              Void payment
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default OrderPaymentsCard;
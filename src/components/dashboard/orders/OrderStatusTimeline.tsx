@@ -0,0 +1,67 @@
+import React from 'react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { OrderStatusHistoryEntry } from '@/types';
+import { getOrderStatusColor } from '@/utils/orderStatus';
+import { format } from 'date-fns';
+import { ArrowRight } from 'lucide-react';
+
+interface OrderStatusTimelineProps {
+  history: OrderStatusHistoryEntry[];
+  isLoading?: boolean;
+}
+
+const OrderStatusTimeline: React.FC<OrderStatusTimelineProps> = ({ history, isLoading }) => {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Status History</CardTitle>
+        <CardDescription>
+          Every status change on this order
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading history...</p>
+        ) : history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No status changes recorded yet.</p>
+        ) : (
+          <ol className="relative border-l border-muted ml-2 space-y-6">
+            {history.map((entry) => (
+              <li key={entry.id} className="ml-4">
+                <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-muted-foreground" />
+                <div className="flex flex-wrap items-center gap-2">
+                  {entry.from_status && (
+                    <>
+                      <Badge variant="outline" className={getOrderStatusColor(entry.from_status)}>
+                        {entry.from_status}
+                      </Badge>
+                      <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                    </>
+                  )}
+                  <Badge variant="outline" className={getOrderStatusColor(entry.to_status)}>
+                    {entry.to_status}
+                  </Badge>
+                </div>
+                <p className="mt-1 text-sm text-muted-foreground">
+                  {format(new Date(entry.created_at), 'PPP p')} by {entry.changed_by_name || 'System'}
+                </p>
+                {entry.reason && (
+                  <p className="mt-1 text-sm">{entry.reason}</p>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OrderStatusTimeline;
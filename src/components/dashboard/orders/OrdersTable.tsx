@@ -11,31 +11,37 @@ import {
 } from "@/components/ui/table";
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Order } from '@/types';
+import { getOrderStatusColor } from '@/utils/orderStatus';
 import { formatDistanceToNow } from 'date-fns';
 
 interface OrdersTableProps {
   orders: Order[];
   onViewDetails: (order: Order) => void;
+  selectedIds: string[];
+  onSelectionChange: (ids: string[]) => void;
 }
 
 const OrdersTable: React.FC<OrdersTableProps> = ({
   orders,
   onViewDetails,
+  selectedIds,
+  onSelectionChange,
 }) => {
-  const getStatusColor = (status: Order['status']) => {
-    switch (status) {
-      case 'pending':
-        return 'bg-yellow-100 text-yellow-800 border-yellow-200';
-      case 'processing':
-        return 'bg-blue-100 text-blue-800 border-blue-200';
-      case 'completed':
-        return 'bg-green-100 text-green-800 border-green-200';
-      case 'cancelled':
-        return 'bg-red-100 text-red-800 border-red-200';
-      default:
-        return 'bg-gray-100 text-gray-800 border-gray-200';
-    }
+  const allSelected = orders.length > 0 && orders.every((order) => selectedIds.includes(order.id));
+  const someSelected = !allSelected && orders.some((order) => selectedIds.includes(order.id));
+
+  const handleSelectAll = (checked: boolean) => {
+    onSelectionChange(checked ? orders.map((order) => order.id) : []);
+  };
+
+  const handleSelectOrder = (orderId: string, checked: boolean) => {
+    onSelectionChange(
+      checked
+        ? [...selectedIds, orderId]
+        : selectedIds.filter((id) => id !== orderId)
+    );
   };
 
   return (
@@ -44,6 +50,13 @@ const OrdersTable: React.FC<OrdersTableProps> = ({
         <TableCaption>A list of all orders.</TableCaption>
         <TableHeader>
           <TableRow>
+            <TableHead className="w-[40px]">
+              <Checkbox
+                checked={allSelected ? true : someSelected ? 'indeterminate' : false}
+                onCheckedChange={(checked) => handleSelectAll(checked === true)}
+                aria-label="Select all orders"
+              />
+            </TableHead>
             <TableHead>Order ID</TableHead>
             <TableHead>Customer</TableHead>
             <TableHead>Email</TableHead>
@@ -57,12 +70,19 @@ const OrdersTable: React.FC<OrdersTableProps> = ({
         <TableBody>
           {orders.length > 0 ? (
             orders.map((order) => (
-              <TableRow key={order.id}>
+              <TableRow key={order.id} data-state={selectedIds.includes(order.id) ? 'selected' : undefined}>
+                <TableCell>
+                  <Checkbox
+                    checked={selectedIds.includes(order.id)}
+                    onCheckedChange={(checked) => handleSelectOrder(order.id, checked === true)}
+                    aria-label={`Select order ${order.id.substring(0, 8)}`}
+                  />
+                </TableCell>
                 <TableCell className="font-medium">{order.id.substring(0, 8)}...</TableCell>
                 <TableCell>{order.customer?.name || 'Unknown'}</TableCell>
                 <TableCell>{order.customer?.email || 'N/A'}</TableCell>
                 <TableCell>
-                  <Badge variant="outline" className={getStatusColor(order.status)}>
+                  <Badge variant="outline" className={getOrderStatusColor(order.status)}>
                     {order.status}
                   </Badge>
                 </TableCell>
@@ -82,7 +102,7 @@ const OrdersTable: React.FC<OrdersTableProps> = ({
             ))
           ) : (
             <TableRow>
-              <TableCell colSpan={8} className="text-center">No orders found</TableCell>
+              <TableCell colSpan={9} className="text-center">No orders found</TableCell>
             </TableRow>
           )}
         </TableBody>
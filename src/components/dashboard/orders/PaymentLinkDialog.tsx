@@ -0,0 +1,195 @@
+import React from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from '@/components/ui/use-toast';
+import { createPaymentLink, getOrderPesapalTransactions, PaymentLinkChannel } from '@/lib/payments';
+import { Copy, Loader2, Send } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+interface PaymentLinkDialogProps {
+  orderId: string | null;
+  customerEmail?: string | null;
+  customerPhone?: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const PaymentLinkDialog: React.FC<PaymentLinkDialogProps> = ({
+  orderId,
+  customerEmail,
+  customerPhone,
+  onOpenChange,
+}) => {
+  const queryClient = useQueryClient();
+  const [channels, setChannels] = React.useState<PaymentLinkChannel[]>([]);
+
+  React.useEffect(() => {
+    if (orderId) {
+      setChannels([
+        ...(customerEmail ? ['email' as const] : []),
+        ...(customerPhone ? ['sms' as const] : []),
+      ]);
+    }
+  }, [orderId, customerEmail, customerPhone]);
+
+  const { data: transactions = [], isLoading } = useQuery({
+    queryKey: ['pesapalTransactions', orderId],
+    queryFn: () => getOrderPesapalTransactions(orderId!),
+    enabled: !!orderId,
+  });
+
+  const openLink = transactions.find(transaction => transaction.status === 'PENDING' && transaction.iframe_url);
+
+  const linkMutation = useMutation({
+    mutationFn: (options: { notify: PaymentLinkChannel[]; forceNew?: boolean }) =>
+      createPaymentLink(orderId!, options),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['pesapalTransactions', orderId] });
+
+      const sent = result.sentTo.length > 0 ? ` and sent by ${result.sentTo.join(' and ')}` : '';
+      toast({
+        title: result.reused ? "Payment link ready" : "Payment link created",
+        description: `Link for Ksh ${result.amount.toFixed(2)}${sent}`,
+      });
+
+      if (result.notifyErrors.length > 0) {
+        toast({
+          title: "Link not sent",
+          description: result.notifyErrors.join('. '),
+          variant: "destructive",
+        });
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create payment link",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleChannel = (channel: PaymentLinkChannel, checked: boolean) => {
+    setChannels(prev => checked ? [...prev, channel] : prev.filter(c => c !== channel));
+  };
+
+  const handleCopy = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: "Copied", description: "Payment link copied to clipboard" });
+    } catch {
+      toast({ title: "Error", description: "Could not copy the link", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={!!orderId} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Pesapal payment link</DialogTitle>
+          <DialogDescription>
+            The order is completed automatically once Pesapal confirms the payment.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : openLink ? (
+            <div className="space-y-2">
+              <Label>Current link</Label>
+              <div className="flex gap-2">
+                <Input value={openLink.iframe_url || ''} readOnly />
+                <Button variant="outline" size="icon" onClick={() => handleCopy(openLink.iframe_url!)}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Ksh {Number(openLink.amount).toFixed(2)} · created {formatDistanceToNow(new Date(openLink.created_at), { addSuffix: true })}
+                {openLink.link_sent_to.length > 0 && ` · sent by ${openLink.link_sent_to.join(', ')}`}
+              </p>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No open payment link for this order yet.</p>
+          )}
+
+          <div className="space-y-2">
+            <Label>Send to customer</Label>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="send-email"
+                checked={channels.includes('email')}
+                onCheckedChange={(checked) => toggleChannel('email', checked === true)}
+                disabled={!customerEmail}
+              />
+              <Label htmlFor="send-email" className="font-normal">
+                Email {customerEmail ? `(${customerEmail})` : '(no email on file)'}
+              </Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="send-sms"
+                checked={channels.includes('sms')}
+                onCheckedChange={(checked) => toggleChannel('sms', checked === true)}
+                disabled={!customerPhone}
+              />
+              <Label htmlFor="send-sms" className="font-normal">
+                SMS {customerPhone ? `(${customerPhone})` : '(no phone on file)'}
+              </Label>
+            </div>
+          </div>
+
+          {transactions.length > 0 && (
+            <div className="space-y-1">
+              <Label>Payment attempts</Label>
+              <div className="rounded-md border divide-y text-sm">
+                {transactions.map(transaction => (
+                  <div key={transaction.id} className="flex items-center justify-between px-3 py-2">
+                    <span className="font-mono text-xs">{transaction.merchant_reference}</span>
+                    <Badge variant="outline">{transaction.status}</Badge>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          {openLink && (
+            <Button
+              variant="outline"
+              onClick={() => linkMutation.mutate({ notify: channels, forceNew: true })}
+              disabled={linkMutation.isPending}
+            >
+              New link
+            </Button>
+          )}
+          <Button
+            onClick={() => linkMutation.mutate({ notify: channels })}
+            disabled={linkMutation.isPending}
+          >
+            {linkMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Send className="mr-2 h-4 w-4" />
+            )}
+            {channels.length > 0 ? 'Generate & send' : 'Generate link'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PaymentLinkDialog;
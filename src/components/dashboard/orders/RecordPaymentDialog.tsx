@@ -0,0 +1,171 @@
+import React from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from '@/components/ui/use-toast';
+import { Order, Payment } from '@/types';
+import { PaymentInput, recordPayment } from '@/lib/payments';
+import { PAYMENT_METHOD_LABELS } from '@/utils/paymentStatus';
+import { Loader2 } from 'lucide-react';
+
+type ManualPaymentMethod = PaymentInput['method'];
+
+const MANUAL_PAYMENT_METHODS: ManualPaymentMethod[] = ['cod', 'mpesa', 'bank_transfer'];
+
+interface RecordPaymentDialogProps {
+  order: Order;
+  payments: Payment[];
+  balance: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const RecordPaymentDialog: React.FC<RecordPaymentDialogProps> = ({
+  order,
+  payments,
+  balance,
+  open,
+  onOpenChange,
+}) => {
+  const queryClient = useQueryClient();
+
+  // Start from how the order was placed, and the reference taken at the time
+  // if it hasn't been recorded against a payment yet. The dialog is mounted
+  // each time it opens, so these are worked out afresh.
+  const orderMethod: ManualPaymentMethod = order.payment_method && order.payment_method !== 'pesapal'
+    ? order.payment_method
+    : 'cod';
+  const isOrderReferenceUsed = payments.some(payment =>
+    payment.status === 'confirmed' &&
+    payment.reference?.toUpperCase() === order.payment_reference?.toUpperCase()
+  );
+
+  const [method, setMethod] = React.useState<ManualPaymentMethod>(orderMethod);
+  const [amount, setAmount] = React.useState(balance > 0 ? balance.toFixed(2) : '');
+  const [reference, setReference] = React.useState(
+    orderMethod !== 'cod' && !isOrderReferenceUsed ? order.payment_reference || '' : ''
+  );
+  const [notes, setNotes] = React.useState('');
+
+  const parsedAmount = Number(amount);
+  const isAmountValid = amount.trim() !== '' && Number.isFinite(parsedAmount) && parsedAmount > 0;
+  const needsReference = method !== 'cod';
+  const isValid = isAmountValid && (!needsReference || !!reference.trim());
+
+  const recordMutation = useMutation({
+    mutationFn: () => recordPayment({
+      orderId: order.id,
+      method,
+      amount: parsedAmount,
+      reference,
+      notes,
+    }),
+    onSuccess: () => {
+      toast({
+        title: "Payment recorded",
+        description: `Ksh ${parsedAmount.toFixed(2)} by ${PAYMENT_METHOD_LABELS[method]} recorded against the order.`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to record payment",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['orderPayments', order.id] });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+
+    recordMutation.mutate();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Record payment</DialogTitle>
+          <DialogDescription>
+            Ksh {balance.toFixed(2)} is still owed on order #{order.id.substring(0, 8)}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <RadioGroup value={method} onValueChange={(value) => setMethod(value as ManualPaymentMethod)}>
+            {MANUAL_PAYMENT_METHODS.map((option) => (
+              <div key={option} className="flex items-center space-x-2">
+                <RadioGroupItem value={option} id={`record-payment-${option}`} />
+                <Label htmlFor={`record-payment-${option}`}>{PAYMENT_METHOD_LABELS[option]}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          <div className="space-y-2">
+            <Label htmlFor="payment-amount">Amount (Ksh)</Label>
+            <Input
+              id="payment-amount"
+              type="number"
+              min="0"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="payment-reference">
+              {method === 'mpesa' ? 'M-Pesa reference' : method === 'bank_transfer' ? 'Bank reference' : 'Reference (optional)'}
+            </Label>
+            <Input
+              id="payment-reference"
+              placeholder={method === 'mpesa' ? 'e.g. QJK3XXXXXX' : undefined}
+              value={reference}
+              onChange={(e) => setReference(e.target.value.toUpperCase())}
+              required={needsReference}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="payment-notes">Notes (optional)</Label>
+            <Textarea
+              id="payment-notes"
+              placeholder="e.g. Collected by rider"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Close
+            </Button>
+            <Button type="submit" disabled={!isValid || recordMutation.isPending}>
+              {recordMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Record payment
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecordPaymentDialog;
@@ -0,0 +1,299 @@
+import React from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from '@/components/ui/use-toast';
+import { Order } from '@/types';
+import {
+  createRefund,
+  getOrderRefunds,
+  getRefundableAmount,
+  NET_REVENUE_REFUND_STATUSES,
+  resolveRefund,
+} from '@/lib/refunds';
+import { getRefundStatusColor, REFUND_STATUS_LABELS } from '@/utils/paymentStatus';
+import { Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface RefundDialogProps {
+  order: Order;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const RefundDialog: React.FC<RefundDialogProps> = ({
+  order,
+  open,
+  onOpenChange,
+}) => {
+  const queryClient = useQueryClient();
+  const [quantities, setQuantities] = React.useState<Record<string, string>>({});
+  const [amount, setAmount] = React.useState('');
+  const [reason, setReason] = React.useState('');
+
+  React.useEffect(() => {
+    if (open) {
+      setQuantities({});
+      setAmount('');
+      setReason('');
+    }
+  }, [open]);
+
+  const { data: refunds = [], isLoading } = useQuery({
+    queryKey: ['refunds', order.id],
+    queryFn: () => getOrderRefunds(order.id),
+    enabled: open,
+  });
+
+  const activeRefunds = refunds.filter(refund => NET_REVENUE_REFUND_STATUSES.includes(refund.status));
+  const orderTotal = Number(order.total_amount) + Number(order.delivery_fee || 0);
+
+  // What's been paid on the order, less earlier refunds
+  const { data: refundable = 0 } = useQuery({
+    queryKey: ['refundable', order.id],
+    queryFn: () => getRefundableAmount(order.id),
+    enabled: open,
+  });
+
+  const refundedQuantity = (orderItemId: string) =>
+    activeRefunds
+      .flatMap(refund => refund.items)
+      .filter(item => item.order_item_id === orderItemId)
+      .reduce((sum, item) => sum + item.quantity, 0);
+
+  const selectedItems = order.items
+    .map(item => ({ item, quantity: Number(quantities[item.id] || 0) }))
+    .filter(({ quantity }) => quantity > 0);
+
+  const itemsTotal = selectedItems.reduce((sum, { item, quantity }) => sum + quantity * Number(item.unit_price), 0);
+  const areItemsValid = selectedItems.every(({ item, quantity }) =>
+    Number.isInteger(quantity) && quantity <= item.quantity - refundedQuantity(item.id)
+  );
+
+  const parsedAmount = Number(amount);
+  const isAmountValid = amount.trim() !== '' && Number.isFinite(parsedAmount) && parsedAmount > 0 && parsedAmount <= refundable + 0.001;
+
+  const handleQuantityChange = (orderItemId: string, value: string) => {
+    const next = { ...quantities, [orderItemId]: value };
+    setQuantities(next);
+
+    // Suggest the value of the selected items until the amount is edited by hand
+    const total = order.items.reduce(
+      (sum, item) => sum + Number(next[item.id] || 0) * Number(item.unit_price),
+      0
+    );
+    if (amount === '' || Number(amount) === itemsTotal) {
+      setAmount(total > 0 ? total.toFixed(2) : '');
+    }
+  };
+
+  const refundMutation = useMutation({
+    mutationFn: () => createRefund({
+      orderId: order.id,
+      amount: parsedAmount,
+      reason: reason.trim(),
+      items: selectedItems.map(({ item, quantity }) => ({ orderItemId: item.id, quantity })),
+    }),
+    onSuccess: (result) => {
+      toast({
+        title: result.status === 'requested' ? "Refund requested" : "Refund recorded",
+        description: result.status === 'requested'
+          ? `Pesapal will return Ksh ${parsedAmount.toFixed(2)} to the customer.`
+          : `Ksh ${parsedAmount.toFixed(2)} recorded as refunded.`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create refund",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['refunds', order.id] });
+      queryClient.invalidateQueries({ queryKey: ['refundable', order.id] });
+      queryClient.invalidateQueries({ queryKey: ['dashboardStats'] });
+      queryClient.invalidateQueries({ queryKey: ['productAnalytics'] });
+    },
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: ({ refundId, status }: { refundId: string; status: 'completed' | 'failed' }) =>
+      resolveRefund(refundId, status),
+    onSuccess: (_, { status }) => {
+      toast({
+        title: status === 'completed' ? "Refund completed" : "Refund marked failed",
+        description: status === 'completed'
+          ? "The refund is recorded as returned to the customer."
+          : "The refund no longer counts against the order.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update refund",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['refunds', order.id] });
+      queryClient.invalidateQueries({ queryKey: ['refundable', order.id] });
+      queryClient.invalidateQueries({ queryKey: ['dashboardStats'] });
+      queryClient.invalidateQueries({ queryKey: ['productAnalytics'] });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isAmountValid || !areItemsValid || !reason.trim()) return;
+
+    refundMutation.mutate();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Refund order #{order.id.substring(0, 8)}</DialogTitle>
+          <DialogDescription>
+            Ksh {refundable.toFixed(2)} of the Ksh {orderTotal.toFixed(2)} order can still be refunded
+            from what's been paid.
+            {(order.payment_method || 'pesapal') === 'pesapal'
+              ? ' The refund is sent back through Pesapal.'
+              : ' Return the money to the customer yourself; this records it.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Items affected (optional)</Label>
+            {order.items.map((item) => {
+              const remaining = item.quantity - refundedQuantity(item.id);
+              return (
+                <div key={item.id} className="flex items-center justify-between gap-4 text-sm">
+                  <div>
+                    <div className="font-medium">{item.products.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      Ksh {Number(item.unit_price).toFixed(2)} · {remaining} of {item.quantity} refundable
+                    </div>
+                  </div>
+                  <Input
+                    type="number"
+                    min="0"
+                    max={remaining}
+                    step="1"
+                    className="w-20"
+                    value={quantities[item.id] || ''}
+                    onChange={(e) => handleQuantityChange(item.id, e.target.value)}
+                    disabled={remaining <= 0}
+                  />
+                </div>
+              );
+            })}
+            {!areItemsValid && (
+              <p className="text-sm text-red-600">Quantities can't exceed what's left to refund on each item.</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="refund-amount">Amount (Ksh)</Label>
+            <Input
+              id="refund-amount"
+              type="number"
+              min="0"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="refund-reason">Reason</Label>
+            <Textarea
+              id="refund-reason"
+              placeholder="e.g. Two tilapia damaged in delivery"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              required
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Close
+            </Button>
+            <Button
+              type="submit"
+              disabled={!isAmountValid || !areItemsValid || !reason.trim() || refundMutation.isPending}
+            >
+              {refundMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Refund
+            </Button>
+          </DialogFooter>
+        </form>
+
+        <div className="space-y-2 border-t pt-4">
+          <h3 className="font-semibold">Previous refunds</h3>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : refunds.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No refunds on this order yet.</p>
+          ) : (
+            refunds.map((refund) => (
+              <div key={refund.id} className="rounded-md border p-3 text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium">Ksh {Number(refund.amount).toFixed(2)}</span>
+                  <Badge variant="outline" className={getRefundStatusColor(refund.status)}>
+                    {REFUND_STATUS_LABELS[refund.status]}
+                  </Badge>
+                </div>
+                <p className="mt-1">{refund.reason}</p>
+                {refund.error && <p className="mt-1 text-xs text-red-600">{refund.error}</p>}
+                <p className="mt-1 text-xs text-muted-foreground">
+                  {format(new Date(refund.created_at), 'PPP p')}
+                </p>
+                {(refund.status === 'requested' || refund.status === 'pending') && (
+                  <div className="mt-2 flex gap-2">
+                    {refund.status === 'requested' && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={resolveMutation.isPending}
+                        onClick={() => resolveMutation.mutate({ refundId: refund.id, status: 'completed' })}
+                      >
+                        Mark refunded
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={resolveMutation.isPending}
+                      onClick={() => resolveMutation.mutate({ refundId: refund.id, status: 'failed' })}
+                    >
+                      Mark failed
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RefundDialog;
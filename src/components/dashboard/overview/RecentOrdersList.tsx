@@ -12,6 +12,7 @@ import {
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Order } from '@/types';
+import { getOrderStatusColor } from '@/utils/orderStatus';
 import { formatDistanceToNow } from 'date-fns';
 
 interface RecentOrdersListProps {
@@ -19,21 +20,6 @@ interface RecentOrdersListProps {
 }
 
 const RecentOrdersList: React.FC<RecentOrdersListProps> = ({ orders }) => {
-  const getStatusColor = (status: Order['status']) => {
-    switch (status) {
-      case 'pending':
-        return 'bg-yellow-100 text-yellow-800 border-yellow-200';
-      case 'processing':
-        return 'bg-blue-100 text-blue-800 border-blue-200';
-      case 'completed':
-        return 'bg-green-100 text-green-800 border-green-200';
-      case 'cancelled':
-        return 'bg-red-100 text-red-800 border-red-200';
-      default:
-        return 'bg-gray-100 text-gray-800 border-gray-200';
-    }
-  };
-
   return (
     <Card className="col-span-12 overflow-hidden">
       <CardHeader>
@@ -58,7 +44,7 @@ const RecentOrdersList: React.FC<RecentOrdersListProps> = ({ orders }) => {
                   <TableCell className="font-medium">{order.id.substring(0, 8)}...</TableCell>
                   <TableCell>{order.customer?.name || 'Unknown'}</TableCell>
                   <TableCell>
-                    <Badge variant="outline" className={getStatusColor(order.status)}>
+                    <Badge variant="outline" className={getOrderStatusColor(order.status)}>
                       {order.status}
                     </Badge>
                   </TableCell>
@@ -0,0 +1,103 @@
+import React from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { CashUpDay } from '@/types';
+import { formatVariance, hasVariance, sumCashUpDays } from '@/utils/cashUpReport';
+import { cn } from '@/lib/utils';
+import { format, parseISO } from 'date-fns';
+
+interface CashUpTableProps {
+  days: CashUpDay[];
+}
+
+const money = (amount: number) => `Ksh ${amount.toFixed(2)}`;
+
+const VarianceCell: React.FC<{ amount: number }> = ({ amount }) => (
+  <TableCell className={cn('text-right whitespace-nowrap', hasVariance(amount) && 'font-semibold text-red-600')}>
+    {formatVariance(amount)}
+  </TableCell>
+);
+
+const CashUpTable: React.FC<CashUpTableProps> = ({ days }) => {
+  const totals = sumCashUpDays(days);
+
+  return (
+    <div className="rounded-md border overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Date</TableHead>
+            <TableHead className="text-right">Completed orders</TableHead>
+            <TableHead className="text-right">Pesapal</TableHead>
+            <TableHead className="text-right">COD expected</TableHead>
+            <TableHead className="text-right">COD collected</TableHead>
+            <TableHead className="text-right">COD variance</TableHead>
+            <TableHead className="text-right">M-Pesa</TableHead>
+            <TableHead className="text-right">Bank</TableHead>
+            <TableHead className="text-right">Refunded</TableHead>
+            <TableHead className="text-right">Net collected</TableHead>
+            <TableHead className="text-right">Variance</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {days.length > 0 ? (
+            days.map((day) => (
+              <TableRow
+                key={day.day}
+                className={cn((hasVariance(day.variance) || hasVariance(day.cod_variance)) && 'bg-red-50')}
+              >
+                <TableCell className="whitespace-nowrap">{format(parseISO(day.day), 'EEE d MMM yyyy')}</TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  {money(day.completed_order_total)}
+                  <div className="text-xs text-muted-foreground">{day.completed_order_count} orders</div>
+                </TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  {money(day.pesapal_collected)}
+                  <div className="text-xs text-muted-foreground">{day.pesapal_count} payments</div>
+                </TableCell>
+                <TableCell className="text-right whitespace-nowrap">{money(day.cod_expected)}</TableCell>
+                <TableCell className="text-right whitespace-nowrap">{money(day.cod_collected)}</TableCell>
+                <VarianceCell amount={day.cod_variance} />
+                <TableCell className="text-right whitespace-nowrap">{money(day.mpesa_collected)}</TableCell>
+                <TableCell className="text-right whitespace-nowrap">{money(day.bank_transfer_collected)}</TableCell>
+                <TableCell className="text-right whitespace-nowrap">{money(day.refunded)}</TableCell>
+                <TableCell className="text-right whitespace-nowrap font-medium">{money(day.net_collected)}</TableCell>
+                <VarianceCell amount={day.variance} />
+              </TableRow>
+            ))
+          ) : (
+            <TableRow>
+              <TableCell colSpan={11} className="text-center">No days in range</TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+        {days.length > 1 && (
+          <TableFooter>
+            <TableRow>
+              <TableCell>Total</TableCell>
+              <TableCell className="text-right whitespace-nowrap">{money(totals.completed_order_total)}</TableCell>
+              <TableCell className="text-right whitespace-nowrap">{money(totals.pesapal_collected)}</TableCell>
+              <TableCell className="text-right whitespace-nowrap">{money(totals.cod_expected)}</TableCell>
+              <TableCell className="text-right whitespace-nowrap">{money(totals.cod_collected)}</TableCell>
+              <VarianceCell amount={totals.cod_variance} />
+              <TableCell className="text-right whitespace-nowrap">{money(totals.mpesa_collected)}</TableCell>
+              <TableCell className="text-right whitespace-nowrap">{money(totals.bank_transfer_collected)}</TableCell>
+              <TableCell className="text-right whitespace-nowrap">{money(totals.refunded)}</TableCell>
+              <TableCell className="text-right whitespace-nowrap">{money(totals.net_collected)}</TableCell>
+              <VarianceCell amount={totals.variance} />
+            </TableRow>
+          </TableFooter>
+        )}
+      </Table>
+    </div>
+  );
+};
+
+export default CashUpTable;
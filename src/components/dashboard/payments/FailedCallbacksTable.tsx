@@ -0,0 +1,87 @@
+import React from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { PesapalCallback } from '@/types';
+import { CALLBACK_OUTCOME_LABELS, getCallbackOutcomeColor } from '@/utils/paymentStatus';
+import { RotateCcw } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface FailedCallbacksTableProps {
+  callbacks: PesapalCallback[];
+  replayingCallbackId?: string | null;
+  onReplay: (callbackId: string) => void;
+}
+
+const FailedCallbacksTable: React.FC<FailedCallbacksTableProps> = ({
+  callbacks,
+  replayingCallbackId,
+  onReplay,
+}) => {
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Received</TableHead>
+            <TableHead>Tracking ID</TableHead>
+            <TableHead>Type</TableHead>
+            <TableHead>Outcome</TableHead>
+            <TableHead>Attempts</TableHead>
+            <TableHead>Error</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {callbacks.length > 0 ? (
+            callbacks.map((callback) => (
+              <TableRow key={callback.id}>
+                <TableCell className="whitespace-nowrap">
+                  {format(new Date(callback.created_at), 'MMM d, yyyy HH:mm')}
+                  {callback.received_count > 1 && (
+                    <div className="text-xs text-muted-foreground">Received {callback.received_count} times</div>
+                  )}
+                </TableCell>
+                <TableCell className="font-mono text-xs">{callback.pesapal_tracking_id}</TableCell>
+                <TableCell>{callback.callback_type}</TableCell>
+                <TableCell>
+                  <Badge variant="outline" className={getCallbackOutcomeColor(callback.outcome)}>
+                    {callback.outcome ? CALLBACK_OUTCOME_LABELS[callback.outcome] : 'Not processed'}
+                  </Badge>
+                </TableCell>
+                <TableCell>{callback.attempts}</TableCell>
+                <TableCell className="max-w-xs text-sm text-red-600">{callback.error}</TableCell>
+                <TableCell className="text-right">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onReplay(callback.id)}
+                    disabled={!!replayingCallbackId}
+                  >
+                    <RotateCcw
+                      className={`mr-2 h-4 w-4 ${replayingCallbackId === callback.id ? 'animate-spin' : ''}`}
+                    />
+                    Replay
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))
+          ) : (
+            <TableRow>
+              <TableCell colSpan={7} className="text-center">No failed callbacks</TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default FailedCallbacksTable;
@@ -0,0 +1,176 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { PesapalTransactionSummary } from '@/types';
+import { getPesapalCallbacks } from '@/lib/payments';
+import { getOrderStatusColor } from '@/utils/orderStatus';
+import { CALLBACK_OUTCOME_LABELS, getCallbackOutcomeColor, getPesapalStatusColor } from '@/utils/paymentStatus';
+import { RefreshCw, RotateCcw } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface PaymentDetailsDialogProps {
+  transaction: PesapalTransactionSummary | null;
+  isRechecking?: boolean;
+  replayingCallbackId?: string | null;
+  onOpenChange: (open: boolean) => void;
+  onRecheck: (transaction: PesapalTransactionSummary) => void;
+  onReplayCallback: (callbackId: string) => void;
+}
+
+const PaymentDetailsDialog: React.FC<PaymentDetailsDialogProps> = ({
+  transaction,
+  isRechecking,
+  replayingCallbackId,
+  onOpenChange,
+  onRecheck,
+  onReplayCallback,
+}) => {
+  const { data: callbacks = [], isLoading } = useQuery({
+    queryKey: ['pesapalCallbacks', transaction?.pesapal_tracking_id],
+    queryFn: () => getPesapalCallbacks(transaction!.pesapal_tracking_id),
+    enabled: !!transaction,
+  });
+
+  return (
+    <Dialog open={!!transaction} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Payment {transaction?.merchant_reference}</DialogTitle>
+          <DialogDescription>Tracking ID {transaction?.pesapal_tracking_id}</DialogDescription>
+        </DialogHeader>
+
+        {transaction && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-[140px_1fr] gap-y-2 text-sm">
+              <div className="text-muted-foreground">Payment status:</div>
+              <div>
+                <Badge variant="outline" className={getPesapalStatusColor(transaction.status)}>
+                  {transaction.status}
+                </Badge>
+              </div>
+              <div className="text-muted-foreground">Amount:</div>
+              <div className="font-medium">{transaction.currency} {Number(transaction.amount).toFixed(2)}</div>
+              {transaction.reported_amount !== null && (
+                <>
+                  <div className="text-muted-foreground">Paid:</div>
+                  <div>
+                    {transaction.reported_currency || transaction.currency} {Number(transaction.reported_amount).toFixed(2)}
+                  </div>
+                </>
+              )}
+              {transaction.review_reason && (
+                <>
+                  <div className="text-muted-foreground">Held for review:</div>
+                  <div className="text-red-600">{transaction.review_reason}</div>
+                </>
+              )}
+              <div className="text-muted-foreground">Order:</div>
+              <div className="flex items-center gap-2">
+                <span className="font-mono">{transaction.order_id}</span>
+                {transaction.order_status && (
+                  <Badge variant="outline" className={getOrderStatusColor(transaction.order_status)}>
+                    {transaction.order_status}
+                  </Badge>
+                )}
+              </div>
+              {transaction.order_total !== null && (
+                <>
+                  <div className="text-muted-foreground">Order total:</div>
+                  <div>Ksh {transaction.order_total.toFixed(2)}</div>
+                </>
+              )}
+              <div className="text-muted-foreground">Customer:</div>
+              <div>{transaction.customer_name || 'Unknown'}</div>
+              <div className="text-muted-foreground">Created:</div>
+              <div>{format(new Date(transaction.created_at), 'PPP p')}</div>
+              <div className="text-muted-foreground">Last updated:</div>
+              <div>{format(new Date(transaction.updated_at), 'PPP p')}</div>
+              {transaction.iframe_url && (
+                <>
+                  <div className="text-muted-foreground">Payment link:</div>
+                  <a
+                    href={transaction.iframe_url}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="truncate text-blue-600 hover:underline"
+                  >
+                    {transaction.iframe_url}
+                  </a>
+                </>
+              )}
+            </div>
+
+            <div className="flex justify-end">
+              <Button variant="outline" onClick={() => onRecheck(transaction)} disabled={isRechecking}>
+                <RefreshCw className={`mr-2 h-4 w-4 ${isRechecking ? 'animate-spin' : ''}`} />
+                Re-check with Pesapal
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="font-semibold">Callback history</h3>
+              {isLoading ? (
+                <p className="text-sm text-muted-foreground">Loading...</p>
+              ) : callbacks.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Pesapal hasn't sent any callbacks for this payment.</p>
+              ) : (
+                <div className="space-y-2">
+                  {callbacks.map((callback) => (
+                    <details key={callback.id} className="rounded-md border p-3 text-sm">
+                      <summary className="flex cursor-pointer items-center justify-between gap-2">
+                        <span className="font-medium">{callback.callback_type}</span>
+                        <span className="flex items-center gap-2">
+                          <Badge variant="outline" className={getCallbackOutcomeColor(callback.outcome)}>
+                            {callback.outcome ? CALLBACK_OUTCOME_LABELS[callback.outcome] : 'Not processed'}
+                          </Badge>
+                          <span className="text-muted-foreground">
+                            {format(new Date(callback.created_at), 'MMM d, HH:mm:ss')}
+                          </span>
+                        </span>
+                      </summary>
+                      <div className="mt-2 flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                        <span>
+                          {callback.attempts} attempt{callback.attempts === 1 ? '' : 's'}
+                          {callback.received_count > 1 && `, received ${callback.received_count} times`}
+                        </span>
+                        {callback.outcome !== 'succeeded' && callback.outcome !== 'held' && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => onReplayCallback(callback.id)}
+                            disabled={!!replayingCallbackId}
+                          >
+                            <RotateCcw
+                              className={`mr-2 h-4 w-4 ${replayingCallbackId === callback.id ? 'animate-spin' : ''}`}
+                            />
+                            Replay
+                          </Button>
+                        )}
+                      </div>
+                      {callback.error && (
+                        <p className="mt-2 text-xs text-red-600">{callback.error}</p>
+                      )}
+                      <pre className="mt-2 overflow-x-auto rounded bg-muted p-2 text-xs">
+                        {JSON.stringify(callback.raw_payload, null, 2)}
+                      </pre>
+                    </details>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PaymentDetailsDialog;
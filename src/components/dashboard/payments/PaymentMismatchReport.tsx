@@ -0,0 +1,107 @@
+import React from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { PaymentMismatch, PaymentMismatchType } from '@/types';
+import { getOrderStatusColor } from '@/utils/orderStatus';
+import { getPesapalStatusColor } from '@/utils/paymentStatus';
+import { RefreshCw } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+const MISMATCH_LABELS: Record<PaymentMismatchType, string> = {
+  paid_not_completed: 'Paid, order not completed',
+  completed_without_payment: 'Completed without payment',
+};
+
+interface PaymentMismatchReportProps {
+  mismatches: PaymentMismatch[];
+  recheckingTrackingId?: string | null;
+  onRecheck: (trackingId: string) => void;
+}
+
+const PaymentMismatchReport: React.FC<PaymentMismatchReportProps> = ({
+  mismatches,
+  recheckingTrackingId,
+  onRecheck,
+}) => {
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Problem</TableHead>
+            <TableHead>Order</TableHead>
+            <TableHead>Order total</TableHead>
+            <TableHead>Payment</TableHead>
+            <TableHead>Since</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {mismatches.length > 0 ? (
+            mismatches.map((mismatch) => (
+              <TableRow key={`${mismatch.mismatch}-${mismatch.order_id}-${mismatch.transaction_id}`}>
+                <TableCell>
+                  <Badge variant="outline" className="bg-red-100 text-red-800 border-red-200">
+                    {MISMATCH_LABELS[mismatch.mismatch]}
+                  </Badge>
+                </TableCell>
+                <TableCell>
+                  <div className="font-medium">{mismatch.order_id.substring(0, 8)}</div>
+                  <Badge variant="outline" className={getOrderStatusColor(mismatch.order_status)}>
+                    {mismatch.order_status}
+                  </Badge>
+                </TableCell>
+                <TableCell>Ksh {Number(mismatch.order_total).toFixed(2)}</TableCell>
+                <TableCell>
+                  {mismatch.transaction_id ? (
+                    <>
+                      <div className="font-mono text-xs">{mismatch.merchant_reference}</div>
+                      <Badge variant="outline" className={getPesapalStatusColor(mismatch.transaction_status)}>
+                        {mismatch.transaction_status}
+                      </Badge>
+                      <span className="ml-2 text-xs">Ksh {Number(mismatch.transaction_amount).toFixed(2)}</span>
+                    </>
+                  ) : (
+                    <span className="text-muted-foreground">No Pesapal payment</span>
+                  )}
+                </TableCell>
+                <TableCell className="whitespace-nowrap">
+                  {formatDistanceToNow(new Date(mismatch.created_at), { addSuffix: true })}
+                </TableCell>
+                <TableCell className="text-right">
+                  {mismatch.pesapal_tracking_id && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => onRecheck(mismatch.pesapal_tracking_id!)}
+                      disabled={!!recheckingTrackingId}
+                    >
+                      <RefreshCw
+                        className={`mr-2 h-4 w-4 ${recheckingTrackingId === mismatch.pesapal_tracking_id ? 'animate-spin' : ''}`}
+                      />
+                      Re-check
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))
+          ) : (
+            <TableRow>
+              <TableCell colSpan={6} className="text-center">Payments and orders agree</TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default PaymentMismatchReport;
@@ -0,0 +1,106 @@
+import React from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { PesapalTransactionSummary } from '@/types';
+import { getOrderStatusColor } from '@/utils/orderStatus';
+import { getPesapalStatusColor } from '@/utils/paymentStatus';
+import { RefreshCw } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface PaymentsTableProps {
+  transactions: PesapalTransactionSummary[];
+  recheckingTrackingId?: string | null;
+  onViewDetails: (transaction: PesapalTransactionSummary) => void;
+  onRecheck: (transaction: PesapalTransactionSummary) => void;
+}
+
+const PaymentsTable: React.FC<PaymentsTableProps> = ({
+  transactions,
+  recheckingTrackingId,
+  onViewDetails,
+  onRecheck,
+}) => {
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Date</TableHead>
+            <TableHead>Reference</TableHead>
+            <TableHead>Customer</TableHead>
+            <TableHead>Order</TableHead>
+            <TableHead>Amount</TableHead>
+            <TableHead>Payment</TableHead>
+            <TableHead>Callbacks</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {transactions.length > 0 ? (
+            transactions.map((transaction) => (
+              <TableRow key={transaction.id}>
+                <TableCell className="whitespace-nowrap">
+                  {format(new Date(transaction.created_at), 'MMM d, yyyy HH:mm')}
+                </TableCell>
+                <TableCell>
+                  <div className="font-mono text-xs">{transaction.merchant_reference}</div>
+                  <div className="font-mono text-xs text-muted-foreground">{transaction.pesapal_tracking_id}</div>
+                </TableCell>
+                <TableCell>{transaction.customer_name || 'Unknown'}</TableCell>
+                <TableCell>
+                  <div className="font-medium">{transaction.order_id.substring(0, 8)}</div>
+                  {transaction.order_status && (
+                    <Badge variant="outline" className={getOrderStatusColor(transaction.order_status)}>
+                      {transaction.order_status}
+                    </Badge>
+                  )}
+                </TableCell>
+                <TableCell className="whitespace-nowrap">
+                  {transaction.currency} {Number(transaction.amount).toFixed(2)}
+                </TableCell>
+                <TableCell>
+                  <Badge variant="outline" className={getPesapalStatusColor(transaction.status)}>
+                    {transaction.status}
+                  </Badge>
+                </TableCell>
+                <TableCell>{transaction.callback_count}</TableCell>
+                <TableCell className="text-right">
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" size="sm" onClick={() => onViewDetails(transaction)}>
+                      Details
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Re-check with Pesapal"
+                      onClick={() => onRecheck(transaction)}
+                      disabled={!!recheckingTrackingId}
+                    >
+                      <RefreshCw
+                        className={`h-4 w-4 ${recheckingTrackingId === transaction.pesapal_tracking_id ? 'animate-spin' : ''}`}
+                      />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))
+          ) : (
+            <TableRow>
+              <TableCell colSpan={8} className="text-center">No transactions found</TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default PaymentsTable;
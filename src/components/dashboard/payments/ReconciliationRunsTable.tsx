@@ -0,0 +1,87 @@
+import React from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Badge } from '@/components/ui/badge';
+import { PesapalReconciliationRun } from '@/types';
+import { format } from 'date-fns';
+
+interface ReconciliationRunsTableProps {
+  runs: PesapalReconciliationRun[];
+}
+
+const ReconciliationRunsTable: React.FC<ReconciliationRunsTableProps> = ({ runs }) => {
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Started</TableHead>
+            <TableHead>Trigger</TableHead>
+            <TableHead>Checked</TableHead>
+            <TableHead>Completed</TableHead>
+            <TableHead>Cancelled</TableHead>
+            <TableHead>Held for review</TableHead>
+            <TableHead>Still pending</TableHead>
+            <TableHead>Errors</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {runs.length > 0 ? (
+            runs.map((run) => (
+              <TableRow key={run.id}>
+                <TableCell className="whitespace-nowrap">
+                  {format(new Date(run.started_at), 'MMM d, yyyy HH:mm')}
+                  {!run.finished_at && (
+                    <Badge variant="outline" className="ml-2">Unfinished</Badge>
+                  )}
+                  {run.error && (
+                    <div className="text-xs text-red-600">{run.error}</div>
+                  )}
+                </TableCell>
+                <TableCell>
+                  {run.triggered_by ? 'Admin' : 'Scheduled'}
+                  <div className="text-xs text-muted-foreground">Pending over {run.stale_after_minutes} min</div>
+                </TableCell>
+                <TableCell>{run.checked_count}</TableCell>
+                <TableCell>{run.completed_count}</TableCell>
+                <TableCell>{run.cancelled_count}</TableCell>
+                <TableCell className={run.review_count > 0 ? 'font-medium text-orange-700' : undefined}>
+                  {run.review_count}
+                </TableCell>
+                <TableCell>{run.pending_count}</TableCell>
+                <TableCell>
+                  {run.error_count > 0 ? (
+                    <details>
+                      <summary className="cursor-pointer text-red-600">{run.error_count}</summary>
+                      <ul className="mt-1 space-y-1 text-xs">
+                        {run.errors.map((error) => (
+                          <li key={error.trackingId}>
+                            <span className="font-mono">{error.orderId.substring(0, 8)}</span>: {error.error}
+                          </li>
+                        ))}
+                      </ul>
+                    </details>
+                  ) : (
+                    0
+                  )}
+                </TableCell>
+              </TableRow>
+            ))
+          ) : (
+            <TableRow>
+              <TableCell colSpan={8} className="text-center">No reconciliation runs yet</TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default ReconciliationRunsTable;
@@ -0,0 +1,61 @@
+import React from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { RiderCashUp } from '@/types';
+import { formatVariance, hasVariance } from '@/utils/cashUpReport';
+import { cn } from '@/lib/utils';
+import { format, parseISO } from 'date-fns';
+
+interface RiderCashUpTableProps {
+  riders: RiderCashUp[];
+}
+
+const RiderCashUpTable: React.FC<RiderCashUpTableProps> = ({ riders }) => {
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Date</TableHead>
+            <TableHead>Rider</TableHead>
+            <TableHead className="text-right">Delivered</TableHead>
+            <TableHead className="text-right">Expected</TableHead>
+            <TableHead className="text-right">Collected</TableHead>
+            <TableHead className="text-right">Variance</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {riders.length > 0 ? (
+            riders.map((rider) => {
+              const variance = rider.cod_collected - rider.cod_expected;
+              return (
+                <TableRow key={`${rider.day}-${rider.rider_id}`} className={cn(hasVariance(variance) && 'bg-red-50')}>
+                  <TableCell className="whitespace-nowrap">{format(parseISO(rider.day), 'EEE d MMM yyyy')}</TableCell>
+                  <TableCell>{rider.rider_name || 'Unassigned'}</TableCell>
+                  <TableCell className="text-right">{rider.delivered_count}</TableCell>
+                  <TableCell className="text-right">Ksh {rider.cod_expected.toFixed(2)}</TableCell>
+                  <TableCell className="text-right">Ksh {rider.cod_collected.toFixed(2)}</TableCell>
+                  <TableCell className={cn('text-right', hasVariance(variance) && 'font-semibold text-red-600')}>
+                    {formatVariance(variance)}
+                  </TableCell>
+                </TableRow>
+              );
+            })
+          ) : (
+            <TableRow>
+              <TableCell colSpan={6} className="text-center">No cash-on-delivery orders in range</TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default RiderCashUpTable;
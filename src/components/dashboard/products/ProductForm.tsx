@@ -40,6 +40,15 @@ const formSchema = z.object({
   category: z.string().min(1, 'Category is required'),
   stock: z.coerce.number().int().nonnegative('Stock must be a non-negative integer'),
   image_url: z.string().url('Must be a valid URL').optional().or(z.literal('')),
+  // Left blank, the category default applies
+  reorder_point: z.preprocess(
+    (value) => (value === '' || value === null || value === undefined ? null : Number(value)),
+    z.number().int().nonnegative('Reorder point must be a non-negative integer').nullable()
+  ),
+  reorder_quantity: z.preprocess(
+    (value) => (value === '' || value === null || value === undefined ? null : Number(value)),
+    z.number().int().positive('Reorder quantity must be a positive integer').nullable()
+  ),
 });
 
 export type ProductFormData = z.infer<typeof formSchema>;
@@ -86,6 +95,8 @@ const ProductForm: React.FC<ProductFormProps> = ({
       category: product?.category || '',
       stock: product?.stock || 0,
       image_url: product?.image_url || '',
+      reorder_point: product?.reorder_point ?? null,
+      reorder_quantity: product?.reorder_quantity ?? null,
     },
   });
 
@@ -228,10 +239,13 @@ const ProductForm: React.FC<ProductFormProps> = ({
                     min="0"
                     placeholder="0"
                     {...field}
+                    disabled={!!product}
                   />
                 </FormControl>
                 <FormDescription>
-                  Current inventory quantity
+                  {product
+                    ? 'Adjust stock from Inventory so the change is logged'
+                    : 'Opening inventory quantity'}
                 </FormDescription>
                 <FormMessage />
               </FormItem>
@@ -258,6 +272,54 @@ const ProductForm: React.FC<ProductFormProps> = ({
           />
         </div>
 
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="reorder_point"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Reorder Point</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min="0"
+                    placeholder="Category default"
+                    {...field}
+                    value={field.value ?? ''}
+                  />
+                </FormControl>
+                <FormDescription>
+                  Flag as low stock at or below this many units
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="reorder_quantity"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Reorder Quantity</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min="1"
+                    placeholder="Category default"
+                    {...field}
+                    value={field.value ?? ''}
+                  />
+                </FormControl>
+                <FormDescription>
+                  Units to order when restocking
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
         <div className="flex justify-end space-x-2">
           <Button
             type="submit"
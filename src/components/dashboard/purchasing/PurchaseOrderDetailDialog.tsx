@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { PurchaseOrder } from '@/types';
+import { getPurchaseOrderTotal, PurchaseOrderReceiptLine } from '@/lib/purchasing';
+import {
+  getOutstandingQuantity,
+  getPurchaseOrderStatusColor,
+  PURCHASE_ORDER_STATUS_LABELS,
+} from '@/utils/purchaseOrderStatus';
+import { PackageCheck, Send, Trash2 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+
+interface PurchaseOrderDetailDialogProps {
+  order: PurchaseOrder;
+  isUpdating?: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSend: (order: PurchaseOrder) => void;
+  onDelete: (order: PurchaseOrder) => void;
+  onReceive: (order: PurchaseOrder, lines: PurchaseOrderReceiptLine[], receivedAt: string) => void;
+}
+
+interface ReceiptForm {
+  quantity: string;
+  expiresAt: string;
+}
+
+// Mounted per version of the order, so the receipt form starts from what is
+// still outstanding
+const PurchaseOrderDetailDialog: React.FC<PurchaseOrderDetailDialogProps> = ({
+  order,
+  isUpdating,
+  onOpenChange,
+  onSend,
+  onDelete,
+  onReceive,
+}) => {
+  const canReceive = order.status === 'sent' || order.status === 'partially_received';
+  const [receivedAt, setReceivedAt] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [receipt, setReceipt] = useState<Record<string, ReceiptForm>>(() =>
+    Object.fromEntries(order.items.map(item => [
+      item.id,
+      { quantity: String(getOutstandingQuantity(item)), expiresAt: '' },
+    ]))
+  );
+
+  const updateReceipt = (itemId: string, changes: Partial<ReceiptForm>) => {
+    setReceipt(prev => ({ ...prev, [itemId]: { ...prev[itemId], ...changes } }));
+  };
+
+  const receiptLines = order.items
+    .map(item => ({ item, quantity: Number(receipt[item.id]?.quantity || 0) }))
+    .filter(({ quantity }) => quantity !== 0);
+  const receiptValid = receiptLines.length > 0 && receiptLines.every(({ item, quantity }) =>
+    Number.isInteger(quantity) && quantity > 0 && quantity <= getOutstandingQuantity(item)
+  );
+
+  const handleReceive = () => {
+    if (!receiptValid) return;
+
+    onReceive(
+      order,
+      receiptLines.map(({ item, quantity }) => ({
+        itemId: item.id,
+        quantity,
+        expiresAt: receipt[item.id].expiresAt || undefined,
+      })),
+      receivedAt
+    );
+  };
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Purchase order <span className="font-mono">{order.id.slice(0, 8)}</span>
+            <Badge variant="outline" className={getPurchaseOrderStatusColor(order.status)}>
+              {PURCHASE_ORDER_STATUS_LABELS[order.status]}
+            </Badge>
+          </DialogTitle>
+          <DialogDescription>
+            {order.supplier_name}
+            {order.expected_delivery_date && ` · expected ${format(parseISO(order.expected_delivery_date), 'MMM d, yyyy')}`}
+            {order.sent_at && ` · sent ${format(new Date(order.sent_at), 'MMM d, yyyy')}`}
+            {order.received_at && ` · received ${format(new Date(order.received_at), 'MMM d, yyyy')}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead className="text-right">Ordered</TableHead>
+                <TableHead className="text-right">Received</TableHead>
+                <TableHead className="text-right">Unit cost</TableHead>
+                {canReceive && <TableHead className="w-24">Receive now</TableHead>}
+                {canReceive && <TableHead className="w-40">Expires</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {order.items.map((item) => {
+                const outstanding = getOutstandingQuantity(item);
+                return (
+                  <TableRow key={item.id}>
+                    <TableCell className="font-medium">{item.product_name}</TableCell>
+                    <TableCell className="text-right">{item.quantity_ordered}</TableCell>
+                    <TableCell className="text-right">{item.quantity_received}</TableCell>
+                    <TableCell className="text-right">
+                      {item.unit_cost === null ? '—' : `Ksh ${item.unit_cost.toFixed(2)}`}
+                    </TableCell>
+                    {canReceive && (
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          max={outstanding}
+                          step="1"
+                          value={receipt[item.id]?.quantity ?? ''}
+                          onChange={(e) => updateReceipt(item.id, { quantity: e.target.value })}
+                          disabled={outstanding === 0}
+                          aria-label={`Quantity of ${item.product_name} received`}
+                        />
+                      </TableCell>
+                    )}
+                    {canReceive && (
+                      <TableCell>
+                        <Input
+                          type="date"
+                          value={receipt[item.id]?.expiresAt ?? ''}
+                          onChange={(e) => updateReceipt(item.id, { expiresAt: e.target.value })}
+                          disabled={outstanding === 0}
+                          aria-label={`Expiry date of ${item.product_name}`}
+                        />
+                      </TableCell>
+                    )}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-muted-foreground">{order.notes}</span>
+          <span className="font-medium">Total: Ksh {getPurchaseOrderTotal(order).toFixed(2)}</span>
+        </div>
+
+        {canReceive && (
+          <div className="grid gap-2 sm:w-48">
+            <Label htmlFor="po-received-at">Received on</Label>
+            <Input
+              id="po-received-at"
+              type="date"
+              value={receivedAt}
+              onChange={(e) => setReceivedAt(e.target.value)}
+            />
+          </div>
+        )}
+        {canReceive && receiptLines.length > 0 && !receiptValid && (
+          <p className="text-sm text-red-600">Received quantities can't be more than what is still outstanding.</p>
+        )}
+
+        <DialogFooter className="gap-2">
+          {order.status === 'draft' && (
+            <>
+              <Button variant="outline" onClick={() => onDelete(order)} disabled={isUpdating}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete draft
+              </Button>
+              <Button onClick={() => onSend(order)} disabled={isUpdating || order.items.length === 0}>
+                <Send className="h-4 w-4 mr-2" />
+                Mark as sent
+              </Button>
+            </>
+          )}
+          {canReceive && (
+            <Button onClick={handleReceive} disabled={isUpdating || !receiptValid || !receivedAt}>
+              <PackageCheck className="h-4 w-4 mr-2" />
+              {isUpdating ? 'Receiving...' : 'Receive stock'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PurchaseOrderDetailDialog;
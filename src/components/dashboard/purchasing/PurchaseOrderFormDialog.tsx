@@ -0,0 +1,248 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Product, Supplier } from '@/types';
+import { PurchaseOrderInput } from '@/lib/purchasing';
+import { Plus, Trash2 } from 'lucide-react';
+import { addDays, format } from 'date-fns';
+
+interface PurchaseOrderFormDialogProps {
+  open: boolean;
+  suppliers: Supplier[];
+  products: Product[];
+  isSaving?: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (order: PurchaseOrderInput) => void;
+}
+
+interface LineForm {
+  key: number;
+  productId: string;
+  quantity: string;
+  unitCost: string;
+}
+
+let nextLineKey = 0;
+
+const emptyLine = (): LineForm => ({ key: nextLineKey++, productId: '', quantity: '', unitCost: '' });
+
+const PurchaseOrderFormDialog: React.FC<PurchaseOrderFormDialogProps> = ({
+  open,
+  suppliers,
+  products,
+  isSaving,
+  onOpenChange,
+  onSubmit,
+}) => {
+  const [supplierId, setSupplierId] = React.useState('');
+  const [expectedDate, setExpectedDate] = React.useState('');
+  const [notes, setNotes] = React.useState('');
+  const [lines, setLines] = React.useState<LineForm[]>([emptyLine()]);
+
+  React.useEffect(() => {
+    if (!open) return;
+
+    setSupplierId('');
+    setExpectedDate('');
+    setNotes('');
+    setLines([emptyLine()]);
+  }, [open]);
+
+  const supplier = suppliers.find(entry => entry.id === supplierId);
+
+  // Offer the supplier's own products when it has any listed
+  const productOptions = supplier && supplier.products.length > 0
+    ? products.filter(product => supplier.products.some(entry => entry.product_id === product.id))
+    : products;
+
+  const selectSupplier = (id: string) => {
+    const selected = suppliers.find(entry => entry.id === id);
+    setSupplierId(id);
+    setExpectedDate(selected ? format(addDays(new Date(), selected.lead_time_days), 'yyyy-MM-dd') : '');
+    setLines([emptyLine()]);
+  };
+
+  const updateLine = (key: number, changes: Partial<LineForm>) => {
+    setLines(prev => prev.map(line => line.key === key ? { ...line, ...changes } : line));
+  };
+
+  const selectProduct = (key: number, productId: string) => {
+    const supplierCost = supplier?.products.find(entry => entry.product_id === productId)?.unit_cost;
+    updateLine(key, {
+      productId,
+      unitCost: supplierCost === null || supplierCost === undefined ? '' : String(supplierCost),
+    });
+  };
+
+  const filledLines = lines.filter(line => line.productId);
+  const productIds = filledLines.map(line => line.productId);
+  const hasDuplicates = new Set(productIds).size !== productIds.length;
+  const linesValid = filledLines.length > 0 && filledLines.every(line => {
+    const quantity = Number(line.quantity);
+    return Number.isInteger(quantity) && quantity > 0
+      && (line.unitCost.trim() === '' || Number(line.unitCost) >= 0);
+  });
+  const canSubmit = !!supplierId && linesValid && !hasDuplicates && !isSaving;
+
+  const total = filledLines.reduce((sum, line) => sum + (Number(line.quantity) || 0) * (Number(line.unitCost) || 0), 0);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    onSubmit({
+      supplierId,
+      expectedDeliveryDate: expectedDate || undefined,
+      notes,
+      items: filledLines.map(line => ({
+        productId: line.productId,
+        quantity: Number(line.quantity),
+        unitCost: line.unitCost.trim() === '' ? null : Number(line.unitCost),
+      })),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New purchase order</DialogTitle>
+          <DialogDescription>
+            The order is saved as a draft. Send it once it has been placed with the supplier.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="po-supplier">Supplier</Label>
+                <Select value={supplierId} onValueChange={selectSupplier}>
+                  <SelectTrigger id="po-supplier">
+                    <SelectValue placeholder="Choose a supplier" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {suppliers.map((entry) => (
+                      <SelectItem key={entry.id} value={entry.id}>{entry.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="po-expected">Expected delivery</Label>
+                <Input
+                  id="po-expected"
+                  type="date"
+                  value={expectedDate}
+                  onChange={(e) => setExpectedDate(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="grid gap-2">
+              <div className="grid grid-cols-[1fr_80px_110px_auto] gap-2 text-xs font-medium text-muted-foreground">
+                <span>Product</span>
+                <span>Quantity</span>
+                <span>Unit cost (Ksh)</span>
+                <span className="w-9" />
+              </div>
+              {lines.map((line) => (
+                <div key={line.key} className="grid grid-cols-[1fr_80px_110px_auto] items-center gap-2">
+                  <Select
+                    value={line.productId}
+                    onValueChange={(productId) => selectProduct(line.key, productId)}
+                    disabled={!supplierId}
+                  >
+                    <SelectTrigger aria-label="Product">
+                      <SelectValue placeholder="Choose a product" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {productOptions.map((product) => (
+                        <SelectItem key={product.id} value={product.id}>
+                          {product.name} ({product.stock} in stock)
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={line.quantity}
+                    onChange={(e) => updateLine(line.key, { quantity: e.target.value })}
+                    aria-label="Quantity"
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={line.unitCost}
+                    onChange={(e) => updateLine(line.key, { unitCost: e.target.value })}
+                    aria-label="Unit cost"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setLines(prev => prev.filter(entry => entry.key !== line.key))}
+                    disabled={lines.length === 1}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <div className="flex items-center justify-between">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setLines(prev => [...prev, emptyLine()])}
+                  disabled={!supplierId}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add item
+                </Button>
+                <span className="text-sm font-medium">Total: Ksh {total.toFixed(2)}</span>
+              </div>
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="po-notes">Notes</Label>
+              <Textarea id="po-notes" rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} />
+            </div>
+
+            {hasDuplicates && (
+              <p className="text-sm text-red-600">Each product can only appear once on an order.</p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!canSubmit}>
+              {isSaving ? 'Saving...' : 'Save draft'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PurchaseOrderFormDialog;
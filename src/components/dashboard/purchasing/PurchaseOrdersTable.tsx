@@ -0,0 +1,70 @@
+import React from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Badge } from '@/components/ui/badge';
+import { PurchaseOrder } from '@/types';
+import { getPurchaseOrderTotal } from '@/lib/purchasing';
+import { getPurchaseOrderStatusColor, PURCHASE_ORDER_STATUS_LABELS } from '@/utils/purchaseOrderStatus';
+import { format, parseISO } from 'date-fns';
+
+interface PurchaseOrdersTableProps {
+  orders: PurchaseOrder[];
+  onView: (order: PurchaseOrder) => void;
+}
+
+const PurchaseOrdersTable: React.FC<PurchaseOrdersTableProps> = ({ orders, onView }) => {
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Order</TableHead>
+            <TableHead>Supplier</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead className="text-right">Units received</TableHead>
+            <TableHead className="text-right">Total</TableHead>
+            <TableHead>Expected</TableHead>
+            <TableHead>Created</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {orders.length > 0 ? (
+            orders.map((order) => {
+              const ordered = order.items.reduce((sum, item) => sum + item.quantity_ordered, 0);
+              const received = order.items.reduce((sum, item) => sum + item.quantity_received, 0);
+              return (
+                <TableRow key={order.id} className="cursor-pointer" onClick={() => onView(order)}>
+                  <TableCell className="font-mono">{order.id.slice(0, 8)}</TableCell>
+                  <TableCell className="font-medium">{order.supplier_name}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={getPurchaseOrderStatusColor(order.status)}>
+                      {PURCHASE_ORDER_STATUS_LABELS[order.status]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">{received} / {ordered}</TableCell>
+                  <TableCell className="text-right">Ksh {getPurchaseOrderTotal(order).toFixed(2)}</TableCell>
+                  <TableCell>
+                    {order.expected_delivery_date ? format(parseISO(order.expected_delivery_date), 'MMM d, yyyy') : '—'}
+                  </TableCell>
+                  <TableCell>{format(new Date(order.created_at), 'MMM d, yyyy')}</TableCell>
+                </TableRow>
+              );
+            })
+          ) : (
+            <TableRow>
+              <TableCell colSpan={7} className="text-center">No purchase orders found</TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default PurchaseOrdersTable;
@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { PurchaseSuggestion } from '@/types';
+import { getPurchaseSuggestions, PurchaseOrderInput } from '@/lib/purchasing';
+
+// Net sales over this many days set the daily sales rate
+const SALES_WINDOW_DAYS = 28;
+
+interface PurchaseSuggestionsDialogProps {
+  isCreating?: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreate: (orders: PurchaseOrderInput[]) => void;
+}
+
+interface SuggestionListProps {
+  suggestions: PurchaseSuggestion[];
+  isCreating?: boolean;
+  onCancel: () => void;
+  onCreate: (orders: PurchaseOrderInput[]) => void;
+}
+
+const SuggestionList: React.FC<SuggestionListProps> = ({ suggestions, isCreating, onCancel, onCreate }) => {
+  const orderable = suggestions.filter(suggestion => suggestion.supplier_id);
+  const unsupplied = suggestions.filter(suggestion => !suggestion.supplier_id);
+
+  const [quantities, setQuantities] = useState<Record<string, string>>(() =>
+    Object.fromEntries(orderable.map(suggestion => [suggestion.product_id, String(suggestion.suggested_quantity)]))
+  );
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(orderable.map(s => s.product_id)));
+
+  const toggle = (productId: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(productId);
+      } else {
+        next.delete(productId);
+      }
+      return next;
+    });
+  };
+
+  const chosen = orderable.filter(suggestion => selected.has(suggestion.product_id));
+  const quantitiesValid = chosen.every(suggestion => {
+    const quantity = Number(quantities[suggestion.product_id]);
+    return Number.isInteger(quantity) && quantity > 0;
+  });
+
+  // One draft per supplier
+  const orders = [...new Set(chosen.map(suggestion => suggestion.supplier_id!))].map(supplierId => ({
+    supplierId,
+    items: chosen
+      .filter(suggestion => suggestion.supplier_id === supplierId)
+      .map(suggestion => ({
+        productId: suggestion.product_id,
+        quantity: Number(quantities[suggestion.product_id]),
+        unitCost: suggestion.unit_cost,
+      })),
+  }));
+
+  if (suggestions.length === 0) {
+    return (
+      <p className="py-6 text-center text-sm text-muted-foreground">
+        Nothing needs ordering. Stock on hand and on order covers every product's reorder point.
+      </p>
+    );
+  }
+
+  return (
+    <>
+      {orderable.length > 0 && (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10" />
+                <TableHead>Product</TableHead>
+                <TableHead>Supplier</TableHead>
+                <TableHead className="text-right">Stock</TableHead>
+                <TableHead className="text-right">On order</TableHead>
+                <TableHead className="text-right">Sold / day</TableHead>
+                <TableHead className="text-right">Reorder at</TableHead>
+                <TableHead className="w-24">Order</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {orderable.map((suggestion) => (
+                <TableRow key={suggestion.product_id}>
+                  <TableCell>
+                    <Checkbox
+                      checked={selected.has(suggestion.product_id)}
+                      onCheckedChange={(checked) => toggle(suggestion.product_id, checked === true)}
+                      aria-label={`Order ${suggestion.name}`}
+                    />
+                  </TableCell>
+                  <TableCell className="font-medium">{suggestion.name}</TableCell>
+                  <TableCell>
+                    {suggestion.supplier_name}
+                    <div className="text-xs text-muted-foreground">
+                      {suggestion.lead_time_days} day lead time
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">{suggestion.stock}</TableCell>
+                  <TableCell className="text-right">{suggestion.on_order}</TableCell>
+                  <TableCell className="text-right">{suggestion.daily_sales.toFixed(1)}</TableCell>
+                  <TableCell className="text-right">{suggestion.reorder_point}</TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={quantities[suggestion.product_id]}
+                      onChange={(e) => setQuantities(prev => ({ ...prev, [suggestion.product_id]: e.target.value }))}
+                      disabled={!selected.has(suggestion.product_id)}
+                      aria-label={`Quantity of ${suggestion.name} to order`}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {unsupplied.length > 0 && (
+        <p className="text-sm text-muted-foreground">
+          No active supplier carries {unsupplied.map(suggestion => suggestion.name).join(', ')}.{' '}
+          <Link to="/admin/suppliers" className="underline">Add them to a supplier</Link> to order them here.
+        </p>
+      )}
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button onClick={() => onCreate(orders)} disabled={orders.length === 0 || !quantitiesValid || isCreating}>
+          {isCreating
+            ? 'Creating...'
+            : `Create ${orders.length} draft ${orders.length === 1 ? 'order' : 'orders'}`}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+};
+
+const PurchaseSuggestionsDialog: React.FC<PurchaseSuggestionsDialogProps> = ({
+  isCreating,
+  onOpenChange,
+  onCreate,
+}) => {
+  const { data: suggestions, isLoading, dataUpdatedAt } = useQuery({
+    queryKey: ['purchaseSuggestions', SALES_WINDOW_DAYS],
+    queryFn: () => getPurchaseSuggestions(SALES_WINDOW_DAYS),
+  });
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[860px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Suggested purchase orders</DialogTitle>
+          <DialogDescription>
+            Products expected to reach their reorder point before a new delivery could arrive, based on
+            sales over the last {SALES_WINDOW_DAYS} days and each supplier's lead time.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !suggestions ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : (
+          <SuggestionList
+            key={dataUpdatedAt}
+            suggestions={suggestions}
+            isCreating={isCreating}
+            onCancel={() => onOpenChange(false)}
+            onCreate={onCreate}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PurchaseSuggestionsDialog;
@@ -0,0 +1,235 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Product, Supplier } from '@/types';
+import { SupplierInput, SupplierProductInput } from '@/lib/purchasing';
+
+interface SupplierFormDialogProps {
+  open: boolean;
+  supplier: Supplier | null;
+  products: Product[];
+  isSaving?: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (supplier: SupplierInput, products: SupplierProductInput[], id?: string) => void;
+}
+
+const emptyForm = {
+  name: '',
+  contact_name: '',
+  phone: '',
+  email: '',
+  lead_time_days: '1',
+  notes: '',
+  is_active: true,
+};
+
+const SupplierFormDialog: React.FC<SupplierFormDialogProps> = ({
+  open,
+  supplier,
+  products,
+  isSaving,
+  onOpenChange,
+  onSubmit,
+}) => {
+  const [form, setForm] = React.useState(emptyForm);
+  // Unit cost as typed, keyed by the IDs of the products supplied
+  const [supplied, setSupplied] = React.useState<Record<string, string>>({});
+  const [productFilter, setProductFilter] = React.useState('');
+
+  React.useEffect(() => {
+    if (!open) return;
+
+    setProductFilter('');
+    if (supplier) {
+      setForm({
+        name: supplier.name,
+        contact_name: supplier.contact_name || '',
+        phone: supplier.phone || '',
+        email: supplier.email || '',
+        lead_time_days: String(supplier.lead_time_days),
+        notes: supplier.notes || '',
+        is_active: supplier.is_active,
+      });
+      setSupplied(Object.fromEntries(
+        supplier.products.map(product => [product.product_id, product.unit_cost === null ? '' : String(product.unit_cost)])
+      ));
+    } else {
+      setForm(emptyForm);
+      setSupplied({});
+    }
+  }, [open, supplier]);
+
+  const leadTime = Number(form.lead_time_days);
+  const leadTimeValid = form.lead_time_days.trim() !== '' && Number.isInteger(leadTime) && leadTime >= 0;
+  const costsValid = Object.values(supplied).every(cost => cost.trim() === '' || Number(cost) >= 0);
+  const canSubmit = !!form.name.trim() && leadTimeValid && costsValid && !isSaving;
+
+  const visibleProducts = products.filter(product =>
+    product.name.toLowerCase().includes(productFilter.toLowerCase())
+  );
+
+  const handleChange = (field: keyof typeof emptyForm) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+      setForm(prev => ({ ...prev, [field]: e.target.value }));
+    };
+
+  const toggleProduct = (productId: string, checked: boolean) => {
+    setSupplied(prev => {
+      const next = { ...prev };
+      if (checked) {
+        next[productId] = '';
+      } else {
+        delete next[productId];
+      }
+      return next;
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    onSubmit(
+      {
+        name: form.name.trim(),
+        contact_name: form.contact_name.trim() || null,
+        phone: form.phone.trim() || null,
+        email: form.email.trim() || null,
+        lead_time_days: leadTime,
+        notes: form.notes.trim() || null,
+        is_active: form.is_active,
+      },
+      Object.entries(supplied).map(([productId, cost]) => ({
+        productId,
+        unitCost: cost.trim() === '' ? null : Number(cost),
+      })),
+      supplier?.id
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{supplier ? 'Edit supplier' : 'New supplier'}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="supplier-name">Name</Label>
+              <Input id="supplier-name" value={form.name} onChange={handleChange('name')} required />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="supplier-contact">Contact person</Label>
+                <Input id="supplier-contact" value={form.contact_name} onChange={handleChange('contact_name')} />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="supplier-phone">Phone</Label>
+                <Input id="supplier-phone" value={form.phone} onChange={handleChange('phone')} />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="supplier-email">Email</Label>
+                <Input id="supplier-email" type="email" value={form.email} onChange={handleChange('email')} />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="supplier-lead-time">Lead time (days)</Label>
+                <Input
+                  id="supplier-lead-time"
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={form.lead_time_days}
+                  onChange={handleChange('lead_time_days')}
+                />
+              </div>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="supplier-notes">Notes</Label>
+              <Textarea id="supplier-notes" rows={2} value={form.notes} onChange={handleChange('notes')} />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="supplier-active">Active</Label>
+              <Switch
+                id="supplier-active"
+                checked={form.is_active}
+                onCheckedChange={(checked) => setForm(prev => ({ ...prev, is_active: checked }))}
+              />
+            </div>
+
+            <div className="grid gap-2">
+              <div className="flex items-center justify-between">
+                <Label>Products supplied</Label>
+                <span className="text-xs text-muted-foreground">{Object.keys(supplied).length} selected</span>
+              </div>
+              <Input
+                placeholder="Filter products..."
+                value={productFilter}
+                onChange={(e) => setProductFilter(e.target.value)}
+              />
+              <div className="max-h-56 space-y-1 overflow-y-auto rounded-md border p-2">
+                {visibleProducts.length === 0 ? (
+                  <p className="p-2 text-sm text-muted-foreground">No products match</p>
+                ) : (
+                  visibleProducts.map((product) => {
+                    const isSupplied = product.id in supplied;
+                    return (
+                      <div key={product.id} className="grid grid-cols-[auto_1fr_110px] items-center gap-2">
+                        <Checkbox
+                          id={`supplier-product-${product.id}`}
+                          checked={isSupplied}
+                          onCheckedChange={(checked) => toggleProduct(product.id, checked === true)}
+                        />
+                        <Label htmlFor={`supplier-product-${product.id}`} className="font-normal">
+                          {product.name}
+                        </Label>
+                        {isSupplied && (
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            placeholder="Unit cost"
+                            value={supplied[product.id]}
+                            onChange={(e) => setSupplied(prev => ({ ...prev, [product.id]: e.target.value }))}
+                            aria-label={`Unit cost of ${product.name}`}
+                          />
+                        )}
+                      </div>
+                    );
+                  })
+                )}
+              </div>
+            </div>
+
+            {!leadTimeValid && (
+              <p className="text-sm text-red-600">Lead time must be a whole number of days.</p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!canSubmit}>
+              {isSaving ? 'Saving...' : 'Save supplier'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SupplierFormDialog;
@@ -0,0 +1,103 @@
+import React from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Supplier } from '@/types';
+import { Pencil, Trash2 } from 'lucide-react';
+
+interface SuppliersTableProps {
+  suppliers: Supplier[];
+  isUpdating?: boolean;
+  onEdit: (supplier: Supplier) => void;
+  onDelete: (supplier: Supplier) => void;
+  onToggleActive: (supplier: Supplier, isActive: boolean) => void;
+}
+
+const SuppliersTable: React.FC<SuppliersTableProps> = ({
+  suppliers,
+  isUpdating,
+  onEdit,
+  onDelete,
+  onToggleActive,
+}) => {
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Supplier</TableHead>
+            <TableHead>Contact</TableHead>
+            <TableHead>Lead time</TableHead>
+            <TableHead>Products</TableHead>
+            <TableHead>Active</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {suppliers.length > 0 ? (
+            suppliers.map((supplier) => (
+              <TableRow key={supplier.id}>
+                <TableCell className="font-medium">
+                  {supplier.name}
+                  {!supplier.is_active && (
+                    <Badge variant="outline" className="ml-2">Inactive</Badge>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <div>{supplier.contact_name || '—'}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {[supplier.phone, supplier.email].filter(Boolean).join(' · ')}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  {supplier.lead_time_days} {supplier.lead_time_days === 1 ? 'day' : 'days'}
+                </TableCell>
+                <TableCell className="max-w-xs">
+                  {supplier.products.length === 0 ? (
+                    <span className="text-muted-foreground">None yet</span>
+                  ) : (
+                    <span className="line-clamp-2" title={supplier.products.map(p => p.product_name).join(', ')}>
+                      {supplier.products.map(p => p.product_name).join(', ')}
+                    </span>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Switch
+                    checked={supplier.is_active}
+                    onCheckedChange={(checked) => onToggleActive(supplier, checked)}
+                    disabled={isUpdating}
+                    aria-label={`${supplier.name} active`}
+                  />
+                </TableCell>
+                <TableCell className="text-right">
+                  <div className="flex justify-end gap-2">
+                    <Button variant="ghost" size="icon" onClick={() => onEdit(supplier)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => onDelete(supplier)} disabled={isUpdating}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))
+          ) : (
+            <TableRow>
+              <TableCell colSpan={6} className="text-center">No suppliers yet</TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default SuppliersTable;
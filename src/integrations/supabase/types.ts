@@ -172,6 +172,30 @@ export type Database = {
         }
         Relationships: []
       }
+      category_reorder_defaults: {
+        Row: {
+          category: string
+          created_at: string
+          reorder_point: number
+          reorder_quantity: number
+          updated_at: string
+        }
+        Insert: {
+          category: string
+          created_at?: string
+          reorder_point: number
+          reorder_quantity: number
+          updated_at?: string
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          reorder_point?: number
+          reorder_quantity?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       contact_numbers: {
         Row: {
           created_at: string
@@ -193,6 +217,44 @@ export type Database = {
         }
         Relationships: []
       }
+      delivery_proofs: {
+        Row: {
+          created_at: string
+          id: string
+          notes: string | null
+          order_id: string
+          photo_path: string | null
+          recipient_name: string
+          recorded_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          notes?: string | null
+          order_id: string
+          photo_path?: string | null
+          recipient_name: string
+          recorded_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          notes?: string | null
+          order_id?: string
+          photo_path?: string | null
+          recipient_name?: string
+          recorded_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "delivery_proofs_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       delivery_zones: {
         Row: {
           base_fee: number
@@ -259,6 +321,38 @@ export type Database = {
         }
         Relationships: []
       }
+      invoices: {
+        Row: {
+          id: string
+          invoice_number: number
+          issued_at: string
+          issued_by: string | null
+          order_id: string
+        }
+        Insert: {
+          id?: string
+          invoice_number: number
+          issued_at?: string
+          issued_by?: string | null
+          order_id: string
+        }
+        Update: {
+          id?: string
+          invoice_number?: number
+          issued_at?: string
+          issued_by?: string | null
+          order_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       message_delivery_logs: {
         Row: {
           brevo_message_id: string | null
@@ -399,51 +493,122 @@ export type Database = {
           },
         ]
       }
+      order_status_history: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          from_status: string | null
+          id: string
+          order_id: string
+          reason: string | null
+          to_status: string
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          order_id: string
+          reason?: string | null
+          to_status: string
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          order_id?: string
+          reason?: string | null
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_status_history_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       orders: {
         Row: {
+          cancellation_reason: string | null
+          cancelled_at: string | null
           created_at: string
+          created_by: string | null
+          delivered_at: string | null
           delivery_address: string | null
           delivery_distance_km: number | null
           delivery_fee: number | null
           delivery_latitude: number | null
           delivery_longitude: number | null
+          delivery_notes: string | null
           delivery_status: string
           delivery_zone_id: string | null
+          dispatched_at: string | null
           estimated_delivery_time: number | null
           id: string
+          payment_method: string
+          payment_reference: string | null
           pesapal_transaction_id: string | null
+          refund_amount: number
+          refund_reason: string | null
+          rider_id: string | null
           status: string
           total_amount: number
           user_id: string
         }
         Insert: {
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
           created_at?: string
+          created_by?: string | null
+          delivered_at?: string | null
           delivery_address?: string | null
           delivery_distance_km?: number | null
           delivery_fee?: number | null
           delivery_latitude?: number | null
           delivery_longitude?: number | null
+          delivery_notes?: string | null
           delivery_status?: string
           delivery_zone_id?: string | null
+          dispatched_at?: string | null
           estimated_delivery_time?: number | null
           id?: string
+          payment_method?: string
+          payment_reference?: string | null
           pesapal_transaction_id?: string | null
+          refund_amount?: number
+          refund_reason?: string | null
+          rider_id?: string | null
           status?: string
           total_amount?: number
           user_id: string
         }
         Update: {
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
           created_at?: string
+          created_by?: string | null
+          delivered_at?: string | null
           delivery_address?: string | null
           delivery_distance_km?: number | null
           delivery_fee?: number | null
           delivery_latitude?: number | null
           delivery_longitude?: number | null
+          delivery_notes?: string | null
           delivery_status?: string
           delivery_zone_id?: string | null
+          dispatched_at?: string | null
           estimated_delivery_time?: number | null
           id?: string
+          payment_method?: string
+          payment_reference?: string | null
           pesapal_transaction_id?: string | null
+          refund_amount?: number
+          refund_reason?: string | null
+          rider_id?: string | null
           status?: string
           total_amount?: number
           user_id?: string
@@ -463,6 +628,13 @@ export type Database = {
             referencedRelation: "pesapal_transactions"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "orders_rider_id_fkey"
+            columns: ["rider_id"]
+            isOneToOne: false
+            referencedRelation: "riders"
+            referencedColumns: ["id"]
+          },
         ]
       }
       page_content: {
@@ -519,30 +691,192 @@ export type Database = {
           },
         ]
       }
+      payments: {
+        Row: {
+          amount: number
+          created_at: string
+          id: string
+          method: string
+          notes: string | null
+          order_id: string
+          pesapal_transaction_id: string | null
+          received_at: string
+          recorded_by: string | null
+          reference: string | null
+          status: string
+          void_reason: string | null
+          voided_at: string | null
+          voided_by: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          id?: string
+          method: string
+          notes?: string | null
+          order_id: string
+          pesapal_transaction_id?: string | null
+          received_at?: string
+          recorded_by?: string | null
+          reference?: string | null
+          status?: string
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          id?: string
+          method?: string
+          notes?: string | null
+          order_id?: string
+          pesapal_transaction_id?: string | null
+          received_at?: string
+          recorded_by?: string | null
+          reference?: string | null
+          status?: string
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_pesapal_transaction_id_fkey"
+            columns: ["pesapal_transaction_id"]
+            isOneToOne: true
+            referencedRelation: "pesapal_transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       pesapal_callbacks: {
         Row: {
+          attempts: number
           callback_type: string
           created_at: string
+          dedupe_key: string | null
+          error: string | null
           id: string
+          last_attempt_at: string | null
+          outcome: string | null
           pesapal_tracking_id: string
           processed: boolean
           raw_payload: Json
+          received_count: number
         }
         Insert: {
+          attempts?: number
           callback_type: string
           created_at?: string
+          dedupe_key?: string | null
+          error?: string | null
           id?: string
+          last_attempt_at?: string | null
+          outcome?: string | null
           pesapal_tracking_id: string
           processed?: boolean
           raw_payload: Json
+          received_count?: number
         }
         Update: {
+          attempts?: number
           callback_type?: string
           created_at?: string
+          dedupe_key?: string | null
+          error?: string | null
           id?: string
+          last_attempt_at?: string | null
+          outcome?: string | null
           pesapal_tracking_id?: string
           processed?: boolean
           raw_payload?: Json
+          received_count?: number
+        }
+        Relationships: []
+      }
+      pesapal_ipn_registrations: {
+        Row: {
+          created_at: string
+          id: string
+          ipn_id: string
+          ipn_url: string
+          notification_type: string
+          pesapal_base_url: string
+          token_fingerprint: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          ipn_id: string
+          ipn_url: string
+          notification_type?: string
+          pesapal_base_url?: string
+          token_fingerprint?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          ipn_id?: string
+          ipn_url?: string
+          notification_type?: string
+          pesapal_base_url?: string
+          token_fingerprint?: string | null
+        }
+        Relationships: []
+      }
+      pesapal_reconciliation_runs: {
+        Row: {
+          cancelled_count: number
+          checked_count: number
+          completed_count: number
+          error: string | null
+          error_count: number
+          errors: Json
+          finished_at: string | null
+          id: string
+          pending_count: number
+          review_count: number
+          stale_after_minutes: number
+          started_at: string
+          triggered_by: string | null
+        }
+        Insert: {
+          cancelled_count?: number
+          checked_count?: number
+          completed_count?: number
+          error?: string | null
+          error_count?: number
+          errors?: Json
+          finished_at?: string | null
+          id?: string
+          pending_count?: number
+          review_count?: number
+          stale_after_minutes: number
+          started_at?: string
+          triggered_by?: string | null
+        }
+        Update: {
+          cancelled_count?: number
+          checked_count?: number
+          completed_count?: number
+          error?: string | null
+          error_count?: number
+          errors?: Json
+          finished_at?: string | null
+          id?: string
+          pending_count?: number
+          review_count?: number
+          stale_after_minutes?: number
+          started_at?: string
+          triggered_by?: string | null
         }
         Relationships: []
       }
@@ -550,42 +884,57 @@ export type Database = {
         Row: {
           amount: number
           created_at: string
+          created_by: string | null
           currency: string
           customer_phone: string | null
           customer_phone_display: string | null
           id: string
           iframe_url: string | null
+          link_sent_to: string[]
           merchant_reference: string
           order_id: string
           pesapal_tracking_id: string
+          reported_amount: number | null
+          reported_currency: string | null
+          review_reason: string | null
           status: Database["public"]["Enums"]["pesapal_status"]
           updated_at: string
         }
         Insert: {
           amount: number
           created_at?: string
+          created_by?: string | null
           currency?: string
           customer_phone?: string | null
           customer_phone_display?: string | null
           id?: string
           iframe_url?: string | null
+          link_sent_to?: string[]
           merchant_reference: string
           order_id: string
           pesapal_tracking_id: string
+          reported_amount?: number | null
+          reported_currency?: string | null
+          review_reason?: string | null
           status?: Database["public"]["Enums"]["pesapal_status"]
           updated_at?: string
         }
         Update: {
           amount?: number
           created_at?: string
+          created_by?: string | null
           currency?: string
           customer_phone?: string | null
           customer_phone_display?: string | null
           id?: string
           iframe_url?: string | null
+          link_sent_to?: string[]
           merchant_reference?: string
           order_id?: string
           pesapal_tracking_id?: string
+          reported_amount?: number | null
+          reported_currency?: string | null
+          review_reason?: string | null
           status?: Database["public"]["Enums"]["pesapal_status"]
           updated_at?: string
         }
@@ -609,6 +958,8 @@ export type Database = {
           image_url: string | null
           name: string
           price: number
+          reorder_point: number | null
+          reorder_quantity: number | null
           stock: number
         }
         Insert: {
@@ -620,6 +971,8 @@ export type Database = {
           image_url?: string | null
           name: string
           price: number
+          reorder_point?: number | null
+          reorder_quantity?: number | null
           stock?: number
         }
         Update: {
@@ -631,6 +984,8 @@ export type Database = {
           image_url?: string | null
           name?: string
           price?: number
+          reorder_point?: number | null
+          reorder_quantity?: number | null
           stock?: number
         }
         Relationships: []
@@ -665,126 +1020,898 @@ export type Database = {
         }
         Relationships: []
       }
-      stock_movements: {
+      purchase_order_items: {
         Row: {
           created_at: string
           id: string
-          movement_type: string
-          new_stock: number
-          order_id: string | null
-          previous_stock: number
           product_id: string
-          quantity: number
-          reason: string | null
+          purchase_order_id: string
+          quantity_ordered: number
+          quantity_received: number
+          unit_cost: number | null
         }
         Insert: {
           created_at?: string
           id?: string
-          movement_type: string
-          new_stock: number
-          order_id?: string | null
-          previous_stock: number
           product_id: string
-          quantity: number
-          reason?: string | null
+          purchase_order_id: string
+          quantity_ordered: number
+          quantity_received?: number
+          unit_cost?: number | null
         }
         Update: {
           created_at?: string
           id?: string
-          movement_type?: string
-          new_stock?: number
-          order_id?: string | null
-          previous_stock?: number
           product_id?: string
-          quantity?: number
-          reason?: string | null
+          purchase_order_id?: string
+          quantity_ordered?: number
+          quantity_received?: number
+          unit_cost?: number | null
         }
         Relationships: [
           {
-            foreignKeyName: "stock_movements_order_id_fkey"
-            columns: ["order_id"]
+            foreignKeyName: "purchase_order_items_product_id_fkey"
+            columns: ["product_id"]
             isOneToOne: false
-            referencedRelation: "orders"
+            referencedRelation: "products"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "stock_movements_product_id_fkey"
-            columns: ["product_id"]
+            foreignKeyName: "purchase_order_items_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
             isOneToOne: false
-            referencedRelation: "products"
+            referencedRelation: "purchase_orders"
             referencedColumns: ["id"]
           },
         ]
       }
-      user_roles: {
+      purchase_orders: {
         Row: {
           created_at: string
+          created_by: string | null
+          expected_delivery_date: string | null
           id: string
-          role: Database["public"]["Enums"]["app_role"]
-          user_id: string
+          notes: string | null
+          received_at: string | null
+          sent_at: string | null
+          status: string
+          supplier_id: string
+          updated_at: string
         }
         Insert: {
           created_at?: string
+          created_by?: string | null
+          expected_delivery_date?: string | null
           id?: string
-          role: Database["public"]["Enums"]["app_role"]
-          user_id: string
+          notes?: string | null
+          received_at?: string | null
+          sent_at?: string | null
+          status?: string
+          supplier_id: string
+          updated_at?: string
         }
         Update: {
           created_at?: string
+          created_by?: string | null
+          expected_delivery_date?: string | null
           id?: string
-          role?: Database["public"]["Enums"]["app_role"]
-          user_id?: string
+          notes?: string | null
+          received_at?: string | null
+          sent_at?: string | null
+          status?: string
+          supplier_id?: string
+          updated_at?: string
         }
-        Relationships: []
-      }
-    }
-    Views: {
-      [_ in never]: never
-    }
-    Functions: {
-      calculate_delivery_fee: { Args: { distance_km: number }; Returns: Json }
-      check_failed_login_threshold: {
-        Args: { ip_addr: unknown; user_email: string }
-        Returns: Json
+        Relationships: [
+          {
+            foreignKeyName: "purchase_orders_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      get_user_order_history: {
-        Args: { requesting_user_id: string }
-        Returns: {
-          item_id: string
-          order_created_at: string
-          order_id: string
-          order_status: string
-          product_image_url: string
-          product_name: string
+      refund_items: {
+        Row: {
+          amount: number
+          id: string
+          order_item_id: string
           quantity: number
-          total_amount: number
-          unit_price: number
-        }[]
-      }
-      has_role: {
-        Args: {
-          _role: Database["public"]["Enums"]["app_role"]
-          _user_id: string
+          refund_id: string
         }
-        Returns: boolean
-      }
-      log_audit_access: {
-        Args: {
-          action_param: string
-          record_id_param?: string
-          table_name_param: string
+        Insert: {
+          amount: number
+          id?: string
+          order_item_id: string
+          quantity: number
+          refund_id: string
         }
-        Returns: undefined
-      }
+        Update: {
+          amount?: number
+          id?: string
+          order_item_id?: string
+          quantity?: number
+          refund_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "refund_items_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "refund_items_refund_id_fkey"
+            columns: ["refund_id"]
+            isOneToOne: false
+            referencedRelation: "refunds"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      refunds: {
+        Row: {
+          amount: number
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
+          error: string | null
+          id: string
+          order_id: string
+          pesapal_transaction_id: string | null
+          provider_reference: string | null
+          provider_response: Json | null
+          reason: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          error?: string | null
+          id?: string
+          order_id: string
+          pesapal_transaction_id?: string | null
+          provider_reference?: string | null
+          provider_response?: Json | null
+          reason: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          error?: string | null
+          id?: string
+          order_id?: string
+          pesapal_transaction_id?: string | null
+          provider_reference?: string | null
+          provider_response?: Json | null
+          reason?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "refunds_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "refunds_pesapal_transaction_id_fkey"
+            columns: ["pesapal_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "pesapal_transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      riders: {
+        Row: {
+          created_at: string
+          full_name: string
+          id: string
+          is_active: boolean
+          phone: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          full_name: string
+          id?: string
+          is_active?: boolean
+          phone?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          full_name?: string
+          id?: string
+          is_active?: boolean
+          phone?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      stock_batch_movements: {
+        Row: {
+          batch_id: string
+          created_at: string
+          id: string
+          movement_id: string
+          quantity: number
+        }
+        Insert: {
+          batch_id: string
+          created_at?: string
+          id?: string
+          movement_id: string
+          quantity: number
+        }
+        Update: {
+          batch_id?: string
+          created_at?: string
+          id?: string
+          movement_id?: string
+          quantity?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_batch_movements_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "stock_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_batch_movements_movement_id_fkey"
+            columns: ["movement_id"]
+            isOneToOne: false
+            referencedRelation: "stock_movements"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_batches: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          expires_at: string | null
+          id: string
+          product_id: string
+          purchase_order_id: string | null
+          quantity_received: number
+          quantity_remaining: number
+          received_at: string
+          supplier: string | null
+          supplier_id: string | null
+          unit_cost: number | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string | null
+          id?: string
+          product_id: string
+          purchase_order_id?: string | null
+          quantity_received: number
+          quantity_remaining: number
+          received_at?: string
+          supplier?: string | null
+          supplier_id?: string | null
+          unit_cost?: number | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string | null
+          id?: string
+          product_id?: string
+          purchase_order_id?: string | null
+          quantity_received?: number
+          quantity_remaining?: number
+          received_at?: string
+          supplier?: string | null
+          supplier_id?: string | null
+          unit_cost?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_batches_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_batches_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_batches_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_movements: {
+        Row: {
+          actor_id: string | null
+          created_at: string
+          id: string
+          movement_type: string
+          new_stock: number
+          order_id: string | null
+          previous_stock: number
+          product_id: string
+          quantity: number
+          reason: string | null
+          reason_code: string
+        }
+        Insert: {
+          actor_id?: string | null
+          created_at?: string
+          id?: string
+          movement_type: string
+          new_stock: number
+          order_id?: string | null
+          previous_stock: number
+          product_id: string
+          quantity: number
+          reason?: string | null
+          reason_code: string
+        }
+        Update: {
+          actor_id?: string | null
+          created_at?: string
+          id?: string
+          movement_type?: string
+          new_stock?: number
+          order_id?: string | null
+          previous_stock?: number
+          product_id?: string
+          quantity?: number
+          reason?: string | null
+          reason_code?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_movements_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      supplier_products: {
+        Row: {
+          created_at: string
+          product_id: string
+          supplier_id: string
+          unit_cost: number | null
+        }
+        Insert: {
+          created_at?: string
+          product_id: string
+          supplier_id: string
+          unit_cost?: number | null
+        }
+        Update: {
+          created_at?: string
+          product_id?: string
+          supplier_id?: string
+          unit_cost?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "supplier_products_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supplier_products_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      suppliers: {
+        Row: {
+          contact_name: string | null
+          created_at: string
+          email: string | null
+          id: string
+          is_active: boolean
+          lead_time_days: number
+          name: string
+          notes: string | null
+          phone: string | null
+          updated_at: string
+        }
+        Insert: {
+          contact_name?: string | null
+          created_at?: string
+          email?: string | null
+          id?: string
+          is_active?: boolean
+          lead_time_days?: number
+          name: string
+          notes?: string | null
+          phone?: string | null
+          updated_at?: string
+        }
+        Update: {
+          contact_name?: string | null
+          created_at?: string
+          email?: string | null
+          id?: string
+          is_active?: boolean
+          lead_time_days?: number
+          name?: string
+          notes?: string | null
+          phone?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      assign_delivery_rider: {
+        Args: { p_order_id: string; p_rider_id: string }
+        Returns: undefined
+      }
+      begin_pesapal_callback_attempt: {
+        Args: { p_callback_id: string }
+        Returns: {
+          attempts: number
+          callback_type: string
+          created_at: string
+          dedupe_key: string | null
+          error: string | null
+          id: string
+          last_attempt_at: string | null
+          outcome: string | null
+          pesapal_tracking_id: string
+          processed: boolean
+          raw_payload: Json
+          received_count: number
+        }
+      }
+      calculate_delivery_fee: { Args: { distance_km: number }; Returns: Json }
+      cancel_order: {
+        Args: {
+          p_actor_id?: string
+          p_order_id: string
+          p_reason: string
+          p_refund_amount?: number
+          p_refund_reason?: string
+        }
+        Returns: Json
+      }
+      cancel_order_for_failed_payment: {
+        Args: {
+          p_order_id: string
+          p_reason: string
+          p_transaction_id: string
+        }
+        Returns: Json
+      }
+      check_failed_login_threshold: {
+        Args: { ip_addr: unknown; user_email: string }
+        Returns: Json
+      }
+      complete_order: {
+        Args: { p_actor_id?: string; p_order_id: string; p_reason?: string }
+        Returns: Json
+      }
+      create_manual_order: {
+        Args: {
+          p_delivery_address?: string
+          p_delivery_distance_km?: number
+          p_delivery_zone_id?: string
+          p_items: Json
+          p_payment_method: string
+          p_payment_reference?: string
+          p_user_id: string
+        }
+        Returns: string
+      }
+      create_purchase_order: {
+        Args: {
+          p_expected_delivery_date?: string
+          p_items: Json
+          p_notes?: string
+          p_supplier_id: string
+        }
+        Returns: string
+      }
+      create_refund: {
+        Args: {
+          p_actor_id?: string
+          p_amount: number
+          p_items?: Json
+          p_order_id: string
+          p_reason: string
+        }
+        Returns: Json
+      }
+      escape_like: { Args: { p_value: string }; Returns: string }
+      get_cash_up_report: {
+        Args: { p_from: string; p_to: string }
+        Returns: {
+          bank_transfer_collected: number
+          cod_collected: number
+          cod_expected: number
+          cod_variance: number
+          completed_order_count: number
+          completed_order_total: number
+          day: string
+          mpesa_collected: number
+          net_collected: number
+          pesapal_collected: number
+          pesapal_count: number
+          refunded: number
+          total_collected: number
+          variance: number
+        }[]
+      }
+      get_cod_rider_cash_up: {
+        Args: { p_from: string; p_to: string }
+        Returns: {
+          cod_collected: number
+          cod_expected: number
+          day: string
+          delivered_count: number
+          rider_id: string
+          rider_name: string
+        }[]
+      }
+      get_deliveries: {
+        Args: { p_delivery_status?: string; p_limit?: number }
+        Returns: Json[]
+      }
+      get_delivery_zone_revenue: {
+        Args: { p_from?: string; p_to?: string }
+        Returns: {
+          delivery_revenue: number
+          order_count: number
+          zone_id: string
+          zone_name: string
+        }[]
+      }
+      get_expired_stock: {
+        Args: { p_product_id: string }
+        Returns: number
+      }
+      get_net_revenue: {
+        Args: never
+        Returns: Json
+      }
+      get_order_balance: {
+        Args: { p_order_id: string }
+        Returns: number
+      }
+      get_order_details: { Args: { p_order_id: string }; Returns: Json }
+      get_payment_mismatches: {
+        Args: never
+        Returns: {
+          created_at: string
+          merchant_reference: string
+          mismatch: string
+          order_id: string
+          order_status: string
+          order_total: number
+          pesapal_tracking_id: string
+          transaction_amount: number
+          transaction_id: string
+          transaction_status: string
+        }[]
+      }
+      get_purchase_suggestions: {
+        Args: { p_sales_days?: number }
+        Returns: {
+          category: string
+          daily_sales: number
+          lead_time_days: number
+          name: string
+          on_order: number
+          product_id: string
+          reorder_point: number
+          reorder_quantity: number
+          stock: number
+          suggested_quantity: number
+          supplier_id: string
+          supplier_name: string
+          unit_cost: number
+        }[]
+      }
+      get_refundable_amount: {
+        Args: { p_order_id: string }
+        Returns: number
+      }
+      get_reorder_levels: {
+        Args: never
+        Returns: {
+          category: string
+          image_url: string
+          name: string
+          needs_reorder: boolean
+          price: number
+          product_id: string
+          reorder_point: number
+          reorder_point_source: string
+          reorder_quantity: number
+          stock: number
+        }[]
+      }
+      get_user_order_history: {
+        Args: { requesting_user_id: string }
+        Returns: {
+          item_id: string
+          order_created_at: string
+          order_id: string
+          order_status: string
+          product_image_url: string
+          product_name: string
+          quantity: number
+          total_amount: number
+          unit_price: number
+        }[]
+      }
+      has_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      hold_order_for_payment_review: {
+        Args: { p_order_id: string; p_reason: string }
+        Returns: Json
+      }
+      is_valid_order_status_transition: {
+        Args: { _from: string; _to: string }
+        Returns: boolean
+      }
+      issue_invoices: {
+        Args: { p_order_ids: string[] }
+        Returns: {
+          invoice_number: number
+          issued_at: string
+          order_id: string
+        }[]
+      }
+      log_audit_access: {
+        Args: {
+          action_param: string
+          record_id_param?: string
+          table_name_param: string
+        }
+        Returns: undefined
+      }
       mask_customer_phone: { Args: { phone_number: string }; Returns: string }
       mask_customer_phone_enhanced: {
         Args: { phone_number: string }
         Returns: string
       }
+      receive_purchase_order: {
+        Args: {
+          p_items: Json
+          p_purchase_order_id: string
+          p_received_at?: string
+        }
+        Returns: {
+          created_at: string
+          created_by: string | null
+          expected_delivery_date: string | null
+          id: string
+          notes: string | null
+          received_at: string | null
+          sent_at: string | null
+          status: string
+          supplier_id: string
+          updated_at: string
+        }
+      }
+      receive_stock_batch: {
+        Args: {
+          p_expires_at?: string
+          p_product_id: string
+          p_purchase_order_id?: string
+          p_quantity: number
+          p_reason?: string
+          p_received_at?: string
+          p_supplier?: string
+          p_supplier_id?: string
+          p_unit_cost?: number
+        }
+        Returns: {
+          created_at: string
+          created_by: string | null
+          expires_at: string | null
+          id: string
+          product_id: string
+          purchase_order_id: string | null
+          quantity_received: number
+          quantity_remaining: number
+          received_at: string
+          supplier: string | null
+          supplier_id: string | null
+          unit_cost: number | null
+        }
+      }
+      record_delivery_proof: {
+        Args: {
+          p_notes?: string
+          p_order_id: string
+          p_photo_path?: string
+          p_recipient_name: string
+        }
+        Returns: undefined
+      }
+      record_payment: {
+        Args: {
+          p_amount: number
+          p_method: string
+          p_notes?: string
+          p_order_id: string
+          p_received_at?: string
+          p_reference?: string
+        }
+        Returns: string
+      }
+      record_pesapal_callback: {
+        Args: { p_callback_type: string; p_payload: Json; p_tracking_id: string }
+        Returns: {
+          attempts: number
+          callback_type: string
+          created_at: string
+          dedupe_key: string | null
+          error: string | null
+          id: string
+          last_attempt_at: string | null
+          outcome: string | null
+          pesapal_tracking_id: string
+          processed: boolean
+          raw_payload: Json
+          received_count: number
+        }
+      }
+      record_stock_movement: {
+        Args: {
+          p_actor_id?: string
+          p_movement_type: string
+          p_order_id?: string
+          p_product_id: string
+          p_quantity: number
+          p_reason?: string
+          p_reason_code: string
+        }
+        Returns: {
+          actor_id: string | null
+          created_at: string
+          id: string
+          movement_type: string
+          new_stock: number
+          order_id: string | null
+          previous_stock: number
+          product_id: string
+          quantity: number
+          reason: string | null
+          reason_code: string
+        }
+      }
       reduce_product_stock: {
         Args: { order_id_param: string }
         Returns: boolean
       }
+      resolve_refund: {
+        Args: { p_note?: string; p_refund_id: string; p_status: string }
+        Returns: undefined
+      }
+      search_orders: {
+        Args: {
+          p_date_from?: string
+          p_date_to?: string
+          p_limit?: number
+          p_max_amount?: number
+          p_min_amount?: number
+          p_offset?: number
+          p_search?: string
+          p_status?: string
+        }
+        Returns: {
+          order_data: Json
+          total_count: number
+        }[]
+      }
+      search_pesapal_transactions: {
+        Args: {
+          p_limit?: number
+          p_offset?: number
+          p_search?: string
+          p_status?: string
+        }
+        Returns: {
+          callback_count: number
+          customer_name: string
+          order_status: string
+          order_total: number
+          total_count: number
+          transaction_data: Json
+        }[]
+      }
+      send_purchase_order: {
+        Args: { p_purchase_order_id: string }
+        Returns: undefined
+      }
+      update_delivery_status: {
+        Args: {
+          p_delivery_status: string
+          p_notes?: string
+          p_order_id: string
+          p_rider_id?: string
+        }
+        Returns: undefined
+      }
+      update_order_status: {
+        Args: {
+          p_actor_id?: string
+          p_order_id: string
+          p_reason?: string
+          p_status: string
+        }
+        Returns: undefined
+      }
       user_owns_transaction: {
         Args: { transaction_order_id: string }
         Returns: boolean
@@ -794,6 +1921,10 @@ export type Database = {
         Returns: boolean
       }
       validate_phone_number: { Args: { phone: string }; Returns: boolean }
+      void_payment: {
+        Args: { p_payment_id: string; p_reason: string }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: "admin" | "moderator" | "user"
@@ -0,0 +1,45 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { Customer } from '@/types';
+
+export interface NewCustomerDetails {
+  fullName: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+}
+
+export const searchCustomers = async (query: string, limit: number = 10): Promise<Customer[]> => {
+  // Commas and parentheses would break the PostgREST or() filter
+  const term = query.trim().replace(/[,()]/g, ' ');
+  if (!term) return [];
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('*')
+    .or(`full_name.ilike.%${term}%,email.ilike.%${term}%,phone.ilike.%${term}%`)
+    .order('full_name')
+    .limit(limit);
+
+  if (error) throw error;
+
+  return data as Customer[];
+};
+
+// Customers are auth users, so new ones are created by the create-customer
+// edge function with the service role.
+export const createCustomer = async (details: NewCustomerDetails): Promise<Customer> => {
+  const { data, error } = await supabase.functions.invoke('create-customer', { body: details });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const body = await error.context.json().catch(() => null);
+      if (body?.error) throw new Error(body.error);
+    }
+    throw error;
+  }
+
+  if (!data?.success) throw new Error(data?.error || 'Failed to create customer');
+
+  return data.profile as Customer;
+};
@@ -0,0 +1,127 @@
+import { supabase } from '@/integrations/supabase/client';
+import { DeliveryProof, DeliveryStatus, Order, Rider, processOrder } from '@/types';
+
+// Delivery fulfilment data access. Delivery progress lives in
+// orders.delivery_status and is only changed through the delivery RPCs,
+// which enforce the allowed transitions.
+
+const PROOF_BUCKET = 'delivery-proofs';
+
+export const getDeliveries = async (status?: DeliveryStatus): Promise<Order[]> => {
+  const { data, error } = await supabase.rpc('get_deliveries', { p_delivery_status: status });
+
+  if (error) throw error;
+
+  return (data || []).map(order => processOrder(order));
+};
+
+export const getRiders = async (): Promise<Rider[]> => {
+  const { data, error } = await supabase
+    .from('riders')
+    .select('*')
+    .order('full_name');
+
+  if (error) throw error;
+
+  return data;
+};
+
+export const createRider = async (rider: { full_name: string; phone?: string }): Promise<Rider> => {
+  const { data, error } = await supabase
+    .from('riders')
+    .insert({ full_name: rider.full_name.trim(), phone: rider.phone?.trim() || null })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return data;
+};
+
+export const setRiderActive = async (id: string, isActive: boolean): Promise<void> => {
+  const { error } = await supabase
+    .from('riders')
+    .update({ is_active: isActive })
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+export const assignRider = async (orderId: string, riderId: string): Promise<void> => {
+  const { error } = await supabase.rpc('assign_delivery_rider', {
+    p_order_id: orderId,
+    p_rider_id: riderId,
+  });
+
+  if (error) throw error;
+};
+
+export const updateDeliveryStatus = async (
+  orderId: string,
+  status: Exclude<DeliveryStatus, 'delivered'>,
+  options: { riderId?: string; notes?: string } = {}
+): Promise<void> => {
+  const { error } = await supabase.rpc('update_delivery_status', {
+    p_order_id: orderId,
+    p_delivery_status: status,
+    p_rider_id: options.riderId,
+    p_notes: options.notes?.trim() || undefined,
+  });
+
+  if (error) throw error;
+};
+
+// Uploads the photo (if any) before marking the order delivered, and removes
+// it again if the order can't be marked delivered.
+export const recordDeliveryProof = async (
+  orderId: string,
+  { recipientName, photo, notes }: { recipientName: string; photo?: File | null; notes?: string }
+): Promise<void> => {
+  let photoPath: string | undefined;
+
+  if (photo) {
+    const extension = photo.name.split('.').pop() || 'jpg';
+    photoPath = `${orderId}/${Date.now()}.${extension}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from(PROOF_BUCKET)
+      .upload(photoPath, photo, { contentType: photo.type });
+
+    if (uploadError) throw uploadError;
+  }
+
+  const { error } = await supabase.rpc('record_delivery_proof', {
+    p_order_id: orderId,
+    p_recipient_name: recipientName,
+    p_photo_path: photoPath,
+    p_notes: notes?.trim() || undefined,
+  });
+
+  if (error) {
+    if (photoPath) {
+      await supabase.storage.from(PROOF_BUCKET).remove([photoPath]);
+    }
+    throw error;
+  }
+};
+
+export const getDeliveryProof = async (orderId: string): Promise<DeliveryProof | null> => {
+  const { data, error } = await supabase
+    .from('delivery_proofs')
+    .select('*')
+    .eq('order_id', orderId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  let photoUrl: string | null = null;
+  if (data.photo_path) {
+    const { data: signed } = await supabase.storage
+      .from(PROOF_BUCKET)
+      .createSignedUrl(data.photo_path, 60 * 60);
+    photoUrl = signed?.signedUrl || null;
+  }
+
+  return { ...data, photo_url: photoUrl };
+};
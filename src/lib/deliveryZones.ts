@@ -0,0 +1,123 @@
+import { supabase } from '@/integrations/supabase/client';
+import { DeliveryZone } from '@/types';
+
+export const getActiveDeliveryZones = async (): Promise<DeliveryZone[]> => {
+  const { data, error } = await supabase
+    .from('delivery_zones')
+    .select('*')
+    .eq('is_active', true)
+    .order('min_distance_km');
+
+  if (error) throw error;
+
+  return data;
+};
+
+// The fee a zone's own rates give; orders are charged calculate_delivery_fee's quote
+export const getZoneDeliveryFee = (zone: DeliveryZone, distanceKm?: number | null): number => {
+  return Number(zone.base_fee) + Number(zone.per_km_rate) * (distanceKm || 0);
+};
+
+export type DeliveryZoneInput = Omit<DeliveryZone, 'id' | 'created_at' | 'updated_at'>;
+
+// Fee preview returned by calculate_delivery_fee. fee is null, with a
+// message, when no active zone covers the distance.
+export interface DeliveryFeeQuote {
+  fee: number | null;
+  zoneId: string | null;
+  zoneName: string | null;
+  estimatedTimeMins: number | null;
+  message: string | null;
+}
+
+interface DeliveryFeeResult {
+  fee: number | null;
+  zone_id: string | null;
+  zone_name: string | null;
+  estimated_time_mins: number | null;
+  error: string | null;
+}
+
+export const getDeliveryZones = async (): Promise<DeliveryZone[]> => {
+  const { data, error } = await supabase
+    .from('delivery_zones')
+    .select('*')
+    .order('min_distance_km');
+
+  if (error) throw error;
+
+  return data;
+};
+
+export const saveDeliveryZone = async (zone: DeliveryZoneInput, id?: string): Promise<DeliveryZone> => {
+  const query = id
+    ? supabase.from('delivery_zones').update(zone).eq('id', id)
+    : supabase.from('delivery_zones').insert(zone);
+
+  const { data, error } = await query.select().single();
+
+  if (error) throw error;
+
+  return data;
+};
+
+export const setDeliveryZoneActive = async (id: string, isActive: boolean): Promise<void> => {
+  const { error } = await supabase
+    .from('delivery_zones')
+    .update({ is_active: isActive })
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+export const deleteDeliveryZone = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('delivery_zones')
+    .delete()
+    .eq('id', id);
+
+  // Orders keep a reference to the zone they were priced with
+  if (error?.code === '23503') {
+    throw new Error('This zone has been used on orders. Deactivate it instead.');
+  }
+  if (error) throw error;
+};
+
+export const calculateDeliveryFee = async (distanceKm: number): Promise<DeliveryFeeQuote> => {
+  const { data, error } = await supabase.rpc('calculate_delivery_fee', { distance_km: distanceKm });
+
+  if (error) throw error;
+
+  const result = data as unknown as DeliveryFeeResult;
+
+  return {
+    fee: result.fee === null ? null : Number(result.fee),
+    zoneId: result.zone_id,
+    zoneName: result.zone_name,
+    estimatedTimeMins: result.estimated_time_mins === null ? null : Number(result.estimated_time_mins),
+    message: result.error,
+  };
+};
+
+export interface DeliveryZoneRevenue {
+  zoneId: string | null;
+  zoneName: string | null;
+  orderCount: number;
+  deliveryRevenue: number;
+}
+
+export const getDeliveryZoneRevenue = async (from?: string, to?: string): Promise<DeliveryZoneRevenue[]> => {
+  const { data, error } = await supabase.rpc('get_delivery_zone_revenue', {
+    p_from: from,
+    p_to: to,
+  });
+
+  if (error) throw error;
+
+  return (data || []).map(row => ({
+    zoneId: row.zone_id,
+    zoneName: row.zone_name,
+    orderCount: Number(row.order_count),
+    deliveryRevenue: Number(row.delivery_revenue),
+  }));
+};
@@ -0,0 +1,192 @@
+import { supabase } from '@/integrations/supabase/client';
+import {
+  CategoryReorderDefault,
+  ExpiringStockBatch,
+  ReorderLevel,
+  ReorderPointSource,
+  StockBatch,
+  StockMovement,
+  StockMovementType,
+  StockReasonCode,
+} from '@/types';
+import { addDays, format } from 'date-fns';
+
+export const getStockMovements = async (productId: string): Promise<StockMovement[]> => {
+  const { data: movements, error } = await supabase
+    .from('stock_movements')
+    .select('*')
+    .eq('product_id', productId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  // Resolve the admins who made the changes in one lookup
+  const actorIds = [...new Set((movements || []).map(movement => movement.actor_id).filter(Boolean))];
+  const { data: actors, error: actorsError } = actorIds.length > 0
+    ? await supabase.from('profiles').select('id, full_name, email').in('id', actorIds)
+    : { data: [], error: null };
+
+  if (actorsError) throw actorsError;
+
+  const actorMap = new Map((actors || []).map(actor => [actor.id, actor.full_name || actor.email]));
+
+  return (movements || []).map(movement => ({
+    ...movement,
+    movement_type: movement.movement_type as StockMovementType,
+    reason_code: movement.reason_code as StockReasonCode,
+    actor_name: movement.actor_id ? actorMap.get(movement.actor_id) || null : null,
+  }));
+};
+
+export interface StockAdjustmentInput {
+  productId: string;
+  // Signed change: positive adds stock, negative removes it
+  quantity: number;
+  reasonCode: StockReasonCode;
+  reason?: string;
+}
+
+// Manual adjustments are logged against the signed-in admin
+export const adjustProductStock = async ({
+  productId,
+  quantity,
+  reasonCode,
+  reason,
+}: StockAdjustmentInput): Promise<void> => {
+  const { error } = await supabase.rpc('record_stock_movement', {
+    p_product_id: productId,
+    p_quantity: quantity,
+    p_movement_type: 'adjustment',
+    p_reason_code: reasonCode,
+    p_reason: reason?.trim() || undefined,
+  });
+
+  if (error) throw error;
+};
+
+export const getProductBatches = async (productId: string): Promise<StockBatch[]> => {
+  const { data, error } = await supabase
+    .from('stock_batches')
+    .select('*')
+    .eq('product_id', productId)
+    .order('received_at', { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []).map(batch => ({
+    ...batch,
+    unit_cost: batch.unit_cost === null ? null : Number(batch.unit_cost),
+  }));
+};
+
+// Batches with stock left that expire within the next `days` days, including
+// any already past their expiry date
+export const getExpiringBatches = async (days: number): Promise<ExpiringStockBatch[]> => {
+  const { data, error } = await supabase
+    .from('stock_batches')
+    .select('*, products!inner(name, category, deleted_at)')
+    .gt('quantity_remaining', 0)
+    .not('expires_at', 'is', null)
+    .lte('expires_at', format(addDays(new Date(), days), 'yyyy-MM-dd'))
+    .is('products.deleted_at', null)
+    .order('expires_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []).map(({ products, ...batch }) => ({
+    ...batch,
+    unit_cost: batch.unit_cost === null ? null : Number(batch.unit_cost),
+    product_name: products.name,
+    product_category: products.category,
+  }));
+};
+
+export interface StockBatchDetails {
+  expiresAt?: string;
+  receivedAt?: string;
+  supplier?: string;
+  unitCost?: number;
+}
+
+export interface StockBatchInput extends StockBatchDetails {
+  productId: string;
+  quantity: number;
+  reason?: string;
+}
+
+// Deliveries are received as a batch so their expiry date is tracked
+export const receiveStockBatch = async ({
+  productId,
+  quantity,
+  expiresAt,
+  receivedAt,
+  supplier,
+  unitCost,
+  reason,
+}: StockBatchInput): Promise<StockBatch> => {
+  const { data, error } = await supabase.rpc('receive_stock_batch', {
+    p_product_id: productId,
+    p_quantity: quantity,
+    p_expires_at: expiresAt || undefined,
+    p_received_at: receivedAt || undefined,
+    p_supplier: supplier?.trim() || undefined,
+    p_unit_cost: unitCost,
+    p_reason: reason?.trim() || undefined,
+  });
+
+  if (error) throw error;
+
+  return data as StockBatch;
+};
+
+export const getReorderLevels = async (): Promise<ReorderLevel[]> => {
+  const { data, error } = await supabase.rpc('get_reorder_levels');
+
+  if (error) throw error;
+
+  return (data || []).map(level => ({
+    ...level,
+    price: Number(level.price),
+    reorder_point_source: level.reorder_point_source as ReorderPointSource,
+  }));
+};
+
+// Products at or below their reorder point, lowest stock first
+export const getLowStockLevels = async (): Promise<ReorderLevel[]> =>
+  (await getReorderLevels()).filter(level => level.needs_reorder);
+
+export const getCategoryReorderDefaults = async (): Promise<CategoryReorderDefault[]> => {
+  const { data, error } = await supabase
+    .from('category_reorder_defaults')
+    .select('*')
+    .order('category');
+
+  if (error) throw error;
+
+  return data as CategoryReorderDefault[];
+};
+
+export const saveCategoryReorderDefault = async (
+  category: string,
+  reorderPoint: number,
+  reorderQuantity: number
+): Promise<void> => {
+  const { error } = await supabase
+    .from('category_reorder_defaults')
+    .upsert({
+      category,
+      reorder_point: reorderPoint,
+      reorder_quantity: reorderQuantity,
+    });
+
+  if (error) throw error;
+};
+
+export const deleteCategoryReorderDefault = async (category: string): Promise<void> => {
+  const { error } = await supabase
+    .from('category_reorder_defaults')
+    .delete()
+    .eq('category', category);
+
+  if (error) throw error;
+};
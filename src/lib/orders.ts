@@ -0,0 +1,250 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { Order, OrderStatusHistoryEntry, PaymentMethod, processOrder, StockShortage } from '@/types';
+
+// Order data access for the admin dashboard.
+// Every order is returned fully expanded (items, products and customer
+// profile) by a single RPC and normalized through processOrder.
+
+export interface OrderSearchParams {
+  search?: string;
+  status?: Order['status'];
+  dateFrom?: string;
+  dateTo?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface OrderSearchResult {
+  orders: Order[];
+  totalCount: number;
+}
+
+export const searchOrders = async ({
+  search,
+  status,
+  dateFrom,
+  dateTo,
+  minAmount,
+  maxAmount,
+  page = 1,
+  pageSize = 10,
+}: OrderSearchParams = {}): Promise<OrderSearchResult> => {
+  const { data, error } = await supabase.rpc('search_orders', {
+    p_search: search?.trim() || undefined,
+    p_status: status,
+    p_date_from: dateFrom,
+    p_date_to: dateTo,
+    p_min_amount: minAmount,
+    p_max_amount: maxAmount,
+    p_limit: pageSize,
+    p_offset: (page - 1) * pageSize,
+  });
+
+  if (error) throw error;
+
+  // A page past the end comes back as one row without order_data that still
+  // carries the total
+  return {
+    orders: (data || []).filter(row => row.order_data).map(row => processOrder(row.order_data)),
+    totalCount: Number(data?.[0]?.total_count || 0),
+  };
+};
+
+export const getOrderDetails = async (id: string): Promise<Order | null> => {
+  const { data, error } = await supabase.rpc('get_order_details', { p_order_id: id });
+
+  if (error) throw error;
+
+  return data ? processOrder(data) : null;
+};
+
+export const getRecentOrders = async (limit: number = 5): Promise<Order[]> => {
+  const { orders } = await searchOrders({ pageSize: limit });
+  return orders;
+};
+
+export const getOrderStatusHistory = async (orderId: string): Promise<OrderStatusHistoryEntry[]> => {
+  const { data: history, error } = await supabase
+    .from('order_status_history')
+    .select('*')
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  // Resolve the admins who made the changes in one lookup
+  const actorIds = [...new Set((history || []).map(entry => entry.changed_by).filter(Boolean))];
+  const { data: actors, error: actorsError } = actorIds.length > 0
+    ? await supabase.from('profiles').select('id, full_name, email').in('id', actorIds)
+    : { data: [], error: null };
+
+  if (actorsError) throw actorsError;
+
+  const actorMap = new Map((actors || []).map(actor => [actor.id, actor.full_name || actor.email]));
+
+  return (history || []).map(entry => ({
+    ...entry,
+    from_status: entry.from_status as Order['status'] | null,
+    to_status: entry.to_status as Order['status'],
+    changed_by_name: entry.changed_by ? actorMap.get(entry.changed_by) || null : null,
+  }));
+};
+
+export const updateOrderStatus = async (id: string, status: Order['status'], reason?: string): Promise<void> => {
+  const { error } = await supabase.rpc('update_order_status', {
+    p_order_id: id,
+    p_status: status,
+    p_reason: reason?.trim() || undefined,
+  });
+
+  if (error) throw error;
+};
+
+export interface CancelOrderOptions {
+  reason: string;
+  refundAmount?: number;
+  refundReason?: string;
+}
+
+export class OrderFunctionError extends Error {
+  shortages: StockShortage[];
+
+  constructor(message: string, shortages?: StockShortage[]) {
+    super(message);
+    this.name = 'OrderFunctionError';
+    this.shortages = shortages || [];
+  }
+}
+
+// Edge functions answer failures with a non-2xx status and a JSON body of
+// { success: false, error }. supabase-js only exposes that body on the error's
+// response, so read it back to surface the real message.
+const invokeOrderFunction = async <T extends { success: boolean; error?: string }>(
+  name: string,
+  body: Record<string, unknown>,
+  fallbackMessage: string
+): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const details = await error.context.json().catch(() => null);
+      if (details?.error) throw new OrderFunctionError(details.error, details.shortages);
+    }
+    throw error;
+  }
+
+  if (!data?.success) throw new OrderFunctionError(data?.error || fallbackMessage, data?.shortages);
+
+  return data as T;
+};
+
+export interface CompleteOrderResult {
+  success: boolean;
+  error?: string;
+  message?: string;
+  stockUpdates?: Array<{ productId: string; oldStock: number; newStock: number }>;
+}
+
+// Completion runs in the complete-order edge function, which takes stock for
+// every item in one transaction. Shortages are reported on the thrown
+// OrderFunctionError and nothing is changed.
+export const completeOrder = async (id: string, reason?: string): Promise<CompleteOrderResult> => {
+  return invokeOrderFunction<CompleteOrderResult>(
+    'complete-order',
+    { orderId: id, reason: reason?.trim() || undefined },
+    'Failed to complete order'
+  );
+};
+
+// Cancellation runs in the cancel-order edge function so completed orders are
+// restocked in the same transaction as the status change.
+export const cancelOrder = async (id: string, { reason, refundAmount, refundReason }: CancelOrderOptions): Promise<void> => {
+  await invokeOrderFunction(
+    'cancel-order',
+    {
+      orderId: id,
+      reason: reason.trim(),
+      refundAmount: refundAmount || 0,
+      refundReason: refundReason?.trim() || undefined,
+    },
+    'Failed to cancel order'
+  );
+};
+
+// Single entry point for status changes so every caller takes the same path:
+// completions take stock through complete-order, cancellations restock through
+// cancel-order and everything else is validated by update_order_status.
+export const changeOrderStatus = async (id: string, status: Order['status'], reason?: string): Promise<string> => {
+  if (status === 'completed') {
+    const data = await completeOrder(id, reason);
+    return `Order completed successfully with ${data.stockUpdates?.length || 0} stock updates`;
+  }
+
+  if (status === 'cancelled') {
+    if (!reason?.trim()) throw new Error('A cancellation reason is required');
+    await cancelOrder(id, { reason });
+    return 'Order cancelled';
+  }
+
+  await updateOrderStatus(id, status, reason);
+  return `Order status updated to ${status}`;
+};
+
+export interface OrderInvoice {
+  orderId: string;
+  invoiceNumber: number;
+  issuedAt: string;
+}
+
+// Issues invoice numbers for orders that don't have one yet and returns the
+// invoice for every requested order, keyed by order ID.
+export const issueInvoices = async (orderIds: string[]): Promise<Map<string, OrderInvoice>> => {
+  const { data, error } = await supabase.rpc('issue_invoices', { p_order_ids: orderIds });
+
+  if (error) throw error;
+
+  return new Map((data || []).map(row => [
+    row.order_id,
+    { orderId: row.order_id, invoiceNumber: row.invoice_number, issuedAt: row.issued_at },
+  ]));
+};
+
+export interface ManualOrderInput {
+  customerId: string;
+  items: { productId: string; quantity: number }[];
+  paymentMethod: PaymentMethod;
+  paymentReference?: string;
+  deliveryAddress?: string;
+  deliveryZoneId?: string;
+  deliveryDistanceKm?: number;
+}
+
+// Orders taken over the phone or WhatsApp. Prices, stock and the delivery fee
+// are checked by create_manual_order; returns the new order's ID.
+export const createManualOrder = async ({
+  customerId,
+  items,
+  paymentMethod,
+  paymentReference,
+  deliveryAddress,
+  deliveryZoneId,
+  deliveryDistanceKm,
+}: ManualOrderInput): Promise<string> => {
+  const { data, error } = await supabase.rpc('create_manual_order', {
+    p_user_id: customerId,
+    p_items: items.map(item => ({ product_id: item.productId, quantity: item.quantity })),
+    p_payment_method: paymentMethod,
+    p_payment_reference: paymentReference?.trim() || undefined,
+    p_delivery_address: deliveryAddress?.trim() || undefined,
+    p_delivery_zone_id: deliveryZoneId,
+    p_delivery_distance_km: deliveryDistanceKm,
+  });
+
+  if (error) throw error;
+
+  return data;
+};
@@ -0,0 +1,321 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  CashUpDay,
+  Order,
+  Payment,
+  PaymentMethod,
+  PaymentMismatch,
+  PesapalCallback,
+  PesapalCallbackOutcome,
+  PesapalReconciliationRun,
+  PesapalStatus,
+  PesapalTransaction,
+  PesapalTransactionSummary,
+  RiderCashUp,
+} from '@/types';
+
+export type PaymentLinkChannel = 'email' | 'sms';
+
+export interface PaymentLinkResult {
+  transactionId: string;
+  trackingId: string;
+  paymentUrl: string;
+  amount: number;
+  reused: boolean;
+  sentTo: PaymentLinkChannel[];
+  notifyErrors: string[];
+}
+
+export interface PesapalTransactionSearchParams {
+  search?: string;
+  status?: PesapalStatus;
+  page?: number;
+  pageSize?: number;
+}
+
+export const searchPesapalTransactions = async ({
+  search,
+  status,
+  page = 1,
+  pageSize = 20,
+}: PesapalTransactionSearchParams = {}): Promise<{ transactions: PesapalTransactionSummary[]; totalCount: number }> => {
+  const { data, error } = await supabase.rpc('search_pesapal_transactions', {
+    p_search: search?.trim() || undefined,
+    p_status: status,
+    p_limit: pageSize,
+    p_offset: (page - 1) * pageSize,
+  });
+
+  if (error) throw error;
+
+  return {
+    transactions: (data || []).map(row => ({
+      ...(row.transaction_data as unknown as PesapalTransaction),
+      order_status: row.order_status as Order['status'] | null,
+      order_total: row.order_total === null ? null : Number(row.order_total),
+      customer_name: row.customer_name,
+      callback_count: Number(row.callback_count),
+    })),
+    totalCount: Number(data?.[0]?.total_count || 0),
+  };
+};
+
+export const getPesapalCallbacks = async (trackingId: string): Promise<PesapalCallback[]> => {
+  const { data, error } = await supabase
+    .from('pesapal_callbacks')
+    .select('*')
+    .eq('pesapal_tracking_id', trackingId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  return data as PesapalCallback[];
+};
+
+// Callbacks whose last attempt failed, or that never finished an attempt
+export const getFailedPesapalCallbacks = async (): Promise<PesapalCallback[]> => {
+  const { data, error } = await supabase
+    .from('pesapal_callbacks')
+    .select('*')
+    .or('outcome.eq.failed,outcome.is.null')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  return data as PesapalCallback[];
+};
+
+export interface CallbackReplayResult {
+  callbackId: string;
+  outcome: PesapalCallbackOutcome;
+  message: string;
+  error?: string;
+}
+
+export const replayPesapalCallback = async (callbackId: string): Promise<CallbackReplayResult> => {
+  const { data, error } = await supabase.functions.invoke('replay-pesapal-callback', {
+    body: { callbackId },
+  });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const body = await error.context.json().catch(() => null);
+      if (body?.error) throw new Error(body.error);
+    }
+    throw error;
+  }
+
+  if (!data?.success) throw new Error(data?.error || 'Failed to replay callback');
+
+  return data as CallbackReplayResult;
+};
+
+export const getPaymentMismatches = async (): Promise<PaymentMismatch[]> => {
+  const { data, error } = await supabase.rpc('get_payment_mismatches');
+
+  if (error) throw error;
+
+  return (data || []) as PaymentMismatch[];
+};
+
+export interface PesapalStatusCheckResult {
+  status: PesapalStatus;
+  orderId: string;
+  message: string;
+  reviewReason?: string;
+}
+
+// Asks Pesapal for the current status through check-pesapal-status, which
+// also completes or cancels the order to match, or holds it for payment
+// review when the amount or currency paid is wrong.
+export const recheckPesapalStatus = async (trackingId: string): Promise<PesapalStatusCheckResult> => {
+  const { data, error } = await supabase.functions.invoke('check-pesapal-status', {
+    body: { trackingId },
+  });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const body = await error.context.json().catch(() => null);
+      if (body?.error) throw new Error(body.error);
+    }
+    throw error;
+  }
+
+  if (!data?.success) throw new Error(data?.error || 'Failed to check payment status');
+
+  return data as PesapalStatusCheckResult;
+};
+
+export const getReconciliationRuns = async (limit = 10): Promise<PesapalReconciliationRun[]> => {
+  const { data, error } = await supabase
+    .from('pesapal_reconciliation_runs')
+    .select('*')
+    .order('started_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+
+  return (data || []) as unknown as PesapalReconciliationRun[];
+};
+
+export interface ReconciliationResult {
+  runId: string;
+  checked_count: number;
+  completed_count: number;
+  cancelled_count: number;
+  review_count: number;
+  pending_count: number;
+  error_count: number;
+}
+
+// Re-checks stale PENDING transactions now instead of waiting for the
+// scheduled run. The summary is also stored as a reconciliation run.
+export const runPesapalReconciliation = async (): Promise<ReconciliationResult> => {
+  const { data, error } = await supabase.functions.invoke('reconcile-pesapal-transactions', {
+    body: {},
+  });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const body = await error.context.json().catch(() => null);
+      if (body?.error) throw new Error(body.error);
+    }
+    throw error;
+  }
+
+  if (!data?.success) throw new Error(data?.error || 'Failed to reconcile payments');
+
+  return data as ReconciliationResult;
+};
+
+export const getOrderPesapalTransactions = async (orderId: string): Promise<PesapalTransaction[]> => {
+  const { data, error } = await supabase
+    .from('pesapal_transactions')
+    .select('*')
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  return data;
+};
+
+// Pesapal orders are created by the create-pesapal-payment edge function,
+// which reuses an open payment request for the same amount unless forceNew
+// is set, and can send the link to the customer by email or SMS.
+export const createPaymentLink = async (
+  orderId: string,
+  { notify = [], forceNew = false }: { notify?: PaymentLinkChannel[]; forceNew?: boolean } = {}
+): Promise<PaymentLinkResult> => {
+  const { data, error } = await supabase.functions.invoke('create-pesapal-payment', {
+    body: { orderId, notify, forceNew },
+  });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const body = await error.context.json().catch(() => null);
+      if (body?.error) throw new Error(body.error);
+    }
+    throw error;
+  }
+
+  if (!data?.success) throw new Error(data?.error || 'Failed to create payment link');
+
+  return data as PaymentLinkResult;
+};
+
+export const getOrderPayments = async (orderId: string): Promise<Payment[]> => {
+  const { data, error } = await supabase
+    .from('payments')
+    .select('*')
+    .eq('order_id', orderId)
+    .order('received_at', { ascending: true });
+
+  if (error) throw error;
+
+  return data as Payment[];
+};
+
+// What's still owed on an order: the total plus delivery, less confirmed
+// payments. Matches the check that stops unpaid orders being completed.
+export const getOutstandingBalance = (order: Order, payments: Payment[]): number => {
+  const due = Number(order.total_amount) + Number(order.delivery_fee || 0);
+  const paid = payments
+    .filter(payment => payment.status === 'confirmed')
+    .reduce((sum, payment) => sum + Number(payment.amount), 0);
+
+  return Math.max(0, Number((due - paid).toFixed(2)));
+};
+
+export interface PaymentInput {
+  orderId: string;
+  method: Exclude<PaymentMethod, 'pesapal'>;
+  amount: number;
+  reference?: string;
+  notes?: string;
+}
+
+// Payments taken outside Pesapal; returns the new payment's ID. Pesapal
+// payments are recorded when their transaction completes.
+export const recordPayment = async ({ orderId, method, amount, reference, notes }: PaymentInput): Promise<string> => {
+  const { data, error } = await supabase.rpc('record_payment', {
+    p_order_id: orderId,
+    p_method: method,
+    p_amount: amount,
+    p_reference: reference?.trim() || undefined,
+    p_notes: notes?.trim() || undefined,
+  });
+
+  if (error) throw error;
+
+  return data;
+};
+
+export const voidPayment = async (paymentId: string, reason: string): Promise<void> => {
+  const { error } = await supabase.rpc('void_payment', {
+    p_payment_id: paymentId,
+    p_reason: reason,
+  });
+
+  if (error) throw error;
+};
+
+// Dates are yyyy-MM-dd, inclusive, and read as Nairobi calendar days
+export const getCashUpReport = async (from: string, to: string): Promise<CashUpDay[]> => {
+  const { data, error } = await supabase.rpc('get_cash_up_report', { p_from: from, p_to: to });
+
+  if (error) throw error;
+
+  return (data || []).map(row => ({
+    day: row.day,
+    completed_order_count: Number(row.completed_order_count),
+    completed_order_total: Number(row.completed_order_total),
+    pesapal_count: Number(row.pesapal_count),
+    pesapal_collected: Number(row.pesapal_collected),
+    cod_expected: Number(row.cod_expected),
+    cod_collected: Number(row.cod_collected),
+    mpesa_collected: Number(row.mpesa_collected),
+    bank_transfer_collected: Number(row.bank_transfer_collected),
+    refunded: Number(row.refunded),
+    total_collected: Number(row.total_collected),
+    net_collected: Number(row.net_collected),
+    variance: Number(row.variance),
+    cod_variance: Number(row.cod_variance),
+  }));
+};
+
+export const getRiderCashUp = async (from: string, to: string): Promise<RiderCashUp[]> => {
+  const { data, error } = await supabase.rpc('get_cod_rider_cash_up', { p_from: from, p_to: to });
+
+  if (error) throw error;
+
+  return (data || []).map(row => ({
+    day: row.day,
+    rider_id: row.rider_id,
+    rider_name: row.rider_name,
+    delivered_count: Number(row.delivered_count),
+    cod_expected: Number(row.cod_expected),
+    cod_collected: Number(row.cod_collected),
+  }));
+};
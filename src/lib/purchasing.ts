@@ -0,0 +1,218 @@
+import { supabase } from '@/integrations/supabase/client';
+import {
+  PurchaseOrder,
+  PurchaseOrderStatus,
+  PurchaseSuggestion,
+  Supplier,
+} from '@/types';
+
+export const getSuppliers = async (): Promise<Supplier[]> => {
+  const { data, error } = await supabase
+    .from('suppliers')
+    .select('*, supplier_products(product_id, unit_cost, products(name))')
+    .order('name');
+
+  if (error) throw error;
+
+  return (data || []).map(({ supplier_products, ...supplier }) => ({
+    ...supplier,
+    products: supplier_products.map(entry => ({
+      product_id: entry.product_id,
+      product_name: entry.products?.name || 'Deleted product',
+      unit_cost: entry.unit_cost === null ? null : Number(entry.unit_cost),
+    })),
+  }));
+};
+
+export type SupplierInput = Omit<Supplier, 'id' | 'created_at' | 'updated_at' | 'products'>;
+
+export interface SupplierProductInput {
+  productId: string;
+  unitCost: number | null;
+}
+
+// Saves the supplier and replaces the list of products it supplies
+export const saveSupplier = async (
+  supplier: SupplierInput,
+  products: SupplierProductInput[],
+  id?: string
+): Promise<void> => {
+  const query = id
+    ? supabase.from('suppliers').update(supplier).eq('id', id)
+    : supabase.from('suppliers').insert(supplier);
+
+  const { data, error } = await query.select('id').single();
+
+  if (error?.code === '23505') {
+    throw new Error(`A supplier called ${supplier.name} already exists`);
+  }
+  if (error) throw error;
+
+  const { error: deleteError } = await supabase
+    .from('supplier_products')
+    .delete()
+    .eq('supplier_id', data.id);
+
+  if (deleteError) throw deleteError;
+
+  if (products.length === 0) return;
+
+  const { error: insertError } = await supabase
+    .from('supplier_products')
+    .insert(products.map(product => ({
+      supplier_id: data.id,
+      product_id: product.productId,
+      unit_cost: product.unitCost,
+    })));
+
+  if (insertError) throw insertError;
+};
+
+export const setSupplierActive = async (id: string, isActive: boolean): Promise<void> => {
+  const { error } = await supabase
+    .from('suppliers')
+    .update({ is_active: isActive })
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+export const deleteSupplier = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('suppliers')
+    .delete()
+    .eq('id', id);
+
+  // Purchase orders and received batches keep a reference to their supplier
+  if (error?.code === '23503') {
+    throw new Error('This supplier has purchase orders. Deactivate it instead.');
+  }
+  if (error) throw error;
+};
+
+export const getPurchaseOrders = async (): Promise<PurchaseOrder[]> => {
+  const { data, error } = await supabase
+    .from('purchase_orders')
+    .select('*, suppliers(name), purchase_order_items(*, products(name))')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []).map(({ suppliers, purchase_order_items, ...order }) => ({
+    ...order,
+    status: order.status as PurchaseOrderStatus,
+    supplier_name: suppliers?.name || 'Unknown supplier',
+    items: purchase_order_items
+      .map(({ products, ...item }) => ({
+        id: item.id,
+        product_id: item.product_id,
+        product_name: products?.name || 'Deleted product',
+        quantity_ordered: item.quantity_ordered,
+        quantity_received: item.quantity_received,
+        unit_cost: item.unit_cost === null ? null : Number(item.unit_cost),
+      }))
+      .sort((a, b) => a.product_name.localeCompare(b.product_name)),
+  }));
+};
+
+// Total cost of the ordered quantities, leaving out lines without a price
+export const getPurchaseOrderTotal = (order: PurchaseOrder): number =>
+  order.items.reduce((total, item) => total + (item.unit_cost ?? 0) * item.quantity_ordered, 0);
+
+export interface PurchaseOrderItemInput {
+  productId: string;
+  quantity: number;
+  // Falls back to the supplier's price for the product when left out
+  unitCost?: number | null;
+}
+
+export interface PurchaseOrderInput {
+  supplierId: string;
+  items: PurchaseOrderItemInput[];
+  // Defaults to today plus the supplier's lead time
+  expectedDeliveryDate?: string;
+  notes?: string;
+}
+
+// Creates a draft purchase order and returns its ID
+export const createPurchaseOrder = async ({
+  supplierId,
+  items,
+  expectedDeliveryDate,
+  notes,
+}: PurchaseOrderInput): Promise<string> => {
+  const { data, error } = await supabase.rpc('create_purchase_order', {
+    p_supplier_id: supplierId,
+    p_items: items.map(item => ({
+      product_id: item.productId,
+      quantity: item.quantity,
+      unit_cost: item.unitCost ?? null,
+    })),
+    p_expected_delivery_date: expectedDeliveryDate || undefined,
+    p_notes: notes?.trim() || undefined,
+  });
+
+  if (error) throw error;
+
+  return data;
+};
+
+export const sendPurchaseOrder = async (id: string): Promise<void> => {
+  const { error } = await supabase.rpc('send_purchase_order', { p_purchase_order_id: id });
+
+  if (error) throw error;
+};
+
+// Only drafts can be deleted; anything sent stays on record
+export const deletePurchaseOrder = async (id: string): Promise<void> => {
+  const { data, error } = await supabase
+    .from('purchase_orders')
+    .delete()
+    .eq('id', id)
+    .select('id');
+
+  if (error) throw error;
+
+  if (!data || data.length === 0) {
+    throw new Error('Only draft purchase orders can be deleted');
+  }
+};
+
+export interface PurchaseOrderReceiptLine {
+  itemId: string;
+  quantity: number;
+  expiresAt?: string;
+}
+
+// Each line received becomes a stock batch from the order's supplier
+export const receivePurchaseOrder = async (
+  id: string,
+  lines: PurchaseOrderReceiptLine[],
+  receivedAt?: string
+): Promise<void> => {
+  const { error } = await supabase.rpc('receive_purchase_order', {
+    p_purchase_order_id: id,
+    p_items: lines.map(line => ({
+      item_id: line.itemId,
+      quantity: line.quantity,
+      expires_at: line.expiresAt || null,
+    })),
+    p_received_at: receivedAt || undefined,
+  });
+
+  if (error) throw error;
+};
+
+export const getPurchaseSuggestions = async (salesDays?: number): Promise<PurchaseSuggestion[]> => {
+  const { data, error } = await supabase.rpc('get_purchase_suggestions', {
+    p_sales_days: salesDays,
+  });
+
+  if (error) throw error;
+
+  return (data || []).map(suggestion => ({
+    ...suggestion,
+    daily_sales: Number(suggestion.daily_sales),
+    unit_cost: suggestion.unit_cost === null ? null : Number(suggestion.unit_cost),
+  }));
+};
@@ -0,0 +1,106 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { Refund, RefundStatus } from '@/types';
+
+// Every refund except one Pesapal rejected has left, or is leaving, the
+// business. create_refund counts them the same way.
+export const NET_REVENUE_REFUND_STATUSES: RefundStatus[] = ['pending', 'requested', 'completed'];
+
+export const getOrderRefunds = async (orderId: string): Promise<Refund[]> => {
+  const { data, error } = await supabase
+    .from('refunds')
+    .select('*, items:refund_items(*)')
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  return data as Refund[];
+};
+
+// What's left to refund on an order after earlier refunds, including one
+// given when it was cancelled. create_refund and cancel_order use the same cap.
+export const getRefundableAmount = async (orderId: string): Promise<number> => {
+  const { data, error } = await supabase.rpc('get_refundable_amount', { p_order_id: orderId });
+
+  if (error) throw error;
+
+  return Number(data);
+};
+
+export interface RefundInput {
+  orderId: string;
+  amount: number;
+  reason: string;
+  items: { orderItemId: string; quantity: number }[];
+}
+
+export interface RefundResult {
+  refundId: string;
+  status: RefundStatus;
+}
+
+// Records the refund and, for Pesapal orders, asks Pesapal to return the
+// money through create-refund
+export const createRefund = async (refund: RefundInput): Promise<RefundResult> => {
+  const { data, error } = await supabase.functions.invoke('create-refund', {
+    body: refund,
+  });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const body = await error.context.json().catch(() => null);
+      if (body?.error) throw new Error(body.error);
+    }
+    throw error;
+  }
+
+  if (!data?.success) throw new Error(data?.error || 'Failed to create refund');
+
+  return data as RefundResult;
+};
+
+// Settle a refund Pesapal was asked for, once the money has gone back to the
+// customer or the request was turned down
+export const resolveRefund = async (
+  refundId: string,
+  status: Extract<RefundStatus, 'completed' | 'failed'>
+): Promise<void> => {
+  const { error } = await supabase.rpc('resolve_refund', {
+    p_refund_id: refundId,
+    p_status: status,
+  });
+
+  if (error) throw error;
+};
+
+export interface NetRevenueDay {
+  date: string;
+  gross: number;
+  refunded: number;
+}
+
+export interface NetRevenue {
+  gross: number;
+  refunded: number;
+  days: NetRevenueDay[];
+}
+
+// Completed orders' totals less the refunds on those orders, overall and by
+// day, from get_net_revenue
+export const getNetRevenue = async (): Promise<NetRevenue> => {
+  const { data, error } = await supabase.rpc('get_net_revenue');
+
+  if (error) throw error;
+
+  const revenue = data as unknown as NetRevenue;
+  return {
+    gross: Number(revenue.gross),
+    refunded: Number(revenue.refunded),
+    days: revenue.days.map(day => ({
+      date: day.date,
+      gross: Number(day.gross),
+      refunded: Number(day.refunded),
+    })),
+  };
+};
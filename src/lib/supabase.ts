@@ -1,6 +1,15 @@
 
 import { createClient } from '@supabase/supabase-js';
 import { Customer, Order, Product, DashboardStats, OrderItem } from '../types';
+import {
+  searchOrders,
+  getOrderDetails,
+  getRecentOrders,
+  updateOrderStatus as updateOrderStatusRpc,
+  createManualOrder,
+  ManualOrderInput,
+} from './orders';
+import { getLowStockLevels } from './inventory';
 import { toast } from '../components/ui/sonner';
 
 // Supabase configuration
@@ -30,12 +39,8 @@ export async function getDashboardStats(): Promise<DashboardStats> {
       .select('*', { count: 'exact', head: true })
       .is('deleted_at', null);
       
-    // Get low stock products count (excluding deleted)
-    const { count: lowStockProducts } = await supabase
-      .from('products')
-      .select('*', { count: 'exact', head: true })
-      .lt('stock', 10)
-      .is('deleted_at', null);
+    // Products at or below their reorder point (excluding deleted)
+    const lowStockProducts = (await getLowStockLevels()).length;
       
     // Get total revenue
     const { data: revenueData } = await supabase
@@ -44,39 +49,16 @@ export async function getDashboardStats(): Promise<DashboardStats> {
     
     const totalRevenue = revenueData?.reduce((sum, order) => sum + order.total_amount, 0) || 0;
     
-    // Get recent orders
-    const { data: recentOrdersRaw } = await supabase
-      .from('orders')
-      .select(`
-        *,
-        customer:customers(*)
-      `)
-      .order('created_at', { ascending: false })
-      .limit(5);
-    
-    // Get order items for each order
-    const recentOrders = await Promise.all((recentOrdersRaw || []).map(async (order) => {
-      const { data: items } = await supabase
-        .from('order_items')
-        .select(`
-          *,
-          product:products(*)
-        `)
-        .eq('order_id', order.id);
-      
-      return {
-        ...order,
-        items: items || []
-      };
-    }));
+    // Get recent orders with items and customer in a single query
+    const recentOrders = await getRecentOrders(5);
 
     return {
       totalOrders: totalOrders || 0,
       totalCustomers: totalCustomers || 0,
       totalProducts: totalProducts || 0,
       totalRevenue,
-      lowStockProducts: lowStockProducts || 0,
-      recentOrders: recentOrders as Order[]
+      lowStockProducts,
+      recentOrders
     };
   } catch (error) {
     console.error('Error fetching dashboard stats:', error);
@@ -225,33 +207,22 @@ export async function getCustomer(id: string): Promise<Customer | null> {
 // Orders API
 export async function getOrders(): Promise<Order[]> {
   try {
-    const { data: ordersRaw, error } = await supabase
-      .from('orders')
-      .select(`
-        *,
-        customer:customers(*)
-      `)
-      .order('created_at', { ascending: false });
-    
-    if (error) throw error;
-    
-    // Get order items for each order
-    const orders = await Promise.all((ordersRaw || []).map(async (order) => {
-      const { data: items } = await supabase
-        .from('order_items')
-        .select(`
-          *,
-          product:products(*)
-        `)
-        .eq('order_id', order.id);
-      
-      return {
-        ...order,
-        items: items || []
-      };
-    }));
-    
-    return orders as Order[];
+    // PostgREST caps responses at max_rows (1000), so fetch page by page
+    const pageSize = 1000;
+    const orders: Order[] = [];
+    let totalCount = 0;
+    let page = 1;
+
+    do {
+      const result = await searchOrders({ page, pageSize });
+      if (result.orders.length === 0) break;
+
+      orders.push(...result.orders);
+      totalCount = result.totalCount;
+      page++;
+    } while (orders.length < totalCount);
+
+    return orders;
   } catch (error) {
     console.error('Error fetching orders:', error);
     toast.error('Failed to load orders');
@@ -261,30 +232,7 @@ export async function getOrders(): Promise<Order[]> {
 
 export async function getOrder(id: string): Promise<Order | null> {
   try {
-    const { data: order, error } = await supabase
-      .from('orders')
-      .select(`
-        *,
-        customer:customers(*)
-      `)
-      .eq('id', id)
-      .single();
-    
-    if (error) throw error;
-    
-    // Get order items
-    const { data: items } = await supabase
-      .from('order_items')
-      .select(`
-        *,
-        product:products(*)
-      `)
-      .eq('order_id', id);
-    
-    return {
-      ...order,
-      items: items || []
-    } as Order;
+    return await getOrderDetails(id);
   } catch (error) {
     console.error(`Error fetching order ${id}:`, error);
     toast.error('Failed to load order details');
@@ -294,86 +242,30 @@ export async function getOrder(id: string): Promise<Order | null> {
 
 export async function createOrder(
   customerId: string, 
-  items: { productId: string, quantity: number }[]
+  items: { productId: string, quantity: number }[],
+  options: Omit<ManualOrderInput, 'customerId' | 'items'> = { paymentMethod: 'cod' }
 ): Promise<Order | null> {
   try {
-    // Start a transaction
-    const { data: productsData, error: productsError } = await supabase
-      .from('products')
-      .select('id, price, stock')
-      .in('id', items.map(item => item.productId))
-      .is('deleted_at', null);
-    
-    if (productsError) throw productsError;
-    
-    const products = productsData as Pick<Product, 'id' | 'price' | 'stock'>[];
-    
-    // Calculate total amount and validate stock
-    let totalAmount = 0;
-    const insufficientStock = items.some(item => {
-      const product = products.find(p => p.id === item.productId);
-      if (!product) return true;
-      if (product.stock < item.quantity) return true;
-      totalAmount += product.price * item.quantity;
-      return false;
-    });
-    
-    if (insufficientStock) {
-      toast.error('Insufficient stock for some products');
-      return null;
-    }
-    
-    // Create order
-    const { data: order, error: orderError } = await supabase
-      .from('orders')
-      .insert({
-        customer_id: customerId,
-        total_amount: totalAmount,
-        status: 'pending'
-      })
-      .select()
-      .single();
-    
-    if (orderError) throw orderError;
-    
-    // Create order items
-    const orderItems = items.map(item => {
-      const product = products.find(p => p.id === item.productId)!;
-      return {
-        order_id: order.id,
-        product_id: item.productId,
-        quantity: item.quantity,
-        unit_price: product.price
-      };
-    });
-    
-    const { error: itemsError } = await supabase
-      .from('order_items')
-      .insert(orderItems);
-    
-    if (itemsError) throw itemsError;
-    
+    // Orders belong to a customer profile (orders.user_id). Prices and stock
+    // are validated in the database by create_manual_order.
     // Note: Stock will be reduced when payment is completed and order status changes to 'completed'
+    const orderId = await createManualOrder({ customerId, items, ...options });
     
     toast.success('Order created successfully');
     
     // Return the complete order
-    return getOrder(order.id);
+    return getOrder(orderId);
   } catch (error) {
     console.error('Error creating order:', error);
-    toast.error('Failed to create order');
+    toast.error(error instanceof Error ? error.message : 'Failed to create order');
     return null;
   }
 }
 
-export async function updateOrderStatus(id: string, status: Order['status']): Promise<boolean> {
+export async function updateOrderStatus(id: string, status: Order['status'], reason?: string): Promise<boolean> {
   try {
-    const { error } = await supabase
-      .from('orders')
-      .update({ status })
-      .eq('id', id);
-    
-    if (error) throw error;
+    // Transitions are validated and recorded in the status history by the database
+    await updateOrderStatusRpc(id, status, reason);
     
     toast.success(`Order status updated to ${status}`);
     return true;
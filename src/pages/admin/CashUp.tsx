@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import DashboardLayout from '@/components/dashboard/layout/DashboardLayout';
+import StatsCard from '@/components/dashboard/overview/StatsCard';
+import CashUpTable from '@/components/dashboard/payments/CashUpTable';
+import RiderCashUpTable from '@/components/dashboard/payments/RiderCashUpTable';
+import { getCashUpReport, getRiderCashUp } from '@/lib/payments';
+import { exportCashUpCSV, formatVariance, hasVariance, printCashUpReport, sumCashUpDays } from '@/utils/cashUpReport';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from '@/components/ui/use-toast';
+import { AlertTriangle, Download, FileText, Undo2, Wallet } from 'lucide-react';
+import { format, subDays } from 'date-fns';
+
+const CashUp = () => {
+  const [dateFrom, setDateFrom] = useState(format(subDays(new Date(), 6), 'yyyy-MM-dd'));
+  const [dateTo, setDateTo] = useState(format(new Date(), 'yyyy-MM-dd'));
+
+  const isRangeValid = !!dateFrom && !!dateTo && dateFrom <= dateTo;
+
+  const { data: days = [], isLoading, error } = useQuery({
+    queryKey: ['cashUpReport', dateFrom, dateTo],
+    queryFn: () => getCashUpReport(dateFrom, dateTo),
+    enabled: isRangeValid,
+  });
+
+  if (error) {
+    console.error('Error loading cash-up report:', error);
+  }
+
+  const { data: riders = [] } = useQuery({
+    queryKey: ['riderCashUp', dateFrom, dateTo],
+    queryFn: () => getRiderCashUp(dateFrom, dateTo),
+    enabled: isRangeValid,
+  });
+
+  const totals = sumCashUpDays(days);
+  const daysWithVariance = days.filter(day => hasVariance(day.variance) || hasVariance(day.cod_variance)).length;
+
+  const handleExportCSV = () => {
+    exportCashUpCSV(days, dateFrom, dateTo);
+    toast({ title: 'Export Complete', description: `${days.length} days exported to CSV` });
+  };
+
+  const handleExportPDF = () => {
+    try {
+      printCashUpReport(days, riders, dateFrom, dateTo);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to open the report",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">Cash-up</h1>
+            <p className="text-muted-foreground">
+              Money collected each day against the orders completed that day
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleExportCSV} disabled={days.length === 0}>
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </Button>
+            <Button variant="outline" onClick={handleExportPDF} disabled={days.length === 0}>
+              <FileText className="h-4 w-4 mr-2" />
+              Export PDF
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="cash-up-from" className="text-xs text-muted-foreground">From</Label>
+            <Input
+              id="cash-up-from"
+              type="date"
+              className="w-[160px]"
+              value={dateFrom}
+              max={dateTo || undefined}
+              onChange={(e) => setDateFrom(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="cash-up-to" className="text-xs text-muted-foreground">To</Label>
+            <Input
+              id="cash-up-to"
+              type="date"
+              className="w-[160px]"
+              value={dateTo}
+              min={dateFrom || undefined}
+              onChange={(e) => setDateTo(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-4">
+          <StatsCard
+            title="Collected"
+            value={`Ksh ${totals.total_collected.toFixed(2)}`}
+            icon={<Wallet className="h-4 w-4 text-ocean-500" />}
+            description={`Ksh ${totals.pesapal_collected.toFixed(2)} through Pesapal`}
+          />
+          <StatsCard
+            title="Refunded"
+            value={`Ksh ${totals.refunded.toFixed(2)}`}
+            icon={<Undo2 className="h-4 w-4 text-ocean-500" />}
+          />
+          <StatsCard
+            title="Net Collected"
+            value={`Ksh ${totals.net_collected.toFixed(2)}`}
+            icon={<Wallet className="h-4 w-4 text-ocean-500" />}
+            description={`Ksh ${totals.completed_order_total.toFixed(2)} of orders completed`}
+          />
+          <StatsCard
+            title="Variance"
+            value={formatVariance(totals.variance)}
+            icon={<AlertTriangle className={`h-4 w-4 ${daysWithVariance > 0 ? 'text-red-500' : 'text-ocean-500'}`} />}
+            description={daysWithVariance > 0 ? `${daysWithVariance} days don't balance` : 'Every day balances'}
+          />
+        </div>
+
+        {!isRangeValid ? (
+          <p className="text-sm text-red-600">Choose a start date on or before the end date.</p>
+        ) : isLoading ? (
+          <div className="flex justify-center p-8">
+            <p>Loading cash-up...</p>
+          </div>
+        ) : (
+          <>
+            <CashUpTable days={days} />
+
+            <div className="space-y-2">
+              <h2 className="text-xl font-semibold">Cash on delivery by rider</h2>
+              <p className="text-sm text-muted-foreground">
+                Cash recorded against each rider's orders compared with the cash-on-delivery orders they delivered.
+              </p>
+              <RiderCashUpTable riders={riders} />
+            </div>
+          </>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default CashUp;
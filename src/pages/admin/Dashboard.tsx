@@ -7,8 +7,12 @@ import RecentOrdersList from '@/components/dashboard/overview/RecentOrdersList';
 import { Package, ShoppingCart, Users, DollarSign, Mail, FileText, MessageSquare } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/components/ui/use-toast';
-import { Order } from '@/types';
+import { getRecentOrders } from '@/lib/orders';
+import { getNetRevenue } from '@/lib/refunds';
 import LowStockAlert from '@/components/dashboard/analytics/LowStockAlert';
+import ExpiringStockAlert from '@/components/dashboard/analytics/ExpiringStockAlert';
+import { getExpiringBatches, getLowStockLevels } from '@/lib/inventory';
+import { EXPIRY_ALERT_DAYS } from '@/utils/stockMovements';
 
 const fetchDashboardStats = async () => {
   try {
@@ -33,22 +37,12 @@ const fetchDashboardStats = async () => {
     
     if (productsError) throw productsError;
       
-    // Get low stock products count (changed threshold to 20)
-    const { count: lowStockProducts, error: lowStockError } = await supabase
-      .from('products')
-      .select('*', { count: 'exact', head: true })
-      .lt('stock', 20);
-    
-    if (lowStockError) throw lowStockError;
-      
-    // Get total revenue
-    const { data: revenueData, error: revenueError } = await supabase
-      .from('orders')
-      .select('total_amount');
-    
-    if (revenueError) throw revenueError;
-    
-    const totalRevenue = revenueData?.reduce((sum, order) => sum + Number(order.total_amount), 0) || 0;
+    // Products at or below their own or their category's reorder point
+    const lowStockProductsData = await getLowStockLevels();
+
+    // Net revenue: completed orders less what's been refunded on them
+    const { gross: grossRevenue, refunded: totalRefunded } = await getNetRevenue();
+    const totalRevenue = grossRevenue - totalRefunded;
     
     // Get newsletter subscribers count
     const { count: totalNewsletterSubscribers, error: newsletterError } = await supabase
@@ -71,74 +65,17 @@ const fetchDashboardStats = async () => {
     
     if (contactsError) throw contactsError;
 
-    // Get products with low stock (less than 20) for detailed alert
-    const { data: lowStockProductsData, error: lowStockProductsError } = await supabase
-      .from('products')
-      .select('*')
-      .lt('stock', 20)
-      .order('stock', { ascending: true });
-    
-    if (lowStockProductsError) throw lowStockProductsError;
-    
-    // Get recent orders
-    const { data: recentOrdersData, error: recentOrdersError } = await supabase
-      .from('orders')
-      .select('*')
-      .order('created_at', { ascending: false })
-      .limit(5);
-    
-    if (recentOrdersError) throw recentOrdersError;
-    
-    // Get order items and customer data for each order
-    const recentOrders = await Promise.all((recentOrdersData || []).map(async (order) => {
-      // Get order items
-      const { data: items, error: itemsError } = await supabase
-        .from('order_items')
-        .select(`
-          *,
-          products(*)
-        `)
-        .eq('order_id', order.id);
-      
-      if (itemsError) throw itemsError;
-      
-      // Get customer data
-      const { data: customerData, error: customerError } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('id', order.user_id)
-        .single();
-      
-      if (customerError) {
-        console.error('Error fetching customer data:', customerError);
-      }
-
-      const processedItems = items?.map(item => ({
-        ...item,
-        product: item.products // Map to match our OrderItem type
-      })) || [];
-      
-      return {
-        ...order,
-        customer_id: order.user_id,
-        customer: {
-          id: customerData?.id || '',
-          name: customerData?.full_name || 'Unknown',
-          email: '',
-          phone: customerData?.phone || '',
-          address: customerData?.address || '',
-          created_at: customerData?.created_at || order.created_at
-        },
-        items: processedItems
-      } as Order;
-    }));
+    // Get recent orders with items and customer in a single query
+    const recentOrders = await getRecentOrders(5);
 
     return {
       totalOrders: totalOrders || 0,
       totalCustomers: totalCustomers || 0,
       totalProducts: totalProducts || 0,
       totalRevenue,
-      lowStockProducts: lowStockProducts || 0,
+      grossRevenue,
+      totalRefunded,
+      lowStockProducts: lowStockProductsData.length,
       recentOrders,
       totalNewsletterSubscribers: totalNewsletterSubscribers || 0,
       totalBlogPosts: totalBlogPosts || 0,
@@ -166,6 +103,11 @@ const Dashboard = () => {
     console.error('Error loading dashboard data:', error);
   }
 
+  const { data: expiringBatches = [] } = useQuery({
+    queryKey: ['expiringBatches', EXPIRY_ALERT_DAYS],
+    queryFn: () => getExpiringBatches(EXPIRY_ALERT_DAYS),
+  });
+
   return (
     <DashboardLayout>
       <div className="space-y-6">
@@ -186,11 +128,15 @@ const Dashboard = () => {
           <StatsCard
             title="Total Products"
             value={isLoading ? '...' : stats?.totalProducts.toString() || '0'}
+            description={stats ? `${stats.lowStockProducts} at or below reorder point` : undefined}
             icon={<Package className="h-4 w-4 text-ocean-500" />}
           />
           <StatsCard
-            title="Total Revenue"
+            title="Net Revenue"
             value={isLoading ? '...' : `Ksh ${stats?.totalRevenue.toFixed(2) || '0.00'}`}
+            description={stats && stats.totalRefunded > 0
+              ? `Ksh ${stats.grossRevenue.toFixed(2)} gross, Ksh ${stats.totalRefunded.toFixed(2)} refunded`
+              : undefined}
             icon={<DollarSign className="h-4 w-4 text-ocean-500" />}
           />
         </div>
@@ -200,6 +146,10 @@ const Dashboard = () => {
           <LowStockAlert products={stats.lowStockProductsData} />
         )}
 
+        {expiringBatches.length > 0 && (
+          <ExpiringStockAlert batches={expiringBatches} days={EXPIRY_ALERT_DAYS} showInventoryLink />
+        )}
+
         <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
           <StatsCard
             title="Newsletter Subscribers"
@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import DashboardLayout from '@/components/dashboard/layout/DashboardLayout';
+import DeliveriesTable from '@/components/dashboard/deliveries/DeliveriesTable';
+import FailedDeliveryDialog from '@/components/dashboard/deliveries/FailedDeliveryDialog';
+import RecordDeliveryDialog, { DeliveryProofInput } from '@/components/dashboard/deliveries/RecordDeliveryDialog';
+import DeliveryProofDialog from '@/components/dashboard/deliveries/DeliveryProofDialog';
+import RidersDialog from '@/components/dashboard/deliveries/RidersDialog';
+import { DeliveryStatus, Order, Rider } from '@/types';
+import {
+  getDeliveries,
+  getRiders,
+  createRider,
+  setRiderActive,
+  assignRider,
+  updateDeliveryStatus,
+  recordDeliveryProof,
+} from '@/lib/deliveries';
+import { DELIVERY_STATUSES, DELIVERY_STATUS_LABELS } from '@/utils/deliveryStatus';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { toast } from '@/components/ui/use-toast';
+import { Users } from 'lucide-react';
+
+const showError = (error: Error) => {
+  toast({
+    title: "Error",
+    description: error.message || "Something went wrong",
+    variant: "destructive",
+  });
+};
+
+const Deliveries = () => {
+  const queryClient = useQueryClient();
+  const [activeStatus, setActiveStatus] = useState<DeliveryStatus>('awaiting_dispatch');
+  const [failingOrder, setFailingOrder] = useState<Order | null>(null);
+  const [deliveringOrder, setDeliveringOrder] = useState<Order | null>(null);
+  const [proofOrder, setProofOrder] = useState<Order | null>(null);
+  const [isRidersOpen, setIsRidersOpen] = useState(false);
+
+  const { data: deliveries = [], isLoading, error } = useQuery({
+    queryKey: ['deliveries', activeStatus],
+    queryFn: () => getDeliveries(activeStatus),
+  });
+
+  if (error) {
+    console.error('Error loading deliveries:', error);
+  }
+
+  const { data: riders = [] } = useQuery({
+    queryKey: ['riders'],
+    queryFn: getRiders,
+  });
+
+  const invalidateDeliveries = () => {
+    queryClient.invalidateQueries({ queryKey: ['deliveries'] });
+    queryClient.invalidateQueries({ queryKey: ['orders'] });
+  };
+
+  const assignRiderMutation = useMutation({
+    mutationFn: ({ order, riderId }: { order: Order; riderId: string }) => assignRider(order.id, riderId),
+    onSuccess: invalidateDeliveries,
+    onError: showError,
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: ({ order, status, notes }: {
+      order: Order;
+      status: Exclude<DeliveryStatus, 'delivered'>;
+      notes?: string;
+    }) => updateDeliveryStatus(order.id, status, { riderId: order.rider_id || undefined, notes }),
+    onSuccess: (_, { order, status }) => {
+      toast({
+        title: "Delivery updated",
+        description: `Order #${order.id.substring(0, 8)} is now ${DELIVERY_STATUS_LABELS[status].toLowerCase()}`,
+      });
+      invalidateDeliveries();
+    },
+    onError: showError,
+  });
+
+  const proofMutation = useMutation({
+    mutationFn: ({ order, proof }: { order: Order; proof: DeliveryProofInput }) =>
+      recordDeliveryProof(order.id, proof),
+    onSuccess: (_, { order }) => {
+      toast({
+        title: "Delivered",
+        description: `Order #${order.id.substring(0, 8)} has been marked as delivered`,
+      });
+      setDeliveringOrder(null);
+      invalidateDeliveries();
+    },
+    onError: showError,
+  });
+
+  const createRiderMutation = useMutation({
+    mutationFn: createRider,
+    onSuccess: (rider) => {
+      toast({
+        title: "Rider added",
+        description: `${rider.full_name} can now be assigned to deliveries`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['riders'] });
+    },
+    onError: showError,
+  });
+
+  const toggleRiderMutation = useMutation({
+    mutationFn: ({ rider, isActive }: { rider: Rider; isActive: boolean }) => setRiderActive(rider.id, isActive),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['riders'] });
+    },
+    onError: showError,
+  });
+
+  const isUpdating = assignRiderMutation.isPending || statusMutation.isPending;
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <h1 className="text-3xl font-bold">Deliveries</h1>
+          <Button variant="outline" onClick={() => setIsRidersOpen(true)}>
+            <Users className="h-4 w-4 mr-2" />
+            Riders
+          </Button>
+        </div>
+
+        <Tabs value={activeStatus} onValueChange={(value) => setActiveStatus(value as DeliveryStatus)}>
+          <TabsList>
+            {DELIVERY_STATUSES.map((status) => (
+              <TabsTrigger key={status} value={status}>
+                {DELIVERY_STATUS_LABELS[status]}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        {isLoading ? (
+          <div className="flex justify-center p-8">
+            <p>Loading deliveries...</p>
+          </div>
+        ) : (
+          <DeliveriesTable
+            orders={deliveries}
+            riders={riders}
+            isUpdating={isUpdating}
+            onAssignRider={(order, riderId) => assignRiderMutation.mutate({ order, riderId })}
+            onDispatch={(order) => statusMutation.mutate({ order, status: 'out_for_delivery' })}
+            onReturnToQueue={(order) => statusMutation.mutate({ order, status: 'awaiting_dispatch' })}
+            onMarkFailed={setFailingOrder}
+            onRecordDelivery={setDeliveringOrder}
+            onViewProof={setProofOrder}
+          />
+        )}
+      </div>
+
+      <FailedDeliveryDialog
+        order={failingOrder}
+        onOpenChange={(open) => !open && setFailingOrder(null)}
+        onConfirm={(order, reason) => statusMutation.mutate({ order, status: 'failed', notes: reason })}
+      />
+
+      <RecordDeliveryDialog
+        order={deliveringOrder}
+        isSubmitting={proofMutation.isPending}
+        onOpenChange={(open) => !open && setDeliveringOrder(null)}
+        onSubmit={(order, proof) => proofMutation.mutate({ order, proof })}
+      />
+
+      <DeliveryProofDialog
+        order={proofOrder}
+        onOpenChange={(open) => !open && setProofOrder(null)}
+      />
+
+      <RidersDialog
+        open={isRidersOpen}
+        riders={riders}
+        isSaving={createRiderMutation.isPending || toggleRiderMutation.isPending}
+        onOpenChange={setIsRidersOpen}
+        onCreateRider={(rider) => createRiderMutation.mutate(rider)}
+        onToggleRider={(rider, isActive) => toggleRiderMutation.mutate({ rider, isActive })}
+      />
+    </DashboardLayout>
+  );
+};
+
+export default Deliveries;
@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import DashboardLayout from '@/components/dashboard/layout/DashboardLayout';
+import DeliveryZonesTable from '@/components/dashboard/deliveries/DeliveryZonesTable';
+import DeliveryZoneFormDialog from '@/components/dashboard/deliveries/DeliveryZoneFormDialog';
+import DeliveryFeeCalculator from '@/components/dashboard/deliveries/DeliveryFeeCalculator';
+import ZoneRevenueCard, { RevenuePeriod } from '@/components/dashboard/deliveries/ZoneRevenueCard';
+import { DeliveryZone } from '@/types';
+import {
+  getDeliveryZones,
+  saveDeliveryZone,
+  setDeliveryZoneActive,
+  deleteDeliveryZone,
+  getDeliveryZoneRevenue,
+  DeliveryZoneInput,
+} from '@/lib/deliveryZones';
+import { findZoneBandIssues } from '@/utils/deliveryZoneBands';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { toast } from '@/components/ui/use-toast';
+import { AlertTriangle, Plus } from 'lucide-react';
+import { subDays } from 'date-fns';
+
+const showError = (error: Error) => {
+  toast({
+    title: "Error",
+    description: error.message || "Something went wrong",
+    variant: "destructive",
+  });
+};
+
+const DeliveryZones = () => {
+  const queryClient = useQueryClient();
+  const [editingZone, setEditingZone] = useState<DeliveryZone | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [zoneToDelete, setZoneToDelete] = useState<DeliveryZone | null>(null);
+  const [revenuePeriod, setRevenuePeriod] = useState<RevenuePeriod>('30');
+
+  const { data: zones = [], isLoading, error } = useQuery({
+    queryKey: ['deliveryZones'],
+    queryFn: getDeliveryZones,
+  });
+
+  if (error) {
+    console.error('Error loading delivery zones:', error);
+  }
+
+  const { data: revenue = [], isLoading: isRevenueLoading } = useQuery({
+    queryKey: ['deliveryZoneRevenue', revenuePeriod],
+    queryFn: () => getDeliveryZoneRevenue(
+      revenuePeriod === 'all' ? undefined : subDays(new Date(), Number(revenuePeriod)).toISOString()
+    ),
+  });
+
+  const bandIssues = findZoneBandIssues(zones);
+  const flaggedZoneIds = new Set(bandIssues.flatMap(issue => issue.zoneIds));
+
+  const saveMutation = useMutation({
+    mutationFn: ({ zone, id }: { zone: DeliveryZoneInput; id?: string }) => saveDeliveryZone(zone, id),
+    onSuccess: (zone, { id }) => {
+      toast({
+        title: id ? "Zone updated" : "Zone created",
+        description: `${zone.name} has been saved`,
+      });
+      setIsFormOpen(false);
+      queryClient.invalidateQueries({ queryKey: ['deliveryZones'] });
+    },
+    onError: showError,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: ({ zone, isActive }: { zone: DeliveryZone; isActive: boolean }) =>
+      setDeliveryZoneActive(zone.id, isActive),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['deliveryZones'] });
+    },
+    onError: showError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (zone: DeliveryZone) => deleteDeliveryZone(zone.id),
+    onSuccess: (_, zone) => {
+      toast({
+        title: "Zone deleted",
+        description: `${zone.name} has been deleted`,
+      });
+      setZoneToDelete(null);
+      queryClient.invalidateQueries({ queryKey: ['deliveryZones'] });
+    },
+    onError: (error: Error) => {
+      setZoneToDelete(null);
+      showError(error);
+    },
+  });
+
+  const openForm = (zone: DeliveryZone | null) => {
+    setEditingZone(zone);
+    setIsFormOpen(true);
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <h1 className="text-3xl font-bold">Delivery Zones</h1>
+          <Button onClick={() => openForm(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add zone
+          </Button>
+        </div>
+
+        {bandIssues.length > 0 && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Check the distance bands</AlertTitle>
+            <AlertDescription>
+              <ul className="list-disc pl-4">
+                {bandIssues.map(issue => (
+                  <li key={issue.message}>{issue.message}</li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center p-8">
+            <p>Loading delivery zones...</p>
+          </div>
+        ) : (
+          <DeliveryZonesTable
+            zones={zones}
+            flaggedZoneIds={flaggedZoneIds}
+            isUpdating={toggleMutation.isPending || deleteMutation.isPending}
+            onEdit={openForm}
+            onDelete={setZoneToDelete}
+            onToggleActive={(zone, isActive) => toggleMutation.mutate({ zone, isActive })}
+          />
+        )}
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          <DeliveryFeeCalculator zones={zones} />
+          <div className="lg:col-span-2">
+            <ZoneRevenueCard
+              revenue={revenue}
+              period={revenuePeriod}
+              isLoading={isRevenueLoading}
+              onPeriodChange={setRevenuePeriod}
+            />
+          </div>
+        </div>
+      </div>
+
+      <DeliveryZoneFormDialog
+        open={isFormOpen}
+        zone={editingZone}
+        zones={zones}
+        isSaving={saveMutation.isPending}
+        onOpenChange={setIsFormOpen}
+        onSubmit={(zone, id) => saveMutation.mutate({ zone, id })}
+      />
+
+      <AlertDialog open={!!zoneToDelete} onOpenChange={() => setZoneToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete delivery zone?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will permanently delete "{zoneToDelete?.name}". Zones that have been used on orders
+              can only be deactivated.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-500 hover:bg-red-600"
+              onClick={() => zoneToDelete && deleteMutation.mutate(zoneToDelete)}
+              disabled={deleteMutation.isPending}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </DashboardLayout>
+  );
+};
+
+export default DeliveryZones;
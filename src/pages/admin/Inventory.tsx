@@ -4,12 +4,24 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import DashboardLayout from '@/components/dashboard/layout/DashboardLayout';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
-import { Search, Plus, Minus, Download } from 'lucide-react';
+import { Search, Plus, Minus, Download, SlidersHorizontal } from 'lucide-react';
 import { toast } from '@/components/ui/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-import { Product } from '@/types';
+import { Product, StockReasonCode } from '@/types';
 import InventoryTable from '@/components/dashboard/inventory/InventoryTable';
 import StockUpdateModal from '@/components/dashboard/inventory/StockUpdateModal';
+import StockMovementsDrawer from '@/components/dashboard/inventory/StockMovementsDrawer';
+import {
+  adjustProductStock,
+  getExpiringBatches,
+  getReorderLevels,
+  receiveStockBatch,
+  StockAdjustmentInput,
+  StockBatchDetails,
+} from '@/lib/inventory';
+import ExpiringStockAlert from '@/components/dashboard/analytics/ExpiringStockAlert';
+import CategoryReorderDefaultsDialog from '@/components/dashboard/inventory/CategoryReorderDefaultsDialog';
+import { EXPIRY_ALERT_DAYS, getStockLevel, STOCK_LEVEL_LABELS } from '@/utils/stockMovements';
 import { exportToCSV } from '@/utils/csvExport';
 
 // Fetch products from Supabase
@@ -32,33 +44,14 @@ const fetchProducts = async (): Promise<Product[]> => {
   return data as Product[];
 };
 
-// Update product stock in Supabase
-const updateProductStock = async ({ id, stock }: { id: string; stock: number }): Promise<Product> => {
-  const { data, error } = await supabase
-    .from('products')
-    .update({ stock })
-    .eq('id', id)
-    .select()
-    .single();
-  
-  if (error) {
-    toast({
-      title: "Error",
-      description: "Failed to update stock",
-      variant: "destructive"
-    });
-    throw error;
-  }
-  
-  return data as Product;
-};
-
 const Inventory = () => {
   const queryClient = useQueryClient();
   const [filterValue, setFilterValue] = useState('');
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
   const [isUpdateModalOpen, setIsUpdateModalOpen] = useState(false);
   const [updateType, setUpdateType] = useState<'add' | 'remove'>('add');
+  const [historyProduct, setHistoryProduct] = useState<Product | null>(null);
+  const [isReorderDefaultsOpen, setIsReorderDefaultsOpen] = useState(false);
 
   // Queries
   const { data: products = [], isLoading } = useQuery({
@@ -66,6 +59,22 @@ const Inventory = () => {
     queryFn: fetchProducts,
   });
 
+  const { data: expiringBatches = [] } = useQuery({
+    queryKey: ['expiringBatches', EXPIRY_ALERT_DAYS],
+    queryFn: () => getExpiringBatches(EXPIRY_ALERT_DAYS),
+  });
+
+  const { data: reorderLevels = [] } = useQuery({
+    queryKey: ['reorderLevels'],
+    queryFn: getReorderLevels,
+  });
+
+  const reorderPoints = Object.fromEntries(reorderLevels.map(level => [level.product_id, level.reorder_point]));
+  const categories = [...new Set(products.map(product => product.category).filter((category): category is string => !!category))];
+
+  // Follow refetches so the modal checks against the latest stock count
+  const modalProduct = products.find(product => product.id === selectedProduct?.id) || selectedProduct;
+
   // Filter products based on search input
   const filteredProducts = products.filter(product => 
     product.name.toLowerCase().includes(filterValue.toLowerCase()) ||
@@ -75,9 +84,20 @@ const Inventory = () => {
 
   // Stock update mutation
   const stockMutation = useMutation({
-    mutationFn: updateProductStock,
-    onSuccess: () => {
+    mutationFn: async ({ batch, ...adjustment }: StockAdjustmentInput & { batch?: StockBatchDetails }) => {
+      if (batch) {
+        const { productId, quantity, reason } = adjustment;
+        await receiveStockBatch({ ...batch, productId, quantity, reason });
+      } else {
+        await adjustProductStock(adjustment);
+      }
+    },
+    onSuccess: (_, { productId }) => {
       queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['reorderLevels'] });
+      queryClient.invalidateQueries({ queryKey: ['stockMovements', productId] });
+      queryClient.invalidateQueries({ queryKey: ['stockBatches', productId] });
+      queryClient.invalidateQueries({ queryKey: ['expiringBatches'] });
       setIsUpdateModalOpen(false);
       setSelectedProduct(null);
       toast({
@@ -85,6 +105,15 @@ const Inventory = () => {
         description: `Stock ${updateType === 'add' ? 'added to' : 'removed from'} product successfully`,
       });
     },
+    onError: (error) => {
+      // Stock may have moved since the list loaded; show the current count
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update stock",
+        variant: "destructive"
+      });
+    },
   });
 
   // Handlers
@@ -100,21 +129,22 @@ const Inventory = () => {
     setIsUpdateModalOpen(true);
   };
 
-  const handleStockUpdate = (quantity: number) => {
+  // Sent as a change rather than a new total so sales completed since the
+  // list loaded aren't overwritten; the server rejects removals below zero
+  const handleStockUpdate = (
+    quantity: number,
+    reasonCode: StockReasonCode,
+    reason: string,
+    batch?: StockBatchDetails
+  ) => {
     if (!selectedProduct) return;
-    
-    const currentStock = selectedProduct.stock;
-    let newStock: number;
-    
-    if (updateType === 'add') {
-      newStock = currentStock + quantity;
-    } else {
-      newStock = Math.max(0, currentStock - quantity); // Prevent negative stock
-    }
-    
-    stockMutation.mutate({ 
-      id: selectedProduct.id, 
-      stock: newStock 
+
+    stockMutation.mutate({
+      productId: selectedProduct.id,
+      quantity: updateType === 'add' ? quantity : -quantity,
+      reasonCode,
+      reason,
+      batch,
     });
   };
 
@@ -123,31 +153,36 @@ const Inventory = () => {
       <div className="space-y-6">
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
           <h1 className="text-3xl font-bold">Inventory Management</h1>
-          <Button
-            variant="outline"
-            onClick={() => {
-              const getStockStatus = (stock: number) => {
-                if (stock <= 0) return 'Out of Stock';
-                if (stock <= 5) return 'Low Stock';
-                if (stock <= 20) return 'Limited Stock';
-                return 'In Stock';
-              };
-              exportToCSV(filteredProducts, 'inventory', [
-                { key: 'name', header: 'Product' },
-                { key: 'category', header: 'Category' },
-                { key: (p) => `Ksh ${p.price.toFixed(2)}`, header: 'Price' },
-                { key: 'stock', header: 'Current Stock' },
-                { key: (p) => getStockStatus(p.stock), header: 'Status' },
-              ]);
-              toast({ title: 'Export Complete', description: 'Inventory exported to CSV' });
-            }}
-            disabled={filteredProducts.length === 0}
-          >
-            <Download className="h-4 w-4 mr-2" />
-            Export CSV
-          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setIsReorderDefaultsOpen(true)}>
+              <SlidersHorizontal className="h-4 w-4 mr-2" />
+              Reorder Defaults
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => {
+                exportToCSV(filteredProducts, 'inventory', [
+                  { key: 'name', header: 'Product' },
+                  { key: 'category', header: 'Category' },
+                  { key: (p) => `Ksh ${p.price.toFixed(2)}`, header: 'Price' },
+                  { key: 'stock', header: 'Current Stock' },
+                  { key: (p) => reorderPoints[p.id] ?? '', header: 'Reorder Point' },
+                  { key: (p) => STOCK_LEVEL_LABELS[getStockLevel(p.stock, reorderPoints[p.id] ?? 0)], header: 'Status' },
+                ]);
+                toast({ title: 'Export Complete', description: 'Inventory exported to CSV' });
+              }}
+              disabled={filteredProducts.length === 0}
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </Button>
+          </div>
         </div>
 
+        {expiringBatches.length > 0 && (
+          <ExpiringStockAlert batches={expiringBatches} days={EXPIRY_ALERT_DAYS} />
+        )}
+
         <div className="flex items-center border rounded-md px-3 py-2 max-w-sm">
           <Search className="h-4 w-4 text-muted-foreground mr-2" />
           <Input 
@@ -170,20 +205,35 @@ const Inventory = () => {
         ) : (
           <InventoryTable
             products={filteredProducts}
+            reorderPoints={reorderPoints}
             onAddStock={handleAddStock}
             onRemoveStock={handleRemoveStock}
+            onViewHistory={setHistoryProduct}
           />
         )}
       </div>
 
-      {/* Stock Update Modal */}
-      <StockUpdateModal
-        isOpen={isUpdateModalOpen}
-        onClose={() => setIsUpdateModalOpen(false)}
-        onConfirm={handleStockUpdate}
-        product={selectedProduct}
-        updateType={updateType}
-        isSubmitting={stockMutation.isPending}
+      {/* Stock Update Modal, mounted per use so each adjustment starts blank */}
+      {isUpdateModalOpen && (
+        <StockUpdateModal
+          isOpen={isUpdateModalOpen}
+          onClose={() => setIsUpdateModalOpen(false)}
+          onConfirm={handleStockUpdate}
+          product={modalProduct}
+          updateType={updateType}
+          isSubmitting={stockMutation.isPending}
+        />
+      )}
+
+      <CategoryReorderDefaultsDialog
+        categories={categories}
+        open={isReorderDefaultsOpen}
+        onOpenChange={setIsReorderDefaultsOpen}
+      />
+
+      <StockMovementsDrawer
+        product={historyProduct}
+        onOpenChange={(open) => !open && setHistoryProduct(null)}
       />
     </DashboardLayout>
   );
@@ -0,0 +1,469 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Link, useNavigate } from 'react-router-dom';
+import DashboardLayout from '@/components/dashboard/layout/DashboardLayout';
+import CustomerPicker from '@/components/dashboard/orders/CustomerPicker';
+import PaymentLinkDialog from '@/components/dashboard/orders/PaymentLinkDialog';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { toast } from '@/components/ui/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { Customer, PaymentMethod, Product } from '@/types';
+import { createManualOrder } from '@/lib/orders';
+import { calculateDeliveryFee, getActiveDeliveryZones } from '@/lib/deliveryZones';
+import { ArrowLeft, Loader2, Plus, Trash2 } from 'lucide-react';
+
+interface OrderLine {
+  productId: string;
+  quantity: number;
+}
+
+const NO_ZONE = 'none';
+
+// Fetch products from Supabase
+const fetchProducts = async (): Promise<Product[]> => {
+  const { data, error } = await supabase
+    .from('products')
+    .select('*')
+    .is('deleted_at', null)
+    .order('name');
+
+  if (error) {
+    toast({
+      title: "Error",
+      description: "Failed to load products",
+      variant: "destructive"
+    });
+    throw error;
+  }
+
+  return data as Product[];
+};
+
+const fetchDeliveryZones = async () => {
+  try {
+    return await getActiveDeliveryZones();
+  } catch (error) {
+    toast({
+      title: "Error",
+      description: "Failed to load delivery zones",
+      variant: "destructive"
+    });
+    throw error;
+  }
+};
+
+const NewOrder = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [lines, setLines] = useState<OrderLine[]>([]);
+  const [productToAdd, setProductToAdd] = useState('');
+  const [deliveryAddress, setDeliveryAddress] = useState('');
+  const [deliveryZoneId, setDeliveryZoneId] = useState(NO_ZONE);
+  const [deliveryDistance, setDeliveryDistance] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('cod');
+  // Pesapal orders stay on this page until the payment link has been sent
+  const [paymentLinkOrderId, setPaymentLinkOrderId] = useState<string | null>(null);
+  const [paymentReference, setPaymentReference] = useState('');
+
+  // Refetch regularly so stock levels stay current while the order is taken
+  const { data: products = [] } = useQuery({
+    queryKey: ['products'],
+    queryFn: fetchProducts,
+    refetchInterval: 30000,
+  });
+
+  const { data: zones = [] } = useQuery({
+    queryKey: ['deliveryZones', 'active'],
+    queryFn: fetchDeliveryZones,
+  });
+
+  const productMap = new Map(products.map(product => [product.id, product]));
+  const selectedZone = zones.find(zone => zone.id === deliveryZoneId);
+  const distanceKm = deliveryDistance ? Number(deliveryDistance) : undefined;
+  const itemsTotal = lines.reduce((sum, line) => sum + (productMap.get(line.productId)?.price || 0) * line.quantity, 0);
+  const shortLines = lines.filter(line => line.quantity > (productMap.get(line.productId)?.stock ?? 0));
+  const distanceOutOfZone = !!selectedZone && distanceKm !== undefined &&
+    (distanceKm < selectedZone.min_distance_km || distanceKm > selectedZone.max_distance_km);
+  const distanceValid = !!selectedZone && distanceKm !== undefined && !distanceOutOfZone;
+
+  // The order is charged what calculate_delivery_fee returns for the distance
+  const { data: feeQuote, isFetching: isQuotingFee } = useQuery({
+    queryKey: ['deliveryFeeQuote', distanceKm],
+    queryFn: () => calculateDeliveryFee(distanceKm!),
+    enabled: distanceValid,
+  });
+  const deliveryFee = distanceValid ? feeQuote?.fee ?? 0 : 0;
+
+  const canSubmit = !!customer &&
+    lines.length > 0 &&
+    shortLines.length === 0 &&
+    lines.every(line => line.quantity > 0) &&
+    (!selectedZone || (distanceValid && typeof feeQuote?.fee === 'number')) &&
+    (paymentMethod !== 'mpesa' || !!paymentReference.trim());
+
+  const createOrderMutation = useMutation({
+    mutationFn: createManualOrder,
+    onSuccess: (orderId) => {
+      queryClient.invalidateQueries({ queryKey: ['orders'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboardStats'] });
+      toast({
+        title: "Order created",
+        description: `Order #${orderId.substring(0, 8)} is pending`,
+      });
+      if (paymentMethod === 'pesapal') {
+        setPaymentLinkOrderId(orderId);
+      } else {
+        navigate('/admin/orders');
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create order",
+        variant: "destructive"
+      });
+    },
+  });
+
+  const handleSelectCustomer = (selected: Customer | null) => {
+    setCustomer(selected);
+    if (selected?.address && !deliveryAddress) {
+      setDeliveryAddress(selected.address);
+    }
+  };
+
+  const handleAddProduct = () => {
+    if (!productToAdd) return;
+
+    setLines(current => current.some(line => line.productId === productToAdd)
+      ? current.map(line => line.productId === productToAdd ? { ...line, quantity: line.quantity + 1 } : line)
+      : [...current, { productId: productToAdd, quantity: 1 }]);
+    setProductToAdd('');
+  };
+
+  const handleQuantityChange = (productId: string, value: string) => {
+    const quantity = Math.max(0, parseInt(value) || 0);
+    setLines(current => current.map(line => line.productId === productId ? { ...line, quantity } : line));
+  };
+
+  const handleRemoveLine = (productId: string) => {
+    setLines(current => current.filter(line => line.productId !== productId));
+  };
+
+  const handleSubmit = () => {
+    if (!customer || !canSubmit) return;
+
+    createOrderMutation.mutate({
+      customerId: customer.id,
+      items: lines,
+      paymentMethod,
+      paymentReference: paymentMethod === 'mpesa' ? paymentReference : undefined,
+      deliveryAddress,
+      deliveryZoneId: selectedZone?.id,
+      deliveryDistanceKm: distanceKm,
+    });
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/admin/orders">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Orders
+            </Link>
+          </Button>
+          <h1 className="text-3xl font-bold">New Order</h1>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Customer</CardTitle>
+                <CardDescription>Find an existing customer or add a new one</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <CustomerPicker customer={customer} onChange={handleSelectCustomer} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Items</CardTitle>
+                <CardDescription>Stock levels refresh automatically</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex gap-2">
+                  <Select value={productToAdd} onValueChange={setProductToAdd}>
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder="Select a product" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {products.map(product => (
+                        <SelectItem key={product.id} value={product.id} disabled={product.stock <= 0}>
+                          {product.name} — Ksh {Number(product.price).toFixed(2)} ({product.stock} in stock)
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="outline" onClick={handleAddProduct} disabled={!productToAdd}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add
+                  </Button>
+                </div>
+
+                {lines.length > 0 && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Product</TableHead>
+                        <TableHead>Price</TableHead>
+                        <TableHead className="w-[100px]">Quantity</TableHead>
+                        <TableHead>Stock</TableHead>
+                        <TableHead className="text-right">Subtotal</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {lines.map(line => {
+                        const product = productMap.get(line.productId);
+                        const stock = product?.stock ?? 0;
+                        const isShort = line.quantity > stock;
+
+                        return (
+                          <TableRow key={line.productId}>
+                            <TableCell className="font-medium">{product?.name || 'Unavailable product'}</TableCell>
+                            <TableCell>Ksh {Number(product?.price || 0).toFixed(2)}</TableCell>
+                            <TableCell>
+                              <Input
+                                type="number"
+                                min={1}
+                                value={line.quantity}
+                                onChange={(e) => handleQuantityChange(line.productId, e.target.value)}
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <Badge
+                                variant="outline"
+                                className={isShort ? 'bg-red-100 text-red-800 border-red-200' : 'bg-green-100 text-green-800 border-green-200'}
+                              >
+                                {isShort ? `Only ${stock} left` : `${stock} available`}
+                              </Badge>
+                            </TableCell>
+                            <TableCell className="text-right">
+                              Ksh {(Number(product?.price || 0) * line.quantity).toFixed(2)}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <Button variant="ghost" size="sm" onClick={() => handleRemoveLine(line.productId)}>
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Delivery</CardTitle>
+              </CardHeader>
+              <CardContent className="grid gap-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="delivery-address">Delivery address</Label>
+                  <Input
+                    id="delivery-address"
+                    placeholder="Leave empty for collection"
+                    value={deliveryAddress}
+                    onChange={(e) => setDeliveryAddress(e.target.value)}
+                  />
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="grid gap-2">
+                    <Label>Delivery zone</Label>
+                    <Select value={deliveryZoneId} onValueChange={setDeliveryZoneId}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_ZONE}>No delivery (collection)</SelectItem>
+                        {zones.map(zone => (
+                          <SelectItem key={zone.id} value={zone.id}>
+                            {zone.name} ({zone.min_distance_km}–{zone.max_distance_km} km)
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="delivery-distance">Distance (km)</Label>
+                    <Input
+                      id="delivery-distance"
+                      type="number"
+                      min={0}
+                      step="0.1"
+                      value={deliveryDistance}
+                      onChange={(e) => setDeliveryDistance(e.target.value)}
+                      disabled={!selectedZone}
+                    />
+                  </div>
+                </div>
+                {selectedZone && distanceKm === undefined && (
+                  <p className="text-sm text-muted-foreground">
+                    Enter the delivery distance to price the delivery.
+                  </p>
+                )}
+                {distanceValid && feeQuote && feeQuote.fee === null && (
+                  <p className="text-sm text-red-600">
+                    No delivery fee for {distanceKm} km{feeQuote.message ? `: ${feeQuote.message}` : ''}.
+                  </p>
+                )}
+                {distanceOutOfZone && (
+                  <p className="text-sm text-red-600">
+                    {distanceKm} km is outside {selectedZone?.name}'s range of {selectedZone?.min_distance_km}–{selectedZone?.max_distance_km} km.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Payment</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <RadioGroup value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as PaymentMethod)}>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="cod" id="payment-cod" />
+                    <Label htmlFor="payment-cod">Cash on delivery</Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="mpesa" id="payment-mpesa" />
+                    <Label htmlFor="payment-mpesa">M-Pesa (already paid)</Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="bank_transfer" id="payment-bank-transfer" />
+                    <Label htmlFor="payment-bank-transfer">Bank transfer</Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="pesapal" id="payment-pesapal" />
+                    <Label htmlFor="payment-pesapal">Pesapal payment link</Label>
+                  </div>
+                </RadioGroup>
+                {paymentMethod === 'mpesa' && (
+                  <div className="grid gap-2">
+                    <Label htmlFor="payment-reference">M-Pesa reference</Label>
+                    <Input
+                      id="payment-reference"
+                      placeholder="e.g. QJK3XXXXXX"
+                      value={paymentReference}
+                      onChange={(e) => setPaymentReference(e.target.value.toUpperCase())}
+                    />
+                  </div>
+                )}
+                {paymentMethod === 'mpesa' && (
+                  <p className="text-sm text-muted-foreground">
+                    The M-Pesa payment is recorded against the order with this reference.
+                  </p>
+                )}
+                {(paymentMethod === 'cod' || paymentMethod === 'bank_transfer') && (
+                  <p className="text-sm text-muted-foreground">
+                    Record the money against the order as it comes in. The order can be
+                    completed once it has been paid in full.
+                  </p>
+                )}
+                {paymentMethod === 'pesapal' && (
+                  <p className="text-sm text-muted-foreground">
+                    The order stays pending until the customer's Pesapal payment is confirmed.
+                    You can send them a payment link once the order is created.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card className="h-fit">
+            <CardHeader>
+              <CardTitle>Summary</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Items</span>
+                  <span>Ksh {itemsTotal.toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Delivery</span>
+                  <span>{isQuotingFee ? 'Calculating...' : `Ksh ${deliveryFee.toFixed(2)}`}</span>
+                </div>
+                <div className="flex justify-between border-t pt-2 font-bold text-base">
+                  <span>Total</span>
+                  <span>Ksh {(itemsTotal + deliveryFee).toFixed(2)}</span>
+                </div>
+              </div>
+              {shortLines.length > 0 && (
+                <p className="text-sm text-red-600">
+                  Reduce quantities for items without enough stock.
+                </p>
+              )}
+              <Button
+                className="w-full"
+                onClick={handleSubmit}
+                disabled={!canSubmit || createOrderMutation.isPending || !!paymentLinkOrderId}
+              >
+                {createOrderMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Creating...
+                  </>
+                ) : (
+                  'Create order'
+                )}
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <PaymentLinkDialog
+        orderId={paymentLinkOrderId}
+        customerEmail={customer?.email}
+        customerPhone={customer?.phone}
+        onOpenChange={(open) => !open && navigate('/admin/orders')}
+      />
+    </DashboardLayout>
+  );
+};
+
+export default NewOrder;
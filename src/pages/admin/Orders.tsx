@@ -3,11 +3,24 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import DashboardLayout from '@/components/dashboard/layout/DashboardLayout';
 import OrdersTable from '@/components/dashboard/orders/OrdersTable';
 import OrderDetails from '@/components/dashboard/orders/OrderDetails';
-import { Order, processOrder } from '@/types';
+import BulkStatusChangeDialog from '@/components/dashboard/orders/BulkStatusChangeDialog';
+import { Order } from '@/types';
+import {
+  searchOrders,
+  getOrderDetails,
+  getOrderStatusHistory,
+  changeOrderStatus,
+  cancelOrder,
+  CancelOrderOptions,
+  issueInvoices,
+} from '@/lib/orders';
+import { printInvoices, printDeliveryNotes } from '@/utils/orderDocuments';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
-import { Search, Download } from 'lucide-react';
-import { exportToCSV } from '@/utils/csvExport';
+import { Search, Download, X, FileText, Truck, ListChecks, Plus } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { exportToCSV, CSVColumn } from '@/utils/csvExport';
 import {
   Dialog,
   DialogContent,
@@ -32,80 +45,50 @@ import {
   PaginationPrevious,
 } from "@/components/ui/pagination";
 import { toast } from '@/components/ui/use-toast';
-import { supabase } from '@/integrations/supabase/client';
+import { addDays, parseISO, startOfDay } from 'date-fns';
 
-type StatusFilter = "all" | "pending" | "processing" | "completed" | "cancelled";
+type StatusFilter = "all" | "pending" | "processing" | "payment_review" | "completed" | "cancelled";
 
-// Fetch orders with pagination from Supabase
-const fetchOrders = async (page: number = 1, pageSize: number = 10, statusFilter: StatusFilter = "all", searchQuery: string = ""): Promise<{ orders: Order[], totalCount: number }> => {
-  try {
-    const offset = (page - 1) * pageSize;
-    
-    // Build the query
-    let query = supabase
-      .from('orders')
-      .select('*', { count: 'exact' })
-      .order('created_at', { ascending: false })
-      .range(offset, offset + pageSize - 1);
-    
-    // Apply status filter
-    if (statusFilter !== "all") {
-      query = query.eq('status', statusFilter);
-    }
-    
-    // Get orders with count
-    const { data: ordersData, error: ordersError, count } = await query;
-    
-    if (ordersError) throw ordersError;
-    
-    // Get order items and customer data for each order
-    const orders = await Promise.all((ordersData || []).map(async (order) => {
-      // Get order items
-      const { data: items, error: itemsError } = await supabase
-        .from('order_items')
-        .select(`
-          *,
-          products(*)
-        `)
-        .eq('order_id', order.id);
-      
-      if (itemsError) throw itemsError;
-      
-      // Get customer profile data
-      const { data: profileData, error: profileError } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('id', order.user_id)
-        .single();
-      
-      if (profileError && profileError.code !== 'PGRST116') {
-        // PGRST116 is "not found" error, which is fine
-        console.error('Error fetching profile data:', profileError);
-      }
+interface OrderFilters {
+  status: StatusFilter;
+  search: string;
+  dateFrom: string;
+  dateTo: string;
+  minAmount: string;
+  maxAmount: string;
+}
+
+const emptyFilters: OrderFilters = {
+  status: "all",
+  search: "",
+  dateFrom: "",
+  dateTo: "",
+  minAmount: "",
+  maxAmount: "",
+};
 
-      // Create the processed order with all necessary data
-      const processedOrder = {
-        ...order,
-        items: items || [],
-        profiles: profileData || undefined
-      };
-      
-      return processOrder(processedOrder);
-    }));
-    
-    // Filter orders by search query on the client side for more complex search
-    const filteredOrders = orders.filter(order => {
-      if (!searchQuery) return true;
-      
-      const matchesSearch = 
-        order.id.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        (order.customer?.name && order.customer.name.toLowerCase().includes(searchQuery.toLowerCase())) ||
-        (order.customer?.email && order.customer.email.toLowerCase().includes(searchQuery.toLowerCase()));
-      
-      return matchesSearch;
+// Convert the optional numeric filter inputs, ignoring anything that isn't a number
+const parseAmount = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const amount = Number(value);
+  return Number.isFinite(amount) ? amount : undefined;
+};
+
+// Fetch orders with server-side filtering and pagination from Supabase
+const fetchOrders = async (page: number = 1, pageSize: number = 10, filters: OrderFilters = emptyFilters): Promise<{ orders: Order[], totalCount: number }> => {
+  try {
+    // Search, filters and the total count are all resolved in the database
+    return await searchOrders({
+      search: filters.search,
+      status: filters.status !== "all" ? filters.status : undefined,
+      // Date inputs are local calendar days; the upper bound is exclusive
+      dateFrom: filters.dateFrom ? startOfDay(parseISO(filters.dateFrom)).toISOString() : undefined,
+      dateTo: filters.dateTo ? startOfDay(addDays(parseISO(filters.dateTo), 1)).toISOString() : undefined,
+      minAmount: parseAmount(filters.minAmount),
+      maxAmount: parseAmount(filters.maxAmount),
+      page,
+      pageSize,
     });
-    
-    return { orders: filteredOrders, totalCount: count || 0 };
   } catch (error) {
     console.error('Error fetching orders:', error);
     toast({
@@ -120,43 +103,7 @@ const fetchOrders = async (page: number = 1, pageSize: number = 10, statusFilter
 // Fetch a single order from Supabase
 const fetchOrder = async (id: string): Promise<Order | null> => {
   try {
-    // Get order
-    const { data: order, error: orderError } = await supabase
-      .from('orders')
-      .select('*')
-      .eq('id', id)
-      .single();
-    
-    if (orderError) throw orderError;
-    
-    // Get order items
-    const { data: items, error: itemsError } = await supabase
-      .from('order_items')
-      .select(`
-        *,
-        products(*)
-      `)
-      .eq('order_id', id);
-    
-    if (itemsError) throw itemsError;
-    
-    // Get customer profile data
-    const { data: profileData, error: profileError } = await supabase
-      .from('profiles')
-      .select('*')
-      .eq('id', order.user_id)
-      .single();
-    
-    if (profileError && profileError.code !== 'PGRST116') {
-      console.error('Error fetching profile data:', profileError);
-    }
-
-    // Process the order with our utility function
-    return processOrder({
-      ...order,
-      items: items || [],
-      profiles: profileData || undefined
-    });
+    return await getOrderDetails(id);
   } catch (error) {
     console.error(`Error fetching order ${id}:`, error);
     toast({
@@ -168,47 +115,26 @@ const fetchOrder = async (id: string): Promise<Order | null> => {
   }
 };
 
+const orderCsvColumns: CSVColumn<Order>[] = [
+  { key: 'id', header: 'Order ID' },
+  { key: (o) => o.customer?.name || 'Unknown', header: 'Customer' },
+  { key: (o) => o.customer?.email || 'N/A', header: 'Email' },
+  { key: 'status', header: 'Status' },
+  { key: (o) => new Date(o.created_at).toLocaleDateString(), header: 'Date' },
+  { key: (o) => `Ksh ${o.total_amount.toFixed(2)}`, header: 'Amount' },
+  { key: (o) => o.items?.length || 0, header: 'Items' },
+];
+
 // Update order status in Supabase
-const updateOrderStatusInSupabase = async (id: string, status: Order['status']): Promise<boolean> => {
+const updateOrderStatusInSupabase = async (id: string, status: Order['status'], reason?: string): Promise<boolean> => {
   try {
-    // If order is being completed, use the edge function for stock management
-    if (status === 'completed') {
-      console.log('[Orders] Invoking complete-order for', id);
-      const { data, error } = await supabase.functions.invoke('complete-order', {
-        body: { orderId: id }
-      });
-      console.log('[Orders] complete-order response', { data, error });
+    const message = await changeOrderStatus(id, status, reason);
 
-      if (error) {
-        console.error('Error calling complete-order function:', error);
-        throw new Error(error.message || 'Failed to complete order');
-      }
-
-      if (!data?.success) {
-        console.error('complete-order returned error:', data);
-        throw new Error(data?.error || 'Failed to complete order');
-      }
-
-      toast({
-        title: "Success",
-        description: `Order completed successfully with ${data.stockUpdates?.length || 0} stock updates`,
-      });
-      return true;
-    } else {
-      // For other status changes, use simple update
-      const { error } = await supabase
-        .from('orders')
-        .update({ status })
-        .eq('id', id);
-      
-      if (error) throw error;
-      
-      toast({
-        title: "Success",
-        description: `Order status updated to ${status}`,
-      });
-      return true;
-    }
+    toast({
+      title: "Success",
+      description: message,
+    });
+    return true;
   } catch (error) {
     console.error(`Error updating order ${id} status:`, error);
     toast({
@@ -220,24 +146,72 @@ const updateOrderStatusInSupabase = async (id: string, status: Order['status']):
   }
 };
 
+// Cancel an order through the cancel-order edge function (restock + refund)
+const cancelOrderInSupabase = async (id: string, options: CancelOrderOptions): Promise<boolean> => {
+  try {
+    await cancelOrder(id, options);
+
+    toast({
+      title: "Order cancelled",
+      description: options.refundAmount
+        ? `Refund of Ksh ${options.refundAmount.toFixed(2)} recorded`
+        : "The order has been cancelled",
+    });
+    return true;
+  } catch (error) {
+    console.error(`Error cancelling order ${id}:`, error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to cancel order",
+      variant: "destructive"
+    });
+    throw error;
+  }
+};
+
 const Orders = () => {
   const queryClient = useQueryClient();
   const [filterValue, setFilterValue] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [minAmount, setMinAmount] = useState('');
+  const [maxAmount, setMaxAmount] = useState('');
   const [selectedOrderId, setSelectedOrderId] = useState<string | null>(null);
   const [viewDetailsOpen, setViewDetailsOpen] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
   const [pageSize, setPageSize] = useState(10);
+  const [selectedOrderIds, setSelectedOrderIds] = useState<string[]>([]);
+  const [bulkStatusOrders, setBulkStatusOrders] = useState<Order[]>([]);
+
+  // Debounce the search box so each keystroke doesn't hit the database
+  React.useEffect(() => {
+    const timeout = setTimeout(() => setSearchQuery(filterValue), 300);
+    return () => clearTimeout(timeout);
+  }, [filterValue]);
+
+  const filters: OrderFilters = {
+    status: statusFilter,
+    search: searchQuery,
+    dateFrom,
+    dateTo,
+    minAmount,
+    maxAmount,
+  };
+
+  const hasActiveFilters = statusFilter !== "all" || !!filterValue || !!dateFrom || !!dateTo || !!minAmount || !!maxAmount;
 
   // Queries
   const { data: ordersData, isLoading, error } = useQuery({
-    queryKey: ['orders', currentPage, pageSize, statusFilter, filterValue],
-    queryFn: () => fetchOrders(currentPage, pageSize, statusFilter, filterValue),
+    queryKey: ['orders', currentPage, pageSize, filters],
+    queryFn: () => fetchOrders(currentPage, pageSize, filters),
   });
 
   const orders = ordersData?.orders || [];
   const totalCount = ordersData?.totalCount || 0;
   const totalPages = Math.ceil(totalCount / pageSize);
+  const selectedOrders = orders.filter(order => selectedOrderIds.includes(order.id));
 
   if (error) {
     console.error('Error loading orders data:', error);
@@ -249,23 +223,48 @@ const Orders = () => {
     enabled: !!selectedOrderId,
   });
 
+  const { data: statusHistory = [], isLoading: isHistoryLoading } = useQuery({
+    queryKey: ['orderStatusHistory', selectedOrderId],
+    queryFn: () => getOrderStatusHistory(selectedOrderId!),
+    enabled: !!selectedOrderId,
+  });
+
   // Update status mutation
   const updateStatusMutation = useMutation({
-    mutationFn: ({ id, status }: { id: string; status: Order['status'] }) => 
-      updateOrderStatusInSupabase(id, status),
+    mutationFn: ({ id, status, reason }: { id: string; status: Order['status']; reason?: string }) => 
+      updateOrderStatusInSupabase(id, status, reason),
     onSuccess: () => {
       // After updating order status, invalidate relevant queries to refresh the data
       queryClient.invalidateQueries({ queryKey: ['orders'] });
       queryClient.invalidateQueries({ queryKey: ['order', selectedOrderId] });
+      queryClient.invalidateQueries({ queryKey: ['orderStatusHistory', selectedOrderId] });
       queryClient.invalidateQueries({ queryKey: ['dashboardStats'] });
       queryClient.invalidateQueries({ queryKey: ['products'] }); // Refresh products data to show updated stock
     },
   });
 
+  // Cancel order mutation
+  const cancelOrderMutation = useMutation({
+    mutationFn: ({ id, options }: { id: string; options: CancelOrderOptions }) =>
+      cancelOrderInSupabase(id, options),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['orders'] });
+      queryClient.invalidateQueries({ queryKey: ['order', selectedOrderId] });
+      queryClient.invalidateQueries({ queryKey: ['orderStatusHistory', selectedOrderId] });
+      queryClient.invalidateQueries({ queryKey: ['dashboardStats'] });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+    },
+  });
+
   // Reset page when filters change
   React.useEffect(() => {
     setCurrentPage(1);
-  }, [statusFilter, filterValue]);
+  }, [statusFilter, searchQuery, dateFrom, dateTo, minAmount, maxAmount]);
+
+  // Selection only covers the orders on screen
+  React.useEffect(() => {
+    setSelectedOrderIds([]);
+  }, [currentPage, pageSize, statusFilter, searchQuery, dateFrom, dateTo, minAmount, maxAmount]);
 
   // Handlers
   const handleViewDetails = (order: Order) => {
@@ -273,8 +272,63 @@ const Orders = () => {
     setViewDetailsOpen(true);
   };
 
-  const handleOrderStatusChange = (id: string, status: Order['status']) => {
-    updateStatusMutation.mutate({ id, status });
+  const handleOrderStatusChange = (id: string, status: Order['status'], reason?: string) => {
+    updateStatusMutation.mutate({ id, status, reason });
+  };
+
+  const handleExportCSV = (ordersToExport: Order[]) => {
+    exportToCSV(ordersToExport, 'orders', orderCsvColumns);
+    toast({ title: 'Export Complete', description: `${ordersToExport.length} orders exported to CSV` });
+  };
+
+  const handleBulkStatusFinished = () => {
+    queryClient.invalidateQueries({ queryKey: ['orders'] });
+    queryClient.invalidateQueries({ queryKey: ['order'] });
+    queryClient.invalidateQueries({ queryKey: ['orderStatusHistory'] });
+    queryClient.invalidateQueries({ queryKey: ['dashboardStats'] });
+    queryClient.invalidateQueries({ queryKey: ['products'] });
+  };
+
+  const handlePrintInvoices = async (ordersToPrint: Order[]) => {
+    try {
+      const skipped = await printInvoices(ordersToPrint, issueInvoices);
+      if (skipped.length > 0) {
+        toast({
+          title: "Some invoices weren't printed",
+          description: `${skipped.length} ${skipped.length === 1 ? "order isn't" : "orders aren't"} processing or completed, so no invoice was issued.`,
+        });
+      }
+    } catch (error) {
+      console.error('Error printing invoices:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to generate invoices",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handlePrintDeliveryNotes = (ordersToPrint: Order[]) => {
+    try {
+      printDeliveryNotes(ordersToPrint);
+    } catch (error) {
+      console.error('Error printing delivery notes:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to generate delivery notes",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleClearFilters = () => {
+    setFilterValue('');
+    setSearchQuery('');
+    setStatusFilter("all");
+    setDateFrom('');
+    setDateTo('');
+    setMinAmount('');
+    setMaxAmount('');
   };
 
   const handlePageChange = (page: number) => {
@@ -291,32 +345,29 @@ const Orders = () => {
       <div className="space-y-6">
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
           <h1 className="text-3xl font-bold">Orders</h1>
-          <Button
-            variant="outline"
-            onClick={() => {
-              exportToCSV(orders, 'orders', [
-                { key: 'id', header: 'Order ID' },
-                { key: (o) => o.customer?.name || 'Unknown', header: 'Customer' },
-                { key: (o) => o.customer?.email || 'N/A', header: 'Email' },
-                { key: 'status', header: 'Status' },
-                { key: (o) => new Date(o.created_at).toLocaleDateString(), header: 'Date' },
-                { key: (o) => `Ksh ${o.total_amount.toFixed(2)}`, header: 'Amount' },
-                { key: (o) => o.items?.length || 0, header: 'Items' },
-              ]);
-              toast({ title: 'Export Complete', description: 'Orders exported to CSV' });
-            }}
-            disabled={orders.length === 0}
-          >
-            <Download className="h-4 w-4 mr-2" />
-            Export CSV
-          </Button>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => handleExportCSV(orders)}
+              disabled={orders.length === 0}
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </Button>
+            <Button asChild>
+              <Link to="/admin/orders/new">
+                <Plus className="h-4 w-4 mr-2" />
+                New order
+              </Link>
+            </Button>
+          </div>
         </div>
 
         <div className="flex flex-col sm:flex-row gap-4">
           <div className="flex items-center border rounded-md px-3 py-2 flex-1 max-w-sm">
             <Search className="h-4 w-4 text-muted-foreground mr-2" />
             <Input 
-              placeholder="Search orders..." 
+              placeholder="Search by order ID, name, email or phone..." 
               className="border-0 p-0 focus-visible:ring-0 focus-visible:outline-none"
               value={filterValue}
               onChange={(e) => setFilterValue(e.target.value)}
@@ -331,6 +382,7 @@ const Orders = () => {
               <SelectItem value="all">All Orders</SelectItem>
               <SelectItem value="pending">Pending</SelectItem>
               <SelectItem value="processing">Processing</SelectItem>
+              <SelectItem value="payment_review">Payment review</SelectItem>
               <SelectItem value="completed">Completed</SelectItem>
               <SelectItem value="cancelled">Cancelled</SelectItem>
             </SelectContent>
@@ -349,6 +401,59 @@ const Orders = () => {
           </Select>
         </div>
 
+        <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="orders-date-from" className="text-xs text-muted-foreground">From</Label>
+            <Input
+              id="orders-date-from"
+              type="date"
+              className="w-[160px]"
+              value={dateFrom}
+              max={dateTo || undefined}
+              onChange={(e) => setDateFrom(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="orders-date-to" className="text-xs text-muted-foreground">To</Label>
+            <Input
+              id="orders-date-to"
+              type="date"
+              className="w-[160px]"
+              value={dateTo}
+              min={dateFrom || undefined}
+              onChange={(e) => setDateTo(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="orders-min-amount" className="text-xs text-muted-foreground">Min amount (Ksh)</Label>
+            <Input
+              id="orders-min-amount"
+              type="number"
+              min={0}
+              className="w-[140px]"
+              value={minAmount}
+              onChange={(e) => setMinAmount(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="orders-max-amount" className="text-xs text-muted-foreground">Max amount (Ksh)</Label>
+            <Input
+              id="orders-max-amount"
+              type="number"
+              min={0}
+              className="w-[140px]"
+              value={maxAmount}
+              onChange={(e) => setMaxAmount(e.target.value)}
+            />
+          </div>
+          {hasActiveFilters && (
+            <Button variant="ghost" onClick={handleClearFilters}>
+              <X className="h-4 w-4 mr-2" />
+              Clear filters
+            </Button>
+          )}
+        </div>
+
         {isLoading ? (
           <div className="flex items-center justify-center p-8">
             <div className="text-center">
@@ -362,13 +467,40 @@ const Orders = () => {
           <>
             <div className="flex items-center justify-between">
               <p className="text-sm text-muted-foreground">
-                Showing {orders.length} of {totalCount} orders
+                {selectedOrders.length > 0
+                  ? `${selectedOrders.length} of ${orders.length} orders selected`
+                  : `Showing ${orders.length} of ${totalCount} orders`}
               </p>
+              {selectedOrders.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setBulkStatusOrders(selectedOrders)}>
+                    <ListChecks className="h-4 w-4 mr-2" />
+                    Change status
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => handleExportCSV(selectedOrders)}>
+                    <Download className="h-4 w-4 mr-2" />
+                    Export selected
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => handlePrintInvoices(selectedOrders)}>
+                    <FileText className="h-4 w-4 mr-2" />
+                    Print invoices
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => handlePrintDeliveryNotes(selectedOrders)}>
+                    <Truck className="h-4 w-4 mr-2" />
+                    Print delivery notes
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setSelectedOrderIds([])}>
+                    Clear selection
+                  </Button>
+                </div>
+              )}
             </div>
             
             <OrdersTable
               orders={orders}
               onViewDetails={handleViewDetails}
+              selectedIds={selectedOrderIds}
+              onSelectionChange={setSelectedOrderIds}
             />
 
             {totalPages > 1 && (
@@ -452,11 +584,25 @@ const Orders = () => {
           {selectedOrder && (
             <OrderDetails 
               order={selectedOrder} 
-              onStatusChange={(status) => handleOrderStatusChange(selectedOrder.id, status)}
+              statusHistory={statusHistory}
+              isHistoryLoading={isHistoryLoading}
+              isUpdatingStatus={updateStatusMutation.isPending || cancelOrderMutation.isPending}
+              onStatusChange={(status, reason) => handleOrderStatusChange(selectedOrder.id, status, reason)}
+              onCancelOrder={(options) => cancelOrderMutation.mutate({ id: selectedOrder.id, options })}
+              onPrintInvoice={() => handlePrintInvoices([selectedOrder])}
+              onPrintDeliveryNote={() => handlePrintDeliveryNotes([selectedOrder])}
             />
           )}
         </DialogContent>
       </Dialog>
+
+      <BulkStatusChangeDialog
+        orders={bulkStatusOrders}
+        open={bulkStatusOrders.length > 0}
+        onOpenChange={(open) => !open && setBulkStatusOrders([])}
+        onApply={(order, status, reason) => changeOrderStatus(order.id, status, reason)}
+        onFinished={handleBulkStatusFinished}
+      />
     </DashboardLayout>
   );
 };
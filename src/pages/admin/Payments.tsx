@@ -0,0 +1,326 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import DashboardLayout from '@/components/dashboard/layout/DashboardLayout';
+import PaymentsTable from '@/components/dashboard/payments/PaymentsTable';
+import PaymentDetailsDialog from '@/components/dashboard/payments/PaymentDetailsDialog';
+import PaymentMismatchReport from '@/components/dashboard/payments/PaymentMismatchReport';
+import FailedCallbacksTable from '@/components/dashboard/payments/FailedCallbacksTable';
+import ReconciliationRunsTable from '@/components/dashboard/payments/ReconciliationRunsTable';
+import { PesapalStatus, PesapalTransactionSummary } from '@/types';
+import {
+  searchPesapalTransactions,
+  getPaymentMismatches,
+  recheckPesapalStatus,
+  getReconciliationRuns,
+  runPesapalReconciliation,
+  getFailedPesapalCallbacks,
+  replayPesapalCallback,
+} from '@/lib/payments';
+import { PESAPAL_STATUSES } from '@/utils/paymentStatus';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from '@/components/ui/use-toast';
+import { RefreshCw, Search } from 'lucide-react';
+
+type StatusFilter = "all" | PesapalStatus;
+
+const PAGE_SIZE = 20;
+
+const Payments = () => {
+  const queryClient = useQueryClient();
+  const [filterValue, setFilterValue] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [currentPage, setCurrentPage] = useState(1);
+  const [selectedTransaction, setSelectedTransaction] = useState<PesapalTransactionSummary | null>(null);
+
+  // Debounce the search box
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setSearchQuery(filterValue);
+      setCurrentPage(1);
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [filterValue]);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['payments', currentPage, searchQuery, statusFilter],
+    queryFn: () => searchPesapalTransactions({
+      search: searchQuery,
+      status: statusFilter === 'all' ? undefined : statusFilter,
+      page: currentPage,
+      pageSize: PAGE_SIZE,
+    }),
+  });
+
+  if (error) {
+    console.error('Error loading payments:', error);
+  }
+
+  const transactions = data?.transactions || [];
+  const totalPages = Math.max(1, Math.ceil((data?.totalCount || 0) / PAGE_SIZE));
+
+  const { data: mismatches = [], isLoading: isMismatchesLoading } = useQuery({
+    queryKey: ['paymentMismatches'],
+    queryFn: getPaymentMismatches,
+  });
+
+  const recheckMutation = useMutation({
+    mutationFn: recheckPesapalStatus,
+    onSuccess: (result) => {
+      toast({
+        title: `Payment ${result.status.toLowerCase()}`,
+        description: result.message,
+      });
+      setSelectedTransaction(null);
+      queryClient.invalidateQueries({ queryKey: ['payments'] });
+      queryClient.invalidateQueries({ queryKey: ['pesapalTransactions'] });
+      queryClient.invalidateQueries({ queryKey: ['paymentMismatches'] });
+      queryClient.invalidateQueries({ queryKey: ['orders'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to check payment status",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const { data: reconciliationRuns = [], isLoading: isRunsLoading } = useQuery({
+    queryKey: ['reconciliationRuns'],
+    queryFn: () => getReconciliationRuns(),
+  });
+
+  const reconcileMutation = useMutation({
+    mutationFn: runPesapalReconciliation,
+    onSuccess: (result) => {
+      toast({
+        title: "Reconciliation finished",
+        description: `Checked ${result.checked_count} pending payments: ${result.completed_count} completed, ${result.cancelled_count} cancelled, ${result.review_count} held for review.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['reconciliationRuns'] });
+      queryClient.invalidateQueries({ queryKey: ['payments'] });
+      queryClient.invalidateQueries({ queryKey: ['pesapalTransactions'] });
+      queryClient.invalidateQueries({ queryKey: ['paymentMismatches'] });
+      queryClient.invalidateQueries({ queryKey: ['orders'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to reconcile payments",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const { data: failedCallbacks = [], isLoading: isFailedCallbacksLoading } = useQuery({
+    queryKey: ['failedPesapalCallbacks'],
+    queryFn: getFailedPesapalCallbacks,
+  });
+
+  const replayMutation = useMutation({
+    mutationFn: replayPesapalCallback,
+    onSuccess: (result) => {
+      if (result.outcome === 'failed') {
+        toast({
+          title: "Replay failed",
+          description: result.error || result.message,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Callback replayed",
+          description: result.message,
+        });
+      }
+      queryClient.invalidateQueries({ queryKey: ['failedPesapalCallbacks'] });
+      queryClient.invalidateQueries({ queryKey: ['pesapalCallbacks'] });
+      queryClient.invalidateQueries({ queryKey: ['payments'] });
+      queryClient.invalidateQueries({ queryKey: ['pesapalTransactions'] });
+      queryClient.invalidateQueries({ queryKey: ['paymentMismatches'] });
+      queryClient.invalidateQueries({ queryKey: ['orders'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to replay callback",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const replayingCallbackId = replayMutation.isPending ? replayMutation.variables : null;
+
+  const recheckingTrackingId = recheckMutation.isPending ? recheckMutation.variables : null;
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <h1 className="text-3xl font-bold">Payments</h1>
+
+        <Tabs defaultValue="transactions">
+          <TabsList>
+            <TabsTrigger value="transactions">Transactions</TabsTrigger>
+            <TabsTrigger value="mismatches">
+              Mismatches{mismatches.length > 0 ? ` (${mismatches.length})` : ''}
+            </TabsTrigger>
+            <TabsTrigger value="callbacks">
+              Failed callbacks{failedCallbacks.length > 0 ? ` (${failedCallbacks.length})` : ''}
+            </TabsTrigger>
+            <TabsTrigger value="reconciliation">Reconciliation</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="transactions" className="space-y-4">
+            <div className="flex flex-col sm:flex-row gap-4">
+              <div className="flex items-center border rounded-md px-3 py-2 flex-1 max-w-sm">
+                <Search className="h-4 w-4 text-muted-foreground mr-2" />
+                <Input
+                  placeholder="Search by reference, tracking ID, order or customer..."
+                  className="border-0 p-0 focus-visible:ring-0 focus-visible:outline-none"
+                  value={filterValue}
+                  onChange={(e) => setFilterValue(e.target.value)}
+                />
+              </div>
+
+              <Select
+                value={statusFilter}
+                onValueChange={(value) => {
+                  setStatusFilter(value as StatusFilter);
+                  setCurrentPage(1);
+                }}
+              >
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue placeholder="Filter by status" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All payments</SelectItem>
+                  {PESAPAL_STATUSES.map((status) => (
+                    <SelectItem key={status} value={status}>{status}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {isLoading ? (
+              <div className="flex justify-center p-8">
+                <p>Loading payments...</p>
+              </div>
+            ) : (
+              <PaymentsTable
+                transactions={transactions}
+                recheckingTrackingId={recheckingTrackingId}
+                onViewDetails={setSelectedTransaction}
+                onRecheck={(transaction) => recheckMutation.mutate(transaction.pesapal_tracking_id)}
+              />
+            )}
+
+            {totalPages > 1 && (
+              <div className="flex items-center justify-end gap-2">
+                <span className="text-sm text-muted-foreground">
+                  Page {currentPage} of {totalPages}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setCurrentPage(page => page - 1)}
+                  disabled={currentPage <= 1}
+                >
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setCurrentPage(page => page + 1)}
+                  disabled={currentPage >= totalPages}
+                >
+                  Next
+                </Button>
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="mismatches" className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Pesapal payments that completed on orders that didn't, and completed Pesapal orders
+              without a completed payment. Re-checking asks Pesapal for the current status and
+              updates the order to match.
+            </p>
+            {isMismatchesLoading ? (
+              <div className="flex justify-center p-8">
+                <p>Loading...</p>
+              </div>
+            ) : (
+              <PaymentMismatchReport
+                mismatches={mismatches}
+                recheckingTrackingId={recheckingTrackingId}
+                onRecheck={(trackingId) => recheckMutation.mutate(trackingId)}
+              />
+            )}
+          </TabsContent>
+
+          <TabsContent value="callbacks" className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Pesapal notifications that couldn't be applied to their order. Pesapal keeps resending
+              them, and replaying runs the same processing again now.
+            </p>
+            {isFailedCallbacksLoading ? (
+              <div className="flex justify-center p-8">
+                <p>Loading...</p>
+              </div>
+            ) : (
+              <FailedCallbacksTable
+                callbacks={failedCallbacks}
+                replayingCallbackId={replayingCallbackId}
+                onReplay={(callbackId) => replayMutation.mutate(callbackId)}
+              />
+            )}
+          </TabsContent>
+
+          <TabsContent value="reconciliation" className="space-y-4">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <p className="text-sm text-muted-foreground">
+                Payments still pending after their notification should have arrived are re-checked with
+                Pesapal on a schedule, and the order is completed, cancelled or held for review to match.
+              </p>
+              <Button
+                variant="outline"
+                onClick={() => reconcileMutation.mutate()}
+                disabled={reconcileMutation.isPending}
+              >
+                <RefreshCw className={`mr-2 h-4 w-4 ${reconcileMutation.isPending ? 'animate-spin' : ''}`} />
+                Run now
+              </Button>
+            </div>
+            {isRunsLoading ? (
+              <div className="flex justify-center p-8">
+                <p>Loading...</p>
+              </div>
+            ) : (
+              <ReconciliationRunsTable runs={reconciliationRuns} />
+            )}
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      <PaymentDetailsDialog
+        transaction={selectedTransaction}
+        isRechecking={recheckMutation.isPending}
+        replayingCallbackId={replayingCallbackId}
+        onReplayCallback={(callbackId) => replayMutation.mutate(callbackId)}
+        onOpenChange={(open) => !open && setSelectedTransaction(null)}
+        onRecheck={(transaction) => recheckMutation.mutate(transaction.pesapal_tracking_id)}
+      />
+    </DashboardLayout>
+  );
+};
+
+export default Payments;
@@ -1,15 +1,18 @@
 import React from 'react';
 import { useQuery } from '@tanstack/react-query';
+import { parseISO } from 'date-fns';
 import DashboardLayout from '@/components/dashboard/layout/DashboardLayout';
-import { TrendingUp, TrendingDown, BarChart3, Map as MapIcon } from 'lucide-react';
+import { TrendingUp, TrendingDown, BarChart3, Map as MapIcon, DollarSign, Undo2 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/components/ui/use-toast';
 import ProductAnalytics from '@/components/dashboard/analytics/ProductAnalytics';
+import StatsCard from '@/components/dashboard/overview/StatsCard';
 import ProductSalesChart from '@/components/dashboard/analytics/ProductSalesChart';
 import SalesTimelineChart from '@/components/dashboard/analytics/SalesTimelineChart';
 import CategoryPieChart from '@/components/dashboard/analytics/CategoryPieChart';
 import NairobiOrdersMap from '@/components/dashboard/analytics/NairobiOrdersMap';
 import { getCategoryHexColor } from '@/utils/categoryColors';
+import { getNetRevenue } from '@/lib/refunds';
 
 interface OrderWithLocation {
   id: string;
@@ -40,14 +43,9 @@ const fetchProductAnalytics = async () => {
     
     if (orderItemsError) throw orderItemsError;
 
-    // Fetch sales timeline data
-    const { data: ordersData, error: ordersError } = await supabase
-      .from('orders')
-      .select('total_amount, created_at, status')
-      .eq('status', 'completed')
-      .order('created_at', { ascending: true });
-    
-    if (ordersError) throw ordersError;
+    // Fetch sales timeline data. Refunds are subtracted from sales on the
+    // day they were made.
+    const revenue = await getNetRevenue();
 
     // Fetch orders with customer location data for map
     const { data: ordersWithLocations, error: locationsError } = await supabase
@@ -129,28 +127,23 @@ const fetchProductAnalytics = async () => {
       fill: getCategoryHexColor(category)
     }));
 
-    // Prepare timeline data
-    const timelineData = ordersData?.map(order => ({
-      date: new Date(order.created_at).toLocaleDateString(),
-      sales: Number(order.total_amount)
-    })) || [];
+    // Prepare timeline data, net of refunds
+    const timelineData = revenue.days.map(day => ({
+      date: parseISO(day.date).toLocaleDateString(),
+      sales: day.gross - day.refunded
+    }));
 
-    // Group timeline data by date
-    const groupedTimelineData = timelineData.reduce((acc, curr) => {
-      const existing = acc.find(item => item.date === curr.date);
-      if (existing) {
-        existing.sales += curr.sales;
-      } else {
-        acc.push({ ...curr });
-      }
-      return acc;
-    }, [] as typeof timelineData);
+    const grossSales = revenue.gross;
+    const totalRefunded = revenue.refunded;
 
     return {
       mostSoldProducts,
       leastSoldProducts,
       categoryData,
-      timelineData: groupedTimelineData,
+      timelineData,
+      grossSales,
+      totalRefunded,
+      netSales: grossSales - totalRefunded,
       ordersWithLocations: ordersWithProfileData
     };
   } catch (error) {
@@ -185,12 +178,33 @@ const ProductAnalyticsPage = () => {
         {/* Sales Overview Section */}
         <div className="space-y-6">
           <h2 className="text-2xl font-bold">Sales Overview</h2>
+
+          {!isLoading && analytics && (
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+              <StatsCard
+                title="Gross Sales"
+                value={`Ksh ${analytics.grossSales.toFixed(2)}`}
+                icon={<DollarSign className="h-4 w-4 text-ocean-500" />}
+                description="Completed orders, delivery included"
+              />
+              <StatsCard
+                title="Refunded"
+                value={`Ksh ${analytics.totalRefunded.toFixed(2)}`}
+                icon={<Undo2 className="h-4 w-4 text-ocean-500" />}
+              />
+              <StatsCard
+                title="Net Revenue"
+                value={`Ksh ${analytics.netSales.toFixed(2)}`}
+                icon={<DollarSign className="h-4 w-4 text-ocean-500" />}
+              />
+            </div>
+          )}
           
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             {/* Sales Timeline Chart */}
             {!isLoading && analytics?.timelineData && (
               <SalesTimelineChart 
-                title="Sales Timeline" 
+                title="Net Sales Timeline" 
                 data={analytics.timelineData}
               />
             )}
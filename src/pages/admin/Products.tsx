@@ -138,12 +138,15 @@ const Products = () => {
         price: data.price,
         category: data.category,
         stock: data.stock,
-        image_url: data.image_url || null
+        image_url: data.image_url || null,
+        reorder_point: data.reorder_point,
+        reorder_quantity: data.reorder_quantity
       };
       return createProductInSupabase(productData);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['reorderLevels'] });
       setIsCreateDialogOpen(false);
       toast({
         title: "Success",
@@ -160,13 +163,16 @@ const Products = () => {
         description: data.description || '',
         price: data.price,
         category: data.category,
-        stock: data.stock,
-        image_url: data.image_url || null
+        image_url: data.image_url || null,
+        reorder_point: data.reorder_point,
+        reorder_quantity: data.reorder_quantity
       };
+      // Stock changes go through Inventory, which logs them to the ledger
       return updateProductInSupabase({ id, data: productData });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['reorderLevels'] });
       setIsEditDialogOpen(false);
       setEditingProduct(null);
       toast({
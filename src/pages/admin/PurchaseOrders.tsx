@@ -0,0 +1,213 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import DashboardLayout from '@/components/dashboard/layout/DashboardLayout';
+import PurchaseOrdersTable from '@/components/dashboard/purchasing/PurchaseOrdersTable';
+import PurchaseOrderFormDialog from '@/components/dashboard/purchasing/PurchaseOrderFormDialog';
+import PurchaseOrderDetailDialog from '@/components/dashboard/purchasing/PurchaseOrderDetailDialog';
+import PurchaseSuggestionsDialog from '@/components/dashboard/purchasing/PurchaseSuggestionsDialog';
+import { PurchaseOrder, PurchaseOrderStatus } from '@/types';
+import {
+  createPurchaseOrder,
+  deletePurchaseOrder,
+  getPurchaseOrders,
+  getSuppliers,
+  PurchaseOrderInput,
+  PurchaseOrderReceiptLine,
+  receivePurchaseOrder,
+  sendPurchaseOrder,
+} from '@/lib/purchasing';
+import { getProducts } from '@/lib/supabase';
+import { PURCHASE_ORDER_STATUSES, PURCHASE_ORDER_STATUS_LABELS } from '@/utils/purchaseOrderStatus';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from '@/components/ui/use-toast';
+import { Lightbulb, Plus } from 'lucide-react';
+
+const showError = (error: Error) => {
+  toast({
+    title: "Error",
+    description: error.message || "Something went wrong",
+    variant: "destructive",
+  });
+};
+
+const PurchaseOrders = () => {
+  const queryClient = useQueryClient();
+  const [statusFilter, setStatusFilter] = useState<PurchaseOrderStatus | 'all'>('all');
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isSuggestionsOpen, setIsSuggestionsOpen] = useState(false);
+  const [selectedOrderId, setSelectedOrderId] = useState<string | null>(null);
+
+  const { data: orders = [], isLoading, error } = useQuery({
+    queryKey: ['purchaseOrders'],
+    queryFn: getPurchaseOrders,
+  });
+
+  if (error) {
+    console.error('Error loading purchase orders:', error);
+  }
+
+  const { data: suppliers = [] } = useQuery({
+    queryKey: ['suppliers'],
+    queryFn: getSuppliers,
+  });
+
+  const { data: products = [] } = useQuery({
+    queryKey: ['products'],
+    queryFn: getProducts,
+  });
+
+  const activeSuppliers = suppliers.filter(supplier => supplier.is_active);
+  const visibleOrders = statusFilter === 'all' ? orders : orders.filter(order => order.status === statusFilter);
+  // Follows refetches so the dialog shows the order as it is now
+  const selectedOrder = orders.find(order => order.id === selectedOrderId) || null;
+
+  const onOrdersChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ['purchaseOrders'] });
+    queryClient.invalidateQueries({ queryKey: ['purchaseSuggestions'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: createPurchaseOrder,
+    onSuccess: (id) => {
+      toast({ title: "Purchase order created", description: "The draft is ready to send" });
+      setIsFormOpen(false);
+      setSelectedOrderId(id);
+      onOrdersChanged();
+    },
+    onError: showError,
+  });
+
+  const createSuggestedMutation = useMutation({
+    mutationFn: async (drafts: PurchaseOrderInput[]) => {
+      for (const draft of drafts) {
+        await createPurchaseOrder(draft);
+      }
+    },
+    onSuccess: (_, drafts) => {
+      toast({
+        title: "Purchase orders created",
+        description: `${drafts.length} draft ${drafts.length === 1 ? 'order is' : 'orders are'} ready to review`,
+      });
+      setIsSuggestionsOpen(false);
+      setStatusFilter('draft');
+    },
+    onError: showError,
+    // Some drafts may have been created before one failed
+    onSettled: onOrdersChanged,
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: (order: PurchaseOrder) => sendPurchaseOrder(order.id),
+    onSuccess: () => {
+      toast({ title: "Purchase order sent" });
+      onOrdersChanged();
+    },
+    onError: showError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (order: PurchaseOrder) => deletePurchaseOrder(order.id),
+    onSuccess: () => {
+      toast({ title: "Draft deleted" });
+      setSelectedOrderId(null);
+      onOrdersChanged();
+    },
+    onError: showError,
+  });
+
+  const receiveMutation = useMutation({
+    mutationFn: ({ order, lines, receivedAt }: { order: PurchaseOrder; lines: PurchaseOrderReceiptLine[]; receivedAt: string }) =>
+      receivePurchaseOrder(order.id, lines, receivedAt),
+    onSuccess: (_, { lines }) => {
+      const units = lines.reduce((sum, line) => sum + line.quantity, 0);
+      toast({ title: "Stock received", description: `${units} units added to inventory` });
+    },
+    onError: showError,
+    onSettled: () => {
+      onOrdersChanged();
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['reorderLevels'] });
+      queryClient.invalidateQueries({ queryKey: ['stockMovements'] });
+      queryClient.invalidateQueries({ queryKey: ['stockBatches'] });
+      queryClient.invalidateQueries({ queryKey: ['expiringBatches'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboardStats'] });
+    },
+  });
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <h1 className="text-3xl font-bold">Purchase Orders</h1>
+          <div className="flex flex-wrap gap-2">
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as PurchaseOrderStatus | 'all')}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {PURCHASE_ORDER_STATUSES.map((status) => (
+                  <SelectItem key={status} value={status}>{PURCHASE_ORDER_STATUS_LABELS[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={() => setIsSuggestionsOpen(true)}>
+              <Lightbulb className="h-4 w-4 mr-2" />
+              Suggest POs
+            </Button>
+            <Button onClick={() => setIsFormOpen(true)} disabled={activeSuppliers.length === 0}>
+              <Plus className="h-4 w-4 mr-2" />
+              New purchase order
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center p-8">
+            <p>Loading purchase orders...</p>
+          </div>
+        ) : (
+          <PurchaseOrdersTable orders={visibleOrders} onView={(order) => setSelectedOrderId(order.id)} />
+        )}
+      </div>
+
+      <PurchaseOrderFormDialog
+        open={isFormOpen}
+        suppliers={activeSuppliers}
+        products={products}
+        isSaving={createMutation.isPending}
+        onOpenChange={setIsFormOpen}
+        onSubmit={(order) => createMutation.mutate(order)}
+      />
+
+      {selectedOrder && (
+        <PurchaseOrderDetailDialog
+          key={`${selectedOrder.id}-${selectedOrder.updated_at}`}
+          order={selectedOrder}
+          isUpdating={sendMutation.isPending || deleteMutation.isPending || receiveMutation.isPending}
+          onOpenChange={(open) => !open && setSelectedOrderId(null)}
+          onSend={(order) => sendMutation.mutate(order)}
+          onDelete={(order) => deleteMutation.mutate(order)}
+          onReceive={(order, lines, receivedAt) => receiveMutation.mutate({ order, lines, receivedAt })}
+        />
+      )}
+
+      {isSuggestionsOpen && (
+        <PurchaseSuggestionsDialog
+          isCreating={createSuggestedMutation.isPending}
+          onOpenChange={setIsSuggestionsOpen}
+          onCreate={(drafts) => createSuggestedMutation.mutate(drafts)}
+        />
+      )}
+    </DashboardLayout>
+  );
+};
+
+export default PurchaseOrders;
@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import DashboardLayout from '@/components/dashboard/layout/DashboardLayout';
+import SuppliersTable from '@/components/dashboard/purchasing/SuppliersTable';
+import SupplierFormDialog from '@/components/dashboard/purchasing/SupplierFormDialog';
+import { Supplier } from '@/types';
+import {
+  getSuppliers,
+  saveSupplier,
+  setSupplierActive,
+  deleteSupplier,
+  SupplierInput,
+  SupplierProductInput,
+} from '@/lib/purchasing';
+import { getProducts } from '@/lib/supabase';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { toast } from '@/components/ui/use-toast';
+import { Plus } from 'lucide-react';
+
+const showError = (error: Error) => {
+  toast({
+    title: "Error",
+    description: error.message || "Something went wrong",
+    variant: "destructive",
+  });
+};
+
+const Suppliers = () => {
+  const queryClient = useQueryClient();
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [supplierToDelete, setSupplierToDelete] = useState<Supplier | null>(null);
+
+  const { data: suppliers = [], isLoading, error } = useQuery({
+    queryKey: ['suppliers'],
+    queryFn: getSuppliers,
+  });
+
+  if (error) {
+    console.error('Error loading suppliers:', error);
+  }
+
+  const { data: products = [] } = useQuery({
+    queryKey: ['products'],
+    queryFn: getProducts,
+  });
+
+  const onSuppliersChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ['suppliers'] });
+    queryClient.invalidateQueries({ queryKey: ['purchaseSuggestions'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: ({ supplier, supplied, id }: { supplier: SupplierInput; supplied: SupplierProductInput[]; id?: string }) =>
+      saveSupplier(supplier, supplied, id),
+    onSuccess: (_, { supplier, id }) => {
+      toast({
+        title: id ? "Supplier updated" : "Supplier created",
+        description: `${supplier.name} has been saved`,
+      });
+      setIsFormOpen(false);
+    },
+    onError: showError,
+    // The supplier may have been saved even if its product list failed
+    onSettled: onSuppliersChanged,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: ({ supplier, isActive }: { supplier: Supplier; isActive: boolean }) =>
+      setSupplierActive(supplier.id, isActive),
+    onSuccess: onSuppliersChanged,
+    onError: showError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (supplier: Supplier) => deleteSupplier(supplier.id),
+    onSuccess: (_, supplier) => {
+      toast({
+        title: "Supplier deleted",
+        description: `${supplier.name} has been deleted`,
+      });
+      setSupplierToDelete(null);
+      onSuppliersChanged();
+    },
+    onError: (error: Error) => {
+      setSupplierToDelete(null);
+      showError(error);
+    },
+  });
+
+  const openForm = (supplier: Supplier | null) => {
+    setEditingSupplier(supplier);
+    setIsFormOpen(true);
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <h1 className="text-3xl font-bold">Suppliers</h1>
+          <Button onClick={() => openForm(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add supplier
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center p-8">
+            <p>Loading suppliers...</p>
+          </div>
+        ) : (
+          <SuppliersTable
+            suppliers={suppliers}
+            isUpdating={toggleMutation.isPending || deleteMutation.isPending}
+            onEdit={openForm}
+            onDelete={setSupplierToDelete}
+            onToggleActive={(supplier, isActive) => toggleMutation.mutate({ supplier, isActive })}
+          />
+        )}
+      </div>
+
+      <SupplierFormDialog
+        open={isFormOpen}
+        supplier={editingSupplier}
+        products={products}
+        isSaving={saveMutation.isPending}
+        onOpenChange={setIsFormOpen}
+        onSubmit={(supplier, supplied, id) => saveMutation.mutate({ supplier, supplied, id })}
+      />
+
+      <AlertDialog open={!!supplierToDelete} onOpenChange={() => setSupplierToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete supplier?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will permanently delete "{supplierToDelete?.name}". Suppliers with purchase orders
+              can only be deactivated.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-500 hover:bg-red-600"
+              onClick={() => supplierToDelete && deleteMutation.mutate(supplierToDelete)}
+              disabled={deleteMutation.isPending}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </DashboardLayout>
+  );
+};
+
+export default Suppliers;
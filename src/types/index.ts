@@ -19,6 +19,32 @@ export interface Product {
   image_url?: string | null;
   created_at: string;
   deleted_at?: string | null;
+  reorder_point?: number | null; // Falls back to the category default when null
+  reorder_quantity?: number | null;
+}
+
+export type ReorderPointSource = 'product' | 'category' | 'default';
+
+// A product with the reorder levels that apply to it; see get_reorder_levels
+export interface ReorderLevel {
+  product_id: string;
+  name: string;
+  category: string | null;
+  price: number;
+  image_url: string | null;
+  stock: number;
+  reorder_point: number;
+  reorder_quantity: number;
+  reorder_point_source: ReorderPointSource;
+  needs_reorder: boolean;
+}
+
+export interface CategoryReorderDefault {
+  category: string;
+  reorder_point: number;
+  reorder_quantity: number;
+  created_at: string;
+  updated_at: string;
 }
 
 export interface OrderItem {
@@ -42,9 +68,25 @@ export const processOrderItems = (items: any[]): OrderItem[] => {
 export interface Order {
   id: string;
   user_id: string;
-  status: 'pending' | 'processing' | 'completed' | 'cancelled';
+  status: 'pending' | 'processing' | 'payment_review' | 'completed' | 'cancelled';
   total_amount: number;
   created_at: string;
+  delivery_fee?: number | null;
+  delivery_address?: string | null;
+  cancelled_at?: string | null;
+  cancellation_reason?: string | null;
+  refund_amount?: number;
+  refund_reason?: string | null;
+  payment_method?: PaymentMethod;
+  payment_reference?: string | null;
+  delivery_zone_id?: string | null;
+  delivery_distance_km?: number | null;
+  delivery_status?: DeliveryStatus;
+  estimated_delivery_time?: number | null;
+  rider_id?: string | null;
+  dispatched_at?: string | null;
+  delivered_at?: string | null;
+  delivery_notes?: string | null;
   items: OrderItem[];
   // Optional profiles from Supabase joins
   profiles?: {
@@ -85,6 +127,335 @@ export const processOrder = (order: any): Order => {
   return processedOrder;
 }
 
+export interface OrderStatusHistoryEntry {
+  id: string;
+  order_id: string;
+  from_status: Order['status'] | null;
+  to_status: Order['status'];
+  changed_by: string | null;
+  changed_by_name: string | null; // Resolved from profiles, null for system changes
+  reason: string | null;
+  created_at: string;
+}
+
+// Item that blocked an order from completing, reported by complete-order
+export interface StockShortage {
+  productId: string;
+  productName: string | null;
+  requested: number;
+  available: number;
+}
+
+export type StockMovementType = 'sale' | 'return' | 'adjustment' | 'import';
+
+export type StockReasonCode =
+  | 'delivery_received'
+  | 'stock_count'
+  | 'damaged'
+  | 'spoiled'
+  | 'customer_return'
+  | 'order_completed'
+  | 'order_cancelled'
+  | 'initial_stock'
+  | 'other';
+
+// One row of a product's stock ledger; quantity is always positive and the
+// direction follows from previous_stock and new_stock
+export interface StockMovement {
+  id: string;
+  product_id: string;
+  order_id: string | null;
+  movement_type: StockMovementType;
+  reason_code: StockReasonCode;
+  quantity: number;
+  previous_stock: number;
+  new_stock: number;
+  reason: string | null;
+  actor_id: string | null;
+  actor_name: string | null; // Resolved from profiles, null for system changes
+  created_at: string;
+}
+
+// A delivery of one product; quantity_remaining is drawn down first expiry,
+// first out as stock leaves
+export interface StockBatch {
+  id: string;
+  product_id: string;
+  quantity_received: number;
+  quantity_remaining: number;
+  received_at: string;
+  expires_at: string | null;
+  supplier: string | null;
+  supplier_id: string | null;
+  purchase_order_id: string | null;
+  unit_cost: number | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface ExpiringStockBatch extends StockBatch {
+  product_name: string;
+  product_category: string | null;
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contact_name: string | null;
+  phone: string | null;
+  email: string | null;
+  lead_time_days: number;
+  notes: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+  products: SupplierProduct[];
+}
+
+// A product the supplier delivers, at its usual price when known
+export interface SupplierProduct {
+  product_id: string;
+  product_name: string;
+  unit_cost: number | null;
+}
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'received';
+
+export interface PurchaseOrderItem {
+  id: string;
+  product_id: string;
+  product_name: string;
+  quantity_ordered: number;
+  quantity_received: number;
+  unit_cost: number | null;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  supplier_id: string;
+  supplier_name: string;
+  status: PurchaseOrderStatus;
+  expected_delivery_date: string | null;
+  notes: string | null;
+  created_by: string | null;
+  sent_at: string | null;
+  received_at: string | null;
+  created_at: string;
+  updated_at: string;
+  items: PurchaseOrderItem[];
+}
+
+// A product expected to fall to its reorder point before a new delivery
+// could arrive, from get_purchase_suggestions. supplier_id is null when no
+// active supplier carries the product.
+export interface PurchaseSuggestion {
+  product_id: string;
+  name: string;
+  category: string | null;
+  stock: number;
+  reorder_point: number;
+  reorder_quantity: number;
+  daily_sales: number;
+  on_order: number;
+  supplier_id: string | null;
+  supplier_name: string | null;
+  lead_time_days: number | null;
+  unit_cost: number | null;
+  suggested_quantity: number;
+}
+
+export interface DeliveryZone {
+  id: string;
+  name: string;
+  min_distance_km: number;
+  max_distance_km: number;
+  base_fee: number;
+  per_km_rate: number;
+  estimated_time_mins: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type PaymentMethod = 'pesapal' | 'cod' | 'mpesa' | 'bank_transfer';
+
+export type PesapalStatus = 'PENDING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+
+export interface PesapalTransaction {
+  id: string;
+  order_id: string;
+  merchant_reference: string;
+  pesapal_tracking_id: string;
+  amount: number;
+  currency: string;
+  status: PesapalStatus;
+  iframe_url: string | null;
+  customer_phone: string | null;
+  link_sent_to: string[];
+  created_by: string | null;
+  reported_amount: number | null;
+  reported_currency: string | null;
+  review_reason: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Pesapal transaction as listed on the payments page
+export interface PesapalTransactionSummary extends PesapalTransaction {
+  order_status: Order['status'] | null;
+  order_total: number | null;
+  customer_name: string | null;
+  callback_count: number;
+}
+
+export type PesapalCallbackOutcome = 'succeeded' | 'failed' | 'ignored' | 'held';
+
+export interface PesapalCallback {
+  id: string;
+  pesapal_tracking_id: string;
+  callback_type: string;
+  raw_payload: unknown;
+  processed: boolean;
+  outcome: PesapalCallbackOutcome | null;
+  error: string | null;
+  attempts: number;
+  received_count: number;
+  last_attempt_at: string | null;
+  created_at: string;
+}
+
+export type PaymentMismatchType = 'paid_not_completed' | 'completed_without_payment';
+
+export interface PaymentMismatch {
+  mismatch: PaymentMismatchType;
+  order_id: string;
+  order_status: Order['status'];
+  order_total: number;
+  transaction_id: string | null;
+  merchant_reference: string | null;
+  pesapal_tracking_id: string | null;
+  transaction_status: PesapalStatus | null;
+  transaction_amount: number | null;
+  created_at: string;
+}
+
+export interface PesapalReconciliationError {
+  trackingId: string;
+  orderId: string;
+  error: string;
+}
+
+export interface PesapalReconciliationRun {
+  id: string;
+  triggered_by: string | null;
+  stale_after_minutes: number;
+  checked_count: number;
+  completed_count: number;
+  cancelled_count: number;
+  review_count: number;
+  pending_count: number;
+  error_count: number;
+  errors: PesapalReconciliationError[];
+  // Why the run stopped early, if it did
+  error: string | null;
+  started_at: string;
+  finished_at: string | null;
+}
+
+export type RefundStatus = 'pending' | 'requested' | 'completed' | 'failed';
+
+export interface RefundItem {
+  id: string;
+  refund_id: string;
+  order_item_id: string;
+  quantity: number;
+  amount: number;
+}
+
+export interface Refund {
+  id: string;
+  order_id: string;
+  pesapal_transaction_id: string | null;
+  amount: number;
+  reason: string;
+  status: RefundStatus;
+  provider_reference: string | null;
+  error: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+  items: RefundItem[];
+}
+
+export type PaymentStatus = 'confirmed' | 'voided';
+
+export interface Payment {
+  id: string;
+  order_id: string;
+  method: PaymentMethod;
+  amount: number;
+  reference: string | null;
+  pesapal_transaction_id: string | null;
+  status: PaymentStatus;
+  notes: string | null;
+  recorded_by: string | null;
+  received_at: string;
+  created_at: string;
+  voided_at: string | null;
+  voided_by: string | null;
+  void_reason: string | null;
+}
+
+// One day of the cash-up report; see get_cash_up_report
+export interface CashUpDay {
+  day: string;
+  completed_order_count: number;
+  completed_order_total: number;
+  pesapal_count: number;
+  pesapal_collected: number;
+  cod_expected: number;
+  cod_collected: number;
+  mpesa_collected: number;
+  bank_transfer_collected: number;
+  refunded: number;
+  total_collected: number;
+  net_collected: number;
+  variance: number;
+  cod_variance: number;
+}
+
+export interface RiderCashUp {
+  day: string;
+  rider_id: string | null;
+  rider_name: string | null;
+  delivered_count: number;
+  cod_expected: number;
+  cod_collected: number;
+}
+
+export type DeliveryStatus = 'awaiting_dispatch' | 'out_for_delivery' | 'delivered' | 'failed';
+
+export interface Rider {
+  id: string;
+  full_name: string;
+  phone: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DeliveryProof {
+  id: string;
+  order_id: string;
+  recipient_name: string;
+  photo_path: string | null;
+  photo_url: string | null; // Signed URL for the private delivery-proofs bucket
+  notes: string | null;
+  recorded_by: string | null;
+  created_at: string;
+}
+
 export interface DashboardStats {
   totalOrders: number;
   totalCustomers: number;
@@ -0,0 +1,170 @@
+import { CashUpDay, RiderCashUp } from '@/types';
+import { CSVColumn, exportToCSV } from './csvExport';
+import { escapeHtml, formatMoney, openPrintWindow, writeAndPrint } from './orderDocuments';
+import { format, parseISO } from 'date-fns';
+
+// Differences of a cent or less are rounding, not money gone missing
+export const hasVariance = (amount: number): boolean => Math.abs(amount) > 0.01;
+
+export const formatVariance = (amount: number): string =>
+  hasVariance(amount) ? `${amount > 0 ? '+' : '-'}${formatMoney(Math.abs(amount))}` : formatMoney(0);
+
+export const sumCashUpDays = (days: CashUpDay[]): Omit<CashUpDay, 'day'> =>
+  days.reduce(
+    (totals, day) => ({
+      completed_order_count: totals.completed_order_count + day.completed_order_count,
+      completed_order_total: totals.completed_order_total + day.completed_order_total,
+      pesapal_count: totals.pesapal_count + day.pesapal_count,
+      pesapal_collected: totals.pesapal_collected + day.pesapal_collected,
+      cod_expected: totals.cod_expected + day.cod_expected,
+      cod_collected: totals.cod_collected + day.cod_collected,
+      mpesa_collected: totals.mpesa_collected + day.mpesa_collected,
+      bank_transfer_collected: totals.bank_transfer_collected + day.bank_transfer_collected,
+      refunded: totals.refunded + day.refunded,
+      total_collected: totals.total_collected + day.total_collected,
+      net_collected: totals.net_collected + day.net_collected,
+      variance: totals.variance + day.variance,
+      cod_variance: totals.cod_variance + day.cod_variance,
+    }),
+    {
+      completed_order_count: 0,
+      completed_order_total: 0,
+      pesapal_count: 0,
+      pesapal_collected: 0,
+      cod_expected: 0,
+      cod_collected: 0,
+      mpesa_collected: 0,
+      bank_transfer_collected: 0,
+      refunded: 0,
+      total_collected: 0,
+      net_collected: 0,
+      variance: 0,
+      cod_variance: 0,
+    }
+  );
+
+const cashUpCsvColumns: CSVColumn<CashUpDay>[] = [
+  { key: 'day', header: 'Date' },
+  { key: 'completed_order_count', header: 'Orders Completed' },
+  { key: (day) => day.completed_order_total.toFixed(2), header: 'Completed Order Total' },
+  { key: 'pesapal_count', header: 'Pesapal Payments' },
+  { key: (day) => day.pesapal_collected.toFixed(2), header: 'Pesapal Collected' },
+  { key: (day) => day.cod_expected.toFixed(2), header: 'COD Expected' },
+  { key: (day) => day.cod_collected.toFixed(2), header: 'COD Collected' },
+  { key: (day) => day.cod_variance.toFixed(2), header: 'COD Variance' },
+  { key: (day) => day.mpesa_collected.toFixed(2), header: 'M-Pesa Collected' },
+  { key: (day) => day.bank_transfer_collected.toFixed(2), header: 'Bank Transfers' },
+  { key: (day) => day.total_collected.toFixed(2), header: 'Total Collected' },
+  { key: (day) => day.refunded.toFixed(2), header: 'Refunded' },
+  { key: (day) => day.net_collected.toFixed(2), header: 'Net Collected' },
+  { key: (day) => day.variance.toFixed(2), header: 'Variance' },
+];
+
+export const exportCashUpCSV = (days: CashUpDay[], from: string, to: string): void => {
+  exportToCSV(days, `cash_up_${from}_to_${to}`, cashUpCsvColumns);
+};
+
+const formatDay = (day: string): string => format(parseISO(day), 'EEE d MMM yyyy');
+
+const varianceCell = (amount: number): string =>
+  `<td class="num${hasVariance(amount) ? ' variance' : ''}">${escapeHtml(formatVariance(amount))}</td>`;
+
+// Opens the report in the print dialog, where it can be saved as PDF
+export const printCashUpReport = (days: CashUpDay[], riders: RiderCashUp[], from: string, to: string): void => {
+  const printWindow = openPrintWindow();
+  const totals = sumCashUpDays(days);
+
+  const dayRows = days.map((day) => `
+    <tr>
+      <td>${escapeHtml(formatDay(day.day))}</td>
+      <td class="num">${day.completed_order_count}</td>
+      <td class="num">${formatMoney(day.completed_order_total)}</td>
+      <td class="num">${formatMoney(day.pesapal_collected)}</td>
+      <td class="num">${formatMoney(day.cod_collected)}</td>
+      <td class="num">${formatMoney(day.mpesa_collected + day.bank_transfer_collected)}</td>
+      <td class="num">${formatMoney(day.refunded)}</td>
+      <td class="num">${formatMoney(day.net_collected)}</td>
+      ${varianceCell(day.variance)}
+    </tr>
+  `).join('');
+
+  const riderRows = riders.map((rider) => `
+    <tr>
+      <td>${escapeHtml(formatDay(rider.day))}</td>
+      <td>${escapeHtml(rider.rider_name || 'Unassigned')}</td>
+      <td class="num">${rider.delivered_count}</td>
+      <td class="num">${formatMoney(rider.cod_expected)}</td>
+      <td class="num">${formatMoney(rider.cod_collected)}</td>
+      ${varianceCell(rider.cod_collected - rider.cod_expected)}
+    </tr>
+  `).join('');
+
+  const body = `
+    <div class="document">
+      <header>
+        <div>
+          <h1>Cash-up report</h1>
+          <h2>${escapeHtml(formatDay(from))} – ${escapeHtml(formatDay(to))}</h2>
+        </div>
+        <div class="meta">
+          <div>Printed ${escapeHtml(format(new Date(), 'PPP p'))}</div>
+        </div>
+      </header>
+
+      <table>
+        <thead>
+          <tr>
+            <th>Date</th>
+            <th class="num">Orders</th>
+            <th class="num">Completed</th>
+            <th class="num">Pesapal</th>
+            <th class="num">COD</th>
+            <th class="num">M-Pesa / bank</th>
+            <th class="num">Refunded</th>
+            <th class="num">Net</th>
+            <th class="num">Variance</th>
+          </tr>
+        </thead>
+        <tbody>${dayRows}</tbody>
+        <tfoot>
+          <tr>
+            <th>Total</th>
+            <th class="num">${totals.completed_order_count}</th>
+            <th class="num">${formatMoney(totals.completed_order_total)}</th>
+            <th class="num">${formatMoney(totals.pesapal_collected)}</th>
+            <th class="num">${formatMoney(totals.cod_collected)}</th>
+            <th class="num">${formatMoney(totals.mpesa_collected + totals.bank_transfer_collected)}</th>
+            <th class="num">${formatMoney(totals.refunded)}</th>
+            <th class="num">${formatMoney(totals.net_collected)}</th>
+            <th class="num${hasVariance(totals.variance) ? ' variance' : ''}">${escapeHtml(formatVariance(totals.variance))}</th>
+          </tr>
+        </tfoot>
+      </table>
+
+      ${riders.length > 0 ? `
+        <div class="label">Cash on delivery by rider</div>
+        <table>
+          <thead>
+            <tr>
+              <th>Date</th>
+              <th>Rider</th>
+              <th class="num">Delivered</th>
+              <th class="num">Expected</th>
+              <th class="num">Collected</th>
+              <th class="num">Variance</th>
+            </tr>
+          </thead>
+          <tbody>${riderRows}</tbody>
+        </table>
+      ` : ''}
+
+      <div class="signature">
+        <div>Prepared by</div>
+        <div>Checked by</div>
+        <div>Date</div>
+      </div>
+    </div>
+  `;
+
+  writeAndPrint(printWindow, `Cash-up ${from} to ${to}`, body);
+};
@@ -0,0 +1,25 @@
+import { DeliveryStatus } from '@/types';
+
+export const DELIVERY_STATUSES: DeliveryStatus[] = ['awaiting_dispatch', 'out_for_delivery', 'delivered', 'failed'];
+
+export const DELIVERY_STATUS_LABELS: Record<DeliveryStatus, string> = {
+  awaiting_dispatch: 'Awaiting dispatch',
+  out_for_delivery: 'Out for delivery',
+  delivered: 'Delivered',
+  failed: 'Failed',
+};
+
+export const getDeliveryStatusColor = (status: DeliveryStatus | undefined): string => {
+  switch (status) {
+    case 'awaiting_dispatch':
+      return 'bg-yellow-100 text-yellow-800 border-yellow-200';
+    case 'out_for_delivery':
+      return 'bg-blue-100 text-blue-800 border-blue-200';
+    case 'delivered':
+      return 'bg-green-100 text-green-800 border-green-200';
+    case 'failed':
+      return 'bg-red-100 text-red-800 border-red-200';
+    default:
+      return 'bg-gray-100 text-gray-800 border-gray-200';
+  }
+};
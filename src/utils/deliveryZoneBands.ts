@@ -0,0 +1,55 @@
+import { DeliveryZone } from '@/types';
+
+export interface ZoneBandIssue {
+  type: 'overlap' | 'gap';
+  message: string;
+  zoneIds: string[];
+}
+
+type ZoneBand = Pick<DeliveryZone, 'id' | 'name' | 'min_distance_km' | 'max_distance_km' | 'is_active'>;
+
+// Checks the active zones as a whole: every distance from 0 km up to the
+// furthest band should be covered by exactly one zone. Bands may touch
+// (0-5 km and 5-10 km).
+export const findZoneBandIssues = (zones: ZoneBand[]): ZoneBandIssue[] => {
+  const issues: ZoneBandIssue[] = [];
+  const active = zones
+    .filter(zone => zone.is_active)
+    .sort((a, b) => Number(a.min_distance_km) - Number(b.min_distance_km));
+
+  if (active.length === 0) return issues;
+
+  if (Number(active[0].min_distance_km) > 0) {
+    issues.push({
+      type: 'gap',
+      message: `No zone covers 0 – ${active[0].min_distance_km} km`,
+      zoneIds: [active[0].id],
+    });
+  }
+
+  let furthest = active[0];
+  for (const zone of active.slice(1)) {
+    const coveredTo = Number(furthest.max_distance_km);
+    const start = Number(zone.min_distance_km);
+
+    if (start < coveredTo) {
+      issues.push({
+        type: 'overlap',
+        message: `"${zone.name}" overlaps "${furthest.name}" between ${start} and ${Math.min(coveredTo, Number(zone.max_distance_km))} km`,
+        zoneIds: [furthest.id, zone.id],
+      });
+    } else if (start > coveredTo) {
+      issues.push({
+        type: 'gap',
+        message: `No zone covers ${coveredTo} – ${start} km`,
+        zoneIds: [furthest.id, zone.id],
+      });
+    }
+
+    if (Number(zone.max_distance_km) > coveredTo) {
+      furthest = zone;
+    }
+  }
+
+  return issues;
+};
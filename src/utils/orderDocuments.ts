@@ -0,0 +1,217 @@
+import { Order } from '@/types';
+import { OrderInvoice } from '@/lib/orders';
+import { format } from 'date-fns';
+
+const BUSINESS_NAME = 'Lake Victoria Aquaculture';
+
+export const formatInvoiceNumber = (invoiceNumber: number): string =>
+  `INV-${String(invoiceNumber).padStart(6, '0')}`;
+
+export const escapeHtml = (value: string | number | null | undefined): string =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+export const formatMoney = (amount: number): string => `Ksh ${amount.toFixed(2)}`;
+
+const styles = `
+  * { box-sizing: border-box; }
+  body { font-family: Arial, Helvetica, sans-serif; color: #111; margin: 0; font-size: 13px; }
+  .document { padding: 32px; page-break-after: always; }
+  .document:last-child { page-break-after: auto; }
+  header { display: flex; justify-content: space-between; align-items: flex-start; margin-bottom: 24px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 16px; margin: 0; color: #444; }
+  .meta { text-align: right; }
+  .meta div { margin-bottom: 2px; }
+  .parties { display: flex; gap: 32px; margin-bottom: 24px; }
+  .parties section { flex: 1; }
+  .label { font-size: 11px; text-transform: uppercase; color: #666; margin-bottom: 4px; }
+  table { width: 100%; border-collapse: collapse; margin-bottom: 16px; }
+  th, td { padding: 8px; border-bottom: 1px solid #ddd; text-align: left; }
+  th { background: #f5f5f5; font-size: 12px; }
+  .num { text-align: right; }
+  .totals { margin-left: auto; width: 280px; }
+  .totals td { border: none; padding: 4px 8px; }
+  .totals .grand td { border-top: 2px solid #111; font-weight: bold; font-size: 15px; }
+  .signature { margin-top: 48px; display: flex; gap: 32px; }
+  .signature div { flex: 1; border-top: 1px solid #111; padding-top: 4px; font-size: 12px; }
+  .variance { color: #b91c1c; font-weight: bold; }
+  @media print { .document { padding: 16px; } }
+`;
+
+const renderCustomer = (order: Order): string => `
+  <section>
+    <div class="label">Customer</div>
+    <div><strong>${escapeHtml(order.customer?.name || 'Unknown')}</strong></div>
+    ${order.customer?.phone ? `<div>${escapeHtml(order.customer.phone)}</div>` : ''}
+    ${order.customer?.email ? `<div>${escapeHtml(order.customer.email)}</div>` : ''}
+  </section>
+  <section>
+    <div class="label">Deliver to</div>
+    <div>${escapeHtml(order.delivery_address || order.customer?.address || 'Collection')}</div>
+  </section>
+`;
+
+// Totals are the order's stored amounts, which are what the customer was
+// charged, rather than a sum of the line items
+const renderInvoice = (order: Order, invoice: OrderInvoice): string => {
+  const subtotal = Number(order.total_amount);
+  const deliveryFee = Number(order.delivery_fee || 0);
+
+  const rows = order.items.map((item) => `
+    <tr>
+      <td>${escapeHtml(item.products?.name || item.product_id)}</td>
+      <td class="num">${item.quantity}</td>
+      <td class="num">${formatMoney(Number(item.unit_price))}</td>
+      <td class="num">${formatMoney(Number(item.unit_price) * item.quantity)}</td>
+    </tr>
+  `).join('');
+
+  return `
+    <div class="document">
+      <header>
+        <div>
+          <h1>${BUSINESS_NAME}</h1>
+          <h2>Invoice</h2>
+        </div>
+        <div class="meta">
+          <div><strong>${formatInvoiceNumber(invoice.invoiceNumber)}</strong></div>
+          <div>Issued ${format(new Date(invoice.issuedAt), 'PPP')}</div>
+          <div>Order #${escapeHtml(order.id.substring(0, 8))}</div>
+          <div>Placed ${format(new Date(order.created_at), 'PPP')}</div>
+        </div>
+      </header>
+      <div class="parties">${renderCustomer(order)}</div>
+      <table>
+        <thead>
+          <tr>
+            <th>Item</th>
+            <th class="num">Qty</th>
+            <th class="num">Unit price</th>
+            <th class="num">Amount</th>
+          </tr>
+        </thead>
+        <tbody>${rows}</tbody>
+      </table>
+      <table class="totals">
+        <tr><td>Subtotal</td><td class="num">${formatMoney(subtotal)}</td></tr>
+        <tr><td>Delivery fee</td><td class="num">${formatMoney(deliveryFee)}</td></tr>
+        <tr class="grand"><td>Total</td><td class="num">${formatMoney(subtotal + deliveryFee)}</td></tr>
+      </table>
+    </div>
+  `;
+};
+
+const renderDeliveryNote = (order: Order): string => {
+  const rows = order.items.map((item) => `
+    <tr>
+      <td>${escapeHtml(item.products?.name || item.product_id)}</td>
+      <td>${escapeHtml(item.products?.category)}</td>
+      <td class="num">${item.quantity}</td>
+      <td></td>
+    </tr>
+  `).join('');
+
+  return `
+    <div class="document">
+      <header>
+        <div>
+          <h1>${BUSINESS_NAME}</h1>
+          <h2>Delivery Note</h2>
+        </div>
+        <div class="meta">
+          <div><strong>Order #${escapeHtml(order.id.substring(0, 8))}</strong></div>
+          <div>Placed ${format(new Date(order.created_at), 'PPP')}</div>
+        </div>
+      </header>
+      <div class="parties">${renderCustomer(order)}</div>
+      <table>
+        <thead>
+          <tr>
+            <th>Item</th>
+            <th>Category</th>
+            <th class="num">Qty</th>
+            <th>Checked</th>
+          </tr>
+        </thead>
+        <tbody>${rows}</tbody>
+      </table>
+      <div class="signature">
+        <div>Packed by</div>
+        <div>Received by (name &amp; signature)</div>
+        <div>Date</div>
+      </div>
+    </div>
+  `;
+};
+
+// The window has to be opened straight from the click handler or pop-up
+// blockers reject it, so it is opened first and filled in once ready.
+export const openPrintWindow = (): Window => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error('Allow pop-ups for this site to print documents');
+  }
+
+  printWindow.document.write('<p style="font-family: sans-serif">Preparing documents...</p>');
+  return printWindow;
+};
+
+// Writes the documents into the window and opens the browser print dialog,
+// where they can be printed or saved as PDF.
+export const writeAndPrint = (printWindow: Window, title: string, body: string): void => {
+  printWindow.document.open();
+  printWindow.document.write(`<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="UTF-8" />
+    <title>${escapeHtml(title)}</title>
+    <style>${styles}</style>
+  </head>
+  <body>${body}</body>
+</html>`);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+};
+
+// Invoice numbers are issued by loadInvoices before printing, so printing an
+// order for the first time assigns it the next number. Only processing and
+// completed orders are issued one; the orders left without an invoice are
+// returned.
+export const printInvoices = async (
+  orders: Order[],
+  loadInvoices: (orderIds: string[]) => Promise<Map<string, OrderInvoice>>
+): Promise<Order[]> => {
+  const printWindow = openPrintWindow();
+
+  try {
+    const invoices = await loadInvoices(orders.map((order) => order.id));
+    const invoiced = orders.filter((order) => invoices.has(order.id));
+
+    if (invoiced.length === 0) {
+      throw new Error('Invoices are only issued for processing or completed orders');
+    }
+
+    const body = invoiced
+      .map((order) => renderInvoice(order, invoices.get(order.id)!))
+      .join('');
+
+    writeAndPrint(printWindow, 'Invoices', body);
+    return orders.filter((order) => !invoices.has(order.id));
+  } catch (error) {
+    printWindow.close();
+    throw error;
+  }
+};
+
+export const printDeliveryNotes = (orders: Order[]): void => {
+  const printWindow = openPrintWindow();
+  const body = orders.map((order) => renderDeliveryNote(order)).join('');
+
+  writeAndPrint(printWindow, 'Delivery notes', body);
+};
@@ -0,0 +1,49 @@
+import { Order } from '@/types';
+
+type OrderStatus = Order['status'];
+
+// Allowed status transitions. Cancelled is terminal; completed orders can
+// still be cancelled, which restocks them. Orders held in payment review go
+// back to processing once the payment is settled. Mirrors
+// public.is_valid_order_status_transition, which enforces the same graph in
+// the database.
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['processing', 'payment_review', 'completed', 'cancelled'],
+  processing: ['payment_review', 'completed', 'cancelled'],
+  payment_review: ['processing', 'cancelled'],
+  completed: ['cancelled'],
+  cancelled: [],
+};
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Pending',
+  processing: 'Processing',
+  payment_review: 'Payment review',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+export const getAllowedOrderStatuses = (status: OrderStatus): OrderStatus[] => {
+  return ORDER_STATUS_TRANSITIONS[status] || [];
+};
+
+export const canTransitionOrderStatus = (from: OrderStatus, to: OrderStatus): boolean => {
+  return from === to || getAllowedOrderStatuses(from).includes(to);
+};
+
+export const getOrderStatusColor = (status: OrderStatus): string => {
+  switch (status) {
+    case 'pending':
+      return 'bg-yellow-100 text-yellow-800 border-yellow-200';
+    case 'processing':
+      return 'bg-blue-100 text-blue-800 border-blue-200';
+    case 'payment_review':
+      return 'bg-orange-100 text-orange-800 border-orange-200';
+    case 'completed':
+      return 'bg-green-100 text-green-800 border-green-200';
+    case 'cancelled':
+      return 'bg-red-100 text-red-800 border-red-200';
+    default:
+      return 'bg-gray-100 text-gray-800 border-gray-200';
+  }
+};
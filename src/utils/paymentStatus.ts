@@ -0,0 +1,66 @@
+import { PaymentMethod, PesapalCallbackOutcome, PesapalStatus, RefundStatus } from '@/types';
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  pesapal: 'Pesapal',
+  cod: 'Cash on delivery',
+  mpesa: 'M-Pesa',
+  bank_transfer: 'Bank transfer',
+};
+
+export const PESAPAL_STATUSES: PesapalStatus[] = ['PENDING', 'COMPLETED', 'FAILED', 'CANCELLED'];
+
+export const getPesapalStatusColor = (status: PesapalStatus | null | undefined): string => {
+  switch (status) {
+    case 'PENDING':
+      return 'bg-yellow-100 text-yellow-800 border-yellow-200';
+    case 'COMPLETED':
+      return 'bg-green-100 text-green-800 border-green-200';
+    case 'FAILED':
+      return 'bg-red-100 text-red-800 border-red-200';
+    case 'CANCELLED':
+      return 'bg-gray-100 text-gray-800 border-gray-200';
+    default:
+      return 'bg-gray-100 text-gray-800 border-gray-200';
+  }
+};
+
+export const CALLBACK_OUTCOME_LABELS: Record<PesapalCallbackOutcome, string> = {
+  succeeded: 'Processed',
+  failed: 'Failed',
+  ignored: 'Ignored',
+  held: 'Held for review',
+};
+
+export const getCallbackOutcomeColor = (outcome: PesapalCallbackOutcome | null): string => {
+  switch (outcome) {
+    case 'succeeded':
+      return 'bg-green-100 text-green-800 border-green-200';
+    case 'failed':
+      return 'bg-red-100 text-red-800 border-red-200';
+    case 'held':
+      return 'bg-orange-100 text-orange-800 border-orange-200';
+    default:
+      return 'bg-gray-100 text-gray-800 border-gray-200';
+  }
+};
+
+export const REFUND_STATUS_LABELS: Record<RefundStatus, string> = {
+  pending: 'Pending',
+  requested: 'Requested from Pesapal',
+  completed: 'Refunded',
+  failed: 'Failed',
+};
+
+export const getRefundStatusColor = (status: RefundStatus): string => {
+  switch (status) {
+    case 'pending':
+    case 'requested':
+      return 'bg-yellow-100 text-yellow-800 border-yellow-200';
+    case 'completed':
+      return 'bg-green-100 text-green-800 border-green-200';
+    case 'failed':
+      return 'bg-red-100 text-red-800 border-red-200';
+    default:
+      return 'bg-gray-100 text-gray-800 border-gray-200';
+  }
+};
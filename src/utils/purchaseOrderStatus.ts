@@ -0,0 +1,29 @@
+import { PurchaseOrderStatus } from '@/types';
+
+export const PURCHASE_ORDER_STATUSES: PurchaseOrderStatus[] = ['draft', 'sent', 'partially_received', 'received'];
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  partially_received: 'Partially received',
+  received: 'Received',
+};
+
+export const getPurchaseOrderStatusColor = (status: PurchaseOrderStatus | undefined): string => {
+  switch (status) {
+    case 'draft':
+      return 'bg-gray-100 text-gray-800 border-gray-200';
+    case 'sent':
+      return 'bg-blue-100 text-blue-800 border-blue-200';
+    case 'partially_received':
+      return 'bg-yellow-100 text-yellow-800 border-yellow-200';
+    case 'received':
+      return 'bg-green-100 text-green-800 border-green-200';
+    default:
+      return 'bg-gray-100 text-gray-800 border-gray-200';
+  }
+};
+
+// Outstanding units on a purchase order line
+export const getOutstandingQuantity = (item: { quantity_ordered: number; quantity_received: number }): number =>
+  item.quantity_ordered - item.quantity_received;
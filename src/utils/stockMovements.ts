@@ -0,0 +1,51 @@
+import { StockBatch, StockMovement, StockReasonCode } from '@/types';
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+
+export const STOCK_REASON_LABELS: Record<StockReasonCode, string> = {
+  delivery_received: 'Delivery received',
+  stock_count: 'Stock count correction',
+  damaged: 'Damaged',
+  spoiled: 'Spoiled',
+  customer_return: 'Customer return',
+  order_completed: 'Order completed',
+  order_cancelled: 'Order cancelled',
+  initial_stock: 'Opening stock',
+  other: 'Other',
+};
+
+// Reasons an admin can pick for a manual adjustment; the rest are logged by
+// order completion, cancellation and product creation
+export const MANUAL_STOCK_REASONS: Record<'add' | 'remove', StockReasonCode[]> = {
+  add: ['delivery_received', 'customer_return', 'stock_count', 'other'],
+  remove: ['damaged', 'spoiled', 'stock_count', 'other'],
+};
+
+export const getStockChange = (movement: StockMovement): number =>
+  movement.new_stock - movement.previous_stock;
+
+// How far ahead the expiring stock alerts look
+export const EXPIRY_ALERT_DAYS = 3;
+
+// Negative once the batch has expired, null when it has no expiry date
+export const getDaysUntilExpiry = (batch: Pick<StockBatch, 'expires_at'>): number | null =>
+  batch.expires_at ? differenceInCalendarDays(parseISO(batch.expires_at), new Date()) : null;
+
+export const formatExpiry = (daysLeft: number): string => {
+  if (daysLeft < 0) return `Expired ${-daysLeft} day${daysLeft === -1 ? '' : 's'} ago`;
+  if (daysLeft === 0) return 'Expires today';
+  return `Expires in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`;
+};
+
+export type StockLevel = 'out_of_stock' | 'low_stock' | 'in_stock';
+
+export const getStockLevel = (stock: number, reorderPoint: number): StockLevel => {
+  if (stock <= 0) return 'out_of_stock';
+  if (stock <= reorderPoint) return 'low_stock';
+  return 'in_stock';
+};
+
+export const STOCK_LEVEL_LABELS: Record<StockLevel, string> = {
+  out_of_stock: 'Out of Stock',
+  low_stock: 'Low Stock',
+  in_stock: 'In Stock',
+};
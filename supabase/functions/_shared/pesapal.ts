@@ -0,0 +1,299 @@
+// Pesapal API 3.0 client shared by the payment edge functions.
+//
+// The base URL comes from the environment:
+//   PESAPAL_BASE_URL  explicit URL, e.g. a local stub server for testing
+//   PESAPAL_ENV       'sandbox' or 'production' (default)
+//
+// Setting PESAPAL_STUB_REFUNDS=true makes requestRefund accept every request
+// without calling Pesapal, for local development where no real payment exists.
+//
+// OAuth tokens are cached per isolate until shortly before Pesapal's
+// expiryDate, so warm functions don't request a new token for every call.
+
+const PESAPAL_BASE_URLS = {
+  production: 'https://pay.pesapal.com/v3',
+  sandbox: 'https://cybqa.pesapal.com/pesapalv3',
+} as const;
+
+// Refresh tokens a little early so a request never goes out with a token
+// that expires in flight
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+export type PesapalEnvironment = keyof typeof PESAPAL_BASE_URLS;
+
+export type PesapalTransactionStatus = 'PENDING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+
+export interface PesapalErrorDetails {
+  error_type?: string | null;
+  code: string | null;
+  message: string | null;
+  call_back_url?: string | null;
+}
+
+export interface PesapalAuthResponse {
+  token: string;
+  expiryDate: string;
+  error: PesapalErrorDetails | string | null;
+  status: string;
+  message: string;
+}
+
+export interface PesapalStatusResponse {
+  payment_method: string;
+  amount: number;
+  created_date: string;
+  confirmation_code: string;
+  payment_status_description: string;
+  description: string;
+  message: string;
+  payment_account: string;
+  call_back_url: string;
+  status_code: number;
+  merchant_reference: string;
+  payment_status_code: string;
+  currency: string;
+  error: PesapalErrorDetails;
+  status: string;
+}
+
+export type PesapalNotificationType = 'GET' | 'POST';
+
+export interface PesapalIpnResponse {
+  url: string;
+  created_date: string;
+  ipn_id: string;
+  notification_type: number;
+  ipn_notification_type_description: string;
+  ipn_status: number;
+  ipn_status_description: string;
+  error: PesapalErrorDetails | null;
+  status: string;
+}
+
+export interface PesapalBillingAddress {
+  email_address?: string;
+  phone_number?: string;
+  country_code?: string;
+  first_name?: string;
+  middle_name?: string;
+  last_name?: string;
+  line_1?: string;
+  line_2?: string;
+  city?: string;
+  state?: string;
+  postal_code?: string;
+  zip_code?: string;
+}
+
+export interface PesapalSubmitOrderRequest {
+  id: string;
+  currency: string;
+  amount: number;
+  description: string;
+  callback_url: string;
+  notification_id: string;
+  cancellation_url?: string;
+  billing_address: PesapalBillingAddress;
+}
+
+export interface PesapalSubmitOrderResponse {
+  order_tracking_id: string;
+  merchant_reference: string;
+  redirect_url: string;
+  error: PesapalErrorDetails | null;
+  status: string;
+}
+
+export interface PesapalRefundRequest {
+  confirmation_code: string;
+  amount: number;
+  username: string;
+  remarks: string;
+}
+
+export interface PesapalRefundResponse {
+  status: string;
+  message: string;
+  error?: PesapalErrorDetails | null;
+}
+
+export class PesapalApiError extends Error {
+  status: number;
+  details: unknown;
+
+  constructor(message: string, status: number, details?: unknown) {
+    super(message);
+    this.name = 'PesapalApiError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+export const getPesapalEnvironment = (): PesapalEnvironment => {
+  return Deno.env.get('PESAPAL_ENV') === 'sandbox' ? 'sandbox' : 'production';
+};
+
+export const getPesapalBaseUrl = (): string => {
+  const override = Deno.env.get('PESAPAL_BASE_URL');
+  if (override) return override.replace(/\/+$/, '');
+
+  return PESAPAL_BASE_URLS[getPesapalEnvironment()];
+};
+
+interface CachedToken {
+  key: string;
+  token: string;
+  expiresAt: number;
+}
+
+let cachedToken: CachedToken | null = null;
+
+const errorMessage = (error: PesapalErrorDetails | string | null | undefined): string | null => {
+  if (!error) return null;
+  return typeof error === 'string' ? error : error.message;
+};
+
+export const getPesapalToken = async (): Promise<string> => {
+  const baseUrl = getPesapalBaseUrl();
+  const consumerKey = Deno.env.get('PESAPAL_CONSUMER_KEY')!;
+  const consumerSecret = Deno.env.get('PESAPAL_CONSUMER_SECRET')!;
+  // Switching environment or credentials must not reuse the old token
+  const key = `${baseUrl}|${consumerKey}`;
+
+  if (cachedToken && cachedToken.key === key && cachedToken.expiresAt - TOKEN_EXPIRY_MARGIN_MS > Date.now()) {
+    return cachedToken.token;
+  }
+
+  console.log('Requesting Pesapal OAuth token...');
+  const response = await fetch(`${baseUrl}/api/Auth/RequestToken`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+    },
+    body: JSON.stringify({
+      consumer_key: consumerKey,
+      consumer_secret: consumerSecret,
+    }),
+  });
+
+  const data: PesapalAuthResponse | null = await response.json().catch(() => null);
+  if (!response.ok || !data?.token) {
+    console.error('Pesapal auth failed:', data);
+    throw new PesapalApiError(
+      errorMessage(data?.error) || 'Failed to authenticate with Pesapal',
+      response.status,
+      data
+    );
+  }
+
+  // Pesapal returns expiryDate in UTC without a zone suffix
+  const expiresAt = Date.parse(/[zZ]|[+-]\d{2}:?\d{2}$/.test(data.expiryDate) ? data.expiryDate : `${data.expiryDate}Z`);
+  cachedToken = {
+    key,
+    token: data.token,
+    // Tokens are valid for five minutes if the expiry can't be read
+    expiresAt: Number.isFinite(expiresAt) ? expiresAt : Date.now() + 5 * 60 * 1000,
+  };
+
+  return data.token;
+};
+
+export const clearPesapalToken = () => {
+  cachedToken = null;
+};
+
+// Authenticated request to the Pesapal API. A 401 means the cached token was
+// revoked or expired early, so it is refreshed and the request retried once.
+const pesapalRequest = async <T>(path: string, init: RequestInit = {}, retry = true): Promise<T> => {
+  const token = await getPesapalToken();
+
+  const response = await fetch(`${getPesapalBaseUrl()}${path}`, {
+    ...init,
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+      ...init.headers,
+    },
+  });
+
+  if (response.status === 401 && retry) {
+    clearPesapalToken();
+    return pesapalRequest<T>(path, init, false);
+  }
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new PesapalApiError(
+      errorMessage(data?.error) || `Pesapal request to ${path} failed`,
+      response.status,
+      data
+    );
+  }
+
+  return data as T;
+};
+
+export const getTransactionStatus = async (trackingId: string): Promise<PesapalStatusResponse> => {
+  return pesapalRequest<PesapalStatusResponse>(
+    `/api/Transactions/GetTransactionStatus?orderTrackingId=${encodeURIComponent(trackingId)}`,
+    { method: 'GET' }
+  );
+};
+
+export const registerIpn = async (
+  url: string,
+  notificationType: PesapalNotificationType = 'GET'
+): Promise<PesapalIpnResponse> => {
+  const data = await pesapalRequest<PesapalIpnResponse>('/api/URLSetup/RegisterIPN', {
+    method: 'POST',
+    body: JSON.stringify({ url, ipn_notification_type: notificationType }),
+  });
+
+  if (!data.ipn_id) {
+    throw new PesapalApiError(errorMessage(data.error) || 'Failed to register Pesapal IPN URL', 502, data);
+  }
+
+  return data;
+};
+
+export const submitOrderRequest = async (order: PesapalSubmitOrderRequest): Promise<PesapalSubmitOrderResponse> => {
+  const data = await pesapalRequest<PesapalSubmitOrderResponse>('/api/Transactions/SubmitOrderRequest', {
+    method: 'POST',
+    body: JSON.stringify(order),
+  });
+
+  // Pesapal reports some failures with a 200 and an error object
+  if (errorMessage(data.error) || !data.redirect_url) {
+    throw new PesapalApiError(errorMessage(data.error) || 'Failed to create Pesapal payment', 502, data);
+  }
+
+  return data;
+};
+
+export const mapPesapalStatus = (status: PesapalStatusResponse): PesapalTransactionStatus => {
+  if (status.status_code === 1 || status.payment_status_description === 'Completed') return 'COMPLETED';
+  if (status.status_code === 2 || status.payment_status_description === 'Failed') return 'FAILED';
+  if (status.status_code === 3 || status.payment_status_description === 'Cancelled') return 'CANCELLED';
+  return 'PENDING';
+};
+
+export const requestRefund = async (refund: PesapalRefundRequest): Promise<PesapalRefundResponse> => {
+  if (Deno.env.get('PESAPAL_STUB_REFUNDS') === 'true') {
+    console.log('PESAPAL_STUB_REFUNDS is set, not sending refund request:', JSON.stringify(refund));
+    return { status: '200', message: 'Refund request stubbed' };
+  }
+
+  const data = await pesapalRequest<PesapalRefundResponse>('/api/Transactions/RefundRequest', {
+    method: 'POST',
+    body: JSON.stringify(refund),
+  });
+
+  // Pesapal answers 200 and reports rejection in the body's status
+  if (data.status !== '200') {
+    throw new PesapalApiError(data.message || errorMessage(data.error) || 'Pesapal rejected the refund request', 502, data);
+  }
+
+  return data;
+};
@@ -0,0 +1,203 @@
+// Processing of stored Pesapal notifications, shared by pesapal-callback
+// (live IPNs) and replay-pesapal-callback (admins retrying failed ones).
+//
+// Every attempt is counted on the pesapal_callbacks row and ends with an
+// outcome: succeeded, failed (safe to retry), ignored (nothing to do) or held
+// (paid, but the order was left for an admin to review).
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0'
+
+export interface PesapalCallbackPayload {
+  OrderTrackingId: string;
+  OrderMerchantReference: string;
+  OrderNotificationType: string;
+  OrderCreatedDate: string;
+}
+
+export type PesapalCallbackOutcome = 'succeeded' | 'failed' | 'ignored' | 'held';
+
+export interface PesapalCallbackRow {
+  id: string;
+  pesapal_tracking_id: string;
+  callback_type: string;
+  raw_payload: PesapalCallbackPayload;
+  processed: boolean;
+  outcome: PesapalCallbackOutcome | null;
+  error: string | null;
+  attempts: number;
+  received_count: number;
+}
+
+export interface PesapalCallbackResult {
+  outcome: PesapalCallbackOutcome;
+  message: string;
+  error?: string;
+  orderId?: string;
+  status?: string;
+  reviewReason?: string;
+}
+
+// The only transaction status Pesapal won't move away from. A failed or
+// cancelled attempt can still be paid later, which Pesapal reports as an
+// IPNCHANGE, so repeats for those are always checked again.
+export const SETTLED_TRANSACTION_STATUS = 'COMPLETED';
+
+export const findCallbackTransaction = async (
+  supabaseService: SupabaseClient,
+  trackingId: string,
+  merchantReference: string
+) => {
+  // First try by tracking ID
+  const { data: byTrackingId, error } = await supabaseService
+    .from('pesapal_transactions')
+    .select('*')
+    .eq('pesapal_tracking_id', trackingId)
+    .maybeSingle();
+
+  if (byTrackingId || error || !merchantReference) {
+    return byTrackingId;
+  }
+
+  console.log('Transaction not found by tracking ID, trying merchant reference:', merchantReference);
+  const { data: byReference } = await supabaseService
+    .from('pesapal_transactions')
+    .select('*')
+    .eq('merchant_reference', merchantReference)
+    .maybeSingle();
+
+  return byReference;
+};
+
+const applyCallback = async (
+  supabaseService: SupabaseClient,
+  payload: PesapalCallbackPayload
+): Promise<PesapalCallbackResult> => {
+  const { OrderTrackingId, OrderMerchantReference, OrderNotificationType } = payload;
+
+  const transaction = await findCallbackTransaction(supabaseService, OrderTrackingId, OrderMerchantReference);
+  if (!transaction) {
+    // The transaction may not be stored yet, so this is worth retrying
+    return { outcome: 'failed', message: 'Transaction not found', error: 'Transaction not found' };
+  }
+
+  console.log('Found transaction:', transaction.id, 'for order:', transaction.order_id);
+
+  if (OrderNotificationType === 'FAILED' || OrderNotificationType === 'CANCELLED') {
+    console.log('Processing failed/cancelled payment for order:', transaction.order_id);
+
+    if (transaction.status === SETTLED_TRANSACTION_STATUS) {
+      // A late failure for an attempt that was paid must not undo the payment
+      console.log('Transaction', transaction.id, 'already completed, ignoring', OrderNotificationType);
+      return { outcome: 'ignored', message: 'Payment already completed', orderId: transaction.order_id };
+    }
+
+    const newStatus = OrderNotificationType === 'FAILED' ? 'FAILED' : 'CANCELLED';
+    await supabaseService
+      .from('pesapal_transactions')
+      .update({ status: newStatus })
+      .eq('id', transaction.id);
+
+    // The order is only cancelled while nothing else has paid for it
+    const { data: cancelResult, error: cancelError } = await supabaseService.rpc('cancel_order_for_failed_payment', {
+      p_order_id: transaction.order_id,
+      p_transaction_id: transaction.id,
+      p_reason: `Pesapal payment ${newStatus}`,
+    });
+
+    if (cancelError) {
+      console.error('Error cancelling order for failed payment:', cancelError);
+      const error = 'Failed to cancel order: ' + cancelError.message;
+      return { outcome: 'failed', message: error, error, orderId: transaction.order_id };
+    }
+
+    if (!cancelResult.cancelled) {
+      console.log(`Order ${transaction.order_id} left as ${cancelResult.order_status}: ${cancelResult.skipped_reason}`);
+      return {
+        outcome: 'succeeded',
+        message: `Payment failure recorded; order not cancelled because ${cancelResult.skipped_reason}`,
+        orderId: transaction.order_id,
+        status: newStatus,
+      };
+    }
+
+    return {
+      outcome: 'succeeded',
+      message: 'Payment failure processed',
+      orderId: transaction.order_id,
+      status: newStatus,
+    };
+  }
+
+  if (
+    OrderNotificationType === 'IPNCHANGE' ||
+    OrderNotificationType === 'COMPLETED' ||
+    OrderNotificationType === 'SUCCESS'
+  ) {
+    // Completion is never taken from the callback alone: check-pesapal-status
+    // asks Pesapal what was actually paid and holds mismatched amounts for review
+    console.log(`Received ${OrderNotificationType} notification, querying Pesapal for actual status...`);
+
+    const { data: statusResult, error: statusError } = await supabaseService.functions.invoke(
+      'check-pesapal-status',
+      { body: { trackingId: transaction.pesapal_tracking_id } }
+    );
+
+    if (statusError || !statusResult?.success) {
+      console.error('Error calling check-pesapal-status:', statusError || statusResult);
+      const error = 'Failed to check payment status: ' + (statusError?.message || statusResult?.error || 'Unknown error');
+      return { outcome: 'failed', message: error, error, orderId: transaction.order_id };
+    }
+
+    return {
+      outcome: statusResult.reviewReason ? 'held' : 'succeeded',
+      message: 'Payment status checked and updated',
+      orderId: statusResult.orderId,
+      status: statusResult.status,
+      reviewReason: statusResult.reviewReason,
+    };
+  }
+
+  console.log('Received unhandled notification type:', OrderNotificationType);
+  return { outcome: 'ignored', message: 'Callback received but not processed', orderId: transaction.order_id };
+};
+
+// Run one processing attempt for a stored callback and record its outcome
+export const processPesapalCallback = async (
+  supabaseService: SupabaseClient,
+  callbackId: string
+): Promise<PesapalCallbackResult> => {
+  const { data: callback, error: attemptError } = await supabaseService.rpc('begin_pesapal_callback_attempt', {
+    p_callback_id: callbackId,
+  });
+
+  if (attemptError || !callback) {
+    throw new Error(`Failed to start processing callback ${callbackId}: ${attemptError?.message}`);
+  }
+
+  const row = callback as PesapalCallbackRow;
+  console.log(`Processing Pesapal callback ${row.id}, attempt ${row.attempts}`);
+
+  let result: PesapalCallbackResult;
+  try {
+    result = await applyCallback(supabaseService, row.raw_payload);
+  } catch (error) {
+    console.error('Unexpected error processing Pesapal callback:', error);
+    const message = error instanceof Error ? error.message : 'Unexpected error';
+    result = { outcome: 'failed', message, error: message };
+  }
+
+  const { error: updateError } = await supabaseService
+    .from('pesapal_callbacks')
+    .update({
+      outcome: result.outcome,
+      error: result.error || null,
+      processed: result.outcome !== 'failed',
+    })
+    .eq('id', row.id);
+
+  if (updateError) {
+    console.error('Error recording callback outcome:', updateError);
+  }
+
+  return result;
+};
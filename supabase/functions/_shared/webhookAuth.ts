@@ -0,0 +1,161 @@
+// Authentication for inbound webhooks (pesapal-callback, brevo-webhook),
+// which run without a Supabase JWT. Each webhook is configured from the
+// environment with a shared secret, an IP allowlist, or both:
+//
+//   <PREFIX>_WEBHOOK_SECRET       token the provider must send, either in the
+//                                 X-Webhook-Token header or a ?token= query
+//                                 parameter on the registered URL
+//   <PREFIX>_WEBHOOK_ALLOWED_IPS  comma-separated IPv4 addresses or CIDR
+//                                 ranges the provider calls from
+//
+// Requests to a webhook with neither configured are rejected, so a webhook
+// never silently runs open. Every rejection is written to audit_logs.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0'
+
+export interface WebhookAuthConfig {
+  // Name used in logs and audit_logs, e.g. 'pesapal-callback'
+  name: string;
+  // Environment variable prefix, e.g. 'PESAPAL' for PESAPAL_WEBHOOK_SECRET
+  envPrefix: string;
+  // Table the webhook writes to, recorded against rejections
+  tableName: string;
+}
+
+export type WebhookRejectionReason = 'not_configured' | 'invalid_token' | 'ip_not_allowed';
+
+export type WebhookAuthResult =
+  | { authorized: true }
+  | { authorized: false; reason: WebhookRejectionReason; status: number };
+
+export const WEBHOOK_TOKEN_HEADER = 'x-webhook-token';
+
+// Supabase's gateway appends the address it received the request from to
+// X-Forwarded-For. Everything before that was sent by the caller and can be
+// forged, so only the last entry is trusted.
+export const getClientIp = (req: Request): string | null => {
+  const forwardedFor = req.headers.get('x-forwarded-for');
+  if (!forwardedFor) return null;
+
+  const hops = forwardedFor.split(',').map(hop => hop.trim()).filter(Boolean);
+  return hops[hops.length - 1] || null;
+};
+
+// Compares every character so the time taken doesn't reveal how much of a
+// guessed token was right
+const tokensMatch = (expected: string, received: string): boolean => {
+  if (expected.length !== received.length) return false;
+
+  let difference = 0;
+  for (let i = 0; i < expected.length; i++) {
+    difference |= expected.charCodeAt(i) ^ received.charCodeAt(i);
+  }
+  return difference === 0;
+};
+
+const ipv4ToNumber = (ip: string): number | null => {
+  const parts = ip.split('.');
+  if (parts.length !== 4) return null;
+
+  let value = 0;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null;
+    value = value * 256 + Number(part);
+  }
+  return value;
+};
+
+const ipMatches = (ip: string, entry: string): boolean => {
+  const [range, bits] = entry.split('/');
+  if (bits === undefined) return ip === range;
+
+  const prefix = Number(bits);
+  const ipValue = ipv4ToNumber(ip);
+  const rangeValue = ipv4ToNumber(range);
+  if (ipValue === null || rangeValue === null || !Number.isInteger(prefix) || prefix < 0 || prefix > 32) {
+    return false;
+  }
+
+  // 2 ** (32 - prefix) addresses share the range's network part
+  const blockSize = 2 ** (32 - prefix);
+  return Math.floor(ipValue / blockSize) === Math.floor(rangeValue / blockSize);
+};
+
+const parseAllowlist = (value: string | undefined): string[] =>
+  (value || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+
+export const authenticateWebhook = (req: Request, config: WebhookAuthConfig): WebhookAuthResult => {
+  const secret = Deno.env.get(`${config.envPrefix}_WEBHOOK_SECRET`);
+  const allowlist = parseAllowlist(Deno.env.get(`${config.envPrefix}_WEBHOOK_ALLOWED_IPS`));
+
+  if (!secret && allowlist.length === 0) {
+    console.error(`${config.name}: set ${config.envPrefix}_WEBHOOK_SECRET or ${config.envPrefix}_WEBHOOK_ALLOWED_IPS`);
+    return { authorized: false, reason: 'not_configured', status: 503 };
+  }
+
+  if (allowlist.length > 0) {
+    const ip = getClientIp(req);
+    if (!ip || !allowlist.some(entry => ipMatches(ip, entry))) {
+      return { authorized: false, reason: 'ip_not_allowed', status: 403 };
+    }
+  }
+
+  if (secret) {
+    const token = req.headers.get(WEBHOOK_TOKEN_HEADER) || new URL(req.url).searchParams.get('token') || '';
+    if (!tokensMatch(secret, token)) {
+      return { authorized: false, reason: 'invalid_token', status: 401 };
+    }
+  }
+
+  return { authorized: true };
+};
+
+export const logWebhookRejection = async (
+  supabase: SupabaseClient,
+  req: Request,
+  config: WebhookAuthConfig,
+  reason: WebhookRejectionReason
+): Promise<void> => {
+  const ip = getClientIp(req);
+  console.warn(`${config.name}: rejected request from ${ip || 'unknown address'} (${reason})`);
+
+  const { error } = await supabase
+    .from('audit_logs')
+    .insert({
+      user_id: null,
+      action: `webhook_rejected:${config.name}:${reason}`,
+      table_name: config.tableName,
+      record_id: null,
+      // Only record addresses the inet column will accept
+      ip_address: ip && (ipv4ToNumber(ip) !== null || ip.includes(':')) ? ip : null,
+      user_agent: req.headers.get('user-agent'),
+    });
+
+  if (error) {
+    console.error('Error logging webhook rejection:', error);
+  }
+};
+
+// Builds a webhook's URL with its secret as the token query parameter, for
+// providers that can't send custom headers
+export const withWebhookToken = (url: string, envPrefix: string): string => {
+  const secret = Deno.env.get(`${envPrefix}_WEBHOOK_SECRET`);
+  if (!secret) return url;
+
+  const tokenUrl = new URL(url);
+  tokenUrl.searchParams.set('token', secret);
+  return tokenUrl.toString();
+};
+
+// SHA-256 of a webhook's secret, or null if it has none. Lets a registration
+// notice that the secret changed without the secret itself being stored.
+export const webhookTokenFingerprint = async (envPrefix: string): Promise<string | null> => {
+  const secret = Deno.env.get(`${envPrefix}_WEBHOOK_SECRET`);
+  if (!secret) return null;
+
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
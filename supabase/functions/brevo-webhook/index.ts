@@ -1,11 +1,20 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { authenticateWebhook, logWebhookRejection, WebhookAuthConfig } from '../_shared/webhookAuth.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Brevo webhooks are set up with the secret in an X-Webhook-Token header (or
+// ?token= on the URL), and can also be limited to Brevo's published IP ranges
+const WEBHOOK_AUTH: WebhookAuthConfig = {
+  name: 'brevo-webhook',
+  envPrefix: 'BREVO',
+  tableName: 'message_delivery_logs',
+};
+
 interface BrevoEmailWebhookEvent {
   event: 'delivered' | 'soft_bounce' | 'hard_bounce' | 'spam' | 'blocked' | 'invalid_email' | 'deferred' | 'click' | 'opened' | 'unique_opened';
   email: string;
@@ -43,6 +52,18 @@ const handler = async (req: Request): Promise<Response> => {
       supabaseServiceKey
     );
 
+    const auth = authenticateWebhook(req, WEBHOOK_AUTH);
+    if (!auth.authorized) {
+      await logWebhookRejection(supabase, req, WEBHOOK_AUTH, auth.reason);
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        {
+          status: auth.status,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
     const webhookData = await req.json();
     console.log('Received Brevo webhook:', JSON.stringify(webhookData, null, 2));
 
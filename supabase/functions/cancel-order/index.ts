@@ -0,0 +1,148 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface CancelOrderRequest {
+  orderId: string;
+  reason: string;
+  refundAmount?: number;
+  refundReason?: string;
+}
+
+interface CancelOrderResult {
+  already_cancelled: boolean;
+  previous_status: string;
+  restocked: Array<{ productId: string; quantity: number; oldStock: number; newStock: number; }>;
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const jsonResponse = (body: Record<string, unknown>, status: number) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    // Create service role client for bypassing RLS
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+
+    console.log('Cancel order function called');
+
+    // Callers are either other edge functions using the service role key
+    // (e.g. a failed Pesapal payment) or a signed-in admin
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ success: false, error: 'Missing authorization header' }, 401);
+    }
+
+    const isServerCall = authHeader === `Bearer ${supabaseServiceKey}`;
+    let userId: string | null = null;
+
+    if (!isServerCall) {
+      const supabaseClient = createClient(
+        supabaseUrl,
+        Deno.env.get('SUPABASE_ANON_KEY')!,
+        {
+          global: {
+            headers: { Authorization: authHeader },
+          },
+        }
+      );
+
+      const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+      if (authError || !user) {
+        console.error('JWT validation failed:', authError?.message);
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+      }
+
+      const { data: userRole } = await supabaseService
+        .from('user_roles')
+        .select('role')
+        .eq('user_id', user.id)
+        .eq('role', 'admin')
+        .single();
+
+      if (!userRole) {
+        console.error('User is not an admin');
+        return jsonResponse({ success: false, error: 'Access denied' }, 403);
+      }
+
+      userId = user.id;
+    }
+
+    // Parse request body
+    const { orderId, reason, refundAmount, refundReason }: CancelOrderRequest = await req.json();
+    if (!orderId) {
+      return jsonResponse({ success: false, error: 'Order ID is required' }, 400);
+    }
+
+    if (!reason?.trim()) {
+      return jsonResponse({ success: false, error: 'A cancellation reason is required' }, 400);
+    }
+
+    if (refundAmount !== undefined && (!Number.isFinite(refundAmount) || refundAmount < 0)) {
+      return jsonResponse({ success: false, error: 'Refund amount must be a positive number' }, 400);
+    }
+
+    console.log(`Processing cancellation for order ID: ${orderId}`);
+
+    // Restock, refund and status change happen in a single transaction
+    const { data, error: cancelError } = await supabaseService.rpc('cancel_order', {
+      p_order_id: orderId,
+      p_reason: reason.trim(),
+      p_refund_amount: refundAmount ?? 0,
+      p_refund_reason: refundReason?.trim() || null,
+      p_actor_id: userId,
+    });
+
+    if (cancelError) {
+      console.error('Error cancelling order:', cancelError);
+      const status = cancelError.code === 'P0002' ? 404 : cancelError.code === '23514' ? 409 : 500;
+      return jsonResponse({ success: false, error: cancelError.message }, status);
+    }
+
+    const result = data as CancelOrderResult;
+
+    const { data: updatedOrder } = await supabaseService
+      .from('orders')
+      .select('*')
+      .eq('id', orderId)
+      .single();
+
+    if (result.already_cancelled) {
+      console.log('Order already cancelled, nothing to do');
+      return jsonResponse({
+        success: true,
+        order: updatedOrder,
+        restocked: [],
+        message: 'Order was already cancelled'
+      }, 200);
+    }
+
+    console.log(`Cancelled order ${orderId} (was ${result.previous_status}) with ${result.restocked.length} restocked products`);
+
+    return jsonResponse({
+      success: true,
+      order: updatedOrder,
+      restocked: result.restocked,
+      message: result.restocked.length > 0
+        ? `Order cancelled and ${result.restocked.length} products restocked`
+        : 'Order cancelled successfully'
+    }, 200);
+
+  } catch (error) {
+    console.error('Unexpected error in cancel-order function:', error);
+    return jsonResponse({ success: false, error: 'Internal server error' }, 500);
+  }
+});
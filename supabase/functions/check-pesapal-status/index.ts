@@ -1,4 +1,5 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0'
+import { createClient, FunctionsHttpError } from 'https://esm.sh/@supabase/supabase-js@2.55.0'
+import { getTransactionStatus, mapPesapalStatus, PesapalStatusResponse } from '../_shared/pesapal.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -9,36 +10,31 @@ interface PesapalStatusRequest {
   trackingId: string;
 }
 
-interface PesapalAuthResponse {
-  token: string;
-  expiryDate: string;
-  error: string | null;
-  status: string;
-  message: string;
-}
+// Pesapal amounts are decimals, so allow for rounding to the cent
+const AMOUNT_TOLERANCE = 0.01;
 
-interface PesapalStatusResponse {
-  payment_method: string;
-  amount: number;
-  created_date: string;
-  confirmation_code: string;
-  payment_status_description: string;
-  description: string;
-  message: string;
-  payment_account: string;
-  call_back_url: string;
-  status_code: number;
-  merchant_reference: string;
-  payment_status_code: string;
-  currency: string;
-  error: {
-    error_type: string | null;
-    code: string | null;
-    message: string | null;
-    call_back_url: string | null;
-  };
-  status: string;
-}
+// Explain why a completed payment can't complete its order, or null if it can
+const getPaymentReviewReason = (statusData: PesapalStatusResponse, expectedAmount: number): string | null => {
+  const currency = (statusData.currency || '').toUpperCase();
+  if (currency !== 'KES') {
+    return `paid in ${currency || 'an unknown currency'} instead of KES`;
+  }
+
+  const paidAmount = Number(statusData.amount);
+  if (!Number.isFinite(paidAmount)) {
+    return 'Pesapal did not report the amount paid';
+  }
+
+  if (paidAmount < expectedAmount - AMOUNT_TOLERANCE) {
+    return `underpaid: KES ${paidAmount.toFixed(2)} received, KES ${expectedAmount.toFixed(2)} due`;
+  }
+
+  if (paidAmount > expectedAmount + AMOUNT_TOLERANCE) {
+    return `overpaid: KES ${paidAmount.toFixed(2)} received, KES ${expectedAmount.toFixed(2)} due`;
+  }
+
+  return null;
+};
 
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -48,16 +44,58 @@ Deno.serve(async (req) => {
   try {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const pesapalConsumerKey = Deno.env.get('PESAPAL_CONSUMER_KEY')!;
-    const pesapalConsumerSecret = Deno.env.get('PESAPAL_CONSUMER_SECRET')!;
-    
-    // Use production URL - change to sandbox if needed
-    const pesapalBaseUrl = 'https://pay.pesapal.com/v3';
-    
+
     const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
 
     console.log('check-pesapal-status function called');
 
+    // Checking a status can complete or cancel its order, so callers are
+    // either other edge functions using the service role key (pesapal-callback,
+    // reconcile-pesapal-transactions) or a signed-in admin
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Missing authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (authHeader !== `Bearer ${supabaseServiceKey}`) {
+      const supabaseClient = createClient(
+        supabaseUrl,
+        Deno.env.get('SUPABASE_ANON_KEY')!,
+        {
+          global: {
+            headers: { Authorization: authHeader },
+          },
+        }
+      );
+
+      const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+      if (authError || !user) {
+        console.error('JWT validation failed:', authError?.message);
+        return new Response(
+          JSON.stringify({ success: false, error: 'Unauthorized' }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const { data: userRole } = await supabaseService
+        .from('user_roles')
+        .select('role')
+        .eq('user_id', user.id)
+        .eq('role', 'admin')
+        .maybeSingle();
+
+      if (!userRole) {
+        console.error('User is not an admin');
+        return new Response(
+          JSON.stringify({ success: false, error: 'Access denied' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
     const { trackingId }: PesapalStatusRequest = await req.json();
     
     if (!trackingId) {
@@ -69,76 +107,23 @@ Deno.serve(async (req) => {
 
     console.log('Checking Pesapal status for tracking ID:', trackingId);
 
-    // Step 1: Get Pesapal OAuth token
-    console.log('Requesting Pesapal OAuth token...');
-    const authResponse = await fetch(`${pesapalBaseUrl}/api/Auth/RequestToken`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-      body: JSON.stringify({
-        consumer_key: pesapalConsumerKey,
-        consumer_secret: pesapalConsumerSecret,
-      }),
-    });
-
-    if (!authResponse.ok) {
-      const authError = await authResponse.text();
-      console.error('Pesapal auth failed:', authError);
-      return new Response(
-        JSON.stringify({ success: false, error: 'Failed to authenticate with Pesapal' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const authData: PesapalAuthResponse = await authResponse.json();
-    const token = authData.token;
-    console.log('Successfully obtained Pesapal token');
-
-    // Step 2: Query transaction status
-    console.log('Querying transaction status from Pesapal...');
-    const statusResponse = await fetch(
-      `${pesapalBaseUrl}/api/Transactions/GetTransactionStatus?orderTrackingId=${trackingId}`,
-      {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-          'Accept': 'application/json',
-        },
-      }
-    );
-
-    if (!statusResponse.ok) {
-      const statusError = await statusResponse.text();
-      console.error('Failed to get transaction status:', statusError);
+    // Step 1: Query transaction status from Pesapal
+    let statusData: PesapalStatusResponse;
+    try {
+      statusData = await getTransactionStatus(trackingId);
+    } catch (pesapalError) {
+      console.error('Failed to get transaction status:', pesapalError);
       return new Response(
         JSON.stringify({ success: false, error: 'Failed to get transaction status from Pesapal' }),
         { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
-
-    const statusData: PesapalStatusResponse = await statusResponse.json();
     console.log('Pesapal status response:', JSON.stringify(statusData, null, 2));
 
-    const paymentStatus = statusData.payment_status_description;
-    const statusCode = statusData.status_code;
-
-    // Map Pesapal status to our status
-    let mappedStatus: 'PENDING' | 'COMPLETED' | 'FAILED' | 'CANCELLED' = 'PENDING';
-    
-    if (statusCode === 1 || paymentStatus === 'Completed') {
-      mappedStatus = 'COMPLETED';
-    } else if (statusCode === 2 || paymentStatus === 'Failed') {
-      mappedStatus = 'FAILED';
-    } else if (statusCode === 3 || paymentStatus === 'Cancelled') {
-      mappedStatus = 'CANCELLED';
-    }
-
-    console.log('Mapped status:', mappedStatus, 'from Pesapal status:', paymentStatus);
+    const mappedStatus = mapPesapalStatus(statusData);
+    console.log('Mapped status:', mappedStatus, 'from Pesapal status:', statusData.payment_status_description);
 
-    // Step 3: Find and update the transaction
+    // Step 2: Find and update the transaction
     const { data: transaction, error: transactionError } = await supabaseService
       .from('pesapal_transactions')
       .select('*')
@@ -155,10 +140,14 @@ Deno.serve(async (req) => {
 
     console.log('Found transaction:', transaction.id, 'for order:', transaction.order_id);
 
-    // Update transaction status
+    // Update transaction status and record what Pesapal says was paid
     const { error: updateError } = await supabaseService
       .from('pesapal_transactions')
-      .update({ status: mappedStatus })
+      .update({
+        status: mappedStatus,
+        reported_amount: statusData.amount ?? null,
+        reported_currency: statusData.currency || null,
+      })
       .eq('id', transaction.id);
 
     if (updateError) {
@@ -167,8 +156,69 @@ Deno.serve(async (req) => {
       console.log('Updated transaction status to:', mappedStatus);
     }
 
-    // Step 4: Handle order status based on payment result
+    // A completed payment that can't complete its order is left for an admin:
+    // the order is held in payment_review, or admins are notified if it was
+    // already cancelled. Pesapal's part is done either way, so this isn't an
+    // error it should retry.
+    const holdForPaymentReview = async (reviewReason: string) => {
+      console.warn('Holding order', transaction.order_id, 'for payment review:', reviewReason);
+
+      await supabaseService
+        .from('pesapal_transactions')
+        .update({ review_reason: reviewReason })
+        .eq('id', transaction.id);
+
+      const { data: holdResult, error: holdError } = await supabaseService.rpc('hold_order_for_payment_review', {
+        p_order_id: transaction.order_id,
+        p_reason: reviewReason,
+      });
+
+      if (holdError) {
+        console.error('Error holding order for payment review:', holdError);
+        return new Response(
+          JSON.stringify({ success: false, error: 'Failed to hold order for review: ' + holdError.message }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          status: mappedStatus,
+          orderId: transaction.order_id,
+          orderStatus: holdResult?.status,
+          reviewReason,
+          message: holdResult?.held
+            ? `Payment held for review: ${reviewReason}`
+            : `Payment needs review (${reviewReason}) but the order is already ${holdResult?.status}`
+        }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    };
+
+    // Step 3: Handle order status based on payment result
     if (mappedStatus === 'COMPLETED') {
+      // Only release stock when Pesapal collected the full order amount in KES
+      const { data: order, error: orderError } = await supabaseService
+        .from('orders')
+        .select('total_amount, delivery_fee')
+        .eq('id', transaction.order_id)
+        .single();
+
+      if (orderError || !order) {
+        console.error('Order not found:', transaction.order_id, orderError);
+        return new Response(
+          JSON.stringify({ success: false, error: 'Order not found' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const reviewReason = getPaymentReviewReason(statusData, Number(order.total_amount) + Number(order.delivery_fee || 0));
+
+      if (reviewReason) {
+        return await holdForPaymentReview(reviewReason);
+      }
+
       console.log('Payment completed, invoking complete-order function...');
       
       const { data: completeOrderData, error: completeOrderError } = await supabaseService.functions.invoke(
@@ -176,6 +226,15 @@ Deno.serve(async (req) => {
         { body: { orderId: transaction.order_id } }
       );
 
+      // complete-order answers 409 when the order can't be completed as it
+      // stands: it was cancelled, or stock ran short since it was placed
+      if (completeOrderError instanceof FunctionsHttpError && completeOrderError.context.status === 409) {
+        const errorBody = await completeOrderError.context.json().catch(() => null);
+        return await holdForPaymentReview(
+          `paid, but the order couldn't be completed: ${errorBody?.error || completeOrderError.message}`
+        );
+      }
+
       if (completeOrderError) {
         console.error('Error calling complete-order:', completeOrderError);
         return new Response(
@@ -211,19 +270,34 @@ Deno.serve(async (req) => {
       );
 
     } else if (mappedStatus === 'FAILED' || mappedStatus === 'CANCELLED') {
-      console.log('Payment failed/cancelled, updating order status...');
-      
-      await supabaseService
-        .from('orders')
-        .update({ status: 'cancelled' })
-        .eq('id', transaction.order_id);
+      console.log('Payment failed/cancelled, cancelling the order if nothing else has paid for it...');
+
+      const { data: cancelResult, error: cancelError } = await supabaseService.rpc('cancel_order_for_failed_payment', {
+        p_order_id: transaction.order_id,
+        p_transaction_id: transaction.id,
+        p_reason: `Pesapal payment ${mappedStatus}`,
+      });
+
+      if (cancelError) {
+        console.error('Error cancelling order for failed payment:', cancelError);
+        return new Response(
+          JSON.stringify({ 
+            success: false, 
+            error: 'Failed to cancel order: ' + cancelError.message
+          }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
 
       return new Response(
         JSON.stringify({ 
           success: true, 
           status: mappedStatus,
           orderId: transaction.order_id,
-          message: 'Payment failed/cancelled, order marked as cancelled'
+          orderStatus: cancelResult.order_status,
+          message: cancelResult.cancelled
+            ? 'Payment failed/cancelled, order marked as cancelled'
+            : `Payment failed/cancelled, order not cancelled because ${cancelResult.skipped_reason}`
         }),
         { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
@@ -5,13 +5,6 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
-interface OrderItem {
-  id: string;
-  product_id: string;
-  quantity: number;
-  unit_price: number;
-}
-
 interface Order {
   id: string;
   user_id: string;
@@ -22,12 +15,28 @@ interface Order {
 
 interface CompleteOrderRequest {
   orderId: string;
+  reason?: string;
+}
+
+interface StockShortage {
+  productId: string;
+  productName: string | null;
+  requested: number;
+  available: number;
+}
+
+interface CompleteOrderResult {
+  result: 'completed' | 'already_completed' | 'invalid_status' | 'insufficient_stock';
+  status?: string;
+  stock_updates?: Array<{ productId: string; oldStock: number; newStock: number; }>;
+  shortages?: StockShortage[];
 }
 
 interface CompleteOrderResponse {
   success: boolean;
   order?: Order;
   stockUpdates?: Array<{ productId: string; oldStock: number; newStock: number; }>;
+  shortages?: StockShortage[];
   message?: string;
   error?: string;
 }
@@ -45,39 +54,71 @@ Deno.serve(async (req) => {
     // Create service role client for bypassing RLS
     const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
     
-    // Create client for validating user session
-    const supabaseClient = createClient(
-      supabaseUrl, 
-      Deno.env.get('SUPABASE_ANON_KEY')!,
-      {
-        global: {
-          headers: { Authorization: req.headers.get('Authorization')! },
-        },
-      }
-    );
-
     console.log('Complete order function called');
 
-    // Try to validate JWT and get user, but allow server-to-server calls
-    let user = null;
-    let isServerCall = false;
-
+    // Completing an order takes its stock, so callers are either other edge
+    // functions using the service role key (check-pesapal-status) or a
+    // signed-in admin
     const authHeader = req.headers.get('Authorization');
-    if (authHeader) {
-      const { data: { user: authUser }, error: authError } = await supabaseClient.auth.getUser();
-      if (!authError && authUser) {
-        user = authUser;
-      } else {
-        console.log('JWT validation failed, treating as server call:', authError?.message);
-        isServerCall = true;
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Missing authorization header' }),
+        { 
+          status: 401, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const isServerCall = authHeader === `Bearer ${supabaseServiceKey}`;
+    let userId: string | null = null;
+
+    if (!isServerCall) {
+      const supabaseClient = createClient(
+        supabaseUrl, 
+        Deno.env.get('SUPABASE_ANON_KEY')!,
+        {
+          global: {
+            headers: { Authorization: authHeader },
+          },
+        }
+      );
+
+      const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+      if (authError || !user) {
+        console.error('JWT validation failed:', authError?.message);
+        return new Response(
+          JSON.stringify({ success: false, error: 'Unauthorized' }),
+          { 
+            status: 401, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        );
+      }
+
+      const { data: userRole } = await supabaseService
+        .from('user_roles')
+        .select('role')
+        .eq('user_id', user.id)
+        .eq('role', 'admin')
+        .maybeSingle();
+
+      if (!userRole) {
+        console.error('User is not an admin');
+        return new Response(
+          JSON.stringify({ success: false, error: 'Access denied' }),
+          { 
+            status: 403, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        );
       }
-    } else {
-      console.log('No authorization header, treating as server call');
-      isServerCall = true;
+
+      userId = user.id;
     }
 
     // Parse request body
-    const { orderId }: CompleteOrderRequest = await req.json();
+    const { orderId, reason }: CompleteOrderRequest = await req.json();
     if (!orderId) {
       return new Response(
         JSON.stringify({ success: false, error: 'Order ID is required' }),
@@ -108,32 +149,6 @@ Deno.serve(async (req) => {
       );
     }
 
-    // Authorization check - skip for server calls, check ownership/admin for user calls
-    if (!isServerCall && user) {
-      const { data: userRole } = await supabaseService
-        .from('user_roles')
-        .select('role')
-        .eq('user_id', user.id)
-        .eq('role', 'admin')
-        .single();
-
-      const isAdmin = !!userRole;
-      const ownsOrder = order.user_id === user.id;
-
-      if (!isAdmin && !ownsOrder) {
-        console.error('User does not own order and is not admin');
-        return new Response(
-          JSON.stringify({ success: false, error: 'Access denied' }),
-          { 
-            status: 403, 
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-          }
-        );
-      }
-    } else if (isServerCall) {
-      console.log('Server-to-server call, skipping user authorization');
-    }
-
     // Check if order is already completed (idempotent)
     if (order.status === 'completed') {
       console.log('Order already completed, returning early');
@@ -150,92 +165,88 @@ Deno.serve(async (req) => {
       );
     }
 
-    // Fetch order items
-    const { data: orderItems, error: itemsError } = await supabaseService
-      .from('order_items')
-      .select('*')
-      .eq('order_id', orderId);
-
-    if (itemsError || !orderItems || orderItems.length === 0) {
-      console.error('Error fetching order items:', itemsError);
+    // Only pending and processing orders can move to completed
+    if (order.status !== 'pending' && order.status !== 'processing') {
+      console.error(`Order ${orderId} cannot be completed from status ${order.status}`);
       return new Response(
-        JSON.stringify({ success: false, error: 'Could not fetch order items' }),
+        JSON.stringify({ success: false, error: `Cannot complete an order that is ${order.status}` }),
         { 
-          status: 500, 
+          status: 409, 
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         }
       );
     }
 
-    console.log(`Found ${orderItems.length} items to process`);
+    // Stock check, decrement, stock movements and the status change run in a
+    // single locked transaction. Nothing changes if any item is short.
+    const { data: completion, error: completionError } = await supabaseService.rpc('complete_order', {
+      p_order_id: orderId,
+      p_reason: reason || (isServerCall ? 'Payment confirmed' : null),
+      p_actor_id: userId,
+    });
 
-    // Process stock updates
-    const stockUpdates: Array<{ productId: string; oldStock: number; newStock: number; }> = [];
-    
-    for (const item of orderItems as OrderItem[]) {
-      // Get current product stock
-      const { data: product, error: productError } = await supabaseService
-        .from('products')
-        .select('stock')
-        .eq('id', item.product_id)
-        .single();
-
-      if (productError || !product) {
-        console.error(`Error fetching product ${item.product_id}:`, productError);
-        continue;
-      }
-
-      const oldStock = product.stock;
-      const newStock = Math.max(0, oldStock - item.quantity);
-
-      // Update product stock
-      const { error: updateError } = await supabaseService
-        .from('products')
-        .update({ stock: newStock })
-        .eq('id', item.product_id);
+    if (completionError) {
+      console.error('Error completing order:', completionError);
 
-      if (updateError) {
-        console.error(`Error updating stock for product ${item.product_id}:`, updateError);
+      // Orders that haven't been paid in full are refused by the database
+      if (completionError.code === '23514') {
         return new Response(
-          JSON.stringify({ 
-            success: false, 
-            error: `Failed to update stock for product ${item.product_id}` 
-          }),
-          { 
-            status: 500, 
+          JSON.stringify({ success: false, error: completionError.message }),
+          {
+            status: 409,
             headers: { ...corsHeaders, 'Content-Type': 'application/json' }
           }
         );
       }
 
-      stockUpdates.push({
-        productId: item.product_id,
-        oldStock,
-        newStock
-      });
-
-      console.log(`Updated product ${item.product_id} stock: ${oldStock} -> ${newStock}`);
+      return new Response(
+        JSON.stringify({ success: false, error: 'Failed to complete order: ' + completionError.message }),
+        { 
+          status: 500, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
     }
 
-    // Update order status to completed
-    const { data: updatedOrder, error: statusUpdateError } = await supabaseService
-      .from('orders')
-      .update({ status: 'completed' })
-      .eq('id', orderId)
-      .select()
-      .single();
+    const result = completion as CompleteOrderResult;
+
+    if (result.result === 'insufficient_stock') {
+      console.error(`Insufficient stock to complete order ${orderId}:`, result.shortages);
+      const response: CompleteOrderResponse = {
+        success: false,
+        shortages: result.shortages,
+        error: 'Insufficient stock: ' + result.shortages!
+          .map((shortage) => `${shortage.productName || shortage.productId} (requested ${shortage.requested}, available ${shortage.available})`)
+          .join(', ')
+      };
+      return new Response(
+        JSON.stringify(response),
+        { 
+          status: 409, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
 
-    if (statusUpdateError) {
-      console.error('Error updating order status:', statusUpdateError);
+    if (result.result === 'invalid_status') {
+      console.error(`Order ${orderId} cannot be completed from status ${result.status}`);
       return new Response(
-        JSON.stringify({ success: false, error: 'Failed to update order status' }),
+        JSON.stringify({ success: false, error: `Cannot complete an order that is ${result.status}` }),
         { 
-          status: 500, 
+          status: 409, 
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         }
       );
     }
 
+    const stockUpdates = result.stock_updates || [];
+
+    const { data: updatedOrder } = await supabaseService
+      .from('orders')
+      .select('*')
+      .eq('id', orderId)
+      .single();
+
     console.log(`Successfully completed order ${orderId} with ${stockUpdates.length} stock updates`);
 
     const response: CompleteOrderResponse = {
@@ -0,0 +1,178 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface CreateCustomerRequest {
+  fullName: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+}
+
+// Creates a customer account for orders taken over the phone or WhatsApp.
+// Profiles belong to auth users, so the user is created first and the profile
+// filled in from the details the admin entered. No password is set; the
+// customer can claim the account later through password recovery.
+serve(async (req: Request) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    // Create admin client with service role
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    });
+
+    // Verify the requesting user is an admin
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: "No authorization header" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: { user: requestingUser }, error: authError } = await supabaseAdmin.auth.getUser(token);
+
+    if (authError || !requestingUser) {
+      return new Response(JSON.stringify({ error: "Invalid token" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { data: roleData, error: roleError } = await supabaseAdmin
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", requestingUser.id)
+      .eq("role", "admin")
+      .single();
+
+    if (roleError || !roleData) {
+      return new Response(JSON.stringify({ error: "Unauthorized: Admin access required" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { fullName, phone, email, address }: CreateCustomerRequest = await req.json();
+    const normalizedEmail = email?.trim().toLowerCase() || undefined;
+    const normalizedPhone = phone?.replace(/\s+/g, "") || undefined;
+
+    if (!fullName?.trim()) {
+      return new Response(JSON.stringify({ error: "Full name is required" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (!normalizedEmail && !normalizedPhone) {
+      return new Response(JSON.stringify({ error: "A phone number or email is required" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Don't create duplicates of customers who already have a profile
+    const matchFilters = [
+      normalizedEmail ? `email.eq.${normalizedEmail}` : null,
+      normalizedPhone ? `phone.eq.${normalizedPhone}` : null,
+    ].filter(Boolean).join(",");
+
+    const { data: existingProfile } = await supabaseAdmin
+      .from("profiles")
+      .select("*")
+      .or(matchFilters)
+      .limit(1)
+      .maybeSingle();
+
+    if (existingProfile) {
+      return new Response(JSON.stringify({
+        error: "A customer with this phone number or email already exists",
+        profile: existingProfile,
+      }), {
+        status: 409,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    console.log(`Creating customer: ${normalizedEmail || normalizedPhone}`);
+
+    const { data: newUser, error: createError } = await supabaseAdmin.auth.admin.createUser({
+      email: normalizedEmail,
+      phone: normalizedPhone,
+      email_confirm: !!normalizedEmail,
+      phone_confirm: !!normalizedPhone,
+      user_metadata: {
+        full_name: fullName.trim(),
+      },
+    });
+
+    if (createError) {
+      console.error("Error creating user:", createError);
+      return new Response(JSON.stringify({ error: createError.message }), {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { data: profile, error: profileError } = await supabaseAdmin
+      .from("profiles")
+      .upsert({
+        id: newUser.user.id,
+        full_name: fullName.trim(),
+        email: normalizedEmail || null,
+        phone: normalizedPhone || null,
+        address: address?.trim() || null,
+      })
+      .select()
+      .single();
+
+    if (profileError) {
+      console.error("Error saving customer profile:", profileError);
+      // Rollback: delete the user
+      await supabaseAdmin.auth.admin.deleteUser(newUser.user.id);
+      return new Response(JSON.stringify({ error: "Failed to save customer profile" }), {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Log the action
+    await supabaseAdmin.from("audit_logs").insert({
+      user_id: requestingUser.id,
+      action: `CREATED_CUSTOMER: ${normalizedEmail || normalizedPhone}`,
+      table_name: "profiles",
+      record_id: newUser.user.id,
+    });
+
+    return new Response(JSON.stringify({
+      success: true,
+      message: "Customer created successfully",
+      profile,
+    }), {
+      status: 200,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  } catch (error) {
+    console.error("Error in create-customer:", error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
@@ -0,0 +1,355 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0'
+import { getPesapalBaseUrl, PesapalApiError, registerIpn, submitOrderRequest } from '../_shared/pesapal.ts'
+import { webhookTokenFingerprint, withWebhookToken } from '../_shared/webhookAuth.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+type NotifyChannel = 'email' | 'sms';
+
+interface CreatePaymentRequest {
+  orderId: string;
+  notify?: NotifyChannel[];
+  forceNew?: boolean;
+}
+
+const BREVO_EMAIL_API = 'https://api.brevo.com/v3/smtp/email';
+const BREVO_SMS_API = 'https://api.brevo.com/v3/transactionalSMS/sms';
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const jsonResponse = (body: Record<string, unknown>, status: number) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    // Where Pesapal sends the customer after paying
+    const pesapalRedirectUrl = Deno.env.get('PESAPAL_CALLBACK_URL') || Deno.env.get('SITE_URL');
+    // pesapal-callback only accepts notifications carrying the webhook secret,
+    // which is added to the URL when it's registered. Registrations are
+    // readable by admins, so only the bare URL is stored, along with a
+    // fingerprint of the secret so a new secret gets registered afresh.
+    const ipnUrl = `${supabaseUrl}/functions/v1/pesapal-callback`;
+
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+
+    console.log('create-pesapal-payment function called');
+
+    if (!pesapalRedirectUrl) {
+      console.error('PESAPAL_CALLBACK_URL is not set');
+      return jsonResponse({ success: false, error: 'Payment redirect URL is not configured' }, 500);
+    }
+
+    // Callers are the storefront (the customer paying their own order), a
+    // signed-in admin generating a payment link, or another edge function
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ success: false, error: 'Missing authorization header' }, 401);
+    }
+
+    const isServerCall = authHeader === `Bearer ${supabaseServiceKey}`;
+    let userId: string | null = null;
+    let isAdmin = isServerCall;
+
+    if (!isServerCall) {
+      const supabaseClient = createClient(
+        supabaseUrl,
+        Deno.env.get('SUPABASE_ANON_KEY')!,
+        {
+          global: {
+            headers: { Authorization: authHeader },
+          },
+        }
+      );
+
+      const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+      if (authError || !user) {
+        console.error('JWT validation failed:', authError?.message);
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+      }
+
+      const { data: userRole } = await supabaseService
+        .from('user_roles')
+        .select('role')
+        .eq('user_id', user.id)
+        .eq('role', 'admin')
+        .maybeSingle();
+
+      userId = user.id;
+      isAdmin = !!userRole;
+    }
+
+    const { orderId, notify = [], forceNew = false }: CreatePaymentRequest = await req.json();
+    if (!orderId) {
+      return jsonResponse({ success: false, error: 'Order ID is required' }, 400);
+    }
+
+    if (notify.length > 0 && !isAdmin) {
+      return jsonResponse({ success: false, error: 'Only admins can send payment links' }, 403);
+    }
+
+    const { data: order, error: orderError } = await supabaseService
+      .from('orders')
+      .select('id, user_id, status, total_amount, delivery_fee, delivery_address, payment_method')
+      .eq('id', orderId)
+      .maybeSingle();
+
+    if (orderError || !order) {
+      console.error('Order not found:', orderId, orderError);
+      return jsonResponse({ success: false, error: 'Order not found' }, 404);
+    }
+
+    if (!isAdmin && order.user_id !== userId) {
+      return jsonResponse({ success: false, error: 'Access denied' }, 403);
+    }
+
+    if (order.status === 'completed' || order.status === 'cancelled') {
+      return jsonResponse({ success: false, error: `Order is already ${order.status}` }, 409);
+    }
+
+    if (order.payment_method !== 'pesapal') {
+      return jsonResponse({ success: false, error: `Order is paid by ${order.payment_method}, not Pesapal` }, 409);
+    }
+
+    const amount = Number(order.total_amount) + Number(order.delivery_fee || 0);
+
+    const { data: profile } = await supabaseService
+      .from('profiles')
+      .select('full_name, email, phone')
+      .eq('id', order.user_id)
+      .maybeSingle();
+
+    // Reuse the open payment request for this order if the amount still
+    // matches, so sending the link twice doesn't create two Pesapal orders
+    let transaction = null;
+    let reused = false;
+
+    if (!forceNew) {
+      const { data: existing } = await supabaseService
+        .from('pesapal_transactions')
+        .select('*')
+        .eq('order_id', order.id)
+        .eq('status', 'PENDING')
+        .not('iframe_url', 'is', null)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (existing && Number(existing.amount) === amount) {
+        transaction = existing;
+        reused = true;
+        console.log('Reusing pending Pesapal transaction:', existing.id);
+      }
+    }
+
+    if (!transaction) {
+      // Step 1: Register the IPN URL once per Pesapal environment and reuse
+      // its ID afterwards
+      const pesapalBaseUrl = getPesapalBaseUrl();
+      const tokenFingerprint = await webhookTokenFingerprint('PESAPAL');
+      let ipnId: string;
+      const { data: registration } = await supabaseService
+        .from('pesapal_ipn_registrations')
+        .select('ipn_id, token_fingerprint')
+        .eq('ipn_url', ipnUrl)
+        .eq('pesapal_base_url', pesapalBaseUrl)
+        .maybeSingle();
+
+      if (registration && registration.token_fingerprint === tokenFingerprint) {
+        ipnId = registration.ipn_id;
+      } else {
+        console.log('Registering Pesapal IPN URL for', pesapalBaseUrl);
+        const ipn = await registerIpn(withWebhookToken(ipnUrl, 'PESAPAL'), 'GET');
+
+        ipnId = ipn.ipn_id;
+        await supabaseService
+          .from('pesapal_ipn_registrations')
+          .upsert(
+            {
+              ipn_url: ipnUrl,
+              ipn_id: ipnId,
+              notification_type: 'GET',
+              pesapal_base_url: pesapalBaseUrl,
+              token_fingerprint: tokenFingerprint,
+            },
+            { onConflict: 'ipn_url,pesapal_base_url' }
+          );
+      }
+
+      // Step 2: Submit the order. Each attempt needs its own merchant reference.
+      const merchantReference = `${order.id}-${Date.now().toString(36)}`;
+      const [firstName, ...otherNames] = (profile?.full_name || '').trim().split(/\s+/);
+
+      console.log('Submitting Pesapal order request:', merchantReference);
+      const submitData = await submitOrderRequest({
+        id: merchantReference,
+        currency: 'KES',
+        amount,
+        description: `Order ${order.id.substring(0, 8)}`,
+        callback_url: pesapalRedirectUrl,
+        notification_id: ipnId,
+        billing_address: {
+          email_address: profile?.email || undefined,
+          phone_number: profile?.phone || undefined,
+          country_code: 'KE',
+          first_name: firstName || undefined,
+          last_name: otherNames.join(' ') || undefined,
+          line_1: order.delivery_address || undefined,
+        },
+      });
+
+      const { data: inserted, error: insertError } = await supabaseService
+        .from('pesapal_transactions')
+        .insert({
+          order_id: order.id,
+          merchant_reference: merchantReference,
+          pesapal_tracking_id: submitData.order_tracking_id,
+          iframe_url: submitData.redirect_url,
+          amount,
+          currency: 'KES',
+          customer_phone: profile?.phone || null,
+          status: 'PENDING',
+          created_by: userId,
+        })
+        .select()
+        .single();
+
+      if (insertError) {
+        console.error('Error storing Pesapal transaction:', insertError);
+        return jsonResponse({ success: false, error: 'Failed to store Pesapal transaction' }, 500);
+      }
+
+      transaction = inserted;
+      console.log('Created Pesapal transaction:', transaction.id, 'tracking ID:', submitData.order_tracking_id);
+    }
+
+    // Step 3: Send the link to the customer if asked to
+    const sentTo: NotifyChannel[] = [];
+    const notifyErrors: string[] = [];
+    const brevoApiKey = Deno.env.get('BREVO_API_KEY');
+
+    if (notify.length > 0 && !brevoApiKey) {
+      notifyErrors.push('BREVO_API_KEY is not set');
+    } else {
+      const greeting = profile?.full_name ? `Hi ${profile.full_name},` : 'Hello,';
+      const message = `${greeting} please pay Ksh ${amount.toFixed(2)} for order ${order.id.substring(0, 8)}: ${transaction.iframe_url}`;
+
+      if (notify.includes('email')) {
+        if (!profile?.email) {
+          notifyErrors.push('Customer has no email address');
+        } else {
+          const emailResponse = await fetch(BREVO_EMAIL_API, {
+            method: 'POST',
+            headers: {
+              'accept': 'application/json',
+              'api-key': brevoApiKey!,
+              'content-type': 'application/json',
+            },
+            body: JSON.stringify({
+              sender: {
+                name: Deno.env.get('BREVO_SENDER_NAME') || 'Lake Victoria Aquaculture',
+                email: Deno.env.get('BREVO_SENDER_EMAIL') || 'campaigns@lakevictoriaaquaculture.com',
+              },
+              to: [{ email: profile.email, name: profile.full_name || undefined }],
+              subject: `Payment for order ${order.id.substring(0, 8)}`,
+              // Customers set their own names, so nothing they typed goes into the HTML unescaped
+              htmlContent: `<p>${escapeHtml(greeting)}</p><p>Please pay <strong>Ksh ${amount.toFixed(2)}</strong> for your order ${order.id.substring(0, 8)}.</p><p><a href="${escapeHtml(transaction.iframe_url)}">Pay now with Pesapal</a></p>`,
+            }),
+          });
+
+          if (emailResponse.ok) {
+            sentTo.push('email');
+          } else {
+            console.error('Brevo email API error:', await emailResponse.text());
+            notifyErrors.push('Failed to send the payment link by email');
+          }
+        }
+      }
+
+      if (notify.includes('sms')) {
+        if (!profile?.phone) {
+          notifyErrors.push('Customer has no phone number');
+        } else {
+          const smsResponse = await fetch(BREVO_SMS_API, {
+            method: 'POST',
+            headers: {
+              'accept': 'application/json',
+              'api-key': brevoApiKey!,
+              'content-type': 'application/json',
+            },
+            body: JSON.stringify({
+              type: 'transactional',
+              unicodeEnabled: true,
+              recipient: profile.phone,
+              content: message,
+              sender: Deno.env.get('BREVO_SMS_SENDER') || 'LakeVic',
+            }),
+          });
+
+          if (smsResponse.ok) {
+            sentTo.push('sms');
+          } else {
+            console.error('Brevo SMS API error:', await smsResponse.text());
+            notifyErrors.push('Failed to send the payment link by SMS');
+          }
+        }
+      }
+    }
+
+    if (sentTo.length > 0) {
+      await supabaseService
+        .from('pesapal_transactions')
+        .update({ link_sent_to: Array.from(new Set([...(transaction.link_sent_to || []), ...sentTo])) })
+        .eq('id', transaction.id);
+
+      await supabaseService
+        .from('audit_logs')
+        .insert({
+          user_id: userId,
+          action: `payment_link_sent:${sentTo.join(',')}`,
+          table_name: 'pesapal_transactions',
+          record_id: transaction.id,
+        });
+    }
+
+    return jsonResponse({
+      success: true,
+      orderId: order.id,
+      transactionId: transaction.id,
+      trackingId: transaction.pesapal_tracking_id,
+      merchantReference: transaction.merchant_reference,
+      paymentUrl: transaction.iframe_url,
+      amount,
+      reused,
+      sentTo,
+      notifyErrors,
+    }, 200);
+
+  } catch (error) {
+    if (error instanceof PesapalApiError) {
+      console.error('Pesapal request failed:', error.message, error.details);
+      return jsonResponse({ success: false, error: error.message }, 502);
+    }
+
+    console.error('Unexpected error in create-pesapal-payment:', error);
+    return jsonResponse({ success: false, error: 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,177 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0'
+import { getTransactionStatus, PesapalApiError, requestRefund } from '../_shared/pesapal.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface RefundItemRequest {
+  orderItemId: string;
+  quantity: number;
+}
+
+interface CreateRefundRequest {
+  orderId: string;
+  amount: number;
+  reason: string;
+  items?: RefundItemRequest[];
+}
+
+interface CreateRefundResult {
+  refund_id: string;
+  pesapal_transaction_id: string | null;
+  pesapal_tracking_id: string | null;
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const jsonResponse = (body: Record<string, unknown>, status: number) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+
+    console.log('create-refund function called');
+
+    // Only signed-in admins issue refunds, so Pesapal gets a real username
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ success: false, error: 'Missing authorization header' }, 401);
+    }
+
+    const supabaseClient = createClient(
+      supabaseUrl,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      {
+        global: {
+          headers: { Authorization: authHeader },
+        },
+      }
+    );
+
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+    if (authError || !user) {
+      console.error('JWT validation failed:', authError?.message);
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const { data: userRole } = await supabaseService
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', user.id)
+      .eq('role', 'admin')
+      .maybeSingle();
+
+    if (!userRole) {
+      console.error('User is not an admin');
+      return jsonResponse({ success: false, error: 'Access denied' }, 403);
+    }
+
+    const { orderId, amount, reason, items = [] }: CreateRefundRequest = await req.json();
+    if (!orderId) {
+      return jsonResponse({ success: false, error: 'Order ID is required' }, 400);
+    }
+
+    if (!Number.isFinite(amount) || amount <= 0) {
+      return jsonResponse({ success: false, error: 'Refund amount must be a positive number' }, 400);
+    }
+
+    if (!reason?.trim()) {
+      return jsonResponse({ success: false, error: 'A refund reason is required' }, 400);
+    }
+
+    // Step 1: Record the refund. The database checks it against what's left
+    // to refund on the order and each item, under a lock on the order.
+    const { data: created, error: createError } = await supabaseService.rpc('create_refund', {
+      p_order_id: orderId,
+      p_amount: amount,
+      p_reason: reason,
+      p_items: items,
+      p_actor_id: user.id,
+    });
+
+    if (createError) {
+      console.error('Error creating refund:', createError);
+      if (createError.code === '23514') {
+        return jsonResponse({ success: false, error: createError.message }, 400);
+      }
+      if (createError.code === 'P0002') {
+        return jsonResponse({ success: false, error: createError.message }, 404);
+      }
+      return jsonResponse({ success: false, error: 'Failed to create refund' }, 500);
+    }
+
+    const refund = created as CreateRefundResult;
+    console.log('Created refund:', refund.refund_id, 'for order:', orderId);
+
+    // Step 2: Ask Pesapal to return the money. Orders paid any other way are
+    // refunded by hand, so recording them is all there is to do.
+    let status: 'requested' | 'completed' | 'failed';
+    let refundError: string | null = null;
+
+    if (refund.pesapal_tracking_id) {
+      try {
+        const payment = await getTransactionStatus(refund.pesapal_tracking_id);
+        const response = await requestRefund({
+          confirmation_code: payment.confirmation_code,
+          amount,
+          username: user.email || user.id,
+          remarks: reason.trim(),
+        });
+
+        status = 'requested';
+        await supabaseService
+          .from('refunds')
+          .update({ status, provider_reference: payment.confirmation_code, provider_response: response })
+          .eq('id', refund.refund_id);
+      } catch (error) {
+        // Any failure here (Pesapal rejecting the request, a network error,
+        // a bad response) leaves the refund failed rather than pending forever
+        const details = error instanceof PesapalApiError ? error.details ?? null : null;
+        console.error('Pesapal refund request failed:', error, details);
+        status = 'failed';
+        refundError = error instanceof Error ? error.message : 'Pesapal refund request failed';
+        await supabaseService
+          .from('refunds')
+          .update({ status, error: refundError, provider_response: details })
+          .eq('id', refund.refund_id);
+      }
+    } else {
+      status = 'completed';
+      await supabaseService
+        .from('refunds')
+        .update({ status, completed_at: new Date().toISOString() })
+        .eq('id', refund.refund_id);
+    }
+
+    await supabaseService
+      .from('audit_logs')
+      .insert({
+        user_id: user.id,
+        action: `refund_${status}`,
+        table_name: 'refunds',
+        record_id: refund.refund_id,
+      });
+
+    if (refundError) {
+      return jsonResponse({ success: false, refundId: refund.refund_id, status, error: refundError }, 502);
+    }
+
+    return jsonResponse({ success: true, refundId: refund.refund_id, status }, 200);
+
+  } catch (error) {
+    console.error('Unexpected error in create-refund:', error);
+    return jsonResponse({ success: false, error: 'Internal server error' }, 500);
+  }
+});
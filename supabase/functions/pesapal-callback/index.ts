@@ -1,19 +1,24 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0'
+import {
+  findCallbackTransaction,
+  PesapalCallbackPayload,
+  PesapalCallbackRow,
+  processPesapalCallback,
+  SETTLED_TRANSACTION_STATUS,
+} from '../_shared/pesapalCallbacks.ts'
+import { authenticateWebhook, logWebhookRejection, WebhookAuthConfig } from '../_shared/webhookAuth.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
-interface PesapalCallback {
-  OrderTrackingId: string;
-  OrderMerchantReference: string;
-  OrderNotificationType: string;
-  OrderCreatedDate: string;
-}
-
-interface CompleteOrderRequest {
-  orderId: string;
+// Pesapal can't send custom headers, so create-pesapal-payment registers the
+// IPN URL with the secret as its token parameter
+const WEBHOOK_AUTH: WebhookAuthConfig = {
+  name: 'pesapal-callback',
+  envPrefix: 'PESAPAL',
+  tableName: 'pesapal_callbacks',
 }
 
 Deno.serve(async (req) => {
@@ -33,8 +38,20 @@ Deno.serve(async (req) => {
     console.log('Request method:', req.method);
     console.log('Content-Type:', req.headers.get('content-type'));
 
+    const auth = authenticateWebhook(req, WEBHOOK_AUTH);
+    if (!auth.authorized) {
+      await logWebhookRejection(supabaseService, req, WEBHOOK_AUTH, auth.reason);
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { 
+          status: auth.status, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
     // Parse request data - handle multiple formats (JSON, form-urlencoded, query params)
-    let callbackData: PesapalCallback;
+    let callbackData: PesapalCallbackPayload;
     
     try {
       const url = new URL(req.url);
@@ -102,262 +119,85 @@ Deno.serve(async (req) => {
       );
     }
 
-    // Log the callback to our database for auditing
-    const { error: logError } = await supabaseService
-      .from('pesapal_callbacks')
-      .insert({
-        pesapal_tracking_id: OrderTrackingId,
-        callback_type: OrderNotificationType || 'unknown',
-        raw_payload: callbackData,
-        processed: false
-      });
-
-    if (logError) {
-      console.error('Error logging callback:', logError);
-    }
+    // Store the callback, or find the unprocessed row already stored for a
+    // retry of the same notification
+    const { data: callback, error: recordError } = await supabaseService.rpc('record_pesapal_callback', {
+      p_tracking_id: OrderTrackingId,
+      p_callback_type: OrderNotificationType || 'unknown',
+      p_payload: callbackData,
+    });
 
-    // Find the transaction by tracking ID or merchant reference
-    let transaction = null;
-    let transactionError = null;
-
-    // First try by tracking ID
-    if (OrderTrackingId) {
-      const result = await supabaseService
-        .from('pesapal_transactions')
-        .select('*')
-        .eq('pesapal_tracking_id', OrderTrackingId)
-        .maybeSingle();
-      
-      transaction = result.data;
-      transactionError = result.error;
-    }
-
-    // If not found and we have merchant reference, try that
-    if (!transaction && OrderMerchantReference) {
-      console.log('Transaction not found by tracking ID, trying merchant reference:', OrderMerchantReference);
-      const result = await supabaseService
-        .from('pesapal_transactions')
-        .select('*')
-        .eq('merchant_reference', OrderMerchantReference)
-        .maybeSingle();
-      
-      transaction = result.data;
-      transactionError = result.error;
-    }
-
-    if (transactionError || !transaction) {
-      console.error('Transaction not found for tracking ID:', OrderTrackingId, transactionError);
+    if (recordError || !callback) {
+      console.error('Error recording callback:', recordError);
       return new Response(
-        JSON.stringify({ success: false, error: 'Transaction not found' }),
+        JSON.stringify({ success: false, error: 'Failed to record callback' }),
         { 
-          status: 404, 
+          status: 500, 
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         }
       );
     }
 
-    console.log('Found transaction:', transaction.id, 'for order:', transaction.order_id);
-
-    // Check if this is a successful payment notification
-    if (OrderNotificationType === 'COMPLETED' || OrderNotificationType === 'SUCCESS') {
-      console.log('Processing successful payment for order:', transaction.order_id);
-
-      // Update transaction status to COMPLETED
-      const { error: updateTransactionError } = await supabaseService
-        .from('pesapal_transactions')
-        .update({ status: 'COMPLETED' })
-        .eq('id', transaction.id);
-
-      if (updateTransactionError) {
-        console.error('Error updating transaction status:', updateTransactionError);
-      }
-
-      // Get the order to check if it's already completed
-      const { data: order, error: orderError } = await supabaseService
-        .from('orders')
-        .select('status')
-        .eq('id', transaction.order_id)
-        .single();
-
-      if (orderError || !order) {
-        console.error('Order not found:', transaction.order_id, orderError);
-        return new Response(
-          JSON.stringify({ success: false, error: 'Order not found' }),
-          { 
-            status: 404, 
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-          }
-        );
-      }
-
-      // Only complete the order if it's not already completed (idempotent)
-      if (order.status !== 'completed') {
-        console.log('Completing order and reducing stock for order:', transaction.order_id);
+    const storedCallback = callback as PesapalCallbackRow;
 
-        // Call the complete-order function to handle stock reduction and order completion
-        const { data: completeOrderData, error: completeOrderError } = await supabaseService.functions.invoke('complete-order', {
-          body: { orderId: transaction.order_id }
-        });
+    // Once a payment has completed there's nothing a later notification can
+    // change, so it's kept in the history and acknowledged without touching
+    // the order again
+    const transaction = await findCallbackTransaction(supabaseService, OrderTrackingId, OrderMerchantReference);
 
-        if (completeOrderError) {
-          console.error('Error calling complete-order function:', completeOrderError);
-          return new Response(
-            JSON.stringify({ 
-              success: false, 
-              error: 'Failed to complete order: ' + completeOrderError.message 
-            }),
-            { 
-              status: 500, 
-              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-            }
-          );
-        }
-
-        if (!completeOrderData?.success) {
-          console.error('complete-order function returned error:', completeOrderData);
-          return new Response(
-            JSON.stringify({ 
-              success: false, 
-              error: 'Failed to complete order: ' + (completeOrderData?.error || 'Unknown error')
-            }),
-            { 
-              status: 500, 
-              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-            }
-          );
-        }
-
-        console.log('Successfully completed order:', transaction.order_id, 'with stock updates');
-      } else {
-        console.log('Order', transaction.order_id, 'is already completed, skipping stock reduction');
-      }
+    if (transaction?.status === SETTLED_TRANSACTION_STATUS) {
+      console.log('Callback', storedCallback.id, 'for completed transaction', transaction.id, 'skipped');
 
-      // Mark callback as processed
       await supabaseService
         .from('pesapal_callbacks')
-        .update({ processed: true })
-        .eq('pesapal_tracking_id', OrderTrackingId);
+        .update({ outcome: 'ignored', error: null, processed: true })
+        .eq('id', storedCallback.id);
 
       return new Response(
         JSON.stringify({ 
           success: true, 
-          message: 'Payment processed successfully',
-          orderId: transaction.order_id
+          message: 'Payment already completed',
+          orderId: transaction.order_id,
+          status: transaction.status
         }),
         { 
           status: 200, 
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         }
       );
+    }
 
-    } else if (OrderNotificationType === 'FAILED' || OrderNotificationType === 'CANCELLED') {
-      console.log('Processing failed/cancelled payment for order:', transaction.order_id);
-
-      // Update transaction status
-      const newStatus = OrderNotificationType === 'FAILED' ? 'FAILED' : 'CANCELLED';
-      await supabaseService
-        .from('pesapal_transactions')
-        .update({ status: newStatus })
-        .eq('id', transaction.id);
-
-      // Update order status to cancelled
-      await supabaseService
-        .from('orders')
-        .update({ status: 'cancelled' })
-        .eq('id', transaction.order_id);
-
-      // Mark callback as processed
-      await supabaseService
-        .from('pesapal_callbacks')
-        .update({ processed: true })
-        .eq('pesapal_tracking_id', OrderTrackingId);
-
-      console.log('Marked order as cancelled:', transaction.order_id);
+    const result = await processPesapalCallback(supabaseService, storedCallback.id);
 
+    if (result.outcome === 'failed') {
+      // A non-2xx response makes Pesapal send the notification again, which
+      // retries this same callback row
+      console.error('Callback processing failed:', result.error);
       return new Response(
-        JSON.stringify({ 
-          success: true, 
-          message: 'Payment failure processed',
-          orderId: transaction.order_id
-        }),
+        JSON.stringify({ success: false, error: result.error }),
         { 
-          status: 200, 
+          status: result.error === 'Transaction not found' ? 404 : 500, 
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         }
       );
+    }
 
-    } else if (OrderNotificationType === 'IPNCHANGE') {
-      console.log('Received IPNCHANGE notification, querying Pesapal for actual status...');
-
-      // Query Pesapal for the actual payment status
-      const { data: statusResult, error: statusError } = await supabaseService.functions.invoke(
-        'check-pesapal-status',
-        { body: { trackingId: OrderTrackingId } }
-      );
-
-      if (statusError) {
-        console.error('Error calling check-pesapal-status:', statusError);
-        
-        // Mark callback as processed even on error to prevent retry storms
-        await supabaseService
-          .from('pesapal_callbacks')
-          .update({ processed: true })
-          .eq('pesapal_tracking_id', OrderTrackingId);
+    console.log(`${OrderNotificationType} processed:`, result.message);
 
-        return new Response(
-          JSON.stringify({ 
-            success: false, 
-            error: 'Failed to check payment status: ' + statusError.message 
-          }),
-          { 
-            status: 500, 
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-          }
-        );
+    return new Response(
+      JSON.stringify({ 
+        success: true, 
+        message: result.message,
+        orderId: result.orderId,
+        status: result.status,
+        reviewReason: result.reviewReason,
+        notificationType: OrderNotificationType
+      }),
+      { 
+        status: 200, 
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       }
-
-      // Mark callback as processed
-      await supabaseService
-        .from('pesapal_callbacks')
-        .update({ processed: true })
-        .eq('pesapal_tracking_id', OrderTrackingId);
-
-      console.log('IPNCHANGE processed successfully:', statusResult);
-
-      return new Response(
-        JSON.stringify({ 
-          success: true, 
-          message: 'Payment status checked and updated',
-          orderId: statusResult?.orderId,
-          status: statusResult?.status
-        }),
-        { 
-          status: 200, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        }
-      );
-
-    } else {
-      console.log('Received unhandled notification type:', OrderNotificationType);
-      
-      // Mark callback as processed even if we don't handle it
-      await supabaseService
-        .from('pesapal_callbacks')
-        .update({ processed: true })
-        .eq('pesapal_tracking_id', OrderTrackingId);
-
-      return new Response(
-        JSON.stringify({ 
-          success: true, 
-          message: 'Callback received but not processed',
-          notificationType: OrderNotificationType
-        }),
-        { 
-          status: 200, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        }
-      );
-    }
+    );
 
   } catch (error) {
     console.error('Unexpected error in pesapal-callback function:', error);
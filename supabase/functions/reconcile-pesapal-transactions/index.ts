@@ -0,0 +1,197 @@
+import { createClient, FunctionsHttpError } from 'https://esm.sh/@supabase/supabase-js@2.55.0'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface ReconcileRequest {
+  staleAfterMinutes?: number;
+  limit?: number;
+}
+
+interface ReconcileError {
+  trackingId: string;
+  orderId: string;
+  error: string;
+}
+
+const DEFAULT_STALE_AFTER_MINUTES = 30;
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const jsonResponse = (body: Record<string, unknown>, status: number) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+
+    console.log('reconcile-pesapal-transactions function called');
+
+    // Callers are the cron job using the service role key or an admin
+    // running reconciliation from the payments page
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ success: false, error: 'Missing authorization header' }, 401);
+    }
+
+    const isServerCall = authHeader === `Bearer ${supabaseServiceKey}`;
+    let userId: string | null = null;
+
+    if (!isServerCall) {
+      const supabaseClient = createClient(
+        supabaseUrl,
+        Deno.env.get('SUPABASE_ANON_KEY')!,
+        {
+          global: {
+            headers: { Authorization: authHeader },
+          },
+        }
+      );
+
+      const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+      if (authError || !user) {
+        console.error('JWT validation failed:', authError?.message);
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+      }
+
+      const { data: userRole } = await supabaseService
+        .from('user_roles')
+        .select('role')
+        .eq('user_id', user.id)
+        .eq('role', 'admin')
+        .maybeSingle();
+
+      if (!userRole) {
+        console.error('User is not an admin');
+        return jsonResponse({ success: false, error: 'Access denied' }, 403);
+      }
+
+      userId = user.id;
+    }
+
+    // Cron sends an empty body
+    const body: ReconcileRequest = await req.json().catch(() => ({}));
+    const staleAfterMinutes = Math.max(
+      1,
+      Math.floor(body.staleAfterMinutes ?? Number(Deno.env.get('PESAPAL_RECONCILE_STALE_MINUTES') || DEFAULT_STALE_AFTER_MINUTES))
+    );
+    const limit = Math.min(MAX_LIMIT, Math.max(1, Math.floor(body.limit ?? DEFAULT_LIMIT)));
+
+    if (!Number.isFinite(staleAfterMinutes) || !Number.isFinite(limit)) {
+      return jsonResponse({ success: false, error: 'staleAfterMinutes and limit must be numbers' }, 400);
+    }
+
+    const { data: run, error: runError } = await supabaseService
+      .from('pesapal_reconciliation_runs')
+      .insert({ triggered_by: userId, stale_after_minutes: staleAfterMinutes })
+      .select()
+      .single();
+
+    if (runError) {
+      console.error('Error starting reconciliation run:', runError);
+      return jsonResponse({ success: false, error: 'Failed to start reconciliation run' }, 500);
+    }
+
+    // Step 2 below counts into these; whatever has been counted is recorded
+    // on the run however it ends
+    const summary = {
+      checked_count: 0,
+      completed_count: 0,
+      cancelled_count: 0,
+      review_count: 0,
+      pending_count: 0,
+      error_count: 0,
+    };
+    const errors: ReconcileError[] = [];
+    let failure: string | null = null;
+
+    try {
+      // Step 1: Find transactions still PENDING after the cut-off, oldest first
+      const cutoff = new Date(Date.now() - staleAfterMinutes * 60 * 1000).toISOString();
+      const { data: transactions, error: transactionsError } = await supabaseService
+        .from('pesapal_transactions')
+        .select('id, order_id, pesapal_tracking_id')
+        .eq('status', 'PENDING')
+        .lt('created_at', cutoff)
+        .order('created_at', { ascending: true })
+        .limit(limit);
+
+      if (transactionsError) {
+        console.error('Error loading pending transactions:', transactionsError);
+        failure = 'Failed to load pending transactions: ' + transactionsError.message;
+        return jsonResponse({ success: false, runId: run.id, error: 'Failed to load pending transactions' }, 500);
+      }
+
+      console.log(`Reconciling ${transactions.length} Pesapal transactions pending since before ${cutoff}`);
+
+      // Step 2: Re-check each one through check-pesapal-status, the same path
+      // pesapal-callback takes, so it completes, cancels or holds the order
+      for (const transaction of transactions) {
+        summary.checked_count++;
+
+        const { data: statusResult, error: statusError } = await supabaseService.functions.invoke(
+          'check-pesapal-status',
+          { body: { trackingId: transaction.pesapal_tracking_id } }
+        );
+
+        if (statusError) {
+          let message = statusError.message;
+          if (statusError instanceof FunctionsHttpError) {
+            const errorBody = await statusError.context.json().catch(() => null);
+            message = errorBody?.error || message;
+          }
+
+          console.error('Error re-checking transaction', transaction.pesapal_tracking_id, message);
+          summary.error_count++;
+          errors.push({ trackingId: transaction.pesapal_tracking_id, orderId: transaction.order_id, error: message });
+          continue;
+        }
+
+        if (statusResult?.reviewReason) {
+          summary.review_count++;
+        } else if (statusResult?.status === 'COMPLETED') {
+          summary.completed_count++;
+        } else if (statusResult?.status === 'FAILED' || statusResult?.status === 'CANCELLED') {
+          summary.cancelled_count++;
+        } else {
+          summary.pending_count++;
+        }
+      }
+
+      console.log('Reconciliation finished:', JSON.stringify(summary));
+
+      return jsonResponse({ success: true, runId: run.id, staleAfterMinutes, ...summary, errors }, 200);
+    } catch (error) {
+      failure = error instanceof Error ? error.message : 'Unexpected error';
+      throw error;
+    } finally {
+      // Step 3: Record the summary for the payments page, so no run is left
+      // looking like it's still going
+      const { error: finishError } = await supabaseService
+        .from('pesapal_reconciliation_runs')
+        .update({ ...summary, errors, error: failure, finished_at: new Date().toISOString() })
+        .eq('id', run.id);
+
+      if (finishError) {
+        console.error('Error recording reconciliation summary:', finishError);
+      }
+    }
+
+  } catch (error) {
+    console.error('Unexpected error in reconcile-pesapal-transactions:', error);
+    return jsonResponse({ success: false, error: 'Internal server error' }, 500);
+  }
+});
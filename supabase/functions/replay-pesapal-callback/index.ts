@@ -0,0 +1,109 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0'
+import { processPesapalCallback } from '../_shared/pesapalCallbacks.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface ReplayCallbackRequest {
+  callbackId: string;
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const jsonResponse = (body: Record<string, unknown>, status: number) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+
+    console.log('replay-pesapal-callback function called');
+
+    // Only signed-in admins replay callbacks, from the payments page
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ success: false, error: 'Missing authorization header' }, 401);
+    }
+
+    const supabaseClient = createClient(
+      supabaseUrl,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      {
+        global: {
+          headers: { Authorization: authHeader },
+        },
+      }
+    );
+
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+    if (authError || !user) {
+      console.error('JWT validation failed:', authError?.message);
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const { data: userRole } = await supabaseService
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', user.id)
+      .eq('role', 'admin')
+      .maybeSingle();
+
+    if (!userRole) {
+      console.error('User is not an admin');
+      return jsonResponse({ success: false, error: 'Access denied' }, 403);
+    }
+
+    const { callbackId }: ReplayCallbackRequest = await req.json();
+    if (!callbackId) {
+      return jsonResponse({ success: false, error: 'Callback ID is required' }, 400);
+    }
+
+    const { data: callback, error: callbackError } = await supabaseService
+      .from('pesapal_callbacks')
+      .select('id, outcome')
+      .eq('id', callbackId)
+      .maybeSingle();
+
+    if (callbackError || !callback) {
+      console.error('Callback not found:', callbackId, callbackError);
+      return jsonResponse({ success: false, error: 'Callback not found' }, 404);
+    }
+
+    if (callback.outcome === 'succeeded') {
+      return jsonResponse({ success: false, error: 'Callback was already processed successfully' }, 409);
+    }
+
+    // The payment went through; what's left is for an admin to sort out on the order
+    if (callback.outcome === 'held') {
+      return jsonResponse({ success: false, error: 'Callback is held for payment review' }, 409);
+    }
+
+    const result = await processPesapalCallback(supabaseService, callbackId);
+
+    await supabaseService
+      .from('audit_logs')
+      .insert({
+        user_id: user.id,
+        action: `pesapal_callback_replayed:${result.outcome}`,
+        table_name: 'pesapal_callbacks',
+        record_id: callbackId,
+      });
+
+    return jsonResponse({ success: true, callbackId, ...result }, 200);
+
+  } catch (error) {
+    console.error('Unexpected error in replay-pesapal-callback:', error);
+    return jsonResponse({ success: false, error: 'Internal server error' }, 500);
+  }
+});
@@ -6,6 +6,14 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -83,6 +91,9 @@ serve(async (req) => {
     }
 
     const order = notification.orders;
+    // Payment reviews and other alerts reuse the order layout under their own title
+    const isOrderCompletion = notification.type === 'order';
+    const heading = isOrderCompletion ? '🎉 New Order Completed!' : notification.title;
     const customer = order?.profiles;
     const items = order?.items || [];
 
@@ -90,7 +101,7 @@ serve(async (req) => {
     const itemsHtml = items
       .map((item: any) => `
         <tr>
-          <td style="padding: 8px; border-bottom: 1px solid #eee;">${item.products?.name || 'Unknown Product'}</td>
+          <td style="padding: 8px; border-bottom: 1px solid #eee;">${escapeHtml(item.products?.name || 'Unknown Product')}</td>
           <td style="padding: 8px; border-bottom: 1px solid #eee; text-align: center;">${item.quantity}</td>
           <td style="padding: 8px; border-bottom: 1px solid #eee; text-align: right;">KES ${item.unit_price.toFixed(2)}</td>
           <td style="padding: 8px; border-bottom: 1px solid #eee; text-align: right;">KES ${(item.quantity * item.unit_price).toFixed(2)}</td>
@@ -107,15 +118,16 @@ serve(async (req) => {
       </head>
       <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
         <div style="background-color: #f8f9fa; border-radius: 8px; padding: 20px; margin-bottom: 20px;">
-          <h1 style="color: #2563eb; margin: 0 0 10px 0;">🎉 New Order Completed!</h1>
+          <h1 style="color: ${isOrderCompletion ? '#2563eb' : '#dc2626'}; margin: 0 0 10px 0;">${escapeHtml(heading)}</h1>
           <p style="margin: 0; color: #666;">Order #${order?.id?.slice(0, 8)}</p>
+          ${isOrderCompletion ? '' : `<p style="margin: 10px 0 0 0;">${escapeHtml(notification.message || '')}</p>`}
         </div>
 
         <div style="background-color: #fff; border: 1px solid #e5e7eb; border-radius: 8px; padding: 20px; margin-bottom: 20px;">
           <h2 style="margin-top: 0; color: #1f2937;">Customer Information</h2>
-          <p><strong>Name:</strong> ${customer?.full_name || 'N/A'}</p>
-          <p><strong>Email:</strong> ${customer?.email || 'N/A'}</p>
-          <p><strong>Phone:</strong> ${customer?.phone || 'N/A'}</p>
+          <p><strong>Name:</strong> ${escapeHtml(customer?.full_name || 'N/A')}</p>
+          <p><strong>Email:</strong> ${escapeHtml(customer?.email || 'N/A')}</p>
+          <p><strong>Phone:</strong> ${escapeHtml(customer?.phone || 'N/A')}</p>
           <p><strong>Order Date:</strong> ${new Date(order?.created_at).toLocaleString()}</p>
         </div>
 
@@ -167,7 +179,7 @@ serve(async (req) => {
         body: JSON.stringify({
           sender: { name: senderName, email: senderEmail },
           to: adminEmails.map((email: string) => ({ email })),
-          subject: `New Order Completed - ${customer?.full_name || 'Customer'}`,
+          subject: `${isOrderCompletion ? 'New Order Completed' : notification.title} - ${customer?.full_name || 'Customer'}`,
           htmlContent: emailHtml,
         }),
       });
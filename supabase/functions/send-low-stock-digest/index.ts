@@ -0,0 +1,213 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface ReorderLevel {
+  product_id: string;
+  name: string;
+  category: string | null;
+  stock: number;
+  reorder_point: number;
+  reorder_quantity: number;
+  needs_reorder: boolean;
+}
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const jsonResponse = (body: Record<string, unknown>, status: number) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const brevoApiKey = Deno.env.get('BREVO_API_KEY');
+    const senderEmail = Deno.env.get('BREVO_SENDER_EMAIL') || 'noreply@yourdomain.com';
+    const senderName = Deno.env.get('BREVO_SENDER_NAME') || 'Admin Notifications';
+
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+
+    console.log('send-low-stock-digest function called');
+
+    // Callers are the daily cron job using the service role key or an admin
+    // sending the digest by hand
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ success: false, error: 'Missing authorization header' }, 401);
+    }
+
+    if (authHeader !== `Bearer ${supabaseServiceKey}`) {
+      const supabaseClient = createClient(
+        supabaseUrl,
+        Deno.env.get('SUPABASE_ANON_KEY')!,
+        {
+          global: {
+            headers: { Authorization: authHeader },
+          },
+        }
+      );
+
+      const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+      if (authError || !user) {
+        console.error('JWT validation failed:', authError?.message);
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+      }
+
+      const { data: userRole } = await supabaseService
+        .from('user_roles')
+        .select('role')
+        .eq('user_id', user.id)
+        .eq('role', 'admin')
+        .maybeSingle();
+
+      if (!userRole) {
+        console.error('User is not an admin');
+        return jsonResponse({ success: false, error: 'Access denied' }, 403);
+      }
+    }
+
+    // Step 1: Products at or below their reorder point, lowest stock first
+    const { data: levels, error: levelsError } = await supabaseService.rpc('get_reorder_levels');
+
+    if (levelsError) {
+      console.error('Error loading reorder levels:', levelsError);
+      return jsonResponse({ success: false, error: 'Failed to load reorder levels' }, 500);
+    }
+
+    const lowStock = (levels as ReorderLevel[]).filter(level => level.needs_reorder);
+
+    if (lowStock.length === 0) {
+      console.log('No products at or below their reorder point, skipping digest');
+      return jsonResponse({ success: true, lowStockCount: 0, emailsSent: 0 }, 200);
+    }
+
+    // Step 2: Everyone with the admin role gets the digest
+    const { data: adminRoles, error: adminError } = await supabaseService
+      .from('user_roles')
+      .select('user_id, profiles(email)')
+      .eq('role', 'admin');
+
+    if (adminError) {
+      console.error('Error loading admins:', adminError);
+      return jsonResponse({ success: false, error: 'Failed to load admins' }, 500);
+    }
+
+    const adminEmails = (adminRoles || [])
+      .map((role: { profiles: { email: string | null } | null }) => role.profiles?.email)
+      .filter(Boolean) as string[];
+
+    if (adminEmails.length === 0) {
+      console.log('No admin emails found');
+      return jsonResponse({ success: true, lowStockCount: lowStock.length, emailsSent: 0 }, 200);
+    }
+
+    // Step 3: Build and send the email
+    const rowsHtml = lowStock
+      .map((level) => `
+        <tr>
+          <td style="padding: 8px; border-bottom: 1px solid #eee;">${escapeHtml(level.name)}</td>
+          <td style="padding: 8px; border-bottom: 1px solid #eee;">${escapeHtml(level.category || '')}</td>
+          <td style="padding: 8px; border-bottom: 1px solid #eee; text-align: right; color: ${level.stock <= 0 ? '#dc2626' : '#333'};">${level.stock}</td>
+          <td style="padding: 8px; border-bottom: 1px solid #eee; text-align: right;">${level.reorder_point}</td>
+          <td style="padding: 8px; border-bottom: 1px solid #eee; text-align: right;">${level.reorder_quantity}</td>
+        </tr>
+      `)
+      .join('');
+
+    const outOfStockCount = lowStock.filter(level => level.stock <= 0).length;
+
+    const emailHtml = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      </head>
+      <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="background-color: #fefce8; border-radius: 8px; padding: 20px; margin-bottom: 20px;">
+          <h1 style="color: #a16207; margin: 0 0 10px 0;">Low stock digest</h1>
+          <p style="margin: 0;">
+            ${lowStock.length} products are at or below their reorder point${outOfStockCount > 0 ? `, ${outOfStockCount} of them out of stock` : ''}.
+          </p>
+        </div>
+
+        <table style="width: 100%; border-collapse: collapse;">
+          <thead>
+            <tr style="background-color: #f9fafb;">
+              <th style="padding: 12px 8px; text-align: left; border-bottom: 2px solid #e5e7eb;">Product</th>
+              <th style="padding: 12px 8px; text-align: left; border-bottom: 2px solid #e5e7eb;">Category</th>
+              <th style="padding: 12px 8px; text-align: right; border-bottom: 2px solid #e5e7eb;">Stock</th>
+              <th style="padding: 12px 8px; text-align: right; border-bottom: 2px solid #e5e7eb;">Reorder at</th>
+              <th style="padding: 12px 8px; text-align: right; border-bottom: 2px solid #e5e7eb;">Reorder qty</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${rowsHtml}
+          </tbody>
+        </table>
+
+        <div style="text-align: center; margin-top: 30px;">
+          <a href="${supabaseUrl.replace('.supabase.co', '.lovable.app')}/admin/inventory"
+             style="display: inline-block; background-color: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: bold;">
+            View Inventory
+          </a>
+        </div>
+
+        <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #e5e7eb; text-align: center; color: #6b7280; font-size: 12px;">
+          <p>This is an automated daily digest from your order management system.</p>
+        </div>
+      </body>
+      </html>
+    `;
+
+    if (!brevoApiKey) {
+      console.warn('BREVO_API_KEY not configured, skipping low-stock digest');
+      return jsonResponse({ success: true, lowStockCount: lowStock.length, emailsSent: 0 }, 200);
+    }
+
+    const brevoResponse = await fetch('https://api.brevo.com/v3/smtp/email', {
+      method: 'POST',
+      headers: {
+        'api-key': brevoApiKey,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        sender: { name: senderName, email: senderEmail },
+        to: adminEmails.map((email) => ({ email })),
+        subject: `Low stock: ${lowStock.length} products to reorder`,
+        htmlContent: emailHtml,
+      }),
+    });
+
+    if (!brevoResponse.ok) {
+      const errorText = await brevoResponse.text();
+      console.error('Brevo API error:', errorText);
+      return jsonResponse({ success: false, error: 'Failed to send low-stock digest' }, 502);
+    }
+
+    console.log(`Low-stock digest with ${lowStock.length} products sent to ${adminEmails.length} admins`);
+
+    return jsonResponse({ success: true, lowStockCount: lowStock.length, emailsSent: adminEmails.length }, 200);
+
+  } catch (error) {
+    console.error('Unexpected error in send-low-stock-digest:', error);
+    return jsonResponse({ success: false, error: 'Internal server error' }, 500);
+  }
+});
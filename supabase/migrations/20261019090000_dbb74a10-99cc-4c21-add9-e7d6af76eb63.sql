@@ -0,0 +1,71 @@
+-- Server-side order search for the admin Orders page.
+-- Filters run before pagination so total_count reflects every matching order,
+-- not just the rows on the current page.
+CREATE OR REPLACE FUNCTION public.search_orders(
+  p_search TEXT DEFAULT NULL,
+  p_status TEXT DEFAULT NULL,
+  p_date_from TIMESTAMPTZ DEFAULT NULL,
+  p_date_to TIMESTAMPTZ DEFAULT NULL,
+  p_min_amount NUMERIC DEFAULT NULL,
+  p_max_amount NUMERIC DEFAULT NULL,
+  p_limit INTEGER DEFAULT 10,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  status TEXT,
+  total_amount NUMERIC,
+  created_at TIMESTAMPTZ,
+  customer_full_name TEXT,
+  customer_email TEXT,
+  customer_phone TEXT,
+  customer_address TEXT,
+  customer_created_at TIMESTAMPTZ,
+  customer_updated_at TIMESTAMPTZ,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH filtered AS (
+    SELECT
+      o.id,
+      o.user_id,
+      o.status,
+      o.total_amount,
+      o.created_at,
+      p.full_name AS customer_full_name,
+      p.email AS customer_email,
+      p.phone AS customer_phone,
+      p.address AS customer_address,
+      p.created_at AS customer_created_at,
+      p.updated_at AS customer_updated_at
+    FROM public.orders o
+    LEFT JOIN public.profiles p ON p.id = o.user_id
+    WHERE (p_status IS NULL OR o.status = p_status)
+      AND (p_date_from IS NULL OR o.created_at >= p_date_from)
+      AND (p_date_to IS NULL OR o.created_at < p_date_to)
+      AND (p_min_amount IS NULL OR o.total_amount >= p_min_amount)
+      AND (p_max_amount IS NULL OR o.total_amount <= p_max_amount)
+      AND (
+        COALESCE(btrim(p_search), '') = ''
+        OR o.id::text ILIKE btrim(p_search) || '%'
+        OR p.full_name ILIKE '%' || btrim(p_search) || '%'
+        OR p.email ILIKE '%' || btrim(p_search) || '%'
+        OR p.phone ILIKE '%' || btrim(p_search) || '%'
+      )
+  )
+  SELECT
+    f.*,
+    COUNT(*) OVER () AS total_count
+  FROM filtered f
+  ORDER BY f.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+$$;
+
+-- Indexes backing the default sort and the status filter
+CREATE INDEX IF NOT EXISTS idx_orders_created_at ON public.orders(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_orders_status ON public.orders(status);
@@ -0,0 +1,88 @@
+-- Build the full admin representation of an order (items with their products
+-- and the customer profile) in one pass, so callers no longer issue an
+-- order_items and a profiles query per order.
+CREATE OR REPLACE FUNCTION public.order_details_json(_order public.orders)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT to_jsonb(_order) || jsonb_build_object(
+    'items', COALESCE((
+      SELECT jsonb_agg(
+        to_jsonb(oi) || jsonb_build_object('products', to_jsonb(pr))
+        ORDER BY oi.created_at
+      )
+      FROM public.order_items oi
+      LEFT JOIN public.products pr ON pr.id = oi.product_id
+      WHERE oi.order_id = _order.id
+    ), '[]'::jsonb),
+    'profiles', (
+      SELECT to_jsonb(p)
+      FROM public.profiles p
+      WHERE p.id = _order.user_id
+    )
+  );
+$$;
+
+-- search_orders now returns each order fully expanded
+DROP FUNCTION IF EXISTS public.search_orders(TEXT, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, NUMERIC, NUMERIC, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_orders(
+  p_search TEXT DEFAULT NULL,
+  p_status TEXT DEFAULT NULL,
+  p_date_from TIMESTAMPTZ DEFAULT NULL,
+  p_date_to TIMESTAMPTZ DEFAULT NULL,
+  p_min_amount NUMERIC DEFAULT NULL,
+  p_max_amount NUMERIC DEFAULT NULL,
+  p_limit INTEGER DEFAULT 10,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  order_data JSONB,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH filtered AS (
+    SELECT o
+    FROM public.orders o
+    LEFT JOIN public.profiles p ON p.id = o.user_id
+    WHERE (p_status IS NULL OR o.status = p_status)
+      AND (p_date_from IS NULL OR o.created_at >= p_date_from)
+      AND (p_date_to IS NULL OR o.created_at < p_date_to)
+      AND (p_min_amount IS NULL OR o.total_amount >= p_min_amount)
+      AND (p_max_amount IS NULL OR o.total_amount <= p_max_amount)
+      AND (
+        COALESCE(btrim(p_search), '') = ''
+        OR o.id::text ILIKE btrim(p_search) || '%'
+        OR p.full_name ILIKE '%' || btrim(p_search) || '%'
+        OR p.email ILIKE '%' || btrim(p_search) || '%'
+        OR p.phone ILIKE '%' || btrim(p_search) || '%'
+      )
+  ),
+  counted AS (
+    SELECT f.o, COUNT(*) OVER () AS total_count
+    FROM filtered f
+    ORDER BY (f.o).created_at DESC
+    LIMIT p_limit
+    OFFSET p_offset
+  )
+  SELECT public.order_details_json(c.o), c.total_count
+  FROM counted c
+  ORDER BY (c.o).created_at DESC;
+$$;
+
+-- Single order lookup used by the order details dialog
+CREATE OR REPLACE FUNCTION public.get_order_details(p_order_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT public.order_details_json(o)
+  FROM public.orders o
+  WHERE o.id = p_order_id;
+$$;
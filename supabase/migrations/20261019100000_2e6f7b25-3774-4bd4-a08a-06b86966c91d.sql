@@ -0,0 +1,133 @@
+-- Order status state machine with an audit trail of every status change.
+
+-- Create order_status_history table
+CREATE TABLE public.order_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  changed_by UUID,
+  reason TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_order_status_history_order_id ON public.order_status_history(order_id, created_at);
+
+-- Enable RLS - admins can read, rows are only written by the trigger below
+ALTER TABLE public.order_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view order status history"
+ON public.order_status_history
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Allowed transitions. Completed and cancelled are terminal states.
+-- Keep in sync with ORDER_STATUS_TRANSITIONS in src/utils/orderStatus.ts
+CREATE OR REPLACE FUNCTION public.is_valid_order_status_transition(_from TEXT, _to TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT _from = _to OR (_from, _to) IN (
+    ('pending', 'processing'),
+    ('pending', 'completed'),
+    ('pending', 'cancelled'),
+    ('processing', 'completed'),
+    ('processing', 'cancelled')
+  );
+$$;
+
+-- Reject invalid transitions no matter which client performs the update
+CREATE OR REPLACE FUNCTION public.validate_order_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+BEGIN
+  IF NOT public.is_valid_order_status_transition(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Invalid order status transition from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_order_status_transition
+  BEFORE UPDATE OF status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_order_status_transition();
+
+-- Record every status change. The acting user and reason are read from
+-- transaction-local settings populated by update_order_status, falling back
+-- to the caller's JWT.
+CREATE OR REPLACE FUNCTION public.record_order_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.order_status_history (order_id, from_status, to_status, changed_by, reason)
+    VALUES (
+      NEW.id,
+      CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+      NEW.status,
+      COALESCE(NULLIF(current_setting('app.order_status_actor', true), '')::uuid, auth.uid()),
+      NULLIF(current_setting('app.order_status_reason', true), '')
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_order_status_change
+  AFTER INSERT OR UPDATE OF status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_order_status_change();
+
+-- Change an order's status with a reason. Admins act as themselves; edge
+-- functions running with the service role may attribute the change to the
+-- admin who triggered them. Completion is reserved for the service role so
+-- stock is always reduced by complete-order.
+CREATE OR REPLACE FUNCTION public.update_order_status(
+  p_order_id UUID,
+  p_status TEXT,
+  p_reason TEXT DEFAULT NULL,
+  p_actor_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  is_service BOOLEAN := auth.role() = 'service_role';
+BEGIN
+  IF NOT is_service AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Admin access required' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_status = 'completed' AND NOT is_service THEN
+    RAISE EXCEPTION 'Orders must be completed through complete-order so stock is updated';
+  END IF;
+
+  PERFORM set_config(
+    'app.order_status_actor',
+    COALESCE(CASE WHEN is_service THEN p_actor_id ELSE auth.uid() END::text, ''),
+    true
+  );
+  PERFORM set_config('app.order_status_reason', COALESCE(p_reason, ''), true);
+
+  UPDATE public.orders
+  SET status = p_status
+  WHERE id = p_order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id USING ERRCODE = 'no_data_found';
+  END IF;
+END;
+$$;
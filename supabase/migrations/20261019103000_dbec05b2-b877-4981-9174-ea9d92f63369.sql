@@ -0,0 +1,195 @@
+-- Order cancellation and refunds. Cancelling a completed order puts back the
+-- stock complete-order removed and logs it as a 'return' stock movement.
+
+-- Add cancellation and refund details to orders
+ALTER TABLE public.orders
+ADD COLUMN cancelled_at TIMESTAMPTZ,
+ADD COLUMN cancellation_reason TEXT,
+ADD COLUMN refund_amount NUMERIC NOT NULL DEFAULT 0 CHECK (refund_amount >= 0),
+ADD COLUMN refund_reason TEXT;
+
+-- Completed orders can now be cancelled (with restock)
+-- Keep in sync with ORDER_STATUS_TRANSITIONS in src/utils/orderStatus.ts
+CREATE OR REPLACE FUNCTION public.is_valid_order_status_transition(_from TEXT, _to TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT _from = _to OR (_from, _to) IN (
+    ('pending', 'processing'),
+    ('pending', 'completed'),
+    ('pending', 'cancelled'),
+    ('processing', 'completed'),
+    ('processing', 'cancelled'),
+    ('completed', 'cancelled')
+  );
+$$;
+
+-- Completed orders may only be cancelled by cancel_order, which restocks them
+CREATE OR REPLACE FUNCTION public.validate_order_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+BEGIN
+  IF NOT public.is_valid_order_status_transition(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Invalid order status transition from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF OLD.status = 'completed' AND NEW.status = 'cancelled'
+    AND current_setting('app.order_restocked', true) IS DISTINCT FROM NEW.id::text THEN
+    RAISE EXCEPTION 'Completed orders must be cancelled through cancel-order so stock is restored'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Cancellations go through cancel_order; other changes still use update_order_status
+CREATE OR REPLACE FUNCTION public.update_order_status(
+  p_order_id UUID,
+  p_status TEXT,
+  p_reason TEXT DEFAULT NULL,
+  p_actor_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  is_service BOOLEAN := auth.role() = 'service_role';
+BEGIN
+  IF NOT is_service AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Admin access required' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_status = 'completed' AND NOT is_service THEN
+    RAISE EXCEPTION 'Orders must be completed through complete-order so stock is updated';
+  END IF;
+
+  IF p_status = 'cancelled' THEN
+    RAISE EXCEPTION 'Orders must be cancelled through cancel-order so stock is restored';
+  END IF;
+
+  PERFORM set_config(
+    'app.order_status_actor',
+    COALESCE(CASE WHEN is_service THEN p_actor_id ELSE auth.uid() END::text, ''),
+    true
+  );
+  PERFORM set_config('app.order_status_reason', COALESCE(p_reason, ''), true);
+
+  UPDATE public.orders
+  SET status = p_status
+  WHERE id = p_order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id USING ERRCODE = 'no_data_found';
+  END IF;
+END;
+$$;
+
+-- Cancel an order in one transaction: restock completed orders, record the
+-- refund and move the order to cancelled. Called by the cancel-order edge
+-- function with the service role.
+CREATE OR REPLACE FUNCTION public.cancel_order(
+  p_order_id UUID,
+  p_reason TEXT,
+  p_refund_amount NUMERIC DEFAULT 0,
+  p_refund_reason TEXT DEFAULT NULL,
+  p_actor_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  target_order public.orders;
+  item RECORD;
+  old_stock INTEGER;
+  restocked JSONB := '[]'::jsonb;
+BEGIN
+  IF auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'cancel_order may only be called by the cancel-order function'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO target_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF target_order.id IS NULL THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- Idempotent: repeated cancellations (e.g. duplicate Pesapal notifications) are no-ops
+  IF target_order.status = 'cancelled' THEN
+    RETURN jsonb_build_object(
+      'already_cancelled', true,
+      'previous_status', target_order.status,
+      'restocked', restocked
+    );
+  END IF;
+
+  IF COALESCE(p_refund_amount, 0) < 0
+    OR COALESCE(p_refund_amount, 0) > target_order.total_amount + COALESCE(target_order.delivery_fee, 0) THEN
+    RAISE EXCEPTION 'Refund amount must be between 0 and the order total'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Stock was only taken when the order completed, so only completed orders are restocked
+  IF target_order.status = 'completed' THEN
+    FOR item IN
+      SELECT product_id, SUM(quantity)::INTEGER AS quantity
+      FROM public.order_items
+      WHERE order_id = p_order_id
+      GROUP BY product_id
+      ORDER BY product_id
+    LOOP
+      old_stock := NULL;
+
+      UPDATE public.products
+      SET stock = stock + item.quantity
+      WHERE id = item.product_id
+      RETURNING stock - item.quantity INTO old_stock;
+
+      IF old_stock IS NULL THEN
+        CONTINUE;
+      END IF;
+
+      INSERT INTO public.stock_movements (product_id, order_id, movement_type, quantity, previous_stock, new_stock, reason)
+      VALUES (item.product_id, p_order_id, 'return', item.quantity, old_stock, old_stock + item.quantity, p_reason);
+
+      restocked := restocked || jsonb_build_object(
+        'productId', item.product_id,
+        'quantity', item.quantity,
+        'oldStock', old_stock,
+        'newStock', old_stock + item.quantity
+      );
+    END LOOP;
+
+    PERFORM set_config('app.order_restocked', p_order_id::text, true);
+  END IF;
+
+  PERFORM set_config('app.order_status_actor', COALESCE(p_actor_id::text, ''), true);
+  PERFORM set_config('app.order_status_reason', COALESCE(p_reason, ''), true);
+
+  UPDATE public.orders
+  SET status = 'cancelled',
+      cancelled_at = now(),
+      cancellation_reason = p_reason,
+      refund_amount = COALESCE(p_refund_amount, 0),
+      refund_reason = p_refund_reason
+  WHERE id = p_order_id;
+
+  RETURN jsonb_build_object(
+    'already_cancelled', false,
+    'previous_status', target_order.status,
+    'restocked', restocked
+  );
+END;
+$$;
@@ -0,0 +1,127 @@
+-- Complete an order and take its stock in a single locked transaction.
+-- Replaces the read-modify-write loop in the complete-order edge function,
+-- which lost updates under concurrency and clamped oversold stock to zero.
+
+-- Lock the order and every product on it, check stock for all items, then
+-- either decrement stock, log 'sale' movements and mark the order completed,
+-- or change nothing and report which items are short.
+-- Returns JSONB with a 'result' of completed, already_completed,
+-- invalid_status or insufficient_stock.
+CREATE OR REPLACE FUNCTION public.complete_order(
+  p_order_id UUID,
+  p_reason TEXT DEFAULT NULL,
+  p_actor_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  target_order public.orders;
+  item RECORD;
+  remaining_stock INTEGER;
+  shortages JSONB := '[]'::jsonb;
+  stock_updates JSONB := '[]'::jsonb;
+BEGIN
+  IF auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'complete_order may only be called by the complete-order function'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO target_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF target_order.id IS NULL THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF target_order.status = 'completed' THEN
+    RETURN jsonb_build_object('result', 'already_completed', 'stock_updates', stock_updates);
+  END IF;
+
+  IF target_order.status NOT IN ('pending', 'processing') THEN
+    RETURN jsonb_build_object('result', 'invalid_status', 'status', target_order.status);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.order_items WHERE order_id = p_order_id) THEN
+    RAISE EXCEPTION 'Order % has no items', p_order_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- Lock products in a stable order so concurrent completions cannot deadlock
+  PERFORM 1
+  FROM public.products
+  WHERE id IN (SELECT product_id FROM public.order_items WHERE order_id = p_order_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  -- Check every item before touching stock so the report lists all shortages
+  FOR item IN
+    SELECT oi.product_id, SUM(oi.quantity)::INTEGER AS quantity, p.name, p.stock
+    FROM public.order_items oi
+    LEFT JOIN public.products p ON p.id = oi.product_id
+    WHERE oi.order_id = p_order_id
+    GROUP BY oi.product_id, p.name, p.stock
+    ORDER BY oi.product_id
+  LOOP
+    IF item.stock IS NULL OR item.stock < item.quantity THEN
+      shortages := shortages || jsonb_build_object(
+        'productId', item.product_id,
+        'productName', item.name,
+        'requested', item.quantity,
+        'available', COALESCE(item.stock, 0)
+      );
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(shortages) > 0 THEN
+    RETURN jsonb_build_object('result', 'insufficient_stock', 'shortages', shortages);
+  END IF;
+
+  FOR item IN
+    SELECT product_id, SUM(quantity)::INTEGER AS quantity
+    FROM public.order_items
+    WHERE order_id = p_order_id
+    GROUP BY product_id
+    ORDER BY product_id
+  LOOP
+    UPDATE public.products
+    SET stock = stock - item.quantity
+    WHERE id = item.product_id
+    RETURNING stock INTO remaining_stock;
+
+    INSERT INTO public.stock_movements (product_id, order_id, movement_type, quantity, previous_stock, new_stock, reason)
+    VALUES (item.product_id, p_order_id, 'sale', item.quantity, remaining_stock + item.quantity, remaining_stock, p_reason);
+
+    stock_updates := stock_updates || jsonb_build_object(
+      'productId', item.product_id,
+      'oldStock', remaining_stock + item.quantity,
+      'newStock', remaining_stock
+    );
+  END LOOP;
+
+  PERFORM set_config('app.order_status_actor', COALESCE(p_actor_id::text, ''), true);
+  PERFORM set_config('app.order_status_reason', COALESCE(p_reason, ''), true);
+
+  UPDATE public.orders
+  SET status = 'completed'
+  WHERE id = p_order_id;
+
+  RETURN jsonb_build_object('result', 'completed', 'stock_updates', stock_updates);
+END;
+$$;
+
+-- Keep the existing RPC working for any callers, now backed by the locked
+-- transaction above. Returns false when the order could not be completed.
+CREATE OR REPLACE FUNCTION public.reduce_product_stock(order_id_param UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+BEGIN
+  RETURN public.complete_order(order_id_param) ->> 'result' IN ('completed', 'already_completed');
+END;
+$$;
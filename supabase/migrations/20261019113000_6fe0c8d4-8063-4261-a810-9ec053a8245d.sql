@@ -0,0 +1,60 @@
+-- Invoices with sequential, gap-free numbers. Each order gets at most one
+-- invoice; re-printing returns the number it was first issued with.
+
+CREATE TABLE public.invoices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL UNIQUE REFERENCES public.orders(id) ON DELETE RESTRICT,
+  invoice_number INTEGER NOT NULL UNIQUE,
+  issued_by UUID,
+  issued_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Enable RLS - admins can read, numbers are only issued by issue_invoices
+ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view invoices"
+ON public.invoices
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Issue invoices for a batch of orders, oldest order first, and return the
+-- invoice for every requested order. The table lock serializes numbering so
+-- concurrent calls never share or skip a number.
+CREATE OR REPLACE FUNCTION public.issue_invoices(p_order_ids UUID[])
+RETURNS TABLE(order_id UUID, invoice_number INTEGER, issued_at TIMESTAMPTZ)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  next_number INTEGER;
+  target RECORD;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Admin access required' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  LOCK TABLE public.invoices IN SHARE ROW EXCLUSIVE MODE;
+
+  SELECT COALESCE(MAX(i.invoice_number), 0) INTO next_number FROM public.invoices i;
+
+  FOR target IN
+    SELECT o.id
+    FROM public.orders o
+    WHERE o.id = ANY(p_order_ids)
+      AND NOT EXISTS (SELECT 1 FROM public.invoices i WHERE i.order_id = o.id)
+    ORDER BY o.created_at, o.id
+  LOOP
+    next_number := next_number + 1;
+
+    INSERT INTO public.invoices (order_id, invoice_number, issued_by)
+    VALUES (target.id, next_number, auth.uid());
+  END LOOP;
+
+  RETURN QUERY
+  SELECT i.order_id, i.invoice_number, i.issued_at
+  FROM public.invoices i
+  WHERE i.order_id = ANY(p_order_ids);
+END;
+$$;
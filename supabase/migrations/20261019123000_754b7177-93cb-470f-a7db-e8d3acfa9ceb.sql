@@ -0,0 +1,243 @@
+-- Delivery fulfilment: riders, dispatch and proof of delivery. Delivery
+-- progress is tracked in orders.delivery_status, independently of the
+-- payment-driven orders.status.
+
+-- Create riders table
+CREATE TABLE public.riders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  full_name TEXT NOT NULL,
+  phone TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.riders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage riders"
+ON public.riders
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_riders_updated_at
+  BEFORE UPDATE ON public.riders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Delivery states. Orders that have not been dispatched yet, whatever they
+-- were marked before, start out awaiting dispatch.
+UPDATE public.orders
+SET delivery_status = 'awaiting_dispatch'
+WHERE delivery_status NOT IN ('awaiting_dispatch', 'out_for_delivery', 'delivered', 'failed');
+
+ALTER TABLE public.orders
+ALTER COLUMN delivery_status SET DEFAULT 'awaiting_dispatch',
+ADD CONSTRAINT orders_delivery_status_check
+  CHECK (delivery_status IN ('awaiting_dispatch', 'out_for_delivery', 'delivered', 'failed')),
+ADD COLUMN rider_id UUID REFERENCES public.riders(id) ON DELETE SET NULL,
+ADD COLUMN dispatched_at TIMESTAMPTZ,
+ADD COLUMN delivered_at TIMESTAMPTZ,
+ADD COLUMN delivery_notes TEXT;
+
+CREATE INDEX idx_orders_delivery_status ON public.orders(delivery_status);
+
+-- Proof of delivery, one per order. Photos live in the delivery-proofs bucket.
+CREATE TABLE public.delivery_proofs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL UNIQUE REFERENCES public.orders(id) ON DELETE CASCADE,
+  recipient_name TEXT NOT NULL,
+  photo_path TEXT,
+  notes TEXT,
+  recorded_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.delivery_proofs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view delivery proofs"
+ON public.delivery_proofs
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Private bucket for proof-of-delivery photos
+INSERT INTO storage.buckets (id, name, public) VALUES ('delivery-proofs', 'delivery-proofs', false);
+
+CREATE POLICY "Admins can view delivery proof photos"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'delivery-proofs' AND public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can upload delivery proof photos"
+ON storage.objects
+FOR INSERT
+WITH CHECK (bucket_id = 'delivery-proofs' AND public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete delivery proof photos"
+ON storage.objects
+FOR DELETE
+USING (bucket_id = 'delivery-proofs' AND public.has_role(auth.uid(), 'admin'));
+
+-- Orders on the deliveries board. Open deliveries come oldest first so the
+-- queue is worked in order; delivered ones most recent first. Cancelled
+-- orders are never delivered and are left out.
+CREATE OR REPLACE FUNCTION public.get_deliveries(
+  p_delivery_status TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 200
+)
+RETURNS SETOF JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT public.order_details_json(o)
+  FROM public.orders o
+  WHERE o.status <> 'cancelled'
+    AND (p_delivery_status IS NULL OR o.delivery_status = p_delivery_status)
+  ORDER BY CASE WHEN o.delivery_status = 'delivered' THEN o.delivered_at END DESC NULLS LAST,
+    o.created_at
+  LIMIT p_limit;
+$$;
+
+-- Move an order through the delivery states:
+--   awaiting_dispatch -> out_for_delivery (needs a rider)
+--   out_for_delivery  -> delivered (via record_delivery_proof), failed, or
+--                        back to awaiting_dispatch
+--   failed            -> awaiting_dispatch or out_for_delivery (retry)
+CREATE OR REPLACE FUNCTION public.update_delivery_status(
+  p_order_id UUID,
+  p_delivery_status TEXT,
+  p_rider_id UUID DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  target_order public.orders;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Admin access required' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO target_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF target_order.id IS NULL THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF target_order.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Cancelled orders cannot be delivered' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_delivery_status = 'delivered' THEN
+    RAISE EXCEPTION 'Record proof of delivery to mark an order delivered' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF (target_order.delivery_status, p_delivery_status) NOT IN (
+    ('awaiting_dispatch', 'out_for_delivery'),
+    ('out_for_delivery', 'failed'),
+    ('out_for_delivery', 'awaiting_dispatch'),
+    ('failed', 'awaiting_dispatch'),
+    ('failed', 'out_for_delivery')
+  ) THEN
+    RAISE EXCEPTION 'Cannot change delivery from % to %', target_order.delivery_status, p_delivery_status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_delivery_status = 'out_for_delivery' AND COALESCE(p_rider_id, target_order.rider_id) IS NULL THEN
+    RAISE EXCEPTION 'Assign a rider before dispatching' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_delivery_status = 'failed' AND NULLIF(trim(p_notes), '') IS NULL THEN
+    RAISE EXCEPTION 'Give a reason for the failed delivery' USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.orders
+  SET delivery_status = p_delivery_status,
+      rider_id = COALESCE(p_rider_id, rider_id),
+      dispatched_at = CASE WHEN p_delivery_status = 'out_for_delivery' THEN now() ELSE dispatched_at END,
+      delivery_notes = COALESCE(NULLIF(trim(p_notes), ''), delivery_notes)
+  WHERE id = p_order_id;
+END;
+$$;
+
+-- Assign or change the rider without changing the delivery state
+CREATE OR REPLACE FUNCTION public.assign_delivery_rider(p_order_id UUID, p_rider_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Admin access required' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_rider_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM public.riders WHERE id = p_rider_id AND is_active) THEN
+    RAISE EXCEPTION 'Rider % is not active', p_rider_id USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.orders
+  SET rider_id = p_rider_id
+  WHERE id = p_order_id AND delivery_status <> 'delivered';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found or already delivered', p_order_id USING ERRCODE = 'no_data_found';
+  END IF;
+END;
+$$;
+
+-- Record who received the order (and optionally a photo already uploaded to
+-- the delivery-proofs bucket) and mark it delivered
+CREATE OR REPLACE FUNCTION public.record_delivery_proof(
+  p_order_id UUID,
+  p_recipient_name TEXT,
+  p_photo_path TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  target_order public.orders;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Admin access required' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NULLIF(trim(p_recipient_name), '') IS NULL THEN
+    RAISE EXCEPTION 'Recipient name is required' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO target_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF target_order.id IS NULL THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF target_order.delivery_status <> 'out_for_delivery' THEN
+    RAISE EXCEPTION 'Only orders out for delivery can be marked delivered' USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.delivery_proofs (order_id, recipient_name, photo_path, notes, recorded_by)
+  VALUES (p_order_id, trim(p_recipient_name), p_photo_path, NULLIF(trim(p_notes), ''), auth.uid());
+
+  UPDATE public.orders
+  SET delivery_status = 'delivered',
+      delivered_at = now()
+  WHERE id = p_order_id;
+END;
+$$;
@@ -0,0 +1,25 @@
+-- Pesapal payment initiation: IPN registrations are stored so every payment
+-- request reuses the notification ID registered for the callback URL
+-- instead of registering a new one each time.
+CREATE TABLE public.pesapal_ipn_registrations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  ipn_url TEXT NOT NULL UNIQUE,
+  ipn_id TEXT NOT NULL,
+  notification_type TEXT NOT NULL DEFAULT 'GET',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.pesapal_ipn_registrations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view Pesapal IPN registrations"
+ON public.pesapal_ipn_registrations
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Who asked for the payment link and where it was sent
+ALTER TABLE public.pesapal_transactions
+ADD COLUMN created_by UUID REFERENCES auth.users(id),
+ADD COLUMN link_sent_to TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_pesapal_transactions_order_id
+ON public.pesapal_transactions(order_id);
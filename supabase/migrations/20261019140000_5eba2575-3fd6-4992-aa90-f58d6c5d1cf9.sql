@@ -0,0 +1,10 @@
+-- IPN IDs belong to the Pesapal environment they were registered with, so
+-- sandbox, production and local stub registrations are kept apart.
+ALTER TABLE public.pesapal_ipn_registrations
+ADD COLUMN pesapal_base_url TEXT NOT NULL DEFAULT 'https://pay.pesapal.com/v3';
+
+ALTER TABLE public.pesapal_ipn_registrations
+DROP CONSTRAINT pesapal_ipn_registrations_ipn_url_key;
+
+ALTER TABLE public.pesapal_ipn_registrations
+ADD CONSTRAINT pesapal_ipn_registrations_url_environment_key UNIQUE (ipn_url, pesapal_base_url);
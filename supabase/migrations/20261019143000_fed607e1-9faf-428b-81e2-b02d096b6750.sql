@@ -0,0 +1,147 @@
+-- Payments page: admins can read Pesapal transactions and callbacks, search
+-- them alongside their orders and see where payment and order disagree.
+
+DROP POLICY IF EXISTS "Admins can view Pesapal transactions" ON public.pesapal_transactions;
+CREATE POLICY "Admins can view Pesapal transactions"
+ON public.pesapal_transactions
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+DROP POLICY IF EXISTS "Admins can view Pesapal callbacks" ON public.pesapal_callbacks;
+CREATE POLICY "Admins can view Pesapal callbacks"
+ON public.pesapal_callbacks
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE INDEX IF NOT EXISTS idx_pesapal_callbacks_tracking_id
+ON public.pesapal_callbacks(pesapal_tracking_id);
+
+-- Transactions newest first, with the order and customer they belong to.
+-- The search matches merchant reference, tracking ID, order ID prefix and
+-- customer name, email or phone.
+CREATE OR REPLACE FUNCTION public.search_pesapal_transactions(
+  p_search TEXT DEFAULT NULL,
+  p_status TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  transaction_data JSONB,
+  order_status TEXT,
+  order_total NUMERIC,
+  customer_name TEXT,
+  callback_count BIGINT,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH filtered AS (
+    SELECT
+      t,
+      o.status AS order_status,
+      o.total_amount + COALESCE(o.delivery_fee, 0) AS order_total,
+      p.full_name AS customer_name
+    FROM public.pesapal_transactions t
+    LEFT JOIN public.orders o ON o.id = t.order_id
+    LEFT JOIN public.profiles p ON p.id = o.user_id
+    WHERE (p_status IS NULL OR t.status::text = p_status)
+      AND (
+        COALESCE(btrim(p_search), '') = ''
+        OR t.merchant_reference ILIKE '%' || btrim(p_search) || '%'
+        OR t.pesapal_tracking_id ILIKE '%' || btrim(p_search) || '%'
+        OR t.order_id::text ILIKE btrim(p_search) || '%'
+        OR p.full_name ILIKE '%' || btrim(p_search) || '%'
+        OR p.email ILIKE '%' || btrim(p_search) || '%'
+        OR p.phone ILIKE '%' || btrim(p_search) || '%'
+      )
+  ),
+  counted AS (
+    SELECT f.*, COUNT(*) OVER () AS total_count
+    FROM filtered f
+    ORDER BY (f.t).created_at DESC
+    LIMIT p_limit
+    OFFSET p_offset
+  )
+  SELECT
+    to_jsonb(c.t),
+    c.order_status,
+    c.order_total,
+    c.customer_name,
+    (SELECT COUNT(*) FROM public.pesapal_callbacks cb WHERE cb.pesapal_tracking_id = (c.t).pesapal_tracking_id),
+    c.total_count
+  FROM counted c
+  ORDER BY (c.t).created_at DESC;
+$$;
+
+-- Orders whose payment and order status disagree:
+--   paid_not_completed         a COMPLETED Pesapal payment on an order that
+--                              is not completed
+--   completed_without_payment  a completed Pesapal order with no COMPLETED
+--                              payment
+CREATE OR REPLACE FUNCTION public.get_payment_mismatches()
+RETURNS TABLE (
+  mismatch TEXT,
+  order_id UUID,
+  order_status TEXT,
+  order_total NUMERIC,
+  transaction_id UUID,
+  merchant_reference TEXT,
+  pesapal_tracking_id TEXT,
+  transaction_status TEXT,
+  transaction_amount NUMERIC,
+  created_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    'paid_not_completed',
+    o.id,
+    o.status,
+    o.total_amount + COALESCE(o.delivery_fee, 0),
+    t.id,
+    t.merchant_reference,
+    t.pesapal_tracking_id,
+    t.status::text,
+    t.amount,
+    t.updated_at
+  FROM public.pesapal_transactions t
+  JOIN public.orders o ON o.id = t.order_id
+  WHERE t.status = 'COMPLETED'
+    AND o.status <> 'completed'
+
+  UNION ALL
+
+  SELECT
+    'completed_without_payment',
+    o.id,
+    o.status,
+    o.total_amount + COALESCE(o.delivery_fee, 0),
+    latest.id,
+    latest.merchant_reference,
+    latest.pesapal_tracking_id,
+    latest.status::text,
+    latest.amount,
+    o.created_at
+  FROM public.orders o
+  LEFT JOIN LATERAL (
+    SELECT t.*
+    FROM public.pesapal_transactions t
+    WHERE t.order_id = o.id
+    ORDER BY t.created_at DESC
+    LIMIT 1
+  ) latest ON TRUE
+  WHERE o.status = 'completed'
+    AND o.payment_method = 'pesapal'
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.pesapal_transactions t
+      WHERE t.order_id = o.id
+        AND t.status = 'COMPLETED'
+    )
+
+  ORDER BY 10 DESC;
+$$;
@@ -0,0 +1,113 @@
+-- Hold Pesapal payments whose amount or currency doesn't match the order in a
+-- 'payment_review' state instead of completing the order and taking stock.
+
+-- Replace whichever CHECK constraint currently limits orders.status
+DO $$
+DECLARE
+  status_check RECORD;
+BEGIN
+  FOR status_check IN
+    SELECT conname
+    FROM pg_constraint
+    WHERE conrelid = 'public.orders'::regclass
+      AND contype = 'c'
+      AND pg_get_constraintdef(oid) ~ '\mstatus\M'
+  LOOP
+    EXECUTE format('ALTER TABLE public.orders DROP CONSTRAINT %I', status_check.conname);
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE public.orders
+ADD CONSTRAINT orders_status_check
+CHECK (status IN ('pending', 'processing', 'payment_review', 'completed', 'cancelled'));
+
+-- What Pesapal reported for the payment, kept so admins can compare it with
+-- the order when reviewing
+ALTER TABLE public.pesapal_transactions
+ADD COLUMN reported_amount NUMERIC,
+ADD COLUMN reported_currency TEXT,
+ADD COLUMN review_reason TEXT;
+
+-- Orders under payment review are released to processing once an admin has
+-- settled the difference with the customer, or cancelled.
+-- Keep in sync with ORDER_STATUS_TRANSITIONS in src/utils/orderStatus.ts
+CREATE OR REPLACE FUNCTION public.is_valid_order_status_transition(_from TEXT, _to TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT _from = _to OR (_from, _to) IN (
+    ('pending', 'processing'),
+    ('pending', 'payment_review'),
+    ('pending', 'completed'),
+    ('pending', 'cancelled'),
+    ('processing', 'payment_review'),
+    ('processing', 'completed'),
+    ('processing', 'cancelled'),
+    ('payment_review', 'processing'),
+    ('payment_review', 'cancelled'),
+    ('completed', 'cancelled')
+  );
+$$;
+
+-- Move an order into payment review and notify admins. Called by
+-- check-pesapal-status with the service role. Completed and cancelled orders
+-- are left alone, and an order already under review isn't notified twice.
+-- Returns JSONB with 'held' and the order's resulting 'status'.
+CREATE OR REPLACE FUNCTION public.hold_order_for_payment_review(
+  p_order_id UUID,
+  p_reason TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  target_order public.orders;
+  customer_name TEXT;
+BEGIN
+  IF auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'hold_order_for_payment_review may only be called by Pesapal functions'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO target_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF target_order.id IS NULL THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF target_order.status = 'payment_review' THEN
+    RETURN jsonb_build_object('held', true, 'status', target_order.status);
+  END IF;
+
+  IF target_order.status NOT IN ('pending', 'processing') THEN
+    RETURN jsonb_build_object('held', false, 'status', target_order.status);
+  END IF;
+
+  PERFORM set_config('app.order_status_actor', '', true);
+  PERFORM set_config('app.order_status_reason', COALESCE(p_reason, ''), true);
+
+  UPDATE public.orders
+  SET status = 'payment_review'
+  WHERE id = p_order_id;
+
+  SELECT COALESCE(full_name, 'Unknown Customer') INTO customer_name
+  FROM public.profiles WHERE id = target_order.user_id;
+
+  INSERT INTO public.admin_notifications (type, title, message, order_id)
+  VALUES (
+    'payment_review',
+    'Payment Needs Review',
+    'Order from ' || COALESCE(customer_name, 'Unknown Customer') || ' is on hold: ' || COALESCE(p_reason, 'payment mismatch') || '.',
+    p_order_id
+  );
+
+  RETURN jsonb_build_object('held', true, 'status', 'payment_review');
+END;
+$$;
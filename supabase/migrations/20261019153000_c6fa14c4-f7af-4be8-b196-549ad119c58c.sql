@@ -0,0 +1,50 @@
+-- Pesapal reconciliation: the reconcile-pesapal-transactions function re-checks
+-- PENDING transactions whose IPN never arrived and records a summary of each run.
+
+CREATE TABLE public.pesapal_reconciliation_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  triggered_by UUID REFERENCES auth.users(id),
+  stale_after_minutes INTEGER NOT NULL,
+  checked_count INTEGER NOT NULL DEFAULT 0,
+  completed_count INTEGER NOT NULL DEFAULT 0,
+  cancelled_count INTEGER NOT NULL DEFAULT 0,
+  review_count INTEGER NOT NULL DEFAULT 0,
+  pending_count INTEGER NOT NULL DEFAULT 0,
+  error_count INTEGER NOT NULL DEFAULT 0,
+  errors JSONB NOT NULL DEFAULT '[]'::jsonb,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  finished_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_pesapal_reconciliation_runs_started_at
+ON public.pesapal_reconciliation_runs(started_at DESC);
+
+-- Admins can read runs; rows are only written by the edge function
+ALTER TABLE public.pesapal_reconciliation_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view Pesapal reconciliation runs"
+ON public.pesapal_reconciliation_runs
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Stale pending transactions are looked up oldest first
+CREATE INDEX IF NOT EXISTS idx_pesapal_transactions_status_created_at
+ON public.pesapal_transactions(status, created_at);
+
+-- To run the job every 15 minutes, enable pg_cron and pg_net and store the
+-- service role key in Vault as 'service_role_key', then:
+--
+-- SELECT cron.schedule(
+--   'reconcile-pesapal-transactions',
+--   '*/15 * * * *',
+--   $$
+--   SELECT net.http_post(
+--     url := 'https://mdkexfslutqzwoqfyxil.supabase.co/functions/v1/reconcile-pesapal-transactions',
+--     headers := jsonb_build_object(
+--       'Content-Type', 'application/json',
+--       'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+--     ),
+--     body := '{}'::jsonb
+--   );
+--   $$
+-- );
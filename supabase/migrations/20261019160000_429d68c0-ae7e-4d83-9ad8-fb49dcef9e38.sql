@@ -0,0 +1,100 @@
+-- Each Pesapal callback records its own processing outcome so failures can be
+-- retried. Repeated notifications for the same tracking ID and type share one
+-- row instead of piling up.
+
+ALTER TABLE public.pesapal_callbacks
+ADD COLUMN outcome TEXT CHECK (outcome IN ('succeeded', 'failed', 'ignored')),
+ADD COLUMN error TEXT,
+ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN received_count INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN last_attempt_at TIMESTAMPTZ,
+ADD COLUMN dedupe_key TEXT;
+
+-- Earlier rows were marked processed whether or not processing worked, so the
+-- best we can say about them is that they were attempted once
+UPDATE public.pesapal_callbacks
+SET outcome = 'succeeded',
+    attempts = 1,
+    last_attempt_at = created_at
+WHERE processed;
+
+-- Only the latest earlier row per notification takes the key; older
+-- duplicates stay in the history without one
+UPDATE public.pesapal_callbacks c
+SET dedupe_key = latest.dedupe_key
+FROM (
+  SELECT DISTINCT ON (pesapal_tracking_id, callback_type)
+    id,
+    pesapal_tracking_id || ':' || callback_type AS dedupe_key
+  FROM public.pesapal_callbacks
+  ORDER BY pesapal_tracking_id, callback_type, created_at DESC
+) latest
+WHERE c.id = latest.id;
+
+CREATE UNIQUE INDEX idx_pesapal_callbacks_dedupe_key
+ON public.pesapal_callbacks(dedupe_key);
+
+CREATE INDEX idx_pesapal_callbacks_outcome
+ON public.pesapal_callbacks(outcome)
+WHERE outcome = 'failed';
+
+-- Store an incoming notification, or count it against the row already stored
+-- for the same tracking ID and type. Returns the callback row.
+CREATE OR REPLACE FUNCTION public.record_pesapal_callback(
+  p_tracking_id TEXT,
+  p_callback_type TEXT,
+  p_payload JSONB
+)
+RETURNS public.pesapal_callbacks
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  callback public.pesapal_callbacks;
+BEGIN
+  IF auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'record_pesapal_callback may only be called by pesapal-callback'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  INSERT INTO public.pesapal_callbacks (pesapal_tracking_id, callback_type, raw_payload, processed, dedupe_key)
+  VALUES (p_tracking_id, p_callback_type, p_payload, false, p_tracking_id || ':' || p_callback_type)
+  ON CONFLICT (dedupe_key) DO UPDATE
+  SET received_count = public.pesapal_callbacks.received_count + 1,
+      raw_payload = EXCLUDED.raw_payload
+  RETURNING * INTO callback;
+
+  RETURN callback;
+END;
+$$;
+
+-- Count a processing attempt before it starts, so attempts that crash part way
+-- through still show up. Returns the callback row.
+CREATE OR REPLACE FUNCTION public.begin_pesapal_callback_attempt(p_callback_id UUID)
+RETURNS public.pesapal_callbacks
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  callback public.pesapal_callbacks;
+BEGIN
+  IF auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'begin_pesapal_callback_attempt may only be called by Pesapal functions'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE public.pesapal_callbacks
+  SET attempts = attempts + 1,
+      last_attempt_at = now()
+  WHERE id = p_callback_id
+  RETURNING * INTO callback;
+
+  IF callback.id IS NULL THEN
+    RAISE EXCEPTION 'Pesapal callback % not found', p_callback_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  RETURN callback;
+END;
+$$;
@@ -0,0 +1,164 @@
+-- Refunds: money returned to customers on completed orders, optionally for
+-- specific line items, and sent back through Pesapal when the order was paid
+-- that way. Written by the create-refund edge function.
+
+CREATE TABLE public.refunds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  pesapal_transaction_id UUID REFERENCES public.pesapal_transactions(id),
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  reason TEXT NOT NULL CHECK (btrim(reason) <> ''),
+  -- pending: recorded, not yet sent to Pesapal
+  -- requested: Pesapal accepted the refund request
+  -- completed: money has gone back to the customer
+  -- failed: Pesapal rejected the request; doesn't count against the order
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'requested', 'completed', 'failed')),
+  provider_reference TEXT,
+  provider_response JSONB,
+  error TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_refunds_order_id ON public.refunds(order_id);
+CREATE INDEX idx_refunds_created_at ON public.refunds(created_at);
+
+CREATE TRIGGER update_refunds_updated_at
+  BEFORE UPDATE ON public.refunds
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.refund_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  refund_id UUID NOT NULL REFERENCES public.refunds(id) ON DELETE CASCADE,
+  order_item_id UUID NOT NULL REFERENCES public.order_items(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  amount NUMERIC NOT NULL CHECK (amount >= 0)
+);
+
+CREATE INDEX idx_refund_items_refund_id ON public.refund_items(refund_id);
+CREATE INDEX idx_refund_items_order_item_id ON public.refund_items(order_item_id);
+
+-- Admins can read refunds; rows are only written by create-refund
+ALTER TABLE public.refunds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.refund_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view refunds"
+ON public.refunds
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can view refund items"
+ON public.refund_items
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Record a pending refund after checking it against what's left to refund on
+-- the order and on each line item. p_items is an array of
+-- {"orderItemId": UUID, "quantity": INTEGER}. Pesapal orders are linked to
+-- their completed transaction so the refund can be requested from Pesapal.
+-- Returns JSONB with refund_id, pesapal_transaction_id and pesapal_tracking_id.
+CREATE OR REPLACE FUNCTION public.create_refund(
+  p_order_id UUID,
+  p_amount NUMERIC,
+  p_reason TEXT,
+  p_items JSONB DEFAULT '[]'::jsonb,
+  p_actor_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  target_order public.orders;
+  refundable NUMERIC;
+  item JSONB;
+  order_item public.order_items;
+  item_quantity INTEGER;
+  refunded_quantity INTEGER;
+  paid_transaction public.pesapal_transactions;
+  new_refund_id UUID;
+BEGIN
+  IF auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'create_refund may only be called by the create-refund function'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO target_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF target_order.id IS NULL THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF target_order.status NOT IN ('completed', 'payment_review') THEN
+    RAISE EXCEPTION 'Only paid orders can be refunded; this order is %', target_order.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF COALESCE(btrim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A refund reason is required' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT target_order.total_amount + COALESCE(target_order.delivery_fee, 0) - COALESCE(SUM(amount), 0)
+  INTO refundable
+  FROM public.refunds
+  WHERE order_id = p_order_id AND status <> 'failed';
+
+  IF p_amount IS NULL OR p_amount <= 0 OR p_amount > refundable THEN
+    RAISE EXCEPTION 'Refund amount must be between 0 and the Ksh % left to refund', round(refundable, 2)
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF target_order.payment_method = 'pesapal' THEN
+    SELECT * INTO paid_transaction
+    FROM public.pesapal_transactions
+    WHERE order_id = p_order_id AND status = 'COMPLETED'
+    ORDER BY created_at DESC
+    LIMIT 1;
+  END IF;
+
+  INSERT INTO public.refunds (order_id, pesapal_transaction_id, amount, reason, created_by)
+  VALUES (p_order_id, paid_transaction.id, p_amount, btrim(p_reason), p_actor_id)
+  RETURNING id INTO new_refund_id;
+
+  FOR item IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb))
+  LOOP
+    item_quantity := (item ->> 'quantity')::INTEGER;
+
+    SELECT * INTO order_item
+    FROM public.order_items
+    WHERE id = (item ->> 'orderItemId')::UUID AND order_id = p_order_id;
+
+    IF order_item.id IS NULL THEN
+      RAISE EXCEPTION 'Item % is not on order %', item ->> 'orderItemId', p_order_id
+        USING ERRCODE = 'no_data_found';
+    END IF;
+
+    SELECT COALESCE(SUM(ri.quantity), 0) INTO refunded_quantity
+    FROM public.refund_items ri
+    JOIN public.refunds r ON r.id = ri.refund_id
+    WHERE ri.order_item_id = order_item.id AND r.status <> 'failed';
+
+    IF item_quantity IS NULL OR item_quantity <= 0 OR item_quantity > order_item.quantity - refunded_quantity THEN
+      RAISE EXCEPTION 'Only % of this item can still be refunded', order_item.quantity - refunded_quantity
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    INSERT INTO public.refund_items (refund_id, order_item_id, quantity, amount)
+    VALUES (new_refund_id, order_item.id, item_quantity, item_quantity * order_item.unit_price);
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'refund_id', new_refund_id,
+    'pesapal_transaction_id', paid_transaction.id,
+    'pesapal_tracking_id', paid_transaction.pesapal_tracking_id
+  );
+END;
+$$;
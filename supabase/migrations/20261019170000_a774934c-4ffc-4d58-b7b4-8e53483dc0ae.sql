@@ -0,0 +1,281 @@
+-- Payments received against an order. An order can be paid in several parts
+-- and several ways (Pesapal, cash on delivery, an M-Pesa till payment or a
+-- bank transfer), and it can only be completed once they cover its total.
+
+-- Orders can now also be placed to be paid by bank transfer
+DO $$
+DECLARE
+  method_check RECORD;
+BEGIN
+  FOR method_check IN
+    SELECT conname
+    FROM pg_constraint
+    WHERE conrelid = 'public.orders'::regclass
+      AND contype = 'c'
+      AND pg_get_constraintdef(oid) ~ '\mpayment_method\M'
+  LOOP
+    EXECUTE format('ALTER TABLE public.orders DROP CONSTRAINT %I', method_check.conname);
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE public.orders
+ADD CONSTRAINT orders_payment_method_check
+CHECK (payment_method IN ('pesapal', 'cod', 'mpesa', 'bank_transfer'));
+
+CREATE TABLE public.payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  method TEXT NOT NULL CHECK (method IN ('pesapal', 'cod', 'mpesa', 'bank_transfer')),
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  -- M-Pesa receipt number, bank transfer reference or Pesapal confirmation
+  reference TEXT,
+  pesapal_transaction_id UUID UNIQUE REFERENCES public.pesapal_transactions(id),
+  -- confirmed: counts towards the order
+  -- voided: recorded by mistake; kept for the audit trail but not counted
+  status TEXT NOT NULL DEFAULT 'confirmed' CHECK (status IN ('confirmed', 'voided')),
+  notes TEXT,
+  recorded_by UUID REFERENCES auth.users(id),
+  received_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  voided_at TIMESTAMPTZ,
+  voided_by UUID REFERENCES auth.users(id),
+  void_reason TEXT
+);
+
+CREATE INDEX idx_payments_order_id ON public.payments(order_id);
+CREATE INDEX idx_payments_received_at ON public.payments(received_at);
+
+-- The same M-Pesa receipt or bank reference can't be counted twice
+CREATE UNIQUE INDEX idx_payments_method_reference
+ON public.payments(method, upper(reference))
+WHERE status = 'confirmed' AND reference IS NOT NULL;
+
+-- Admins can read payments; rows are written through record_payment,
+-- void_payment and the Pesapal trigger below
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view payments"
+ON public.payments
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Completed Pesapal transactions become payments for whatever Pesapal
+-- reported, so an underpayment leaves a balance for an admin to collect.
+CREATE OR REPLACE FUNCTION public.record_pesapal_payment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+BEGIN
+  IF NEW.status = 'COMPLETED' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'COMPLETED') THEN
+    INSERT INTO public.payments (order_id, method, amount, reference, pesapal_transaction_id, received_at)
+    SELECT NEW.order_id, 'pesapal', COALESCE(NEW.reported_amount, NEW.amount), NEW.pesapal_tracking_id, NEW.id, now()
+    WHERE COALESCE(NEW.reported_amount, NEW.amount) > 0
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_pesapal_payment
+  AFTER INSERT OR UPDATE OF status ON public.pesapal_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_pesapal_payment();
+
+-- Bring existing payments across: completed Pesapal transactions, and
+-- completed orders paid any other way, which were paid in full.
+INSERT INTO public.payments (order_id, method, amount, reference, pesapal_transaction_id, received_at)
+SELECT t.order_id, 'pesapal', COALESCE(t.reported_amount, t.amount), t.pesapal_tracking_id, t.id, t.updated_at
+FROM public.pesapal_transactions t
+WHERE t.status = 'COMPLETED' AND COALESCE(t.reported_amount, t.amount) > 0;
+
+INSERT INTO public.payments (order_id, method, amount, reference, received_at)
+SELECT
+  o.id,
+  o.payment_method,
+  o.total_amount + COALESCE(o.delivery_fee, 0),
+  o.payment_reference,
+  COALESCE(
+    (SELECT max(h.created_at) FROM public.order_status_history h
+     WHERE h.order_id = o.id AND h.to_status = 'completed'),
+    o.created_at
+  )
+FROM public.orders o
+WHERE o.status = 'completed'
+  AND o.payment_method <> 'pesapal'
+  AND o.total_amount + COALESCE(o.delivery_fee, 0) > 0
+ON CONFLICT DO NOTHING;
+
+-- What's been received on an order and what's still owed
+CREATE OR REPLACE FUNCTION public.get_order_balance(p_order_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+  SELECT o.total_amount + COALESCE(o.delivery_fee, 0) - COALESCE((
+    SELECT SUM(p.amount)
+    FROM public.payments p
+    WHERE p.order_id = o.id AND p.status = 'confirmed'
+  ), 0)
+  FROM public.orders o
+  WHERE o.id = p_order_id;
+$$;
+
+-- Refuse to complete an order that hasn't been paid for in full, whichever
+-- path the completion comes through. A cent of rounding is let through.
+CREATE OR REPLACE FUNCTION public.ensure_order_paid_before_completion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  balance NUMERIC;
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed' THEN
+    balance := public.get_order_balance(NEW.id);
+
+    IF balance > 0.01 THEN
+      RAISE EXCEPTION 'Order is not fully paid: Ksh % of Ksh % received',
+        round(NEW.total_amount + COALESCE(NEW.delivery_fee, 0) - balance, 2),
+        round(NEW.total_amount + COALESCE(NEW.delivery_fee, 0), 2)
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER ensure_order_paid_before_completion
+  BEFORE UPDATE OF status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.ensure_order_paid_before_completion();
+
+-- Record a payment an admin has received outside Pesapal. M-Pesa and bank
+-- transfers need the reference from the receipt so they can be traced.
+-- Returns the new payment's ID.
+CREATE OR REPLACE FUNCTION public.record_payment(
+  p_order_id UUID,
+  p_method TEXT,
+  p_amount NUMERIC,
+  p_reference TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_received_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  target_order public.orders;
+  new_payment_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Admin access required' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO target_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF target_order.id IS NULL THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF target_order.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Payments can''t be recorded on a cancelled order' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_method NOT IN ('cod', 'mpesa', 'bank_transfer') THEN
+    RAISE EXCEPTION 'Pesapal payments are recorded automatically' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Payment amount must be positive' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_method IN ('mpesa', 'bank_transfer') AND NULLIF(trim(p_reference), '') IS NULL THEN
+    RAISE EXCEPTION 'A reference is required for % payments',
+      CASE p_method WHEN 'mpesa' THEN 'M-Pesa' ELSE 'bank transfer' END
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.payments
+    WHERE method = p_method
+      AND upper(reference) = upper(trim(p_reference))
+      AND status = 'confirmed'
+  ) THEN
+    RAISE EXCEPTION 'Reference % has already been recorded', upper(trim(p_reference))
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.payments (order_id, method, amount, reference, notes, recorded_by, received_at)
+  VALUES (
+    p_order_id, p_method, p_amount, NULLIF(upper(trim(p_reference)), ''),
+    NULLIF(trim(p_notes), ''), auth.uid(), COALESCE(p_received_at, now())
+  )
+  RETURNING id INTO new_payment_id;
+
+  RETURN new_payment_id;
+END;
+$$;
+
+-- Void a payment recorded by mistake. Payments on completed orders stay, as
+-- the order was completed on the strength of them; refund the order instead.
+CREATE OR REPLACE FUNCTION public.void_payment(
+  p_payment_id UUID,
+  p_reason TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  target_payment public.payments;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Admin access required' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO target_payment
+  FROM public.payments
+  WHERE id = p_payment_id
+  FOR UPDATE;
+
+  IF target_payment.id IS NULL THEN
+    RAISE EXCEPTION 'Payment % not found', p_payment_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF target_payment.status = 'voided' THEN
+    RETURN;
+  END IF;
+
+  IF target_payment.method = 'pesapal' THEN
+    RAISE EXCEPTION 'Pesapal payments can''t be voided; refund the order instead'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.orders WHERE id = target_payment.order_id AND status = 'completed') THEN
+    RAISE EXCEPTION 'Payments on completed orders can''t be voided; refund the order instead'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to void a payment' USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.payments
+  SET status = 'voided', voided_at = now(), voided_by = auth.uid(), void_reason = trim(p_reason)
+  WHERE id = p_payment_id;
+END;
+$$;
@@ -0,0 +1,169 @@
+-- Daily cash-up: what was collected each day, by method, against the orders
+-- completed that day. Days run midnight to midnight Nairobi time so they line
+-- up with Pesapal settlement statements and the riders' cash hand-over.
+
+CREATE INDEX IF NOT EXISTS idx_order_status_history_completed
+ON public.order_status_history(created_at)
+WHERE to_status = 'completed';
+
+CREATE INDEX IF NOT EXISTS idx_orders_delivered_at
+ON public.orders(delivered_at)
+WHERE delivered_at IS NOT NULL;
+
+-- One row per day in the range, including days with no activity.
+-- variance is everything collected less the value of orders completed that
+-- day; cod_variance is cash recorded less cash riders should have brought
+-- back for cash-on-delivery orders delivered that day.
+CREATE OR REPLACE FUNCTION public.get_cash_up_report(
+  p_from DATE,
+  p_to DATE
+)
+RETURNS TABLE (
+  day DATE,
+  completed_order_count BIGINT,
+  completed_order_total NUMERIC,
+  pesapal_count BIGINT,
+  pesapal_collected NUMERIC,
+  cod_expected NUMERIC,
+  cod_collected NUMERIC,
+  mpesa_collected NUMERIC,
+  bank_transfer_collected NUMERIC,
+  refunded NUMERIC,
+  total_collected NUMERIC,
+  net_collected NUMERIC,
+  variance NUMERIC,
+  cod_variance NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = 'public'
+AS $$
+  WITH days AS (
+    SELECT d::date AS day
+    FROM generate_series(p_from, p_to, interval '1 day') AS d
+  ),
+  completions AS (
+    SELECT
+      (h.completed_at AT TIME ZONE 'Africa/Nairobi')::date AS day,
+      COUNT(*) AS order_count,
+      SUM(o.total_amount + COALESCE(o.delivery_fee, 0)) AS order_total
+    FROM (
+      SELECT order_id, max(created_at) AS completed_at
+      FROM public.order_status_history
+      WHERE to_status = 'completed'
+      GROUP BY order_id
+    ) h
+    JOIN public.orders o ON o.id = h.order_id
+    WHERE o.status = 'completed'
+    GROUP BY 1
+  ),
+  collections AS (
+    SELECT
+      (received_at AT TIME ZONE 'Africa/Nairobi')::date AS day,
+      COUNT(*) FILTER (WHERE method = 'pesapal') AS pesapal_count,
+      SUM(amount) FILTER (WHERE method = 'pesapal') AS pesapal,
+      SUM(amount) FILTER (WHERE method = 'cod') AS cod,
+      SUM(amount) FILTER (WHERE method = 'mpesa') AS mpesa,
+      SUM(amount) FILTER (WHERE method = 'bank_transfer') AS bank_transfer,
+      SUM(amount) AS total
+    FROM public.payments
+    WHERE status = 'confirmed'
+    GROUP BY 1
+  ),
+  cod_deliveries AS (
+    SELECT
+      (delivered_at AT TIME ZONE 'Africa/Nairobi')::date AS day,
+      SUM(total_amount + COALESCE(delivery_fee, 0)) AS expected
+    FROM public.orders
+    WHERE payment_method = 'cod'
+      AND delivery_status = 'delivered'
+      AND status <> 'cancelled'
+    GROUP BY 1
+  ),
+  refunds_by_day AS (
+    SELECT
+      (created_at AT TIME ZONE 'Africa/Nairobi')::date AS day,
+      SUM(amount) AS refunded
+    FROM public.refunds
+    WHERE status <> 'failed'
+    GROUP BY 1
+  )
+  SELECT
+    days.day,
+    COALESCE(c.order_count, 0),
+    COALESCE(c.order_total, 0),
+    COALESCE(p.pesapal_count, 0),
+    COALESCE(p.pesapal, 0),
+    COALESCE(d.expected, 0),
+    COALESCE(p.cod, 0),
+    COALESCE(p.mpesa, 0),
+    COALESCE(p.bank_transfer, 0),
+    COALESCE(r.refunded, 0),
+    COALESCE(p.total, 0),
+    COALESCE(p.total, 0) - COALESCE(r.refunded, 0),
+    COALESCE(p.total, 0) - COALESCE(c.order_total, 0),
+    COALESCE(p.cod, 0) - COALESCE(d.expected, 0)
+  FROM days
+  LEFT JOIN completions c ON c.day = days.day
+  LEFT JOIN collections p ON p.day = days.day
+  LEFT JOIN cod_deliveries d ON d.day = days.day
+  LEFT JOIN refunds_by_day r ON r.day = days.day
+  ORDER BY days.day;
+$$;
+
+-- Cash on delivery by rider and day, for checking each rider's hand-over.
+-- Cash is attributed to the rider assigned to the order it was paid on.
+CREATE OR REPLACE FUNCTION public.get_cod_rider_cash_up(
+  p_from DATE,
+  p_to DATE
+)
+RETURNS TABLE (
+  day DATE,
+  rider_id UUID,
+  rider_name TEXT,
+  delivered_count BIGINT,
+  cod_expected NUMERIC,
+  cod_collected NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = 'public'
+AS $$
+  WITH activity AS (
+    SELECT
+      (o.delivered_at AT TIME ZONE 'Africa/Nairobi')::date AS day,
+      o.rider_id,
+      1 AS delivered,
+      o.total_amount + COALESCE(o.delivery_fee, 0) AS expected,
+      0 AS collected
+    FROM public.orders o
+    WHERE o.payment_method = 'cod'
+      AND o.delivery_status = 'delivered'
+      AND o.status <> 'cancelled'
+
+    UNION ALL
+
+    SELECT
+      (p.received_at AT TIME ZONE 'Africa/Nairobi')::date,
+      o.rider_id,
+      0,
+      0,
+      p.amount
+    FROM public.payments p
+    JOIN public.orders o ON o.id = p.order_id
+    WHERE p.method = 'cod'
+      AND p.status = 'confirmed'
+  )
+  SELECT
+    a.day,
+    a.rider_id,
+    r.full_name,
+    SUM(a.delivered)::BIGINT,
+    SUM(a.expected),
+    SUM(a.collected)
+  FROM activity a
+  LEFT JOIN public.riders r ON r.id = a.rider_id
+  WHERE a.day BETWEEN p_from AND p_to
+  GROUP BY a.day, a.rider_id, r.full_name
+  ORDER BY a.day, r.full_name NULLS LAST;
+$$;
@@ -0,0 +1,412 @@
+-- Stock movement ledger: every change to products.stock goes through
+-- record_stock_movement, which writes a stock_movements row with the acting
+-- admin and a reason code. Direct updates to products.stock are rejected.
+
+ALTER TABLE public.stock_movements
+ADD COLUMN IF NOT EXISTS actor_id UUID REFERENCES auth.users(id),
+ADD COLUMN IF NOT EXISTS reason_code TEXT;
+
+UPDATE public.stock_movements
+SET reason_code = CASE movement_type
+  WHEN 'sale' THEN 'order_completed'
+  WHEN 'return' THEN 'order_cancelled'
+  ELSE 'other'
+END
+WHERE reason_code IS NULL;
+
+ALTER TABLE public.stock_movements
+ALTER COLUMN reason_code SET NOT NULL;
+
+-- Replace whatever movement_type check the table was created with
+DO $$
+DECLARE
+  constraint_name TEXT;
+BEGIN
+  FOR constraint_name IN
+    SELECT conname
+    FROM pg_constraint
+    WHERE conrelid = 'public.stock_movements'::regclass
+      AND contype = 'c'
+      AND pg_get_constraintdef(oid) LIKE '%movement_type%'
+  LOOP
+    EXECUTE format('ALTER TABLE public.stock_movements DROP CONSTRAINT %I', constraint_name);
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE public.stock_movements
+ADD CONSTRAINT stock_movements_movement_type_check
+CHECK (movement_type IN ('sale', 'return', 'adjustment', 'import'));
+
+ALTER TABLE public.stock_movements
+ADD CONSTRAINT stock_movements_reason_code_check
+CHECK (reason_code IN (
+  'delivery_received',
+  'stock_count',
+  'damaged',
+  'spoiled',
+  'customer_return',
+  'order_completed',
+  'order_cancelled',
+  'initial_stock',
+  'other'
+));
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_product_created
+ON public.stock_movements (product_id, created_at DESC);
+
+ALTER TABLE public.stock_movements ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view stock movements" ON public.stock_movements;
+CREATE POLICY "Admins can view stock movements"
+ON public.stock_movements
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Apply a signed change to a product's stock and log it. Admins act as
+-- themselves; the service role (complete_order, cancel_order) passes the
+-- admin it is acting for in p_actor_id. Returns the ledger row.
+CREATE OR REPLACE FUNCTION public.record_stock_movement(
+  p_product_id UUID,
+  p_quantity INTEGER,
+  p_movement_type TEXT,
+  p_reason_code TEXT,
+  p_reason TEXT DEFAULT NULL,
+  p_order_id UUID DEFAULT NULL,
+  p_actor_id UUID DEFAULT NULL
+)
+RETURNS public.stock_movements
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  is_service BOOLEAN := auth.role() = 'service_role';
+  old_stock INTEGER;
+  movement public.stock_movements;
+BEGIN
+  IF NOT is_service AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Admin access required' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity = 0 THEN
+    RAISE EXCEPTION 'Stock movement quantity must not be zero' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_reason_code IS NULL THEN
+    RAISE EXCEPTION 'A reason code is required for every stock movement' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Sales, cancellations and opening stock are only logged by the system
+  IF NOT is_service AND (
+    p_movement_type <> 'adjustment'
+    OR p_reason_code IN ('order_completed', 'order_cancelled', 'initial_stock')
+  ) THEN
+    RAISE EXCEPTION 'Admins can only record manual adjustments' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT stock INTO old_stock
+  FROM public.products
+  WHERE id = p_product_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product % not found', p_product_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- Lets the guard trigger below tell this update apart from a direct write
+  PERFORM set_config('app.stock_movement_product', p_product_id::text, true);
+
+  UPDATE public.products
+  SET stock = old_stock + p_quantity
+  WHERE id = p_product_id;
+
+  PERFORM set_config('app.stock_movement_product', '', true);
+
+  INSERT INTO public.stock_movements (
+    product_id,
+    order_id,
+    movement_type,
+    reason_code,
+    quantity,
+    previous_stock,
+    new_stock,
+    reason,
+    actor_id
+  )
+  VALUES (
+    p_product_id,
+    p_order_id,
+    p_movement_type,
+    p_reason_code,
+    abs(p_quantity),
+    old_stock,
+    old_stock + p_quantity,
+    NULLIF(trim(p_reason), ''),
+    CASE WHEN is_service THEN p_actor_id ELSE auth.uid() END
+  )
+  RETURNING * INTO movement;
+
+  RETURN movement;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.ensure_stock_change_is_recorded()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+BEGIN
+  IF NEW.stock IS DISTINCT FROM OLD.stock
+    AND COALESCE(current_setting('app.stock_movement_product', true), '') <> NEW.id::text THEN
+    RAISE EXCEPTION 'Product stock must be changed through record_stock_movement'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS ensure_stock_change_is_recorded ON public.products;
+CREATE TRIGGER ensure_stock_change_is_recorded
+BEFORE UPDATE OF stock ON public.products
+FOR EACH ROW
+EXECUTE FUNCTION public.ensure_stock_change_is_recorded();
+
+-- Stock a product is created with is its opening balance in the ledger
+CREATE OR REPLACE FUNCTION public.log_initial_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+BEGIN
+  IF NEW.stock > 0 THEN
+    INSERT INTO public.stock_movements (
+      product_id,
+      movement_type,
+      reason_code,
+      quantity,
+      previous_stock,
+      new_stock,
+      actor_id
+    )
+    VALUES (NEW.id, 'import', 'initial_stock', NEW.stock, 0, NEW.stock, auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_initial_stock ON public.products;
+CREATE TRIGGER log_initial_stock
+AFTER INSERT ON public.products
+FOR EACH ROW
+EXECUTE FUNCTION public.log_initial_stock();
+
+-- complete_order and cancel_order now move stock through the ledger
+CREATE OR REPLACE FUNCTION public.complete_order(
+  p_order_id UUID,
+  p_reason TEXT DEFAULT NULL,
+  p_actor_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  target_order public.orders;
+  item RECORD;
+  movement public.stock_movements;
+  shortages JSONB := '[]'::jsonb;
+  stock_updates JSONB := '[]'::jsonb;
+BEGIN
+  IF auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'complete_order may only be called by the complete-order function'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO target_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF target_order.id IS NULL THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF target_order.status = 'completed' THEN
+    RETURN jsonb_build_object('result', 'already_completed', 'stock_updates', stock_updates);
+  END IF;
+
+  IF target_order.status NOT IN ('pending', 'processing') THEN
+    RETURN jsonb_build_object('result', 'invalid_status', 'status', target_order.status);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.order_items WHERE order_id = p_order_id) THEN
+    RAISE EXCEPTION 'Order % has no items', p_order_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- Lock products in a stable order so concurrent completions cannot deadlock
+  PERFORM 1
+  FROM public.products
+  WHERE id IN (SELECT product_id FROM public.order_items WHERE order_id = p_order_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  -- Check every item before touching stock so the report lists all shortages
+  FOR item IN
+    SELECT oi.product_id, SUM(oi.quantity)::INTEGER AS quantity, p.name, p.stock
+    FROM public.order_items oi
+    LEFT JOIN public.products p ON p.id = oi.product_id
+    WHERE oi.order_id = p_order_id
+    GROUP BY oi.product_id, p.name, p.stock
+    ORDER BY oi.product_id
+  LOOP
+    IF item.stock IS NULL OR item.stock < item.quantity THEN
+      shortages := shortages || jsonb_build_object(
+        'productId', item.product_id,
+        'productName', item.name,
+        'requested', item.quantity,
+        'available', COALESCE(item.stock, 0)
+      );
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(shortages) > 0 THEN
+    RETURN jsonb_build_object('result', 'insufficient_stock', 'shortages', shortages);
+  END IF;
+
+  FOR item IN
+    SELECT product_id, SUM(quantity)::INTEGER AS quantity
+    FROM public.order_items
+    WHERE order_id = p_order_id
+    GROUP BY product_id
+    ORDER BY product_id
+  LOOP
+    movement := public.record_stock_movement(
+      item.product_id,
+      -item.quantity,
+      'sale',
+      'order_completed',
+      p_reason,
+      p_order_id,
+      p_actor_id
+    );
+
+    stock_updates := stock_updates || jsonb_build_object(
+      'productId', item.product_id,
+      'oldStock', movement.previous_stock,
+      'newStock', movement.new_stock
+    );
+  END LOOP;
+
+  PERFORM set_config('app.order_status_actor', COALESCE(p_actor_id::text, ''), true);
+  PERFORM set_config('app.order_status_reason', COALESCE(p_reason, ''), true);
+
+  UPDATE public.orders
+  SET status = 'completed'
+  WHERE id = p_order_id;
+
+  RETURN jsonb_build_object('result', 'completed', 'stock_updates', stock_updates);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancel_order(
+  p_order_id UUID,
+  p_reason TEXT,
+  p_refund_amount NUMERIC DEFAULT 0,
+  p_refund_reason TEXT DEFAULT NULL,
+  p_actor_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  target_order public.orders;
+  item RECORD;
+  movement public.stock_movements;
+  restocked JSONB := '[]'::jsonb;
+BEGIN
+  IF auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'cancel_order may only be called by the cancel-order function'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO target_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF target_order.id IS NULL THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- Idempotent: repeated cancellations (e.g. duplicate Pesapal notifications) are no-ops
+  IF target_order.status = 'cancelled' THEN
+    RETURN jsonb_build_object(
+      'already_cancelled', true,
+      'previous_status', target_order.status,
+      'restocked', restocked
+    );
+  END IF;
+
+  IF COALESCE(p_refund_amount, 0) < 0
+    OR COALESCE(p_refund_amount, 0) > target_order.total_amount + COALESCE(target_order.delivery_fee, 0) THEN
+    RAISE EXCEPTION 'Refund amount must be between 0 and the order total'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Stock was only taken when the order completed, so only completed orders are restocked
+  IF target_order.status = 'completed' THEN
+    FOR item IN
+      SELECT oi.product_id, SUM(oi.quantity)::INTEGER AS quantity
+      FROM public.order_items oi
+      -- Products deleted since the sale have nothing to restock
+      JOIN public.products p ON p.id = oi.product_id
+      WHERE oi.order_id = p_order_id
+      GROUP BY oi.product_id
+      ORDER BY oi.product_id
+    LOOP
+      movement := public.record_stock_movement(
+        item.product_id,
+        item.quantity,
+        'return',
+        'order_cancelled',
+        p_reason,
+        p_order_id,
+        p_actor_id
+      );
+
+      restocked := restocked || jsonb_build_object(
+        'productId', item.product_id,
+        'quantity', item.quantity,
+        'oldStock', movement.previous_stock,
+        'newStock', movement.new_stock
+      );
+    END LOOP;
+
+    PERFORM set_config('app.order_restocked', p_order_id::text, true);
+  END IF;
+
+  PERFORM set_config('app.order_status_actor', COALESCE(p_actor_id::text, ''), true);
+  PERFORM set_config('app.order_status_reason', COALESCE(p_reason, ''), true);
+
+  UPDATE public.orders
+  SET status = 'cancelled',
+      cancelled_at = now(),
+      cancellation_reason = p_reason,
+      refund_amount = COALESCE(p_refund_amount, 0),
+      refund_reason = p_refund_reason
+  WHERE id = p_order_id;
+
+  RETURN jsonb_build_object(
+    'already_cancelled', false,
+    'previous_status', target_order.status,
+    'restocked', restocked
+  );
+END;
+$$;
@@ -0,0 +1,95 @@
+-- Manual stock adjustments arrive as deltas from Inventory. The ledger RPC
+-- already applies them against the locked product row; it now also refuses
+-- any change that would take stock below zero instead of letting the caller
+-- clamp it.
+
+CREATE OR REPLACE FUNCTION public.record_stock_movement(
+  p_product_id UUID,
+  p_quantity INTEGER,
+  p_movement_type TEXT,
+  p_reason_code TEXT,
+  p_reason TEXT DEFAULT NULL,
+  p_order_id UUID DEFAULT NULL,
+  p_actor_id UUID DEFAULT NULL
+)
+RETURNS public.stock_movements
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  is_service BOOLEAN := auth.role() = 'service_role';
+  old_stock INTEGER;
+  movement public.stock_movements;
+BEGIN
+  IF NOT is_service AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Admin access required' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity = 0 THEN
+    RAISE EXCEPTION 'Stock movement quantity must not be zero' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_reason_code IS NULL THEN
+    RAISE EXCEPTION 'A reason code is required for every stock movement' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Sales, cancellations and opening stock are only logged by the system
+  IF NOT is_service AND (
+    p_movement_type <> 'adjustment'
+    OR p_reason_code IN ('order_completed', 'order_cancelled', 'initial_stock')
+  ) THEN
+    RAISE EXCEPTION 'Admins can only record manual adjustments' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT stock INTO old_stock
+  FROM public.products
+  WHERE id = p_product_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product % not found', p_product_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- Checked against the locked row, not the stock the caller last saw
+  IF old_stock + p_quantity < 0 THEN
+    RAISE EXCEPTION 'Cannot remove % units: only % in stock', -p_quantity, old_stock
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Lets the guard trigger below tell this update apart from a direct write
+  PERFORM set_config('app.stock_movement_product', p_product_id::text, true);
+
+  UPDATE public.products
+  SET stock = old_stock + p_quantity
+  WHERE id = p_product_id;
+
+  PERFORM set_config('app.stock_movement_product', '', true);
+
+  INSERT INTO public.stock_movements (
+    product_id,
+    order_id,
+    movement_type,
+    reason_code,
+    quantity,
+    previous_stock,
+    new_stock,
+    reason,
+    actor_id
+  )
+  VALUES (
+    p_product_id,
+    p_order_id,
+    p_movement_type,
+    p_reason_code,
+    abs(p_quantity),
+    old_stock,
+    old_stock + p_quantity,
+    NULLIF(trim(p_reason), ''),
+    CASE WHEN is_service THEN p_actor_id ELSE auth.uid() END
+  )
+  RETURNING * INTO movement;
+
+  RETURN movement;
+END;
+$$;
@@ -0,0 +1,261 @@
+-- Stock batches for perishable products. Each delivery is received as a
+-- batch with its received and expiry dates, supplier and unit cost. Stock
+-- leaving a product (sales, damage, spoilage) is taken from the batch that
+-- expires first, and stock_batch_movements records which batches each
+-- movement touched so a cancelled sale can be put back where it came from.
+
+CREATE TABLE public.stock_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  quantity_received INTEGER NOT NULL CHECK (quantity_received > 0),
+  quantity_remaining INTEGER NOT NULL CHECK (quantity_remaining >= 0),
+  received_at DATE NOT NULL DEFAULT (now() AT TIME ZONE 'Africa/Nairobi')::date,
+  expires_at DATE,
+  supplier TEXT,
+  unit_cost NUMERIC(10,2) CHECK (unit_cost >= 0),
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT stock_batches_remaining_check CHECK (quantity_remaining <= quantity_received),
+  CONSTRAINT stock_batches_expiry_check CHECK (expires_at IS NULL OR expires_at >= received_at)
+);
+
+CREATE INDEX idx_stock_batches_product_expiry
+ON public.stock_batches (product_id, expires_at)
+WHERE quantity_remaining > 0;
+
+CREATE INDEX idx_stock_batches_expiry
+ON public.stock_batches (expires_at)
+WHERE quantity_remaining > 0 AND expires_at IS NOT NULL;
+
+CREATE TABLE public.stock_batch_movements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_id UUID NOT NULL REFERENCES public.stock_batches(id) ON DELETE CASCADE,
+  movement_id UUID NOT NULL REFERENCES public.stock_movements(id) ON DELETE CASCADE,
+  -- Negative when stock was taken from the batch, positive when added
+  quantity INTEGER NOT NULL CHECK (quantity <> 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_stock_batch_movements_movement ON public.stock_batch_movements (movement_id);
+CREATE INDEX idx_stock_batch_movements_batch ON public.stock_batch_movements (batch_id);
+
+ALTER TABLE public.stock_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_batch_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view stock batches"
+ON public.stock_batches
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can view stock batch movements"
+ON public.stock_batch_movements
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- record_stock_movement now draws removals from batches and returns
+-- cancelled sales to them
+CREATE OR REPLACE FUNCTION public.record_stock_movement(
+  p_product_id UUID,
+  p_quantity INTEGER,
+  p_movement_type TEXT,
+  p_reason_code TEXT,
+  p_reason TEXT DEFAULT NULL,
+  p_order_id UUID DEFAULT NULL,
+  p_actor_id UUID DEFAULT NULL
+)
+RETURNS public.stock_movements
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  is_service BOOLEAN := auth.role() = 'service_role';
+  old_stock INTEGER;
+  movement public.stock_movements;
+  batch RECORD;
+  left_to_take INTEGER;
+  taken INTEGER;
+BEGIN
+  IF NOT is_service AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Admin access required' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity = 0 THEN
+    RAISE EXCEPTION 'Stock movement quantity must not be zero' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_reason_code IS NULL THEN
+    RAISE EXCEPTION 'A reason code is required for every stock movement' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Sales, cancellations and opening stock are only logged by the system
+  IF NOT is_service AND (
+    p_movement_type <> 'adjustment'
+    OR p_reason_code IN ('order_completed', 'order_cancelled', 'initial_stock')
+  ) THEN
+    RAISE EXCEPTION 'Admins can only record manual adjustments' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT stock INTO old_stock
+  FROM public.products
+  WHERE id = p_product_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product % not found', p_product_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- Checked against the locked row, not the stock the caller last saw
+  IF old_stock + p_quantity < 0 THEN
+    RAISE EXCEPTION 'Cannot remove % units: only % in stock', -p_quantity, old_stock
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Lets ensure_stock_change_is_recorded tell this update apart from a direct write
+  PERFORM set_config('app.stock_movement_product', p_product_id::text, true);
+
+  UPDATE public.products
+  SET stock = old_stock + p_quantity
+  WHERE id = p_product_id;
+
+  PERFORM set_config('app.stock_movement_product', '', true);
+
+  INSERT INTO public.stock_movements (
+    product_id,
+    order_id,
+    movement_type,
+    reason_code,
+    quantity,
+    previous_stock,
+    new_stock,
+    reason,
+    actor_id
+  )
+  VALUES (
+    p_product_id,
+    p_order_id,
+    p_movement_type,
+    p_reason_code,
+    abs(p_quantity),
+    old_stock,
+    old_stock + p_quantity,
+    NULLIF(trim(p_reason), ''),
+    CASE WHEN is_service THEN p_actor_id ELSE auth.uid() END
+  )
+  RETURNING * INTO movement;
+
+  IF p_quantity < 0 THEN
+    -- First expiry, first out. Batches without an expiry date go last, and
+    -- stock received before batches were tracked covers whatever is left.
+    left_to_take := -p_quantity;
+
+    FOR batch IN
+      SELECT id, quantity_remaining
+      FROM public.stock_batches
+      WHERE product_id = p_product_id
+        AND quantity_remaining > 0
+      ORDER BY expires_at NULLS LAST, received_at, created_at
+      FOR UPDATE
+    LOOP
+      EXIT WHEN left_to_take = 0;
+
+      taken := LEAST(batch.quantity_remaining, left_to_take);
+
+      UPDATE public.stock_batches
+      SET quantity_remaining = quantity_remaining - taken
+      WHERE id = batch.id;
+
+      INSERT INTO public.stock_batch_movements (batch_id, movement_id, quantity)
+      VALUES (batch.id, movement.id, -taken);
+
+      left_to_take := left_to_take - taken;
+    END LOOP;
+  ELSIF p_movement_type = 'return' AND p_order_id IS NOT NULL THEN
+    -- A cancelled sale goes back into the batches it was taken from
+    FOR batch IN
+      SELECT bm.batch_id, -SUM(bm.quantity)::INTEGER AS quantity
+      FROM public.stock_batch_movements bm
+      JOIN public.stock_movements sm ON sm.id = bm.movement_id
+      WHERE sm.order_id = p_order_id
+        AND sm.product_id = p_product_id
+        AND sm.movement_type = 'sale'
+      GROUP BY bm.batch_id
+      ORDER BY bm.batch_id
+    LOOP
+      UPDATE public.stock_batches
+      SET quantity_remaining = quantity_remaining + batch.quantity
+      WHERE id = batch.batch_id;
+
+      INSERT INTO public.stock_batch_movements (batch_id, movement_id, quantity)
+      VALUES (batch.batch_id, movement.id, batch.quantity);
+    END LOOP;
+  END IF;
+
+  RETURN movement;
+END;
+$$;
+
+-- Receive a delivery as a new batch and add it to stock through the ledger.
+-- Returns the batch.
+CREATE OR REPLACE FUNCTION public.receive_stock_batch(
+  p_product_id UUID,
+  p_quantity INTEGER,
+  p_expires_at DATE DEFAULT NULL,
+  p_received_at DATE DEFAULT NULL,
+  p_supplier TEXT DEFAULT NULL,
+  p_unit_cost NUMERIC DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS public.stock_batches
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  movement public.stock_movements;
+  batch public.stock_batches;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Admin access required' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Received quantity must be greater than zero' USING ERRCODE = 'check_violation';
+  END IF;
+
+  movement := public.record_stock_movement(
+    p_product_id,
+    p_quantity,
+    'adjustment',
+    'delivery_received',
+    p_reason
+  );
+
+  INSERT INTO public.stock_batches (
+    product_id,
+    quantity_received,
+    quantity_remaining,
+    received_at,
+    expires_at,
+    supplier,
+    unit_cost,
+    created_by
+  )
+  VALUES (
+    p_product_id,
+    p_quantity,
+    p_quantity,
+    COALESCE(p_received_at, (now() AT TIME ZONE 'Africa/Nairobi')::date),
+    p_expires_at,
+    NULLIF(trim(p_supplier), ''),
+    p_unit_cost,
+    auth.uid()
+  )
+  RETURNING * INTO batch;
+
+  INSERT INTO public.stock_batch_movements (batch_id, movement_id, quantity)
+  VALUES (batch.id, movement.id, p_quantity);
+
+  RETURN batch;
+END;
+$$;
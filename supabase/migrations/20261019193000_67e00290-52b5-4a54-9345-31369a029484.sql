@@ -0,0 +1,89 @@
+-- Reorder points and reorder quantities, replacing the hardcoded low-stock
+-- thresholds in the dashboard. A product's own values win, then its
+-- category's defaults, then 10 units to reorder at and 20 to reorder.
+
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS reorder_point INTEGER CHECK (reorder_point >= 0),
+ADD COLUMN IF NOT EXISTS reorder_quantity INTEGER CHECK (reorder_quantity > 0);
+
+CREATE TABLE public.category_reorder_defaults (
+  category TEXT PRIMARY KEY,
+  reorder_point INTEGER NOT NULL CHECK (reorder_point >= 0),
+  reorder_quantity INTEGER NOT NULL CHECK (reorder_quantity > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.category_reorder_defaults ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage category reorder defaults"
+ON public.category_reorder_defaults
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_category_reorder_defaults_updated_at
+BEFORE UPDATE ON public.category_reorder_defaults
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Every live product with the reorder levels that apply to it.
+-- reorder_point_source says where the reorder point came from: 'product',
+-- 'category' or 'default'. Used by the dashboard, inventory and the daily
+-- low-stock digest.
+CREATE OR REPLACE FUNCTION public.get_reorder_levels()
+RETURNS TABLE (
+  product_id UUID,
+  name TEXT,
+  category TEXT,
+  price NUMERIC,
+  image_url TEXT,
+  stock INTEGER,
+  reorder_point INTEGER,
+  reorder_quantity INTEGER,
+  reorder_point_source TEXT,
+  needs_reorder BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SET search_path = 'public'
+AS $$
+  SELECT
+    p.id,
+    p.name,
+    p.category,
+    p.price,
+    p.image_url,
+    p.stock,
+    COALESCE(p.reorder_point, c.reorder_point, 10),
+    COALESCE(p.reorder_quantity, c.reorder_quantity, 20),
+    CASE
+      WHEN p.reorder_point IS NOT NULL THEN 'product'
+      WHEN c.reorder_point IS NOT NULL THEN 'category'
+      ELSE 'default'
+    END,
+    p.stock <= COALESCE(p.reorder_point, c.reorder_point, 10)
+  FROM public.products p
+  LEFT JOIN public.category_reorder_defaults c ON c.category = p.category
+  WHERE p.deleted_at IS NULL
+  ORDER BY p.stock - COALESCE(p.reorder_point, c.reorder_point, 10), p.name;
+$$;
+
+-- To send the low-stock digest every morning at 07:00 Nairobi time, enable
+-- pg_cron and pg_net and store the service role key in Vault as
+-- 'service_role_key', then:
+--
+-- SELECT cron.schedule(
+--   'send-low-stock-digest',
+--   '0 4 * * *',
+--   $$
+--   SELECT net.http_post(
+--     url := 'https://mdkexfslutqzwoqfyxil.supabase.co/functions/v1/send-low-stock-digest',
+--     headers := jsonb_build_object(
+--       'Content-Type', 'application/json',
+--       'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+--     ),
+--     body := '{}'::jsonb
+--   );
+--   $$
+-- );
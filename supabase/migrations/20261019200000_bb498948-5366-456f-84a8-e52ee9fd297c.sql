@@ -0,0 +1,483 @@
+-- Suppliers and purchase orders. A purchase order moves from draft to sent,
+-- then to partially_received and received as deliveries arrive. Receiving
+-- goes through receive_stock_batch, so every delivery is a stock batch and a
+-- stock_movements row like a delivery added from Inventory.
+
+CREATE TABLE public.suppliers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  contact_name TEXT,
+  phone TEXT,
+  email TEXT,
+  lead_time_days INTEGER NOT NULL DEFAULT 1 CHECK (lead_time_days >= 0),
+  notes TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_suppliers_name ON public.suppliers (lower(name));
+
+CREATE TRIGGER update_suppliers_updated_at
+BEFORE UPDATE ON public.suppliers
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Products each supplier can deliver, with the price they charge
+CREATE TABLE public.supplier_products (
+  supplier_id UUID NOT NULL REFERENCES public.suppliers(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  unit_cost NUMERIC(10,2) CHECK (unit_cost >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (supplier_id, product_id)
+);
+
+CREATE INDEX idx_supplier_products_product ON public.supplier_products (product_id);
+
+CREATE TABLE public.purchase_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  supplier_id UUID NOT NULL REFERENCES public.suppliers(id),
+  status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'sent', 'partially_received', 'received')),
+  expected_delivery_date DATE,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  sent_at TIMESTAMPTZ,
+  received_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_purchase_orders_status ON public.purchase_orders (status, created_at DESC);
+CREATE INDEX idx_purchase_orders_supplier ON public.purchase_orders (supplier_id);
+
+CREATE TRIGGER update_purchase_orders_updated_at
+BEFORE UPDATE ON public.purchase_orders
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.purchase_order_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_order_id UUID NOT NULL REFERENCES public.purchase_orders(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id),
+  quantity_ordered INTEGER NOT NULL CHECK (quantity_ordered > 0),
+  quantity_received INTEGER NOT NULL DEFAULT 0 CHECK (quantity_received >= 0),
+  unit_cost NUMERIC(10,2) CHECK (unit_cost >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT purchase_order_items_received_check CHECK (quantity_received <= quantity_ordered),
+  CONSTRAINT purchase_order_items_product_unique UNIQUE (purchase_order_id, product_id)
+);
+
+CREATE INDEX idx_purchase_order_items_product ON public.purchase_order_items (product_id);
+
+ALTER TABLE public.stock_batches
+ADD COLUMN supplier_id UUID REFERENCES public.suppliers(id),
+ADD COLUMN purchase_order_id UUID REFERENCES public.purchase_orders(id);
+
+ALTER TABLE public.suppliers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.supplier_products ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_order_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage suppliers"
+ON public.suppliers
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can manage supplier products"
+ON public.supplier_products
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Purchase orders are created, sent and received through the functions
+-- below; admins can read them and throw away drafts
+CREATE POLICY "Admins can view purchase orders"
+ON public.purchase_orders
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete draft purchase orders"
+ON public.purchase_orders
+FOR DELETE
+USING (public.has_role(auth.uid(), 'admin') AND status = 'draft');
+
+CREATE POLICY "Admins can view purchase order items"
+ON public.purchase_order_items
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- receive_stock_batch learns which supplier and purchase order a batch came
+-- from. The signature changes, so the old function is dropped first.
+DROP FUNCTION IF EXISTS public.receive_stock_batch(UUID, INTEGER, DATE, DATE, TEXT, NUMERIC, TEXT);
+
+CREATE OR REPLACE FUNCTION public.receive_stock_batch(
+  p_product_id UUID,
+  p_quantity INTEGER,
+  p_expires_at DATE DEFAULT NULL,
+  p_received_at DATE DEFAULT NULL,
+  p_supplier TEXT DEFAULT NULL,
+  p_unit_cost NUMERIC DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL,
+  p_supplier_id UUID DEFAULT NULL,
+  p_purchase_order_id UUID DEFAULT NULL
+)
+RETURNS public.stock_batches
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  movement public.stock_movements;
+  batch public.stock_batches;
+  supplier_name TEXT := NULLIF(trim(p_supplier), '');
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Admin access required' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Received quantity must be greater than zero' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_supplier_id IS NOT NULL AND supplier_name IS NULL THEN
+    SELECT name INTO supplier_name FROM public.suppliers WHERE id = p_supplier_id;
+  END IF;
+
+  movement := public.record_stock_movement(
+    p_product_id,
+    p_quantity,
+    'adjustment',
+    'delivery_received',
+    p_reason
+  );
+
+  INSERT INTO public.stock_batches (
+    product_id,
+    quantity_received,
+    quantity_remaining,
+    received_at,
+    expires_at,
+    supplier,
+    supplier_id,
+    purchase_order_id,
+    unit_cost,
+    created_by
+  )
+  VALUES (
+    p_product_id,
+    p_quantity,
+    p_quantity,
+    COALESCE(p_received_at, (now() AT TIME ZONE 'Africa/Nairobi')::date),
+    p_expires_at,
+    supplier_name,
+    p_supplier_id,
+    p_purchase_order_id,
+    p_unit_cost,
+    auth.uid()
+  )
+  RETURNING * INTO batch;
+
+  INSERT INTO public.stock_batch_movements (batch_id, movement_id, quantity)
+  VALUES (batch.id, movement.id, p_quantity);
+
+  RETURN batch;
+END;
+$$;
+
+-- Create a draft purchase order with its line items in one go.
+-- p_items is a JSON array of {product_id, quantity, unit_cost}; a missing
+-- unit_cost falls back to the supplier's price for the product.
+-- Returns the new purchase order's ID.
+CREATE OR REPLACE FUNCTION public.create_purchase_order(
+  p_supplier_id UUID,
+  p_items JSONB,
+  p_expected_delivery_date DATE DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  target_supplier public.suppliers;
+  new_order_id UUID;
+  item JSONB;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Admin access required' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO target_supplier FROM public.suppliers WHERE id = p_supplier_id;
+
+  IF target_supplier.id IS NULL THEN
+    RAISE EXCEPTION 'Supplier % not found', p_supplier_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'A purchase order needs at least one item' USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.purchase_orders (supplier_id, expected_delivery_date, notes, created_by)
+  VALUES (
+    p_supplier_id,
+    COALESCE(p_expected_delivery_date, (now() AT TIME ZONE 'Africa/Nairobi')::date + target_supplier.lead_time_days),
+    NULLIF(trim(p_notes), ''),
+    auth.uid()
+  )
+  RETURNING id INTO new_order_id;
+
+  FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    IF COALESCE((item ->> 'quantity')::INTEGER, 0) <= 0 THEN
+      RAISE EXCEPTION 'Every item needs a quantity greater than zero' USING ERRCODE = 'check_violation';
+    END IF;
+
+    INSERT INTO public.purchase_order_items (purchase_order_id, product_id, quantity_ordered, unit_cost)
+    VALUES (
+      new_order_id,
+      (item ->> 'product_id')::UUID,
+      (item ->> 'quantity')::INTEGER,
+      COALESCE(
+        (item ->> 'unit_cost')::NUMERIC,
+        (
+          SELECT sp.unit_cost
+          FROM public.supplier_products sp
+          WHERE sp.supplier_id = p_supplier_id
+            AND sp.product_id = (item ->> 'product_id')::UUID
+        )
+      )
+    );
+  END LOOP;
+
+  RETURN new_order_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.send_purchase_order(p_purchase_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Admin access required' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE public.purchase_orders
+  SET status = 'sent',
+      sent_at = now()
+  WHERE id = p_purchase_order_id
+    AND status = 'draft';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only draft purchase orders can be sent' USING ERRCODE = 'check_violation';
+  END IF;
+END;
+$$;
+
+-- Receive some or all of a sent purchase order. p_items is a JSON array of
+-- {item_id, quantity, expires_at}; each line received becomes a stock batch
+-- from the order's supplier. Returns the updated purchase order.
+CREATE OR REPLACE FUNCTION public.receive_purchase_order(
+  p_purchase_order_id UUID,
+  p_items JSONB,
+  p_received_at DATE DEFAULT NULL
+)
+RETURNS public.purchase_orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  target_order public.purchase_orders;
+  order_item public.purchase_order_items;
+  item JSONB;
+  receive_quantity INTEGER;
+  lines_received INTEGER := 0;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Admin access required' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO target_order
+  FROM public.purchase_orders
+  WHERE id = p_purchase_order_id
+  FOR UPDATE;
+
+  IF target_order.id IS NULL THEN
+    RAISE EXCEPTION 'Purchase order % not found', p_purchase_order_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF target_order.status NOT IN ('sent', 'partially_received') THEN
+    RAISE EXCEPTION 'Only sent purchase orders can be received' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one item to receive' USING ERRCODE = 'check_violation';
+  END IF;
+
+  FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    receive_quantity := COALESCE((item ->> 'quantity')::INTEGER, 0);
+
+    IF receive_quantity = 0 THEN
+      CONTINUE;
+    END IF;
+
+    SELECT * INTO order_item
+    FROM public.purchase_order_items
+    WHERE id = (item ->> 'item_id')::UUID
+      AND purchase_order_id = p_purchase_order_id
+    FOR UPDATE;
+
+    IF order_item.id IS NULL THEN
+      RAISE EXCEPTION 'Item % is not on this purchase order', item ->> 'item_id' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF receive_quantity < 0 OR receive_quantity > order_item.quantity_ordered - order_item.quantity_received THEN
+      RAISE EXCEPTION 'Cannot receive % units: % still outstanding',
+        receive_quantity, order_item.quantity_ordered - order_item.quantity_received
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    PERFORM public.receive_stock_batch(
+      order_item.product_id,
+      receive_quantity,
+      NULLIF(item ->> 'expires_at', '')::DATE,
+      p_received_at,
+      NULL,
+      order_item.unit_cost,
+      'Purchase order ' || left(p_purchase_order_id::text, 8),
+      target_order.supplier_id,
+      p_purchase_order_id
+    );
+
+    UPDATE public.purchase_order_items
+    SET quantity_received = quantity_received + receive_quantity
+    WHERE id = order_item.id;
+
+    lines_received := lines_received + 1;
+  END LOOP;
+
+  IF lines_received = 0 THEN
+    RAISE EXCEPTION 'Choose at least one item to receive' USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.purchase_orders
+  SET status = CASE
+        WHEN EXISTS (
+          SELECT 1 FROM public.purchase_order_items
+          WHERE purchase_order_id = p_purchase_order_id
+            AND quantity_received < quantity_ordered
+        ) THEN 'partially_received'
+        ELSE 'received'
+      END
+  WHERE id = p_purchase_order_id
+  RETURNING * INTO target_order;
+
+  IF target_order.status = 'received' THEN
+    UPDATE public.purchase_orders
+    SET received_at = now()
+    WHERE id = p_purchase_order_id
+    RETURNING * INTO target_order;
+  END IF;
+
+  RETURN target_order;
+END;
+$$;
+
+-- Products that will be at or below their reorder point by the time a new
+-- delivery could arrive. Daily sales are net units sold over the last
+-- p_sales_days; stock still due on open purchase orders (drafts included)
+-- counts as already on its way. Each product is suggested from the active
+-- supplier with the shortest lead time, or with no supplier when none is set
+-- up. suggested_quantity covers the reorder point plus expected sales over the
+-- lead time, and is never less than the reorder quantity.
+CREATE OR REPLACE FUNCTION public.get_purchase_suggestions(p_sales_days INTEGER DEFAULT 28)
+RETURNS TABLE (
+  product_id UUID,
+  name TEXT,
+  category TEXT,
+  stock INTEGER,
+  reorder_point INTEGER,
+  reorder_quantity INTEGER,
+  daily_sales NUMERIC,
+  on_order INTEGER,
+  supplier_id UUID,
+  supplier_name TEXT,
+  lead_time_days INTEGER,
+  unit_cost NUMERIC,
+  suggested_quantity INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = 'public'
+AS $$
+  WITH sales AS (
+    SELECT
+      sm.product_id,
+      SUM(CASE WHEN sm.movement_type = 'sale' THEN sm.quantity ELSE -sm.quantity END) AS units
+    FROM public.stock_movements sm
+    WHERE sm.movement_type IN ('sale', 'return')
+      AND sm.created_at >= now() - make_interval(days => GREATEST(p_sales_days, 1))
+    GROUP BY sm.product_id
+  ),
+  open_orders AS (
+    SELECT i.product_id, SUM(i.quantity_ordered - i.quantity_received) AS units
+    FROM public.purchase_order_items i
+    JOIN public.purchase_orders po ON po.id = i.purchase_order_id
+    WHERE po.status IN ('draft', 'sent', 'partially_received')
+    GROUP BY i.product_id
+  ),
+  candidates AS (
+    SELECT
+      l.product_id,
+      l.name,
+      l.category,
+      l.stock,
+      l.reorder_point,
+      l.reorder_quantity,
+      GREATEST(COALESCE(s.units, 0), 0)::NUMERIC / GREATEST(p_sales_days, 1) AS daily_sales,
+      COALESCE(o.units, 0)::INTEGER AS on_order,
+      preferred.supplier_id,
+      preferred.supplier_name,
+      preferred.lead_time_days,
+      preferred.unit_cost
+    FROM public.get_reorder_levels() l
+    LEFT JOIN sales s ON s.product_id = l.product_id
+    LEFT JOIN open_orders o ON o.product_id = l.product_id
+    LEFT JOIN LATERAL (
+      SELECT su.id AS supplier_id, su.name AS supplier_name, su.lead_time_days, sp.unit_cost
+      FROM public.supplier_products sp
+      JOIN public.suppliers su ON su.id = sp.supplier_id
+      WHERE sp.product_id = l.product_id
+        AND su.is_active
+      ORDER BY su.lead_time_days, su.name
+      LIMIT 1
+    ) preferred ON true
+  )
+  SELECT
+    c.product_id,
+    c.name,
+    c.category,
+    c.stock,
+    c.reorder_point,
+    c.reorder_quantity,
+    round(c.daily_sales, 2),
+    c.on_order,
+    c.supplier_id,
+    c.supplier_name,
+    c.lead_time_days,
+    c.unit_cost,
+    GREATEST(
+      c.reorder_quantity,
+      ceil(c.reorder_point + c.daily_sales * COALESCE(c.lead_time_days, 0) - c.stock - c.on_order)
+    )::INTEGER
+  FROM candidates c
+  WHERE c.stock + c.on_order - c.daily_sales * COALESCE(c.lead_time_days, 0) <= c.reorder_point
+  ORDER BY c.supplier_name NULLS LAST, c.name;
+$$;
@@ -0,0 +1,69 @@
+-- Escape LIKE wildcards so search text matches literally
+CREATE OR REPLACE FUNCTION public.escape_like(p_value TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT replace(replace(replace(p_value, '\', '\\'), '%', '\%'), '_', '\_');
+$$;
+
+-- search_orders counts matches separately from the page it returns, so a page
+-- past the end still reports the real total. That page comes back as a single
+-- row with a NULL order_data.
+CREATE OR REPLACE FUNCTION public.search_orders(
+  p_search TEXT DEFAULT NULL,
+  p_status TEXT DEFAULT NULL,
+  p_date_from TIMESTAMPTZ DEFAULT NULL,
+  p_date_to TIMESTAMPTZ DEFAULT NULL,
+  p_min_amount NUMERIC DEFAULT NULL,
+  p_max_amount NUMERIC DEFAULT NULL,
+  p_limit INTEGER DEFAULT 10,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  order_data JSONB,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH term AS (
+    SELECT NULLIF(public.escape_like(btrim(p_search)), '') AS pattern
+  ),
+  filtered AS (
+    SELECT o
+    FROM public.orders o
+    LEFT JOIN public.profiles p ON p.id = o.user_id
+    CROSS JOIN term t
+    WHERE (p_status IS NULL OR o.status = p_status)
+      AND (p_date_from IS NULL OR o.created_at >= p_date_from)
+      AND (p_date_to IS NULL OR o.created_at < p_date_to)
+      AND (p_min_amount IS NULL OR o.total_amount >= p_min_amount)
+      AND (p_max_amount IS NULL OR o.total_amount <= p_max_amount)
+      AND (
+        t.pattern IS NULL
+        OR o.id::text ILIKE t.pattern || '%'
+        OR p.full_name ILIKE '%' || t.pattern || '%'
+        OR p.email ILIKE '%' || t.pattern || '%'
+        OR p.phone ILIKE '%' || t.pattern || '%'
+      )
+  ),
+  total AS (
+    SELECT COUNT(*) AS total_count FROM filtered
+  ),
+  page AS (
+    SELECT f.o
+    FROM filtered f
+    ORDER BY (f.o).created_at DESC
+    LIMIT p_limit
+    OFFSET p_offset
+  )
+  SELECT
+    CASE WHEN (pg.o).id IS NOT NULL THEN public.order_details_json(pg.o) END,
+    t.total_count
+  FROM total t
+  LEFT JOIN page pg ON true
+  ORDER BY (pg.o).created_at DESC;
+$$;
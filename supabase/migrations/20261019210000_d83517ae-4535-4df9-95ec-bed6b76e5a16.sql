@@ -0,0 +1,76 @@
+-- A failed or cancelled Pesapal payment only cancels its order while nothing
+-- else has paid for it. Old transactions from a replaced payment link, a
+-- reconciliation sweep of an abandoned attempt or a replayed callback can all
+-- report a failure after the order was paid some other way, and cancel_order
+-- itself accepts any status (restocking completed orders).
+CREATE OR REPLACE FUNCTION public.cancel_order_for_failed_payment(
+  p_order_id UUID,
+  p_transaction_id UUID,
+  p_reason TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  target_order public.orders;
+BEGIN
+  IF auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'cancel_order_for_failed_payment may only be called by Pesapal edge functions'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO target_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF target_order.id IS NULL THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF target_order.status NOT IN ('pending', 'processing') THEN
+    RETURN jsonb_build_object(
+      'cancelled', false,
+      'order_status', target_order.status,
+      'skipped_reason', format('order is already %s', target_order.status)
+    );
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.pesapal_transactions t
+    WHERE t.order_id = p_order_id
+      AND t.id <> p_transaction_id
+      AND t.status IN ('PENDING', 'COMPLETED')
+  ) THEN
+    RETURN jsonb_build_object(
+      'cancelled', false,
+      'order_status', target_order.status,
+      'skipped_reason', 'another Pesapal payment for the order is pending or completed'
+    );
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.payments pm
+    WHERE pm.order_id = p_order_id
+      AND pm.status = 'confirmed'
+  ) THEN
+    RETURN jsonb_build_object(
+      'cancelled', false,
+      'order_status', target_order.status,
+      'skipped_reason', 'the order already has a confirmed payment'
+    );
+  END IF;
+
+  PERFORM public.cancel_order(p_order_id, p_reason);
+
+  RETURN jsonb_build_object(
+    'cancelled', true,
+    'order_status', 'cancelled',
+    'skipped_reason', NULL
+  );
+END;
+$$;
@@ -0,0 +1,218 @@
+-- Money goes back to customers two ways: refunds on paid orders
+-- (create_refund) and a refund given when an order is cancelled
+-- (cancel_order). Both are now capped by what's left after the other, so an
+-- order can't be refunded more than it cost.
+CREATE OR REPLACE FUNCTION public.get_refundable_amount(p_order_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+  SELECT o.total_amount + COALESCE(o.delivery_fee, 0) - COALESCE(o.refund_amount, 0) - COALESCE((
+    SELECT SUM(r.amount)
+    FROM public.refunds r
+    WHERE r.order_id = o.id AND r.status <> 'failed'
+  ), 0)
+  FROM public.orders o
+  WHERE o.id = p_order_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_refund(
+  p_order_id UUID,
+  p_amount NUMERIC,
+  p_reason TEXT,
+  p_items JSONB DEFAULT '[]'::jsonb,
+  p_actor_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  target_order public.orders;
+  refundable NUMERIC;
+  item JSONB;
+  order_item public.order_items;
+  item_quantity INTEGER;
+  refunded_quantity INTEGER;
+  paid_transaction public.pesapal_transactions;
+  new_refund_id UUID;
+BEGIN
+  IF auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'create_refund may only be called by the create-refund function'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO target_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF target_order.id IS NULL THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF target_order.status NOT IN ('completed', 'payment_review') THEN
+    RAISE EXCEPTION 'Only paid orders can be refunded; this order is %', target_order.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF COALESCE(btrim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A refund reason is required' USING ERRCODE = 'check_violation';
+  END IF;
+
+  refundable := public.get_refundable_amount(p_order_id);
+
+  IF p_amount IS NULL OR p_amount <= 0 OR p_amount > refundable THEN
+    RAISE EXCEPTION 'Refund amount must be between 0 and the Ksh % left to refund', round(refundable, 2)
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF target_order.payment_method = 'pesapal' THEN
+    SELECT * INTO paid_transaction
+    FROM public.pesapal_transactions
+    WHERE order_id = p_order_id AND status = 'COMPLETED'
+    ORDER BY created_at DESC
+    LIMIT 1;
+  END IF;
+
+  INSERT INTO public.refunds (order_id, pesapal_transaction_id, amount, reason, created_by)
+  VALUES (p_order_id, paid_transaction.id, p_amount, btrim(p_reason), p_actor_id)
+  RETURNING id INTO new_refund_id;
+
+  FOR item IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb))
+  LOOP
+    item_quantity := (item ->> 'quantity')::INTEGER;
+
+    SELECT * INTO order_item
+    FROM public.order_items
+    WHERE id = (item ->> 'orderItemId')::UUID AND order_id = p_order_id;
+
+    IF order_item.id IS NULL THEN
+      RAISE EXCEPTION 'Item % is not on order %', item ->> 'orderItemId', p_order_id
+        USING ERRCODE = 'no_data_found';
+    END IF;
+
+    SELECT COALESCE(SUM(ri.quantity), 0) INTO refunded_quantity
+    FROM public.refund_items ri
+    JOIN public.refunds r ON r.id = ri.refund_id
+    WHERE ri.order_item_id = order_item.id AND r.status <> 'failed';
+
+    IF item_quantity IS NULL OR item_quantity <= 0 OR item_quantity > order_item.quantity - refunded_quantity THEN
+      RAISE EXCEPTION 'Only % of this item can still be refunded', order_item.quantity - refunded_quantity
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    INSERT INTO public.refund_items (refund_id, order_item_id, quantity, amount)
+    VALUES (new_refund_id, order_item.id, item_quantity, item_quantity * order_item.unit_price);
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'refund_id', new_refund_id,
+    'pesapal_transaction_id', paid_transaction.id,
+    'pesapal_tracking_id', paid_transaction.pesapal_tracking_id
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancel_order(
+  p_order_id UUID,
+  p_reason TEXT,
+  p_refund_amount NUMERIC DEFAULT 0,
+  p_refund_reason TEXT DEFAULT NULL,
+  p_actor_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  target_order public.orders;
+  item RECORD;
+  movement public.stock_movements;
+  restocked JSONB := '[]'::jsonb;
+  refundable NUMERIC;
+BEGIN
+  IF auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'cancel_order may only be called by the cancel-order function'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO target_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF target_order.id IS NULL THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- Idempotent: repeated cancellations (e.g. duplicate Pesapal notifications) are no-ops
+  IF target_order.status = 'cancelled' THEN
+    RETURN jsonb_build_object(
+      'already_cancelled', true,
+      'previous_status', target_order.status,
+      'restocked', restocked
+    );
+  END IF;
+
+  refundable := public.get_refundable_amount(p_order_id);
+
+  IF COALESCE(p_refund_amount, 0) < 0 OR COALESCE(p_refund_amount, 0) > refundable THEN
+    RAISE EXCEPTION 'Refund amount must be between 0 and the Ksh % left to refund', round(refundable, 2)
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Stock was only taken when the order completed, so only completed orders are restocked
+  IF target_order.status = 'completed' THEN
+    FOR item IN
+      SELECT oi.product_id, SUM(oi.quantity)::INTEGER AS quantity
+      FROM public.order_items oi
+      -- Products deleted since the sale have nothing to restock
+      JOIN public.products p ON p.id = oi.product_id
+      WHERE oi.order_id = p_order_id
+      GROUP BY oi.product_id
+      ORDER BY oi.product_id
+    LOOP
+      movement := public.record_stock_movement(
+        item.product_id,
+        item.quantity,
+        'return',
+        'order_cancelled',
+        p_reason,
+        p_order_id,
+        p_actor_id
+      );
+
+      restocked := restocked || jsonb_build_object(
+        'productId', item.product_id,
+        'quantity', item.quantity,
+        'oldStock', movement.previous_stock,
+        'newStock', movement.new_stock
+      );
+    END LOOP;
+
+    PERFORM set_config('app.order_restocked', p_order_id::text, true);
+  END IF;
+
+  PERFORM set_config('app.order_status_actor', COALESCE(p_actor_id::text, ''), true);
+  PERFORM set_config('app.order_status_reason', COALESCE(p_reason, ''), true);
+
+  UPDATE public.orders
+  SET status = 'cancelled',
+      cancelled_at = now(),
+      cancellation_reason = p_reason,
+      refund_amount = COALESCE(p_refund_amount, 0),
+      refund_reason = p_refund_reason
+  WHERE id = p_order_id;
+
+  RETURN jsonb_build_object(
+    'already_cancelled', false,
+    'previous_status', target_order.status,
+    'restocked', restocked
+  );
+END;
+$$;
@@ -0,0 +1,162 @@
+-- Sales no longer take stock from batches that have already expired: first
+-- expiry, first out only applies to stock that can still be sold. A sale that
+-- needs more than the unexpired stock is refused, and spoiled write-offs stay
+-- the only way expired batches are used up.
+CREATE OR REPLACE FUNCTION public.record_stock_movement(
+  p_product_id UUID,
+  p_quantity INTEGER,
+  p_movement_type TEXT,
+  p_reason_code TEXT,
+  p_reason TEXT DEFAULT NULL,
+  p_order_id UUID DEFAULT NULL,
+  p_actor_id UUID DEFAULT NULL
+)
+RETURNS public.stock_movements
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  is_service BOOLEAN := auth.role() = 'service_role';
+  old_stock INTEGER;
+  movement public.stock_movements;
+  batch RECORD;
+  left_to_take INTEGER;
+  taken INTEGER;
+  expired_stock INTEGER := 0;
+BEGIN
+  IF NOT is_service AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Admin access required' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity = 0 THEN
+    RAISE EXCEPTION 'Stock movement quantity must not be zero' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_reason_code IS NULL THEN
+    RAISE EXCEPTION 'A reason code is required for every stock movement' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Sales, cancellations and opening stock are only logged by the system
+  IF NOT is_service AND (
+    p_movement_type <> 'adjustment'
+    OR p_reason_code IN ('order_completed', 'order_cancelled', 'initial_stock')
+  ) THEN
+    RAISE EXCEPTION 'Admins can only record manual adjustments' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT stock INTO old_stock
+  FROM public.products
+  WHERE id = p_product_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product % not found', p_product_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- Checked against the locked row, not the stock the caller last saw
+  IF old_stock + p_quantity < 0 THEN
+    RAISE EXCEPTION 'Cannot remove % units: only % in stock', -p_quantity, old_stock
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Expired batches can't be sold, only written off
+  IF p_movement_type = 'sale' THEN
+    SELECT COALESCE(SUM(quantity_remaining), 0) INTO expired_stock
+    FROM public.stock_batches
+    WHERE product_id = p_product_id
+      AND quantity_remaining > 0
+      AND expires_at < current_date;
+
+    IF old_stock - expired_stock + p_quantity < 0 THEN
+      RAISE EXCEPTION 'Cannot sell % units: only % in stock that hasn''t expired',
+        -p_quantity, old_stock - expired_stock
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  -- Lets ensure_stock_change_is_recorded tell this update apart from a direct write
+  PERFORM set_config('app.stock_movement_product', p_product_id::text, true);
+
+  UPDATE public.products
+  SET stock = old_stock + p_quantity
+  WHERE id = p_product_id;
+
+  PERFORM set_config('app.stock_movement_product', '', true);
+
+  INSERT INTO public.stock_movements (
+    product_id,
+    order_id,
+    movement_type,
+    reason_code,
+    quantity,
+    previous_stock,
+    new_stock,
+    reason,
+    actor_id
+  )
+  VALUES (
+    p_product_id,
+    p_order_id,
+    p_movement_type,
+    p_reason_code,
+    abs(p_quantity),
+    old_stock,
+    old_stock + p_quantity,
+    NULLIF(trim(p_reason), ''),
+    CASE WHEN is_service THEN p_actor_id ELSE auth.uid() END
+  )
+  RETURNING * INTO movement;
+
+  IF p_quantity < 0 THEN
+    -- First expiry, first out. Batches without an expiry date go last, and
+    -- stock received before batches were tracked covers whatever is left.
+    -- Sales skip expired batches, which are used up by write-offs.
+    left_to_take := -p_quantity;
+
+    FOR batch IN
+      SELECT id, quantity_remaining
+      FROM public.stock_batches
+      WHERE product_id = p_product_id
+        AND quantity_remaining > 0
+        AND (p_movement_type <> 'sale' OR expires_at IS NULL OR expires_at >= current_date)
+      ORDER BY expires_at NULLS LAST, received_at, created_at
+      FOR UPDATE
+    LOOP
+      EXIT WHEN left_to_take = 0;
+
+      taken := LEAST(batch.quantity_remaining, left_to_take);
+
+      UPDATE public.stock_batches
+      SET quantity_remaining = quantity_remaining - taken
+      WHERE id = batch.id;
+
+      INSERT INTO public.stock_batch_movements (batch_id, movement_id, quantity)
+      VALUES (batch.id, movement.id, -taken);
+
+      left_to_take := left_to_take - taken;
+    END LOOP;
+  ELSIF p_movement_type = 'return' AND p_order_id IS NOT NULL THEN
+    -- A cancelled sale goes back into the batches it was taken from
+    FOR batch IN
+      SELECT bm.batch_id, -SUM(bm.quantity)::INTEGER AS quantity
+      FROM public.stock_batch_movements bm
+      JOIN public.stock_movements sm ON sm.id = bm.movement_id
+      WHERE sm.order_id = p_order_id
+        AND sm.product_id = p_product_id
+        AND sm.movement_type = 'sale'
+      GROUP BY bm.batch_id
+      ORDER BY bm.batch_id
+    LOOP
+      UPDATE public.stock_batches
+      SET quantity_remaining = quantity_remaining + batch.quantity
+      WHERE id = batch.batch_id;
+
+      INSERT INTO public.stock_batch_movements (batch_id, movement_id, quantity)
+      VALUES (batch.batch_id, movement.id, batch.quantity);
+    END LOOP;
+  END IF;
+
+  RETURN movement;
+END;
+$$;
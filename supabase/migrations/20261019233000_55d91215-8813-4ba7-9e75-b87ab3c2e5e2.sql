@@ -0,0 +1,34 @@
+-- Order balances are in KES, so a Pesapal completion in any other currency
+-- isn't a payment towards the order. check-pesapal-status holds those orders
+-- for review; the admin records what was actually received in KES.
+CREATE OR REPLACE FUNCTION public.record_pesapal_payment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+BEGIN
+  IF NEW.status = 'COMPLETED'
+    AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'COMPLETED')
+    AND upper(COALESCE(NEW.reported_currency, '')) = 'KES' THEN
+    INSERT INTO public.payments (order_id, method, amount, reference, pesapal_transaction_id, received_at)
+    SELECT NEW.order_id, 'pesapal', COALESCE(NEW.reported_amount, NEW.amount), NEW.pesapal_tracking_id, NEW.id, now()
+    WHERE COALESCE(NEW.reported_amount, NEW.amount) > 0
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Take payments already recorded from non-KES completions out of the
+-- balance. Transactions from before currencies were recorded were all KES.
+UPDATE public.payments pm
+SET status = 'voided',
+    voided_at = now(),
+    void_reason = format('Paid in %s instead of KES', t.reported_currency)
+FROM public.pesapal_transactions t
+WHERE pm.pesapal_transaction_id = t.id
+  AND pm.status = 'confirmed'
+  AND t.reported_currency IS NOT NULL
+  AND upper(t.reported_currency) <> 'KES';
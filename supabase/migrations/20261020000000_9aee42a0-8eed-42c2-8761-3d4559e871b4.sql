@@ -0,0 +1,59 @@
+-- Net revenue for the dashboard and analytics: what completed orders brought
+-- in, delivery included, less refunds on those same orders that Pesapal
+-- hasn't rejected. Computed here rather than from client queries, which the
+-- API cuts off at max_rows. Sales are dated when the order was placed and
+-- refunds when they were made, both as Nairobi dates.
+-- Returns JSONB with gross, refunded and a 'days' array of
+-- {date, gross, refunded}, oldest first.
+CREATE OR REPLACE FUNCTION public.get_net_revenue()
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  result JSONB;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Admin access required' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  WITH entries AS (
+    SELECT
+      (o.created_at AT TIME ZONE 'Africa/Nairobi')::date AS day,
+      o.total_amount + COALESCE(o.delivery_fee, 0) AS gross,
+      0::NUMERIC AS refunded
+    FROM public.orders o
+    WHERE o.status = 'completed'
+
+    UNION ALL
+
+    SELECT
+      (r.created_at AT TIME ZONE 'Africa/Nairobi')::date,
+      0,
+      r.amount
+    FROM public.refunds r
+    JOIN public.orders o ON o.id = r.order_id
+    WHERE o.status = 'completed'
+      AND r.status <> 'failed'
+  ),
+  days AS (
+    SELECT day, SUM(gross) AS gross, SUM(refunded) AS refunded
+    FROM entries
+    GROUP BY day
+  )
+  SELECT jsonb_build_object(
+    'gross', COALESCE(SUM(gross), 0),
+    'refunded', COALESCE(SUM(refunded), 0),
+    'days', COALESCE(
+      jsonb_agg(jsonb_build_object('date', day, 'gross', gross, 'refunded', refunded) ORDER BY day),
+      '[]'::jsonb
+    )
+  )
+  INTO result
+  FROM days;
+
+  RETURN result;
+END;
+$$;
@@ -0,0 +1,184 @@
+-- Refunds are capped by what was actually paid on the order (its confirmed
+-- payments), not its total, less what's already been refunded either way.
+CREATE OR REPLACE FUNCTION public.get_refundable_amount(p_order_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+  SELECT GREATEST(
+    COALESCE((
+      SELECT SUM(pm.amount)
+      FROM public.payments pm
+      WHERE pm.order_id = o.id AND pm.status = 'confirmed'
+    ), 0)
+    - COALESCE(o.refund_amount, 0)
+    - COALESCE((
+      SELECT SUM(r.amount)
+      FROM public.refunds r
+      WHERE r.order_id = o.id AND r.status <> 'failed'
+    ), 0),
+    0
+  )
+  FROM public.orders o
+  WHERE o.id = p_order_id;
+$$;
+
+-- Pesapal orders can only be refunded through a completed Pesapal payment
+CREATE OR REPLACE FUNCTION public.create_refund(
+  p_order_id UUID,
+  p_amount NUMERIC,
+  p_reason TEXT,
+  p_items JSONB DEFAULT '[]'::jsonb,
+  p_actor_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  target_order public.orders;
+  refundable NUMERIC;
+  item JSONB;
+  order_item public.order_items;
+  item_quantity INTEGER;
+  refunded_quantity INTEGER;
+  paid_transaction public.pesapal_transactions;
+  new_refund_id UUID;
+BEGIN
+  IF auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'create_refund may only be called by the create-refund function'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO target_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF target_order.id IS NULL THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF target_order.status NOT IN ('completed', 'payment_review') THEN
+    RAISE EXCEPTION 'Only paid orders can be refunded; this order is %', target_order.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF COALESCE(btrim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A refund reason is required' USING ERRCODE = 'check_violation';
+  END IF;
+
+  refundable := public.get_refundable_amount(p_order_id);
+
+  IF p_amount IS NULL OR p_amount <= 0 OR p_amount > refundable THEN
+    RAISE EXCEPTION 'Refund amount must be between 0 and the Ksh % left to refund', round(refundable, 2)
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF target_order.payment_method = 'pesapal' THEN
+    SELECT * INTO paid_transaction
+    FROM public.pesapal_transactions
+    WHERE order_id = p_order_id AND status = 'COMPLETED'
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    -- Without a completed transaction there's nothing Pesapal can send back
+    IF paid_transaction.id IS NULL THEN
+      RAISE EXCEPTION 'This order has no completed Pesapal payment to refund'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  INSERT INTO public.refunds (order_id, pesapal_transaction_id, amount, reason, created_by)
+  VALUES (p_order_id, paid_transaction.id, p_amount, btrim(p_reason), p_actor_id)
+  RETURNING id INTO new_refund_id;
+
+  FOR item IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb))
+  LOOP
+    item_quantity := (item ->> 'quantity')::INTEGER;
+
+    SELECT * INTO order_item
+    FROM public.order_items
+    WHERE id = (item ->> 'orderItemId')::UUID AND order_id = p_order_id;
+
+    IF order_item.id IS NULL THEN
+      RAISE EXCEPTION 'Item % is not on order %', item ->> 'orderItemId', p_order_id
+        USING ERRCODE = 'no_data_found';
+    END IF;
+
+    SELECT COALESCE(SUM(ri.quantity), 0) INTO refunded_quantity
+    FROM public.refund_items ri
+    JOIN public.refunds r ON r.id = ri.refund_id
+    WHERE ri.order_item_id = order_item.id AND r.status <> 'failed';
+
+    IF item_quantity IS NULL OR item_quantity <= 0 OR item_quantity > order_item.quantity - refunded_quantity THEN
+      RAISE EXCEPTION 'Only % of this item can still be refunded', order_item.quantity - refunded_quantity
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    INSERT INTO public.refund_items (refund_id, order_item_id, quantity, amount)
+    VALUES (new_refund_id, order_item.id, item_quantity, item_quantity * order_item.unit_price);
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'refund_id', new_refund_id,
+    'pesapal_transaction_id', paid_transaction.id,
+    'pesapal_tracking_id', paid_transaction.pesapal_tracking_id
+  );
+END;
+$$;
+
+-- Pesapal doesn't report back on refund requests, so an admin settles them
+-- once the money has gone back to the customer or Pesapal has turned the
+-- request down. Pending refunds that never reached Pesapal can be failed too.
+CREATE OR REPLACE FUNCTION public.resolve_refund(
+  p_refund_id UUID,
+  p_status TEXT,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  target_refund public.refunds;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Admin access required' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO target_refund
+  FROM public.refunds
+  WHERE id = p_refund_id
+  FOR UPDATE;
+
+  IF target_refund.id IS NULL THEN
+    RAISE EXCEPTION 'Refund % not found', p_refund_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF p_status NOT IN ('completed', 'failed') THEN
+    RAISE EXCEPTION 'Refunds can only be marked completed or failed' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT (
+    (target_refund.status = 'requested' AND p_status IN ('completed', 'failed'))
+    OR (target_refund.status = 'pending' AND p_status = 'failed')
+  ) THEN
+    RAISE EXCEPTION 'A % refund can''t be marked %', target_refund.status, p_status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.refunds
+  SET status = p_status,
+      completed_at = CASE WHEN p_status = 'completed' THEN now() END,
+      error = CASE WHEN p_status = 'failed' THEN COALESCE(NULLIF(trim(p_note), ''), 'Marked failed by an admin') ELSE error END
+  WHERE id = p_refund_id;
+
+  INSERT INTO public.audit_logs (user_id, action, table_name, record_id)
+  VALUES (auth.uid(), 'refund_' || p_status, 'refunds', p_refund_id);
+END;
+$$;
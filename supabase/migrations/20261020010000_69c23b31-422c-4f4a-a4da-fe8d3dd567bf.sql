@@ -0,0 +1,50 @@
+-- Pesapal sends an IPNCHANGE for every status change of a transaction, so
+-- keying callbacks on tracking ID and type merged a transaction's whole
+-- history into one row. Callbacks are now only merged with an identical one
+-- (same tracking ID, type and payload) that hasn't been processed yet, which
+-- is what a retry by Pesapal looks like. A notification arriving after the
+-- previous one was handled gets its own row, and stored payloads are never
+-- overwritten.
+
+DROP INDEX IF EXISTS public.idx_pesapal_callbacks_dedupe_key;
+
+UPDATE public.pesapal_callbacks
+SET dedupe_key = pesapal_tracking_id || ':' || callback_type || ':' || md5(raw_payload::text)
+WHERE NOT processed;
+
+CREATE UNIQUE INDEX idx_pesapal_callbacks_dedupe_key
+ON public.pesapal_callbacks(dedupe_key)
+WHERE NOT processed;
+
+-- Store an incoming notification, or count it against the unprocessed row
+-- already stored for the same notification. Returns the callback row.
+CREATE OR REPLACE FUNCTION public.record_pesapal_callback(
+  p_tracking_id TEXT,
+  p_callback_type TEXT,
+  p_payload JSONB
+)
+RETURNS public.pesapal_callbacks
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  callback public.pesapal_callbacks;
+BEGIN
+  IF auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'record_pesapal_callback may only be called by pesapal-callback'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  INSERT INTO public.pesapal_callbacks (pesapal_tracking_id, callback_type, raw_payload, processed, dedupe_key)
+  VALUES (
+    p_tracking_id, p_callback_type, p_payload, false,
+    p_tracking_id || ':' || p_callback_type || ':' || md5(p_payload::text)
+  )
+  ON CONFLICT (dedupe_key) WHERE NOT processed DO UPDATE
+  SET received_count = public.pesapal_callbacks.received_count + 1
+  RETURNING * INTO callback;
+
+  RETURN callback;
+END;
+$$;
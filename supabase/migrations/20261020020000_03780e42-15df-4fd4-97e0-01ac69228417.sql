@@ -0,0 +1,188 @@
+-- calculate_delivery_fee is defined here so its result has a known shape:
+-- JSONB with fee, zone_id, zone_name and estimated_time_mins from the active
+-- zone covering the distance, or a NULL fee and an error when none does.
+-- Where two bands touch, the distance is priced by the further zone.
+-- create_manual_order reads the fee from it and nothing else.
+
+-- Replace whatever versions exist so callers can't reach an older overload
+DO $$
+DECLARE
+  existing RECORD;
+BEGIN
+  FOR existing IN
+    SELECT oid::regprocedure AS signature
+    FROM pg_proc
+    WHERE proname = 'calculate_delivery_fee'
+      AND pronamespace = 'public'::regnamespace
+  LOOP
+    EXECUTE format('DROP FUNCTION %s', existing.signature);
+  END LOOP;
+END;
+$$;
+
+CREATE FUNCTION public.calculate_delivery_fee(distance_km NUMERIC)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT jsonb_build_object(
+        'fee', z.base_fee + z.per_km_rate * distance_km,
+        'zone_id', z.id,
+        'zone_name', z.name,
+        'estimated_time_mins', z.estimated_time_mins,
+        'error', NULL
+      )
+      FROM public.delivery_zones z
+      WHERE z.is_active
+        AND distance_km >= z.min_distance_km
+        AND distance_km <= z.max_distance_km
+      ORDER BY z.min_distance_km DESC
+      LIMIT 1
+    ),
+    jsonb_build_object(
+      'fee', NULL,
+      'zone_id', NULL,
+      'zone_name', NULL,
+      'estimated_time_mins', NULL,
+      'error', format('No active delivery zone covers %s km', COALESCE(distance_km::text, 'an unknown distance'))
+    )
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.calculate_delivery_fee(NUMERIC) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.create_manual_order(
+  p_user_id UUID,
+  p_items JSONB,
+  p_payment_method TEXT,
+  p_payment_reference TEXT DEFAULT NULL,
+  p_delivery_address TEXT DEFAULT NULL,
+  p_delivery_zone_id UUID DEFAULT NULL,
+  p_delivery_distance_km NUMERIC DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  new_order_id UUID;
+  zone public.delivery_zones;
+  item RECORD;
+  shortages TEXT[] := '{}';
+  items_total NUMERIC := 0;
+  fee NUMERIC := 0;
+  quote JSONB;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Admin access required' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = p_user_id) THEN
+    RAISE EXCEPTION 'Customer % not found', p_user_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'An order needs at least one item' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_payment_method = 'mpesa' AND NULLIF(trim(p_payment_reference), '') IS NULL THEN
+    RAISE EXCEPTION 'An M-Pesa reference is required' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_payment_method = 'mpesa' AND EXISTS (
+    SELECT 1 FROM public.payments
+    WHERE method = 'mpesa'
+      AND upper(reference) = upper(trim(p_payment_reference))
+      AND status = 'confirmed'
+  ) THEN
+    RAISE EXCEPTION 'Reference % has already been recorded', upper(trim(p_payment_reference))
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_delivery_zone_id IS NOT NULL THEN
+    SELECT * INTO zone
+    FROM public.delivery_zones
+    WHERE id = p_delivery_zone_id AND is_active;
+
+    IF zone.id IS NULL THEN
+      RAISE EXCEPTION 'Delivery zone % not found', p_delivery_zone_id USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF p_delivery_distance_km IS NULL
+      OR p_delivery_distance_km < zone.min_distance_km
+      OR p_delivery_distance_km > zone.max_distance_km THEN
+      RAISE EXCEPTION 'Delivery distance must be between % and % km for %',
+        zone.min_distance_km, zone.max_distance_km, zone.name
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Charge what the storefront would for the same distance
+    quote := public.calculate_delivery_fee(p_delivery_distance_km);
+    fee := (quote ->> 'fee')::NUMERIC;
+
+    IF fee IS NULL THEN
+      RAISE EXCEPTION 'No delivery fee for % km: %', p_delivery_distance_km, quote ->> 'error'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  FOR item IN
+    SELECT i.product_id, SUM(i.quantity)::INTEGER AS quantity, p.name, p.price, p.stock, p.deleted_at
+    FROM jsonb_to_recordset(p_items) AS i(product_id UUID, quantity INTEGER)
+    LEFT JOIN public.products p ON p.id = i.product_id
+    GROUP BY i.product_id, p.name, p.price, p.stock, p.deleted_at
+  LOOP
+    IF item.quantity IS NULL OR item.quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantities must be positive' USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF item.name IS NULL OR item.deleted_at IS NOT NULL THEN
+      RAISE EXCEPTION 'Product % is not available', item.product_id USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF item.stock < item.quantity THEN
+      shortages := shortages || format('%s (requested %s, available %s)', item.name, item.quantity, item.stock);
+    END IF;
+
+    items_total := items_total + item.price * item.quantity;
+  END LOOP;
+
+  IF array_length(shortages, 1) > 0 THEN
+    RAISE EXCEPTION 'Insufficient stock: %', array_to_string(shortages, ', ')
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM set_config('app.order_status_reason', 'Manual order entry', true);
+
+  INSERT INTO public.orders (
+    user_id, status, total_amount, payment_method, payment_reference, created_by,
+    delivery_address, delivery_zone_id, delivery_distance_km, delivery_fee, estimated_delivery_time
+  )
+  VALUES (
+    p_user_id, 'pending', items_total, p_payment_method, NULLIF(trim(p_payment_reference), ''), auth.uid(),
+    p_delivery_address, p_delivery_zone_id, p_delivery_distance_km, fee, zone.estimated_time_mins
+  )
+  RETURNING id INTO new_order_id;
+
+  INSERT INTO public.order_items (order_id, product_id, quantity, unit_price)
+  SELECT new_order_id, i.product_id, SUM(i.quantity), p.price
+  FROM jsonb_to_recordset(p_items) AS i(product_id UUID, quantity INTEGER)
+  JOIN public.products p ON p.id = i.product_id
+  GROUP BY i.product_id, p.price;
+
+  IF p_payment_method = 'mpesa' AND items_total + fee > 0 THEN
+    INSERT INTO public.payments (order_id, method, amount, reference, notes, recorded_by)
+    VALUES (
+      new_order_id, 'mpesa', items_total + fee, upper(trim(p_payment_reference)),
+      'Paid before the order was entered', auth.uid()
+    );
+  END IF;
+
+  RETURN new_order_id;
+END;
+$$;
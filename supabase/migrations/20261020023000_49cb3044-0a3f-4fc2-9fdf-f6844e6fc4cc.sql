@@ -0,0 +1,93 @@
+-- Payments that couldn't be brought across because their M-Pesa receipt or
+-- bank reference is already counted against another order. The payments
+-- backfill skipped completed orders like that, and manual M-Pesa orders
+-- entered before create_manual_order recorded their payment can hit the same
+-- thing. Rather than fail the deploy, each one is listed here and an admin is
+-- notified to sort it out (record the right reference, or void the wrong
+-- payment).
+
+CREATE TABLE public.payment_reference_conflicts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  method TEXT NOT NULL,
+  reference TEXT NOT NULL,
+  amount NUMERIC NOT NULL,
+  -- The confirmed payment already holding the reference
+  conflicting_payment_id UUID REFERENCES public.payments(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  resolved_at TIMESTAMPTZ,
+  resolved_by UUID REFERENCES auth.users(id)
+);
+
+CREATE INDEX idx_payment_reference_conflicts_order_id ON public.payment_reference_conflicts(order_id);
+
+ALTER TABLE public.payment_reference_conflicts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage payment reference conflicts"
+ON public.payment_reference_conflicts
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Oldest order first, so a reference goes to the order that used it first
+DO $$
+DECLARE
+  candidate RECORD;
+  existing_payment_id UUID;
+BEGIN
+  FOR candidate IN
+    SELECT
+      o.id,
+      o.payment_method AS method,
+      upper(o.payment_reference) AS reference,
+      o.total_amount + COALESCE(o.delivery_fee, 0) AS amount,
+      o.status,
+      CASE WHEN o.status = 'completed' THEN COALESCE(
+        (SELECT max(h.created_at) FROM public.order_status_history h
+         WHERE h.order_id = o.id AND h.to_status = 'completed'),
+        o.created_at
+      ) ELSE o.created_at END AS received_at,
+      (SELECT u.id FROM auth.users u WHERE u.id = o.created_by) AS recorded_by
+    FROM public.orders o
+    WHERE o.payment_reference IS NOT NULL
+      AND o.total_amount + COALESCE(o.delivery_fee, 0) > 0
+      AND (
+        (o.status = 'completed' AND o.payment_method <> 'pesapal')
+        OR (o.payment_method = 'mpesa' AND o.created_by IS NOT NULL AND o.status <> 'cancelled')
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.payments pm
+        WHERE pm.order_id = o.id AND pm.status = 'confirmed'
+      )
+    ORDER BY o.created_at, o.id
+  LOOP
+    SELECT pm.id INTO existing_payment_id
+    FROM public.payments pm
+    WHERE pm.method = candidate.method
+      AND upper(pm.reference) = candidate.reference
+      AND pm.status = 'confirmed'
+    LIMIT 1;
+
+    IF existing_payment_id IS NULL THEN
+      INSERT INTO public.payments (order_id, method, amount, reference, notes, recorded_by, received_at)
+      VALUES (
+        candidate.id, candidate.method, candidate.amount, candidate.reference,
+        CASE WHEN candidate.status <> 'completed' THEN 'Paid before the order was entered' END,
+        candidate.recorded_by, candidate.received_at
+      );
+    ELSE
+      INSERT INTO public.payment_reference_conflicts (order_id, method, reference, amount, conflicting_payment_id)
+      VALUES (candidate.id, candidate.method, candidate.reference, candidate.amount, existing_payment_id);
+
+      INSERT INTO public.admin_notifications (type, title, message, order_id)
+      VALUES (
+        'payment_review',
+        'Duplicate Payment Reference',
+        format('Reference %s on this order is already recorded against another order, so its Ksh %s payment wasn''t recorded.',
+          candidate.reference, round(candidate.amount, 2)),
+        candidate.id
+      );
+    END IF;
+  END LOOP;
+END;
+$$;
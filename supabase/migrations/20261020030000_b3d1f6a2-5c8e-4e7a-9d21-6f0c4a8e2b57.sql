@@ -0,0 +1,82 @@
+-- A completed Pesapal payment that can't complete its order (the order was
+-- cancelled, or stock ran short) used to fail the callback, and Pesapal kept
+-- retrying it. The order is now held for review instead, and the callback
+-- records that outcome.
+
+ALTER TABLE public.pesapal_callbacks
+DROP CONSTRAINT IF EXISTS pesapal_callbacks_outcome_check;
+
+ALTER TABLE public.pesapal_callbacks
+ADD CONSTRAINT pesapal_callbacks_outcome_check
+CHECK (outcome IN ('succeeded', 'failed', 'ignored', 'held'));
+
+-- Money received for a cancelled order can't put it on hold, but an admin
+-- still has to refund it or reopen the order, so they're notified
+CREATE OR REPLACE FUNCTION public.hold_order_for_payment_review(
+  p_order_id UUID,
+  p_reason TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  target_order public.orders;
+  customer_name TEXT;
+BEGIN
+  IF auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'hold_order_for_payment_review may only be called by Pesapal functions'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO target_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF target_order.id IS NULL THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF target_order.status = 'payment_review' THEN
+    RETURN jsonb_build_object('held', true, 'status', target_order.status);
+  END IF;
+
+  SELECT COALESCE(full_name, 'Unknown Customer') INTO customer_name
+  FROM public.profiles WHERE id = target_order.user_id;
+
+  IF target_order.status = 'cancelled' THEN
+    INSERT INTO public.admin_notifications (type, title, message, order_id)
+    VALUES (
+      'payment_review',
+      'Payment on Cancelled Order',
+      'Cancelled order from ' || COALESCE(customer_name, 'Unknown Customer') || ' received a Pesapal payment: ' || COALESCE(p_reason, 'payment mismatch') || '.',
+      p_order_id
+    );
+
+    RETURN jsonb_build_object('held', false, 'status', target_order.status);
+  END IF;
+
+  IF target_order.status NOT IN ('pending', 'processing') THEN
+    RETURN jsonb_build_object('held', false, 'status', target_order.status);
+  END IF;
+
+  PERFORM set_config('app.order_status_actor', '', true);
+  PERFORM set_config('app.order_status_reason', COALESCE(p_reason, ''), true);
+
+  UPDATE public.orders
+  SET status = 'payment_review'
+  WHERE id = p_order_id;
+
+  INSERT INTO public.admin_notifications (type, title, message, order_id)
+  VALUES (
+    'payment_review',
+    'Payment Needs Review',
+    'Order from ' || COALESCE(customer_name, 'Unknown Customer') || ' is on hold: ' || COALESCE(p_reason, 'payment mismatch') || '.',
+    p_order_id
+  );
+
+  RETURN jsonb_build_object('held', true, 'status', 'payment_review');
+END;
+$$;
@@ -0,0 +1,12 @@
+-- Why a reconciliation run stopped before checking everything it found.
+-- reconcile-pesapal-transactions now finishes every run, including ones that
+-- fail part way.
+ALTER TABLE public.pesapal_reconciliation_runs
+ADD COLUMN error TEXT;
+
+-- Runs left unfinished by earlier failures
+UPDATE public.pesapal_reconciliation_runs
+SET finished_at = started_at,
+    error = 'Stopped before finishing'
+WHERE finished_at IS NULL
+  AND started_at < now() - INTERVAL '1 hour';
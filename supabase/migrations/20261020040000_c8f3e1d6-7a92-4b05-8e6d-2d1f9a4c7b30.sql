@@ -0,0 +1,9 @@
+-- IPN URLs were stored with the Pesapal webhook secret as their token
+-- parameter, where admins could read it. create-pesapal-payment now stores
+-- the bare URL and a SHA-256 fingerprint of the secret instead. Registrations
+-- holding the secret are removed; the next payment registers the URL again.
+ALTER TABLE public.pesapal_ipn_registrations
+ADD COLUMN token_fingerprint TEXT;
+
+DELETE FROM public.pesapal_ipn_registrations
+WHERE ipn_url LIKE '%token=%';
@@ -0,0 +1,43 @@
+-- Invoice numbers are permanent, so they're only issued for orders that are
+-- going ahead: processing or completed. Pending orders may never be paid,
+-- orders held for payment review may not stand as placed, and cancelled
+-- orders aren't owed. Invoices already issued are still returned for
+-- re-printing whatever the order's status now.
+CREATE OR REPLACE FUNCTION public.issue_invoices(p_order_ids UUID[])
+RETURNS TABLE(order_id UUID, invoice_number INTEGER, issued_at TIMESTAMPTZ)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  next_number INTEGER;
+  target RECORD;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Admin access required' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  LOCK TABLE public.invoices IN SHARE ROW EXCLUSIVE MODE;
+
+  SELECT COALESCE(MAX(i.invoice_number), 0) INTO next_number FROM public.invoices i;
+
+  FOR target IN
+    SELECT o.id
+    FROM public.orders o
+    WHERE o.id = ANY(p_order_ids)
+      AND o.status IN ('processing', 'completed')
+      AND NOT EXISTS (SELECT 1 FROM public.invoices i WHERE i.order_id = o.id)
+    ORDER BY o.created_at, o.id
+  LOOP
+    next_number := next_number + 1;
+
+    INSERT INTO public.invoices (order_id, invoice_number, issued_by)
+    VALUES (target.id, next_number, auth.uid());
+  END LOOP;
+
+  RETURN QUERY
+  SELECT i.order_id, i.invoice_number, i.issued_at
+  FROM public.invoices i
+  WHERE i.order_id = ANY(p_order_ids);
+END;
+$$;